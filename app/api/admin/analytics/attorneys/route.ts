@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireSuperAdminAuth } from '@/lib/auth/admin-session'
+import { adminRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
+import { errorResponses } from '@/lib/api/api-error-handler'
+import {
+  attorneyMetricsToCsv,
+  getAttorneyMetrics,
+  resolveAttorneyMetricsFilters,
+} from '@/lib/services/attorney-metrics-service'
+
+export const runtime = 'nodejs'
+
+/**
+ * Per-attorney review metrics
+ * GET /api/admin/analytics/attorneys?from=YYYY-MM-DD&to=YYYY-MM-DD&letterType=...&format=csv
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, adminRateLimit, 30, '1 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const authError = await requireSuperAdminAuth()
+    if (authError) return authError
+
+    const searchParams = request.nextUrl.searchParams
+    const resolved = resolveAttorneyMetricsFilters(searchParams)
+    if ('error' in resolved) return errorResponses.validation(resolved.error)
+
+    const metrics = await getAttorneyMetrics(resolved.filters)
+
+    if (searchParams.get('format') === 'csv') {
+      const range = `${resolved.filters.start.slice(0, 10)}_${resolved.filters.end.slice(0, 10)}`
+      return new NextResponse(attorneyMetricsToCsv(metrics), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="attorney-metrics_${range}.csv"`,
+        },
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { filters: resolved.filters, attorneys: metrics },
+      generatedAt: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('[AttorneyMetrics] Error fetching metrics:', error)
+    return errorResponses.serverError('Failed to fetch attorney metrics')
+  }
+}
@@ -2,6 +2,10 @@ import { createClient } from '@/lib/supabase/server'
 import { NextRequest, NextResponse } from 'next/server'
 import { requireSuperAdminAuth } from '@/lib/auth/admin-session'
 import { adminRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
+import { PLAN_CONFIG } from '@/lib/constants'
+import { getAICostSummary, type AIPlanMargin } from '@/lib/services/ai-usage-service'
+import { getReviewSlaSummary } from '@/lib/services/review-sla-service'
+import { getRejectionCodeStats } from '@/lib/services/rejection-code-service'
 
 export async function GET(request: NextRequest) {
   try {
@@ -22,12 +26,18 @@ export async function GET(request: NextRequest) {
       dashboardStats,
       letterStats,
       subscriptionAnalytics,
-      revenueSummary
+      revenueSummary,
+      aiCostSummary,
+      reviewSla,
+      rejections
     ] = await Promise.all([
       supabase.rpc('get_admin_dashboard_stats'),
       supabase.rpc('get_letter_statistics', { days_back: daysBack }),
       supabase.rpc('get_subscription_analytics'),
-      supabase.rpc('get_revenue_summary', { months_back: monthsBack })
+      supabase.rpc('get_revenue_summary', { months_back: monthsBack }),
+      getAICostSummary(daysBack),
+      getReviewSlaSummary(daysBack),
+      getRejectionCodeStats(daysBack)
     ])
 
     if (dashboardStats.error) {
@@ -71,13 +81,31 @@ export async function GET(request: NextRequest) {
       avg_credits_per_user: 0
     }
 
+    // Per-letter revenue of each plan against the average AI cost of a letter
+    const avgAICostPerLetter = Number(aiCostSummary?.totals.avg_cost_per_letter) || 0
+    const planMargins: AIPlanMargin[] = Object.values(PLAN_CONFIG).map(plan => {
+      const revenuePerLetter = plan.price / plan.letters
+      const margin = revenuePerLetter - avgAICostPerLetter
+      return {
+        plan_type: plan.planType,
+        name: plan.name,
+        revenue_per_letter: revenuePerLetter,
+        ai_cost_per_letter: avgAICostPerLetter,
+        margin,
+        margin_percent: revenuePerLetter > 0 ? (margin / revenuePerLetter) * 100 : 0
+      }
+    })
+
     return NextResponse.json({
       success: true,
       data: {
         dashboard,
         letters,
         subscriptions,
-        revenue: revenueSummary.data || []
+        revenue: revenueSummary.data || [],
+        aiCosts: aiCostSummary ? { ...aiCostSummary, plan_margins: planMargins } : null,
+        reviewSla,
+        rejections
       },
       generatedAt: new Date().toISOString()
     })
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSuperAdminAction } from '@/lib/admin/letter-actions'
+import { adminRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
+import { errorResponses } from '@/lib/api/api-error-handler'
+import {
+  ALLOWED_SIGNATURE_TYPES,
+  MAX_SIGNATURE_SIZE,
+  uploadAttorneySignature,
+} from '@/lib/services/attorney-profile-service'
+
+export const runtime = 'nodejs'
+
+/**
+ * Upload the signature drawn on an attorney's approved letters
+ * POST /api/admin/attorneys/[id]/signature
+ * Body: multipart form with a PNG or JPEG "file"
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, adminRateLimit, 10, '1 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const validationError = await validateSuperAdminAction(request)
+    if (validationError) return validationError
+
+    const { id } = await params
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!(file instanceof File)) {
+      return errorResponses.validation('A signature image is required')
+    }
+
+    if (!ALLOWED_SIGNATURE_TYPES.includes(file.type)) {
+      return errorResponses.validation('Signature must be a PNG or JPEG image')
+    }
+
+    if (file.size === 0 || file.size > MAX_SIGNATURE_SIZE) {
+      return errorResponses.validation('Signature must be between 1 byte and 1MB')
+    }
+
+    const signaturePath = await uploadAttorneySignature(id, file)
+    if (!signaturePath) {
+      return errorResponses.notFound('Attorney profile')
+    }
+
+    return NextResponse.json({ success: true, signaturePath })
+  } catch (error) {
+    console.error('[AttorneyProfiles] Error uploading signature:', error)
+    return NextResponse.json({ error: 'Failed to upload signature' }, { status: 500 })
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { requireSuperAdminAuth } from '@/lib/auth/admin-session'
+import { validateSuperAdminAction } from '@/lib/admin/letter-actions'
+import { adminRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
+import { errorResponses } from '@/lib/api/api-error-handler'
+import {
+  listAttorneyProfiles,
+  resolveAttorneyProfileInput,
+  saveAttorneyProfile,
+} from '@/lib/services/attorney-profile-service'
+
+export const runtime = 'nodejs'
+
+/**
+ * Attorney admins with their licensing profiles
+ * GET /api/admin/attorneys
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, adminRateLimit, 60, '1 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const authError = await requireSuperAdminAuth()
+    if (authError) return authError
+
+    return NextResponse.json({ success: true, attorneys: await listAttorneyProfiles() })
+  } catch (error) {
+    console.error('[AttorneyProfiles] Error loading attorneys:', error)
+    return NextResponse.json({ error: 'Failed to load attorneys' }, { status: 500 })
+  }
+}
+
+/**
+ * Save an attorney's profile. The admissions list replaces the stored one, so
+ * removing a state removes that license.
+ * POST /api/admin/attorneys
+ * Body: { attorneyId, firmName?, practiceAreas, isActive, admissions: [{ state, barNumber, isActive? }] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, adminRateLimit, 20, '1 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const validationError = await validateSuperAdminAction(request)
+    if (validationError) return validationError
+
+    const body = await request.json().catch(() => ({}))
+    const attorneyId = typeof body.attorneyId === 'string' ? body.attorneyId : ''
+
+    const supabase = await createClient()
+    const { data: attorney } = attorneyId
+      ? await supabase
+        .from('profiles')
+        .select('id')
+        .eq('id', attorneyId)
+        .eq('role', 'admin')
+        .eq('admin_sub_role', 'attorney_admin')
+        .maybeSingle()
+      : { data: null }
+
+    if (!attorney) {
+      return errorResponses.notFound('Attorney')
+    }
+
+    const resolved = resolveAttorneyProfileInput(body)
+    if ('error' in resolved) {
+      return errorResponses.validation(resolved.error)
+    }
+
+    await saveAttorneyProfile(attorneyId, resolved.input)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[AttorneyProfiles] Error saving profile:', error)
+    return NextResponse.json({ error: 'Failed to save attorney profile' }, { status: 500 })
+  }
+}
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { validateAdminAction, validateSuperAdminAction } from '@/lib/admin/letter-actions'
+import { getAdminSession, requireAttorneyAdminAccess } from '@/lib/auth/admin-session'
+import { adminRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
+import { errorResponses } from '@/lib/api/api-error-handler'
+import {
+  claimLetterReview,
+  releaseLetterReview,
+  reassignLetterReview,
+  getReviewConflict,
+  getReviewWorkload,
+} from '@/lib/services/review-assignment-service'
+import { describeReviewConflict } from '@/lib/admin/review-queue'
+
+export const runtime = 'nodejs'
+
+/**
+ * Review assignment of a letter, plus attorney workloads for super admins
+ * GET /api/admin/letters/[id]/assignment
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authError = await requireAttorneyAdminAccess()
+    if (authError) return authError
+
+    const { id: letterId } = await params
+    const supabase = await createClient()
+    const adminSession = await getAdminSession()
+
+    const { data: letter, error } = await supabase
+      .from('letters')
+      .select(`
+        status,
+        governing_state,
+        assigned_to,
+        assigned_at,
+        review_locked_by,
+        review_lock_expires_at,
+        assignee:profiles!assigned_to (full_name, email),
+        lock_holder:profiles!review_locked_by (full_name, email)
+      `)
+      .eq('id', letterId)
+      .single()
+
+    if (error || !letter) {
+      return NextResponse.json({ error: 'Letter not found' }, { status: 404 })
+    }
+
+    const isSuperAdmin = adminSession?.subRole === 'super_admin'
+
+    return NextResponse.json({
+      assignment: letter,
+      currentAdminId: adminSession?.userId ?? null,
+      canReassign: isSuperAdmin,
+      attorneys: isSuperAdmin ? await getReviewWorkload() : [],
+    })
+  } catch (error) {
+    console.error('[ReviewAssignment] Load error:', error)
+    return NextResponse.json({ error: 'Failed to load assignment' }, { status: 500 })
+  }
+}
+
+/**
+ * Claim, release or reassign a letter awaiting review
+ * POST /api/admin/letters/[id]/assignment
+ * Body: { action: 'claim' | 'release' | 'reassign', attorneyId?: string }
+ *
+ * Claiming again while holding the lock renews it.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, adminRateLimit, 60, '15 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const body = await request.json().catch(() => ({}))
+    const { action, attorneyId } = body as { action?: string; attorneyId?: string }
+
+    const validActions = ['claim', 'release', 'reassign']
+    if (!action || !validActions.includes(action)) {
+      return errorResponses.validation('Invalid action. Must be one of: ' + validActions.join(', '))
+    }
+
+    const validationError = action === 'reassign'
+      ? await validateSuperAdminAction(request)
+      : await validateAdminAction(request)
+    if (validationError) return validationError
+
+    const { id: letterId } = await params
+
+    if (action === 'claim') {
+      const result = await claimLetterReview(letterId)
+
+      if (!result.claimed) {
+        if (result.reason === 'not_reviewable') {
+          return errorResponses.conflict(`Letter is ${result.status?.replace('_', ' ')} and can no longer be claimed`, result)
+        }
+        if (result.reason === 'not_licensed') {
+          return errorResponses.forbidden(`You are not licensed to review letters governed by ${result.state} law`)
+        }
+        const adminSession = await getAdminSession()
+        const conflict = await getReviewConflict(letterId, adminSession?.userId)
+        return errorResponses.conflict(
+          conflict ? describeReviewConflict(conflict) : 'Letter is claimed by another attorney',
+          conflict ?? result
+        )
+      }
+
+      return NextResponse.json({ success: true, ...result })
+    }
+
+    if (action === 'release') {
+      const result = await releaseLetterReview(letterId)
+
+      if (!result.released) {
+        return errorResponses.forbidden('Only the reviewing attorney or a super admin can release this letter')
+      }
+
+      return NextResponse.json({ success: true, ...result })
+    }
+
+    if (typeof attorneyId !== 'string' || !attorneyId) {
+      return errorResponses.validation('attorneyId is required to reassign')
+    }
+
+    const result = await reassignLetterReview(letterId, attorneyId)
+
+    if (!result.reassigned) {
+      if (result.reason === 'not_licensed') {
+        return errorResponses.conflict(`That attorney is inactive or not licensed in ${result.state || 'any state'}`, result)
+      }
+      return errorResponses.conflict(`Letter is ${result.status?.replace('_', ' ')} and can no longer be reassigned`, result)
+    }
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('[ReviewAssignment] Update error:', error)
+    return NextResponse.json({ error: 'Failed to update assignment' }, { status: 500 })
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateAdminAction } from '@/lib/admin/letter-actions'
+import { getAdminSession, requireAttorneyAdminAccess } from '@/lib/auth/admin-session'
+import { adminRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
+import { errorResponses } from '@/lib/api/api-error-handler'
+import { sanitizeString } from '@/lib/security/input-sanitizer'
+import {
+  acknowledgeConflicts,
+  runConflictCheck,
+  MAX_ACKNOWLEDGMENT_NOTES_LENGTH,
+} from '@/lib/services/conflict-check-service'
+import { describeApprovalBlock } from '@/lib/admin/conflict-check'
+
+export const runtime = 'nodejs'
+
+/**
+ * Run the conflict-of-interest check for the current attorney
+ * GET /api/admin/letters/[id]/conflicts
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authError = await requireAttorneyAdminAccess()
+    if (authError) return authError
+
+    const { id: letterId } = await params
+    const adminSession = await getAdminSession()
+    if (!adminSession) return errorResponses.unauthorized()
+
+    const check = await runConflictCheck(letterId, adminSession.userId)
+
+    return NextResponse.json({ check, approvalBlock: describeApprovalBlock(check) })
+  } catch (error) {
+    console.error('[ConflictCheck] Check error:', error)
+    return NextResponse.json({ error: 'Failed to run conflict check' }, { status: 500 })
+  }
+}
+
+/**
+ * Acknowledge the potential conflicts found for the current attorney
+ * POST /api/admin/letters/[id]/conflicts
+ * Body: { notes: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, adminRateLimit, 30, '15 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const validationError = await validateAdminAction(request)
+    if (validationError) return validationError
+
+    const { id: letterId } = await params
+    const adminSession = await getAdminSession()
+    if (!adminSession) return errorResponses.unauthorized()
+
+    const body = await request.json().catch(() => ({}))
+    const notes = sanitizeString(body.notes, MAX_ACKNOWLEDGMENT_NOTES_LENGTH)
+    if (!notes) {
+      return errorResponses.validation('Explain why these conflicts do not prevent you from reviewing the letter')
+    }
+
+    const result = await acknowledgeConflicts(letterId, adminSession.userId, notes)
+    if (result.error !== undefined) return errorResponses.conflict(result.error)
+
+    return NextResponse.json({ check: result.check, approvalBlock: describeApprovalBlock(result.check) })
+  } catch (error) {
+    console.error('[ConflictCheck] Acknowledgment error:', error)
+    return NextResponse.json({ error: 'Failed to acknowledge conflicts' }, { status: 500 })
+  }
+}
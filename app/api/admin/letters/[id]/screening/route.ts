@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { validateAdminAction, updateLetterStatus } from '@/lib/admin/letter-actions'
+import { getAdminSession } from '@/lib/auth/admin-session'
+import { adminRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
+import { sanitizeString } from '@/lib/security/input-sanitizer'
+import type { ContentScreeningResult } from '@/lib/validation/content-screening'
+
+export const runtime = 'nodejs'
+
+/**
+ * Clear the content screening flag after an admin has reviewed the intake
+ * POST /api/admin/letters/[id]/screening
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, adminRateLimit, 30, '15 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const validationError = await validateAdminAction(request)
+    if (validationError) return validationError
+
+    const { id: letterId } = await params
+    const body = await request.json().catch(() => ({}))
+    const notes = sanitizeString(body?.notes, 1000)
+
+    const supabase = await createClient()
+    const { data: letter, error } = await supabase
+      .from('letters')
+      .select('content_flagged, content_screening')
+      .eq('id', letterId)
+      .single()
+
+    if (error || !letter) {
+      return NextResponse.json({ error: 'Letter not found' }, { status: 404 })
+    }
+
+    if (!letter.content_flagged) {
+      return NextResponse.json({ error: 'Letter is not flagged' }, { status: 409 })
+    }
+
+    const adminSession = await getAdminSession()
+    const screening = letter.content_screening as ContentScreeningResult | null
+
+    await updateLetterStatus({
+      letterId,
+      additionalFields: {
+        content_flagged: false,
+        content_screening: {
+          ...screening,
+          review: {
+            clearedBy: adminSession?.userId ?? null,
+            clearedAt: new Date().toISOString(),
+            notes: notes || null,
+          },
+        },
+      },
+      auditAction: 'content_flag_cleared',
+      auditNotes: notes || `Content flag cleared (risk score ${screening?.score ?? 'unknown'})`
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[ContentScreening] Clear flag error:', error)
+    return NextResponse.json({ error: 'Failed to clear content flag' }, { status: 500 })
+  }
+}
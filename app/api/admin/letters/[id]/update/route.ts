@@ -3,6 +3,17 @@ import { NextRequest, NextResponse } from 'next/server'
 import { validateAdminAction, updateLetterStatus, notifyLetterOwner } from '@/lib/admin/letter-actions'
 import { sanitizeReviewData } from '@/lib/admin/letter-actions'
 import { adminRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
+import { errorResponses } from '@/lib/api/api-error-handler'
+import { recordLetterVersion } from '@/lib/services/letter-version-service'
+import { getAdminSession } from '@/lib/auth/admin-session'
+import { getReviewConflict } from '@/lib/services/review-assignment-service'
+import { describeReviewConflict } from '@/lib/admin/review-queue'
+import { getApprovalBlock } from '@/lib/services/conflict-check-service'
+import {
+  buildRejectionGuidance,
+  composeRejectionReason,
+  resolveRejectionCodes,
+} from '@/lib/services/rejection-code-service'
 
 /**
  * Admin letter update endpoint
@@ -26,7 +37,7 @@ export async function POST(
 
     const { id: letterId } = await params
     const body = await request.json()
-    const { action, finalContent, reviewNotes, rejectionReason } = body
+    const { action, finalContent, reviewNotes, rejectionReason, rejectionCodes } = body
 
     // Validate action
     const validActions = ['edit_content', 'approve', 'reject', 'mark_completed']
@@ -37,6 +48,11 @@ export async function POST(
       )
     }
 
+    // Only the attorney holding the review lock (or the assignee) may save
+    const adminSession = await getAdminSession()
+    const conflict = await getReviewConflict(letterId, adminSession?.userId)
+    if (conflict) return errorResponses.conflict(describeReviewConflict(conflict), conflict)
+
     // Build additional fields and audit notes based on action
     let additionalFields: Record<string, unknown> = {}
     let newStatus: string | undefined = undefined
@@ -44,6 +60,7 @@ export async function POST(
     let auditNotes = ''
     let shouldNotify = false
     let emailTemplate: EmailTemplate | null = null
+    let templateData: Record<string, unknown> = {}
 
     switch (action) {
       case 'edit_content': {
@@ -78,6 +95,8 @@ export async function POST(
             { status: 400 }
           )
         }
+        const approvalBlock = await getApprovalBlock(letterId, adminSession?.userId)
+        if (approvalBlock) return errorResponses.conflict(approvalBlock)
         additionalFields = {
           final_content: sanitizeResult.sanitized.finalContent,
           review_notes: sanitizeResult.sanitized.reviewNotes
@@ -91,9 +110,16 @@ export async function POST(
       }
 
       case 'reject': {
+        const resolved = await resolveRejectionCodes(rejectionCodes)
+        if (resolved.error !== undefined) {
+          return NextResponse.json(
+            { error: resolved.error },
+            { status: 400 }
+          )
+        }
         const sanitizeResult = sanitizeReviewData({
           reviewNotes,
-          rejectionReason
+          rejectionReason: composeRejectionReason(resolved.codes, rejectionReason)
         })
         if (!sanitizeResult.valid) {
           return NextResponse.json(
@@ -101,21 +127,20 @@ export async function POST(
             { status: 400 }
           )
         }
-        if (!sanitizeResult.sanitized.rejectionReason?.trim()) {
-          return NextResponse.json(
-            { error: 'Rejection reason is required' },
-            { status: 400 }
-          )
-        }
         additionalFields = {
           review_notes: sanitizeResult.sanitized.reviewNotes,
-          rejection_reason: sanitizeResult.sanitized.rejectionReason
+          rejection_reason: sanitizeResult.sanitized.rejectionReason,
+          rejection_codes: resolved.codes.map(code => code.code)
         }
         newStatus = 'rejected'
         auditAction = 'rejected'
         auditNotes = `Rejection reason: ${sanitizeResult.sanitized.rejectionReason}`
         shouldNotify = true
         emailTemplate = 'letter-rejected'
+        templateData = {
+          rejectionReason: sanitizeResult.sanitized.rejectionReason,
+          rejectionGuidance: buildRejectionGuidance(resolved.codes)
+        }
         break
       }
 
@@ -137,6 +162,16 @@ export async function POST(
       auditNotes
     })
 
+    // Keep the edited / approved text in version history
+    if (typeof additionalFields.final_content === 'string') {
+      await recordLetterVersion(
+        letterId,
+        action === 'approve' ? 'final_approved' : 'attorney_edit',
+        additionalFields.final_content,
+        { notes: auditNotes }
+      )
+    }
+
     // Send notification if needed (non-blocking)
     if (shouldNotify && letter?.user_id) {
       await notifyLetterOwner({
@@ -145,7 +180,7 @@ export async function POST(
         templateName: emailTemplate as EmailTemplate,
         templateData: {
           letterTitle: letter.title || 'Your letter',
-          ...(rejectionReason && { rejectionReason })
+          ...templateData
         }
       }).catch(error => {
         console.error('[Admin] Failed to send notification:', error)
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateAdminAction, updateLetterStatus } from '@/lib/admin/letter-actions'
+import { adminRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
+import { getLetterVersion, recordLetterVersion } from '@/lib/services/letter-version-service'
+import { errorResponses } from '@/lib/api/api-error-handler'
+import { getAdminSession } from '@/lib/auth/admin-session'
+import { getReviewConflict } from '@/lib/services/review-assignment-service'
+import { describeReviewConflict } from '@/lib/admin/review-queue'
+
+export const runtime = 'nodejs'
+
+/**
+ * Restore a prior version as the letter's working content
+ * POST /api/admin/letters/[id]/versions/[versionId]/restore
+ *
+ * The restore itself is appended as a new version so history stays linear
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, adminRateLimit, 10, '15 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const validationError = await validateAdminAction(request)
+    if (validationError) return validationError
+
+    const { id: letterId, versionId } = await params
+
+    // Restoring overwrites the final content, so it respects the review lock like any edit
+    const adminSession = await getAdminSession()
+    const conflict = await getReviewConflict(letterId, adminSession?.userId)
+    if (conflict) return errorResponses.conflict(describeReviewConflict(conflict), conflict)
+
+    const version = await getLetterVersion(letterId, versionId)
+    if (!version) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 })
+    }
+
+    const auditNotes = `Restored content from version ${version.version_number}`
+
+    await updateLetterStatus({
+      letterId,
+      additionalFields: { final_content: version.content },
+      auditAction: 'version_restored',
+      auditNotes
+    })
+
+    const restored = await recordLetterVersion(letterId, 'restored', version.content, {
+      notes: auditNotes,
+      metadata: { restored_from: version.id, restored_version_number: version.version_number }
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: auditNotes,
+      content: version.content,
+      version: restored
+    })
+  } catch (error) {
+    console.error('[LetterVersions] Restore error:', error)
+    return NextResponse.json({ error: 'Failed to restore letter version' }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAttorneyAdminAccess } from '@/lib/auth/admin-session'
+import { adminRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
+import { getLetterVersions } from '@/lib/services/letter-version-service'
+
+export const runtime = 'nodejs'
+
+/**
+ * Letter version history
+ * GET /api/admin/letters/[id]/versions
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, adminRateLimit, 30, '1 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const authError = await requireAttorneyAdminAccess()
+    if (authError) return authError
+
+    const { id: letterId } = await params
+    const versions = await getLetterVersions(letterId)
+
+    return NextResponse.json({ versions })
+  } catch (error) {
+    console.error('[LetterVersions] Fetch error:', error)
+    return NextResponse.json({ error: 'Failed to fetch letter versions' }, { status: 500 })
+  }
+}
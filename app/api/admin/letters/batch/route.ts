@@ -3,6 +3,16 @@ import { NextRequest, NextResponse } from 'next/server'
 import { adminRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
 import { queueTemplateEmail } from '@/lib/email/service'
 import { validateAdminAction } from '@/lib/admin/letter-actions'
+import { getAdminSession } from '@/lib/auth/admin-session'
+import { getApprovalBlock } from '@/lib/services/conflict-check-service'
+import { getReviewConflict } from '@/lib/services/review-assignment-service'
+import { describeReviewConflict } from '@/lib/admin/review-queue'
+import {
+  buildRejectionGuidance,
+  composeRejectionReason,
+  resolveRejectionCodes,
+  type RejectionCode,
+} from '@/lib/services/rejection-code-service'
 
 export const runtime = 'nodejs'
 
@@ -10,6 +20,7 @@ interface BatchOperation {
   letterIds: string[]
   action: 'approve' | 'reject' | 'start_review' | 'complete'
   notes?: string
+  rejectionCodes?: string[]
 }
 
 export async function POST(request: NextRequest) {
@@ -24,7 +35,7 @@ export async function POST(request: NextRequest) {
     if (validationError) return validationError
 
     const body: BatchOperation = await request.json()
-    const { letterIds, action, notes } = body
+    const { letterIds, action, notes, rejectionCodes } = body
 
     if (!letterIds || !Array.isArray(letterIds) || letterIds.length === 0) {
       return NextResponse.json(
@@ -48,7 +59,19 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Batch rejections share one set of rejection codes
+    let codes: RejectionCode[] = []
+    if (action === 'reject') {
+      const resolved = await resolveRejectionCodes(rejectionCodes)
+      if (resolved.error !== undefined) {
+        return NextResponse.json({ error: resolved.error }, { status: 400 })
+      }
+      codes = resolved.codes
+    }
+    const rejectionReason = composeRejectionReason(codes, notes)
+
     const supabase = await createClient()
+    const adminSession = await getAdminSession()
     const results: { id: string; success: boolean; error?: string }[] = []
 
     // Status mapping for each action
@@ -83,6 +106,24 @@ export async function POST(request: NextRequest) {
           continue
         }
 
+        // Letters claimed by another attorney are skipped for decisions
+        if (action === 'approve' || action === 'reject') {
+          const conflict = await getReviewConflict(letterId, adminSession?.userId)
+          if (conflict) {
+            results.push({ id: letterId, success: false, error: describeReviewConflict(conflict) })
+            continue
+          }
+        }
+
+        // Letters with unresolved conflicts of interest are skipped, not approved
+        if (action === 'approve') {
+          const approvalBlock = await getApprovalBlock(letterId, adminSession?.userId)
+          if (approvalBlock) {
+            results.push({ id: letterId, success: false, error: approvalBlock })
+            continue
+          }
+        }
+
         // Update letter status
         const updateData: Record<string, any> = {
           status: newStatus,
@@ -94,8 +135,9 @@ export async function POST(request: NextRequest) {
           updateData.final_content = letter.admin_edited_content || letter.ai_draft_content
         }
 
-        if (action === 'reject' && notes) {
-          updateData.rejection_reason = notes
+        if (action === 'reject') {
+          updateData.rejection_reason = rejectionReason
+          updateData.rejection_codes = codes.map(code => code.code)
         }
 
         const { error: updateError } = await supabase
@@ -127,7 +169,11 @@ export async function POST(request: NextRequest) {
               userName: profile.full_name || 'there',
               letterTitle: letter.title || 'Legal Letter',
               letterLink: `${process.env.NEXT_PUBLIC_APP_URL}/dashboard/letters/${letterId}`,
-              alertMessage: notes
+              alertMessage: notes,
+              ...(action === 'reject' && {
+                rejectionReason,
+                rejectionGuidance: buildRejectionGuidance(codes),
+              })
             })
           } catch (emailError) {
             console.error(`[BatchLetters] Email failed for ${letterId}:`, emailError)
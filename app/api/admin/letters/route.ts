@@ -28,6 +28,8 @@ export async function GET(request: NextRequest) {
         status,
         created_at,
         approved_at,
+        content_flagged,
+        content_screening,
         profiles:user_id (
           full_name,
           email
@@ -40,6 +42,10 @@ export async function GET(request: NextRequest) {
       query = query.eq('status', status)
     }
 
+    if (searchParams.get('flagged') === 'true') {
+      query = query.eq('content_flagged', true)
+    }
+
     const { data: letters, error, count } = await query
 
     if (error) {
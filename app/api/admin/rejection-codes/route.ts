@@ -0,0 +1,109 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAttorneyAdminAccess, isSuperAdmin } from '@/lib/auth/admin-session'
+import { validateSuperAdminAction } from '@/lib/admin/letter-actions'
+import { adminRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
+import { errorResponses } from '@/lib/api/api-error-handler'
+import { sanitizeString } from '@/lib/security/input-sanitizer'
+import { listRejectionCodes } from '@/lib/services/rejection-code-service'
+
+export const runtime = 'nodejs'
+
+interface SaveCodeRequest {
+  code: string
+  label: string
+  description?: string | null
+  userGuidance: string
+  category?: 'rejection' | 'revision'
+  isActive?: boolean
+  sortOrder?: number
+}
+
+const CODE_PATTERN = /^[a-z][a-z0-9_]{1,49}$/
+
+/**
+ * Rejection codes attorneys can choose from
+ * GET /api/admin/rejection-codes
+ * Query: ?includeInactive=true (super admins) also returns retired codes
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, adminRateLimit, 60, '1 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const authError = await requireAttorneyAdminAccess()
+    if (authError) return authError
+
+    const includeInactive = request.nextUrl.searchParams.get('includeInactive') === 'true'
+      && await isSuperAdmin()
+
+    return NextResponse.json({ success: true, codes: await listRejectionCodes({ includeInactive }) })
+  } catch (error) {
+    console.error('[RejectionCodes] Error loading codes:', error)
+    return NextResponse.json({ error: 'Failed to load rejection codes' }, { status: 500 })
+  }
+}
+
+/**
+ * Create or update a rejection code. Codes are retired with isActive=false
+ * rather than deleted so past rejections keep their meaning.
+ * POST /api/admin/rejection-codes
+ * Body: { code, label, description?, userGuidance, category?, isActive?, sortOrder? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, adminRateLimit, 20, '1 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const validationError = await validateSuperAdminAction(request)
+    if (validationError) return validationError
+
+    const body: SaveCodeRequest = await request.json()
+    const code = typeof body.code === 'string' ? body.code.trim() : ''
+    const label = sanitizeString(body.label, 80)
+    const userGuidance = sanitizeString(body.userGuidance, 500)
+    const description = body.description ? sanitizeString(body.description, 500) : null
+    const category = body.category ?? 'revision'
+    const sortOrder = Number(body.sortOrder ?? 100)
+
+    if (!CODE_PATTERN.test(code)) {
+      return errorResponses.validation('code must be 2-50 lowercase letters, digits or underscores')
+    }
+    if (!label) {
+      return errorResponses.validation('label is required')
+    }
+    if (!userGuidance) {
+      return errorResponses.validation('userGuidance is required')
+    }
+    if (category !== 'rejection' && category !== 'revision') {
+      return errorResponses.validation("category must be 'rejection' or 'revision'")
+    }
+    if (!Number.isInteger(sortOrder) || sortOrder < 0 || sortOrder > 10000) {
+      return errorResponses.validation('sortOrder must be a whole number between 0 and 10000')
+    }
+
+    const supabase = await createClient()
+
+    const { data: saved, error } = await supabase
+      .from('rejection_codes')
+      .upsert({
+        code,
+        label,
+        description,
+        user_guidance: userGuidance,
+        category,
+        is_active: body.isActive ?? true,
+        sort_order: sortOrder,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'code' })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json({ success: true, code: saved })
+  } catch (error) {
+    console.error('[RejectionCodes] Error saving code:', error)
+    return NextResponse.json({ error: 'Failed to save rejection code' }, { status: 500 })
+  }
+}
@@ -0,0 +1,141 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { requireSuperAdminAuth, getAdminSession } from '@/lib/auth/admin-session'
+import { validateSuperAdminAction } from '@/lib/admin/letter-actions'
+import { adminRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
+import { errorResponses } from '@/lib/api/api-error-handler'
+import { LETTER_TYPES, SUBSCRIPTION_PLANS } from '@/lib/constants'
+import { listReviewSlaPolicies } from '@/lib/services/review-sla-service'
+
+export const runtime = 'nodejs'
+
+interface SavePolicyRequest {
+  planType?: string | null
+  letterType?: string | null
+  targetHours: number
+  warningPercent?: number
+}
+
+/**
+ * Review SLA targets
+ * GET /api/admin/review-sla/policies
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, adminRateLimit, 30, '1 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const authError = await requireSuperAdminAuth()
+    if (authError) return authError
+
+    return NextResponse.json({ success: true, policies: await listReviewSlaPolicies() })
+  } catch (error) {
+    console.error('[ReviewSLA] Error loading policies:', error)
+    return NextResponse.json({ error: 'Failed to load SLA targets' }, { status: 500 })
+  }
+}
+
+/**
+ * Create or update the target for a plan / letter type scope
+ * POST /api/admin/review-sla/policies
+ * Body: { planType?, letterType?, targetHours, warningPercent? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, adminRateLimit, 10, '1 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const validationError = await validateSuperAdminAction(request)
+    if (validationError) return validationError
+
+    const body: SavePolicyRequest = await request.json()
+    const planType = body.planType || null
+    const letterType = body.letterType || null
+    const targetHours = Number(body.targetHours)
+    const warningPercent = Number(body.warningPercent ?? 75)
+
+    if (planType && !SUBSCRIPTION_PLANS.some(plan => plan.planType === planType)) {
+      return errorResponses.validation('Unknown plan type')
+    }
+    if (letterType && !LETTER_TYPES.some(type => type.value === letterType)) {
+      return errorResponses.validation('Unknown letter type')
+    }
+    if (!Number.isFinite(targetHours) || targetHours <= 0 || targetHours > 720) {
+      return errorResponses.validation('targetHours must be between 0 and 720')
+    }
+    if (!Number.isInteger(warningPercent) || warningPercent < 1 || warningPercent > 99) {
+      return errorResponses.validation('warningPercent must be a whole number between 1 and 99')
+    }
+
+    const supabase = await createClient()
+    const adminSession = await getAdminSession()
+
+    let existingQuery = supabase.from('review_sla_policies').select('id')
+    existingQuery = planType ? existingQuery.eq('plan_type', planType) : existingQuery.is('plan_type', null)
+    existingQuery = letterType ? existingQuery.eq('letter_type', letterType) : existingQuery.is('letter_type', null)
+    const { data: existing } = await existingQuery.maybeSingle()
+
+    const values = {
+      target_hours: targetHours,
+      warning_percent: warningPercent,
+      updated_at: new Date().toISOString(),
+    }
+
+    const { data: policy, error } = existing
+      ? await supabase.from('review_sla_policies').update(values).eq('id', existing.id).select().single()
+      : await supabase
+        .from('review_sla_policies')
+        .insert({ ...values, plan_type: planType, letter_type: letterType, created_by: adminSession?.userId })
+        .select()
+        .single()
+
+    if (error) throw error
+
+    return NextResponse.json({ success: true, policy })
+  } catch (error) {
+    console.error('[ReviewSLA] Error saving policy:', error)
+    return NextResponse.json({ error: 'Failed to save SLA target' }, { status: 500 })
+  }
+}
+
+/**
+ * Remove a scoped target; the default target cannot be removed
+ * DELETE /api/admin/review-sla/policies?id=...
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, adminRateLimit, 10, '1 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const validationError = await validateSuperAdminAction(request)
+    if (validationError) return validationError
+
+    const id = request.nextUrl.searchParams.get('id')
+    if (!id) {
+      return errorResponses.validation('id is required')
+    }
+
+    const supabase = await createClient()
+
+    const { data: policy } = await supabase
+      .from('review_sla_policies')
+      .select('id, plan_type, letter_type')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (!policy) {
+      return errorResponses.notFound('SLA target')
+    }
+    if (!policy.plan_type && !policy.letter_type) {
+      return errorResponses.validation('The default SLA target cannot be removed')
+    }
+
+    const { error } = await supabase.from('review_sla_policies').delete().eq('id', id)
+    if (error) throw error
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[ReviewSLA] Error deleting policy:', error)
+    return NextResponse.json({ error: 'Failed to delete SLA target' }, { status: 500 })
+  }
+}
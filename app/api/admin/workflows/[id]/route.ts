@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAdminSession, requireSuperAdminAuth } from '@/lib/auth/admin-session'
+import { validateSuperAdminAction } from '@/lib/admin/letter-actions'
+import { adminRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
+import { errorResponses } from '@/lib/api/api-error-handler'
+import { sanitizeString } from '@/lib/security/input-sanitizer'
+import { getApprovalBlock } from '@/lib/services/conflict-check-service'
+import {
+  buildRejectionGuidance,
+  composeRejectionReason,
+  resolveRejectionCodes,
+  MAX_REJECTION_NOTES_LENGTH,
+} from '@/lib/services/rejection-code-service'
+import {
+  cancelWorkflowRun,
+  describeUnavailableAction,
+  getWorkflowRun,
+  resumeWorkflowRun,
+  retryWorkflowStep,
+} from '@/lib/services/workflow-ops-service'
+import type { WorkflowOpsAction } from '@/lib/admin/workflow-ops'
+
+export const runtime = 'nodejs'
+
+const ACTIONS: WorkflowOpsAction[] = ['cancel', 'retry', 'resume']
+
+/**
+ * A workflow run with its step history
+ * GET /api/admin/workflows/[id]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, adminRateLimit, 120, '1 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const authError = await requireSuperAdminAuth()
+    if (authError) return authError
+
+    const { id: workflowId } = await params
+    const run = await getWorkflowRun(workflowId)
+    if (!run) return errorResponses.notFound('Workflow')
+
+    return NextResponse.json({ success: true, run })
+  } catch (error) {
+    console.error('[WorkflowOps] Error loading workflow:', error)
+    return NextResponse.json({ error: 'Failed to load workflow' }, { status: 500 })
+  }
+}
+
+/**
+ * Cancel, retry the failed step of, or resume a workflow run
+ * POST /api/admin/workflows/[id]
+ * Body: { action: 'cancel' | 'retry' }
+ *     | { action: 'resume', approved, editedContent?, notes?, reason?, rejectionCodes? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, adminRateLimit, 20, '1 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const validationError = await validateSuperAdminAction(request)
+    if (validationError) return validationError
+
+    const adminSession = await getAdminSession()
+    if (!adminSession) return errorResponses.unauthorized()
+
+    const body = await request.json().catch(() => ({}))
+    const action = body.action as WorkflowOpsAction
+    if (!ACTIONS.includes(action)) {
+      return errorResponses.validation('Action must be cancel, retry or resume')
+    }
+
+    const { id: workflowId } = await params
+    const run = await getWorkflowRun(workflowId)
+    if (!run) return errorResponses.notFound('Workflow')
+
+    const unavailable = describeUnavailableAction(run, action)
+    if (unavailable) return errorResponses.conflict(unavailable)
+
+    if (action === 'cancel') {
+      await cancelWorkflowRun(run, adminSession.userId)
+    } else if (action === 'retry') {
+      await retryWorkflowStep(run, adminSession.userId)
+    } else {
+      if (typeof body.approved !== 'boolean') {
+        return errorResponses.validation('approved must be true or false')
+      }
+
+      const notes = sanitizeString(body.notes || '', MAX_REJECTION_NOTES_LENGTH) || undefined
+
+      if (body.approved) {
+        const approvalBlock = await getApprovalBlock(run.letter_id, adminSession.userId)
+        if (approvalBlock) return errorResponses.conflict(approvalBlock)
+
+        // Without edits, approve the letter as it currently reads
+        let editedContent = typeof body.editedContent === 'string' && body.editedContent.trim()
+          ? body.editedContent
+          : undefined
+        if (!editedContent) {
+          const supabase = await createClient()
+          const { data: letter } = await supabase
+            .from('letters')
+            .select('final_content, ai_draft_content')
+            .eq('id', run.letter_id)
+            .single()
+          editedContent = letter?.final_content || letter?.ai_draft_content || undefined
+        }
+
+        if (!editedContent) {
+          return errorResponses.validation('The letter has no content to approve')
+        }
+
+        await resumeWorkflowRun(run, adminSession.userId, { approved: true, editedContent, notes })
+      } else {
+        const resolved = await resolveRejectionCodes(body.rejectionCodes)
+        if (resolved.error !== undefined) {
+          return errorResponses.validation(resolved.error)
+        }
+
+        const reason = sanitizeString(body.reason || '', MAX_REJECTION_NOTES_LENGTH) || undefined
+        await resumeWorkflowRun(run, adminSession.userId, {
+          approved: false,
+          notes,
+          reason: composeRejectionReason(resolved.codes, reason),
+          rejectionCodes: resolved.codes.map(code => code.code),
+          rejectionGuidance: buildRejectionGuidance(resolved.codes),
+        })
+      }
+    }
+
+    return NextResponse.json({ success: true, run: await getWorkflowRun(workflowId) })
+  } catch (error) {
+    console.error('[WorkflowOps] Error running workflow action:', error)
+    return NextResponse.json({ error: 'Failed to update workflow' }, { status: 500 })
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireSuperAdminAuth } from '@/lib/auth/admin-session'
+import { adminRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
+import { errorResponses } from '@/lib/api/api-error-handler'
+import { WORKFLOW_STATUS_LABELS, type WorkflowRunStatus } from '@/lib/admin/workflow-ops'
+import { listWorkflowRuns } from '@/lib/services/workflow-ops-service'
+
+export const runtime = 'nodejs'
+
+/**
+ * Letter workflow runs, most recent first
+ * GET /api/admin/workflows?status=running|paused|completed|failed|cancelled
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, adminRateLimit, 60, '1 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const authError = await requireSuperAdminAuth()
+    if (authError) return authError
+
+    const status = request.nextUrl.searchParams.get('status')
+    if (status && !(status in WORKFLOW_STATUS_LABELS)) {
+      return errorResponses.validation(`Unknown workflow status: ${status}`)
+    }
+
+    const runs = await listWorkflowRuns(status as WorkflowRunStatus | null)
+
+    return NextResponse.json({ success: true, runs })
+  } catch (error) {
+    console.error('[WorkflowOps] Error loading workflows:', error)
+    return NextResponse.json({ error: 'Failed to load workflows' }, { status: 500 })
+  }
+}
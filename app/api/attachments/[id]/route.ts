@@ -0,0 +1,84 @@
+/**
+ * Single attachment endpoint
+ * GET    /api/attachments/[id] - redirect to a short-lived signed download URL
+ * DELETE /api/attachments/[id] - remove an attachment not yet submitted with a letter
+ *
+ * Owners can access their own attachments; admins can open any attachment
+ * while reviewing a letter.
+ */
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { safeApplyRateLimit, apiRateLimit } from '@/lib/rate-limit-redis'
+import { successResponse, errorResponses, handleApiError } from '@/lib/api/api-error-handler'
+import {
+  createAttachmentDownloadUrl,
+  deleteAttachment,
+  getAccessibleAttachment,
+} from '@/lib/attachments/service'
+
+export const runtime = 'nodejs'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, apiRateLimit, 100, '1 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const { id } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return errorResponses.unauthorized()
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    const attachment = await getAccessibleAttachment(id, {
+      userId: user.id,
+      isAdmin: profile?.role === 'admin',
+    })
+
+    if (!attachment) {
+      return errorResponses.notFound('Attachment')
+    }
+
+    const url = await createAttachmentDownloadUrl(attachment)
+    return NextResponse.redirect(url)
+  } catch (error) {
+    return handleApiError(error, 'AttachmentDownload')
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, apiRateLimit, 100, '1 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const { id } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return errorResponses.unauthorized()
+    }
+
+    const deleted = await deleteAttachment(user.id, id)
+    if (!deleted) {
+      return errorResponses.notFound('Attachment')
+    }
+
+    return successResponse({ success: true })
+  } catch (error) {
+    return handleApiError(error, 'AttachmentDelete')
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Attachment upload endpoint
+ * POST /api/attachments
+ *
+ * Stores an intake document in the private attachments bucket and extracts its
+ * text so it can be used as evidence when the letter is generated.
+ * Expects multipart/form-data with a single "file" field.
+ */
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest } from 'next/server'
+import { safeApplyRateLimit, apiRateLimit } from '@/lib/rate-limit-redis'
+import { successResponse, errorResponses, handleApiError } from '@/lib/api/api-error-handler'
+import {
+  uploadAttachment,
+  ALLOWED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_SIZE,
+} from '@/lib/attachments/service'
+import type { AttachmentUploadResponse } from '@/lib/attachments/types'
+
+export const runtime = 'nodejs'
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, apiRateLimit, 30, '1 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return errorResponses.unauthorized()
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!(file instanceof File)) {
+      return errorResponses.validation('A file is required')
+    }
+
+    if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+      return errorResponses.validation(`File type "${file.type}" is not supported`)
+    }
+
+    if (file.size === 0 || file.size > MAX_ATTACHMENT_SIZE) {
+      return errorResponses.validation('File must be between 1 byte and 10MB')
+    }
+
+    const attachment = await uploadAttachment(user.id, file)
+
+    return successResponse<AttachmentUploadResponse>({
+      id: attachment.id,
+      name: attachment.file_name,
+      type: attachment.mime_type,
+      size: attachment.size_bytes,
+      extractionStatus: attachment.extraction_status,
+    }, 201)
+  } catch (error) {
+    return handleApiError(error, 'AttachmentUpload')
+  }
+}
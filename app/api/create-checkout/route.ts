@@ -4,7 +4,9 @@ import { subscriptionRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redi
 import { validateCouponWithFraudDetection } from '@/lib/fraud-detection/coupon-fraud'
 import { authenticateUser } from '@/lib/auth/authenticate-user'
 import { PLAN_CONFIG } from '@/lib/constants'
+import type Stripe from 'stripe'
 import { createStripeClient } from '@/lib/stripe/client'
+import { withIdempotency } from '@/lib/api/idempotency'
 
 const stripe = createStripeClient()
 
@@ -15,7 +17,34 @@ if (TEST_MODE && process.env.NODE_ENV === 'production') {
   throw new Error('[CRITICAL] Test mode is not allowed in production environment. Set ENABLE_TEST_MODE=false.')
 }
 
-export async function POST(request: NextRequest) {
+/**
+ * One first-invoice coupon per discount percentage, created the first time
+ * it is needed and reused by every later checkout with that discount
+ */
+async function getFirstInvoiceCoupon(client: Stripe, percentOff: number): Promise<Stripe.Coupon> {
+  const couponId = `pct_${String(percentOff).replace('.', '_')}_once`
+
+  try {
+    return await client.coupons.retrieve(couponId)
+  } catch (error) {
+    if ((error as { code?: string }).code !== 'resource_missing') throw error
+  }
+
+  try {
+    return await client.coupons.create({
+      id: couponId,
+      percent_off: percentOff,
+      duration: 'once',
+      name: `${percentOff}% off first payment`,
+    })
+  } catch (error) {
+    // Another checkout created it first
+    if ((error as { code?: string }).code !== 'resource_already_exists') throw error
+    return await client.coupons.retrieve(couponId)
+  }
+}
+
+async function handleCreateCheckout(request: NextRequest) {
   console.log('[Checkout] Request received, TEST_MODE:', TEST_MODE)
 
   try {
@@ -278,38 +307,74 @@ export async function POST(request: NextRequest) {
     // Create Stripe Checkout Session for paid plans
     const origin = request.headers.get('origin') || process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
 
-    const session = await stripe.checkout.sessions.create({
-      mode: 'payment',
-      payment_method_types: ['card'],
-      line_items: [
-        {
-          price_data: {
-            currency: 'usd',
-            product_data: {
-              name: selectedPlan.name,
-              description: `${selectedPlan.letters} Legal ${selectedPlan.letters === 1 ? 'Letter' : 'Letters'}`,
+    const metadata = {
+      user_id: user.id,
+      subscription_id: pendingSubscription.id,
+      plan_type: planType,
+      letters: selectedPlan.letters.toString(),
+      base_price: basePrice.toString(),
+      discount: discountAmount.toString(),
+      final_price: finalPrice.toString(),
+      coupon_code: couponCode || '',
+      employee_id: employeeId || '',
+      coupon_id: couponId || ''
+    }
+    const productData = {
+      name: selectedPlan.name,
+      description: `${selectedPlan.letters} Legal ${selectedPlan.letters === 1 ? 'Letter' : 'Letters'}`,
+    }
+    const successUrl = `${origin}/dashboard/subscription?success=true&session_id={CHECKOUT_SESSION_ID}`
+    const cancelUrl = `${origin}/dashboard/subscription?canceled=true`
+
+    let session: Stripe.Checkout.Session
+
+    if (selectedPlan.billingInterval) {
+      // Recurring plans bill the full price each period; the coupon discount
+      // only applies to the first invoice
+      const firstInvoiceCoupon = discount > 0 ? await getFirstInvoiceCoupon(stripe, discount) : null
+
+      session = await stripe.checkout.sessions.create({
+        mode: 'subscription',
+        payment_method_types: ['card'],
+        line_items: [
+          {
+            price_data: {
+              currency: 'usd',
+              product_data: productData,
+              unit_amount: Math.round(basePrice * 100), // Convert to cents
+              recurring: { interval: selectedPlan.billingInterval },
             },
-            unit_amount: Math.round(finalPrice * 100), // Convert to cents
+            quantity: 1,
           },
-          quantity: 1,
-        },
-      ],
-      success_url: `${origin}/dashboard/subscription?success=true&session_id={CHECKOUT_SESSION_ID}`,
-      cancel_url: `${origin}/dashboard/subscription?canceled=true`,
-      client_reference_id: user.id,
-      metadata: {
-        user_id: user.id,
-        subscription_id: pendingSubscription.id,
-        plan_type: planType,
-        letters: selectedPlan.letters.toString(),
-        base_price: basePrice.toString(),
-        discount: discountAmount.toString(),
-        final_price: finalPrice.toString(),
-        coupon_code: couponCode || '',
-        employee_id: employeeId || '',
-        coupon_id: couponId || ''
-      }
-    })
+        ],
+        ...(firstInvoiceCoupon && { discounts: [{ coupon: firstInvoiceCoupon.id }] }),
+        // Carried onto every invoice so renewals can be matched to the subscription row
+        subscription_data: { metadata },
+        success_url: successUrl,
+        cancel_url: cancelUrl,
+        client_reference_id: user.id,
+        metadata,
+      })
+    } else {
+      session = await stripe.checkout.sessions.create({
+        mode: 'payment',
+        payment_method_types: ['card'],
+        line_items: [
+          {
+            price_data: {
+              currency: 'usd',
+              product_data: productData,
+              unit_amount: Math.round(finalPrice * 100), // Convert to cents
+            },
+            quantity: 1,
+          },
+        ],
+        success_url: successUrl,
+        cancel_url: cancelUrl,
+        client_reference_id: user.id,
+        metadata,
+      })
+    }
 
     return NextResponse.json({
       sessionId: session.id,
@@ -327,3 +392,6 @@ export async function POST(request: NextRequest) {
     )
   }
 }
+
+// A repeated Idempotency-Key returns the first checkout instead of creating another
+export const POST = withIdempotency(handleCreateCheckout)
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { runGenerationRecovery } from '@/lib/services/generation-recovery-service'
+
+export const runtime = 'nodejs'
+
+/**
+ * Cron endpoint for letters stuck in generating
+ *
+ * Regenerates the draft of letters left in 'generating' past
+ * GENERATION_STUCK_MINUTES, or marks them failed and refunds the credit once
+ * GENERATION_RECOVERY_MAX_ATTEMPTS regenerations have failed. The owner is
+ * emailed either way and each run is reported on the detailed health check.
+ * Runs every 10 minutes in vercel.json.
+ *
+ * Authentication:
+ * - Protected by CRON_SECRET environment variable
+ * - Pass secret as ?secret=YOUR_CRON_SECRET or Authorization: Bearer YOUR_CRON_SECRET
+ */
+async function handleRecoverStuckLettersCron(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization')
+    const providedSecret = authHeader?.replace('Bearer ', '') || request.nextUrl.searchParams.get('secret')
+    const expectedSecret = process.env.CRON_SECRET
+
+    if (!expectedSecret) {
+      console.error('[RecoverStuckLettersCron] CRON_SECRET not configured')
+      return NextResponse.json(
+        { error: 'Cron not configured' },
+        { status: 500 }
+      )
+    }
+
+    if (providedSecret !== expectedSecret) {
+      console.error('[RecoverStuckLettersCron] Invalid cron secret')
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const run = await runGenerationRecovery()
+
+    console.log('[RecoverStuckLettersCron] Run complete:', {
+      stuck_found: run.stuck_found,
+      regenerated: run.regenerated,
+      failed: run.failed,
+      refunded: run.refunded,
+    })
+
+    return NextResponse.json({
+      success: !run.error,
+      ...run,
+      timestamp: new Date().toISOString(),
+    }, { status: run.error ? 500 : 200 })
+  } catch (error: any) {
+    console.error('[RecoverStuckLettersCron] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to recover stuck letters',
+        message: error.message,
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Vercel Cron issues GET requests; POST is kept for external schedulers
+export const GET = handleRecoverStuckLettersCron
+export const POST = handleRecoverStuckLettersCron
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { runReviewSlaAlerts } from '@/lib/services/review-sla-service'
+
+/**
+ * Cron endpoint for review SLA reminders and escalations
+ *
+ * Emails the reviewing attorney when a letter nears its review deadline and
+ * super admins once the deadline has passed. Each alert is sent once per
+ * review cycle, so the job can run as often as needed (every 15 minutes in
+ * vercel.json).
+ *
+ * Authentication:
+ * - Protected by CRON_SECRET environment variable
+ * - Pass secret as ?secret=YOUR_CRON_SECRET or Authorization: Bearer YOUR_CRON_SECRET
+ */
+async function handleReviewSlaCron(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization')
+    const providedSecret = authHeader?.replace('Bearer ', '') || request.nextUrl.searchParams.get('secret')
+    const expectedSecret = process.env.CRON_SECRET
+
+    if (!expectedSecret) {
+      console.error('[ReviewSLACron] CRON_SECRET not configured')
+      return NextResponse.json(
+        { error: 'Cron not configured' },
+        { status: 500 }
+      )
+    }
+
+    if (providedSecret !== expectedSecret) {
+      console.error('[ReviewSLACron] Invalid cron secret')
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await runReviewSlaAlerts()
+
+    console.log('[ReviewSLACron] Run complete:', result)
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error: any) {
+    console.error('[ReviewSLACron] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to run review SLA checks',
+        message: error.message,
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Vercel Cron issues GET requests; POST is kept for external schedulers
+export const GET = handleReviewSlaCron
+export const POST = handleReviewSlaCron
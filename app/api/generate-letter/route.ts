@@ -6,23 +6,44 @@
  * - User authentication and authorization
  * - Allowance checking (free trial, paid, super user)
  * - AI generation with retry logic
+ * - Draft quality gate with one automatic regeneration
  * - Audit trail logging
+ * - Idempotency-Key replay of repeated requests
  * - Admin notifications
  */
 import { createClient } from "@/lib/supabase/server"
+import { createServiceClient } from "@/lib/supabase/service"
 import { type NextRequest } from "next/server"
 import { letterGenerationRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
 import { validateLetterGenerationRequest } from '@/lib/validation/letter-schema'
-import { generateTextWithRetry } from '@/lib/ai/openai-retry'
+import { describeScreening } from '@/lib/validation/content-screening'
+import { generateTextWithRetry, buildDraftMetadata } from '@/lib/ai/openai-retry'
+import { hasConfiguredAIProvider } from '@/lib/ai/providers'
+import { DRAFT_SYSTEM_PROMPT, buildLetterPrompt } from '@/lib/ai/letter-prompt'
+import { enforceDraftQuality, type DraftQualityGateResult } from '@/lib/ai/draft-quality-gate'
+import type { AIUsageContext } from '@/lib/services/ai-usage-service'
+import {
+  redactIntakeData,
+  redactEvidence,
+  rehydrateText,
+  formatRedactionInstructions,
+  describeRedaction,
+  type PIIRedaction,
+} from '@/lib/security/pii-redaction'
 import { getAdminEmails } from '@/lib/admin/letter-actions'
 import { queueTemplateEmail } from '@/lib/email/service'
 import { successResponse, errorResponses, handleApiError } from '@/lib/api/api-error-handler'
+import { withIdempotency } from '@/lib/api/idempotency'
 import {
   checkAndDeductAllowance,
   refundLetterAllowance,
   incrementTotalLetters,
 } from '@/lib/services/allowance-service'
+import { recordLetterVersion } from '@/lib/services/letter-version-service'
 import type { LetterGenerationResponse } from '@/lib/types/letter.types'
+import { getAttachmentEvidence, linkAttachmentsToLetter } from '@/lib/attachments/service'
+import type { AttachmentEvidence } from '@/lib/attachments/types'
+import type { JurisdictionRuleSet } from '@/lib/jurisdiction'
 import { createBusinessSpan, createDatabaseSpan, createAISpan, addSpanAttributes, recordSpanEvent } from '@/lib/monitoring/tracing'
 
 export const runtime = "nodejs"
@@ -30,7 +51,7 @@ export const runtime = "nodejs"
 /**
  * Generate a letter using AI
  */
-export async function POST(request: NextRequest) {
+async function handleGenerateLetter(request: NextRequest) {
   const span = createBusinessSpan('generate_letter', {
     'http.method': 'POST',
     'http.route': '/api/generate-letter',
@@ -95,10 +116,15 @@ export async function POST(request: NextRequest) {
 
     const sanitizedLetterType = letterType
     const sanitizedIntakeData = validation.data!
+    const jurisdiction = validation.jurisdiction
+
+    if (validation.warnings.length > 0) {
+      console.warn("[GenerateLetter] Jurisdiction warnings:", validation.warnings)
+    }
 
-    // 5. Check API configuration
-    if (!process.env.OPENAI_API_KEY) {
-      console.error("[GenerateLetter] Missing OPENAI_API_KEY")
+    // 5. Check API configuration (any configured provider can serve the draft)
+    if (!hasConfiguredAIProvider()) {
+      console.error("[GenerateLetter] No AI provider configured")
       return errorResponses.serverError("Server configuration error")
     }
 
@@ -118,13 +144,19 @@ export async function POST(request: NextRequest) {
     const isSuperAdmin = deductionResult.isSuperAdmin
 
     // 7. Create letter record with 'generating' status
-    const { data: newLetter, error: insertError } = await supabase
+    // The service client sets allowance_deducted, which clients cannot write
+    const { data: newLetter, error: insertError } = await createServiceClient()
       .from("letters")
       .insert({
         user_id: user.id,
         letter_type: sanitizedLetterType,
         title: `${sanitizedLetterType} - ${new Date().toLocaleDateString()}`,
         intake_data: sanitizedIntakeData,
+        governing_state: jurisdiction?.state ?? null,
+        jurisdiction_rules: jurisdiction,
+        content_screening: validation.screening,
+        content_flagged: validation.screening?.flagged ?? false,
+        allowance_deducted: !isFreeTrial && !isSuperAdmin,
         status: "generating",
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
@@ -143,50 +175,56 @@ export async function POST(request: NextRequest) {
       return errorResponses.serverError("Failed to create letter record")
     }
 
-    // 9. Generate letter using AI with retry logic
-    try {
-      const generatedContent = await generateLetterContent(
-        sanitizedLetterType,
-        sanitizedIntakeData
+    if (validation.screening?.flagged) {
+      await logLetterAudit(
+        supabase,
+        newLetter.id,
+        'content_flagged',
+        'generating',
+        'generating',
+        describeScreening(validation.screening)
       )
+    }
 
-      // 10. Update letter with generated content
-      const { error: updateError } = await supabase
-        .from("letters")
-        .update({
-          ai_draft_content: generatedContent,
-          status: "pending_review",
-          updated_at: new Date().toISOString(),
-        })
-        .eq("id", newLetter.id)
-
-      if (updateError) {
-        throw updateError
-      }
-
-      // 11. Increment total letters generated
-      await incrementTotalLetters(user.id)
+    // 8. Link uploaded documents and load their extracted text as evidence
+    const attachmentIds = Array.isArray(sanitizedIntakeData.attachments)
+      ? (sanitizedIntakeData.attachments as string[])
+      : []
 
-      // 12. Log audit trail
-      await logLetterAudit(
+    // 9. Generate letter using AI with retry logic
+    try {
+      await linkAttachmentsToLetter(user.id, newLetter.id, attachmentIds)
+      const evidence = await getAttachmentEvidence(user.id, attachmentIds)
+      const draftPrompt = await buildRedactedPrompt(
         supabase,
         newLetter.id,
-        'created',
-        'generating',
-        'pending_review',
-        'Letter generated successfully by AI'
+        sanitizedLetterType,
+        sanitizedIntakeData,
+        evidence,
+        jurisdiction
       )
 
-      // 13. Notify admins
-      await notifyAdminsAboutNewLetter(newLetter.id, newLetter.title, sanitizedLetterType)
+      const { generation, report } = await generateLetterContent(
+        sanitizedLetterType,
+        sanitizedIntakeData,
+        evidence,
+        jurisdiction,
+        { operation: 'draft', letterId: newLetter.id, userId: user.id },
+        draftPrompt
+      )
 
-      // 14. Return success response
+      // 10. Save draft, audit and notify
+      await completeLetterGeneration(supabase, newLetter.id, newLetter.title, user.id, sanitizedLetterType, { generation, report })
+
+      // 11. Return success response
       return successResponse<LetterGenerationResponse>({
         success: true,
         letterId: newLetter.id,
         status: "pending_review",
         isFreeTrial: isFreeTrial,
-        aiDraft: generatedContent,
+        aiDraft: generation.text,
+        warnings: validation.warnings,
+        qualityReport: report,
       })
 
     } catch (generationError: unknown) {
@@ -215,21 +253,30 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// A repeated Idempotency-Key returns the first response instead of creating a second letter
+export const POST = withIdempotency(handleGenerateLetter)
+
 /**
- * Generate letter content using AI with retry logic
+ * Generate letter content using AI with retry logic, then run the quality gate
  */
 async function generateLetterContent(
   letterType: string,
-  intakeData: Record<string, unknown>
-): Promise<string> {
+  intakeData: Record<string, unknown>,
+  evidence: AttachmentEvidence[],
+  jurisdiction: JurisdictionRuleSet | null,
+  tracking: AIUsageContext,
+  draftPrompt: { prompt: string; redaction: PIIRedaction }
+): Promise<DraftQualityGateResult> {
   const span = createAISpan('generateLetterContent', {
     'ai.letter_type': letterType,
     'ai.intake_data_fields': Object.keys(intakeData).length,
+    'ai.evidence_documents': evidence.length,
+    'ai.jurisdiction': jurisdiction?.state ?? 'none',
   })
 
   try {
-    const prompt = buildPrompt(letterType, intakeData)
-    
+    const { prompt, redaction } = draftPrompt
+
     addSpanAttributes({
       'ai.prompt_length': prompt.length,
     })
@@ -242,16 +289,21 @@ async function generateLetterContent(
       prompt_length: prompt.length,
     })
 
-    const { text: generatedContent, attempts, duration } = await generateTextWithRetry({
+    const redactedGeneration = await generateTextWithRetry({
       prompt,
-      system: "You are a professional legal attorney drafting formal legal letters. Always produce professional, legally sound content with proper formatting.",
+      system: DRAFT_SYSTEM_PROMPT,
       temperature: 0.7,
       maxOutputTokens: 2048,
-      model: "gpt-4-turbo"
+      model: "gpt-4-turbo",
+      tracking
     })
+    const generation = { ...redactedGeneration, text: rehydrateText(redactedGeneration.text, redaction) }
 
+    const { text: generatedContent, attempts, duration, provider, model } = generation
     const generationTime = Date.now() - generationStartTime
     console.log(`[GenerateLetter] AI generation completed:`, {
+      provider,
+      model,
       attempts,
       duration,
       generationTime,
@@ -269,6 +321,8 @@ async function generateLetterContent(
     }
 
     addSpanAttributes({
+      'ai.provider': provider,
+      'ai.model_used': model,
       'ai.attempts': attempts,
       'ai.duration_ms': duration,
       'ai.generation_time_ms': generationTime,
@@ -282,8 +336,23 @@ async function generateLetterContent(
       content_length: generatedContent.length,
     })
 
+    const gated = await enforceDraftQuality({
+      generation,
+      intakeData,
+      prompt,
+      system: DRAFT_SYSTEM_PROMPT,
+      model: "gpt-4-turbo",
+      tracking,
+      redaction,
+    })
+
+    addSpanAttributes({
+      'ai.quality_passed': gated.report.passed,
+      'ai.quality_regenerated': gated.report.regenerated,
+    })
+
     span.setStatus({ code: 1 }) // SUCCESS
-    return generatedContent
+    return gated
 
   } catch (error) {
     span.recordException(error as Error)
@@ -297,6 +366,82 @@ async function generateLetterContent(
   }
 }
 
+/**
+ * Build the prompt from redacted intake and documents so names, addresses,
+ * emails and phone numbers never reach the AI provider, and record in the
+ * audit trail which values were masked
+ */
+async function buildRedactedPrompt(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  letterId: string,
+  letterType: string,
+  intakeData: Record<string, unknown>,
+  evidence: AttachmentEvidence[],
+  jurisdiction: JurisdictionRuleSet | null
+): Promise<{ prompt: string; redaction: PIIRedaction }> {
+  const redaction = redactIntakeData(intakeData)
+  const redactedEvidence = redactEvidence(evidence, redaction)
+  const prompt = buildLetterPrompt(
+    letterType,
+    redaction.intakeData,
+    redactedEvidence,
+    jurisdiction,
+    formatRedactionInstructions(redaction)
+  )
+
+  const notes = describeRedaction(redaction)
+  if (notes) {
+    await logLetterAudit(supabase, letterId, 'pii_redacted', 'generating', 'generating', notes)
+  }
+
+  return { prompt, redaction }
+}
+
+/**
+ * Persist the generated draft and run the post-generation bookkeeping
+ */
+async function completeLetterGeneration(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  letterId: string,
+  title: string,
+  userId: string,
+  letterType: string,
+  { generation, report }: DraftQualityGateResult
+) {
+  const { error: updateError } = await supabase
+    .from("letters")
+    .update({
+      ai_draft_content: generation.text,
+      draft_metadata: buildDraftMetadata(generation),
+      quality_report: report,
+      status: "pending_review",
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", letterId)
+
+  if (updateError) {
+    throw updateError
+  }
+
+  await recordLetterVersion(letterId, 'ai_draft', generation.text, {
+    metadata: { provider: generation.provider, model: generation.model },
+    client: createServiceClient(),
+  })
+
+  await incrementTotalLetters(userId)
+
+  await logLetterAudit(
+    supabase,
+    letterId,
+    'created',
+    'generating',
+    'pending_review',
+    'Letter generated successfully by AI'
+  )
+
+  await notifyAdminsAboutNewLetter(letterId, title, letterType)
+}
+
 /**
  * Handle letter generation failure with proper cleanup
  */
@@ -310,6 +455,24 @@ async function handleGenerationFailure(
 ) {
   console.error("[GenerateLetter] Generation failed:", error)
 
+  const errorMessage = error instanceof Error ? error.message : "Unknown error"
+  await markGenerationFailed(supabase, letterId, userId, errorMessage, isFreeTrial, isSuperAdmin)
+
+  return errorResponses.serverError(errorMessage || "AI generation failed")
+}
+
+/**
+ * Mark the letter failed, refund the allowance and record the failure
+ */
+async function markGenerationFailed(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  letterId: string,
+  userId: string,
+  errorMessage: string,
+  isFreeTrial: boolean,
+  isSuperAdmin: boolean
+) {
+
   // Update letter status to failed
   await supabase
     .from("letters")
@@ -325,7 +488,6 @@ async function handleGenerationFailure(
   }
 
   // Log audit trail
-  const errorMessage = error instanceof Error ? error.message : "Unknown error"
   await logLetterAudit(
     supabase,
     letterId,
@@ -334,8 +496,6 @@ async function handleGenerationFailure(
     'failed',
     `Generation failed: ${errorMessage}`
   )
-
-  return errorResponses.serverError(errorMessage || "AI generation failed")
 }
 
 /**
@@ -378,68 +538,3 @@ async function notifyAdminsAboutNewLetter(letterId: string, title: string, lette
     console.error('[GenerateLetter] Failed to queue admin notification:', error)
   })
 }
-
-/**
- * Build AI prompt from letter type and intake data
- */
-function buildPrompt(letterType: string, intakeData: Record<string, unknown>) {
-  const fields = (key: string) => {
-    const value = intakeData[key]
-    if (value === undefined || value === null || value === '') return ''
-    const fieldName = key
-      .replace(/([A-Z])/g, ' $1')
-      .replace(/^./, str => str.toUpperCase())
-      .replace(/_/g, ' ')
-    return `${fieldName}: ${String(value)}`
-  }
-
-  const amountField = intakeData["amountDemanded"]
-    ? `Amount Demanded: $${Number(intakeData["amountDemanded"]).toLocaleString()}`
-    : ""
-
-  const deadlineField = intakeData["deadlineDate"]
-    ? `Deadline: ${intakeData["deadlineDate"]}`
-    : ""
-
-  const incidentDateField = intakeData["incidentDate"]
-    ? `Incident Date: ${intakeData["incidentDate"]}`
-    : ""
-
-  const basePrompt = [
-    `Draft a professional ${letterType} letter with the following details:`,
-    "",
-    "Sender Information:",
-    fields("senderName"),
-    fields("senderAddress"),
-    fields("senderEmail"),
-    fields("senderPhone"),
-    "",
-    "Recipient Information:",
-    fields("recipientName"),
-    fields("recipientAddress"),
-    fields("recipientEmail"),
-    fields("recipientPhone"),
-    "",
-    "Case Details:",
-    fields("issueDescription"),
-    fields("desiredOutcome"),
-    amountField,
-    deadlineField,
-    incidentDateField,
-    fields("additionalDetails"),
-    "",
-    "Requirements:",
-    "- Write a professional, legally sound letter (300-500 words)",
-    "- Include proper date and formal letter format",
-    "- Present facts clearly and objectively",
-    "- State clear demands with specific deadlines (if applicable)",
-    "- Maintain professional legal tone throughout",
-    "- Include proper salutations and closing",
-    "- Format as a complete letter with all standard elements",
-    "- Avoid any legal advice beyond standard letter writing",
-    "",
-    "Important: Only return the letter content itself, no explanations or commentary."
-  ]
-
-  return basePrompt.filter(Boolean).join("\n")
-}
@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import { requireSuperAdminAuth } from '@/lib/auth/admin-session'
 import { getSupabaseServiceKey, getSupabaseUrl } from '@/lib/supabase/keys'
+import {
+  getGenerationRecoveryStatus,
+  type GenerationRecoveryRun,
+} from '@/lib/services/generation-recovery-service'
 
 interface ServiceStatus {
   name: string
@@ -21,6 +25,10 @@ interface HealthCheckResponse {
     storage: boolean
     auth: boolean
   }
+  generationRecovery?: {
+    stuckNow: number
+    lastRuns: GenerationRecoveryRun[]
+  }
 }
 
 const startTime = Date.now()
@@ -170,20 +178,64 @@ async function checkAuth(): Promise<ServiceStatus> {
   }
 }
 
+/**
+ * Stuck-letter recovery job: degraded when its last run failed, or when letters
+ * are stuck and the job has not run in the last half hour
+ */
+async function checkGenerationRecovery(): Promise<{
+  status: ServiceStatus
+  report?: HealthCheckResponse['generationRecovery']
+}> {
+  const start = Date.now()
+  try {
+    const { runs, stuck_now } = await getGenerationRecoveryStatus(5)
+    const responseTime = Date.now() - start
+    const lastRun = runs[0]
+    const lastRunAge = lastRun ? Date.now() - new Date(lastRun.started_at).getTime() : Infinity
+
+    let error: string | undefined
+    if (lastRun?.error) {
+      error = `Last recovery run failed: ${lastRun.error}`
+    } else if (stuck_now > 0 && lastRunAge > 30 * 60 * 1000) {
+      error = `${stuck_now} letter(s) stuck generating and the recovery job has not run in 30 minutes`
+    }
+
+    return {
+      status: {
+        name: 'Letter Generation Recovery',
+        status: error ? 'degraded' : 'healthy',
+        responseTime,
+        error
+      },
+      report: { stuckNow: stuck_now, lastRuns: runs }
+    }
+  } catch (error) {
+    return {
+      status: {
+        name: 'Letter Generation Recovery',
+        status: 'degraded',
+        responseTime: Date.now() - start,
+        error: String(error)
+      }
+    }
+  }
+}
+
 export async function GET(request: NextRequest): Promise<NextResponse<HealthCheckResponse>> {
   // Require System Admin authentication to view detailed health information
   const authError = await requireSuperAdminAuth()
   if (authError) return authError as NextResponse<HealthCheckResponse>
 
   try {
-    const [dbStatus, emailStatus, storageStatus, authStatus] = await Promise.all([
+    const [dbStatus, emailStatus, storageStatus, authStatus, recovery] = await Promise.all([
       checkDatabase(),
       checkEmail(),
       checkStorage(),
-      checkAuth()
+      checkAuth(),
+      checkGenerationRecovery()
     ])
 
-    const services = [dbStatus, emailStatus, storageStatus, authStatus]
+    const services = [dbStatus, emailStatus, storageStatus, authStatus, recovery.status]
     const uptime = Date.now() - startTime
 
     // Determine overall status
@@ -207,7 +259,8 @@ export async function GET(request: NextRequest): Promise<NextResponse<HealthChec
         email: emailStatus.status !== 'unhealthy',
         storage: storageStatus.status === 'healthy',
         auth: authStatus.status === 'healthy'
-      }
+      },
+      generationRecovery: recovery.report
     }
 
     const statusCode =
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { apiRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
+import { errorResponses } from '@/lib/api/api-error-handler'
+import { sanitizeString } from '@/lib/security/input-sanitizer'
+import { authorizeCommentAccess } from '@/lib/comments/access'
+import {
+  MAX_COMMENT_LENGTH,
+  addComment,
+  notifyCommentRecipients,
+  setCommentThreadStatus,
+} from '@/lib/comments/service'
+
+export const runtime = 'nodejs'
+
+async function getThread(letterId: string, threadId: string) {
+  const supabase = await createClient()
+
+  const { data } = await supabase
+    .from('letter_comment_threads')
+    .select('id, quoted_text')
+    .eq('id', threadId)
+    .eq('letter_id', letterId)
+    .maybeSingle()
+
+  return data
+}
+
+/**
+ * Reply to a comment thread
+ * POST /api/letters/[id]/comments/[threadId]
+ * Body: { body: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; threadId: string }> }
+) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, apiRateLimit, 30, '1 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const { id, threadId } = await params
+    const access = await authorizeCommentAccess(request, id, { mutation: true })
+    if (access.error) return access.error
+
+    const { body } = await request.json().catch(() => ({}))
+    const commentBody = sanitizeString(body, MAX_COMMENT_LENGTH)
+
+    if (!commentBody) {
+      return errorResponses.validation('Comment cannot be empty')
+    }
+
+    const thread = await getThread(id, threadId)
+    if (!thread) {
+      return errorResponses.notFound('Comment thread')
+    }
+
+    await addComment(id, threadId, commentBody, access.author)
+
+    notifyCommentRecipients(id, access.author.role, commentBody, thread.quoted_text)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[LetterComments] Reply error:', error)
+    return NextResponse.json({ error: 'Failed to add reply' }, { status: 500 })
+  }
+}
+
+/**
+ * Resolve or reopen a comment thread
+ * PATCH /api/letters/[id]/comments/[threadId]
+ * Body: { status: 'open' | 'resolved' }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; threadId: string }> }
+) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, apiRateLimit, 30, '1 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const { id, threadId } = await params
+    const access = await authorizeCommentAccess(request, id, { mutation: true })
+    if (access.error) return access.error
+
+    const { status } = await request.json().catch(() => ({}))
+    if (status !== 'open' && status !== 'resolved') {
+      return errorResponses.validation("status must be 'open' or 'resolved'")
+    }
+
+    const thread = await getThread(id, threadId)
+    if (!thread) {
+      return errorResponses.notFound('Comment thread')
+    }
+
+    await setCommentThreadStatus(threadId, status, access.author.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[LetterComments] Status error:', error)
+    return NextResponse.json({ error: 'Failed to update comment thread' }, { status: 500 })
+  }
+}
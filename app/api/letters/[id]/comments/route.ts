@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { apiRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
+import { errorResponses } from '@/lib/api/api-error-handler'
+import { sanitizeString } from '@/lib/security/input-sanitizer'
+import { authorizeCommentAccess } from '@/lib/comments/access'
+import { createAnchor } from '@/lib/comments/anchors'
+import {
+  MAX_COMMENT_LENGTH,
+  createCommentThread,
+  getCommentableText,
+  getLetterCommentThreads,
+  notifyCommentRecipients,
+} from '@/lib/comments/service'
+
+export const runtime = 'nodejs'
+
+/**
+ * Comment threads on a letter
+ * GET /api/letters/[id]/comments
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, apiRateLimit, 100, '1 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const { id } = await params
+    const access = await authorizeCommentAccess(request, id, { mutation: false })
+    if (access.error) return access.error
+
+    const threads = await getLetterCommentThreads(id)
+
+    return NextResponse.json({ threads, viewerId: access.author.id, viewerRole: access.author.role })
+  } catch (error) {
+    console.error('[LetterComments] Load error:', error)
+    return NextResponse.json({ error: 'Failed to load comments' }, { status: 500 })
+  }
+}
+
+/**
+ * Start a thread on a passage of the letter
+ * POST /api/letters/[id]/comments
+ * Body: { start: number, end: number, body: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, apiRateLimit, 30, '1 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const { id } = await params
+    const access = await authorizeCommentAccess(request, id, { mutation: true })
+    if (access.error) return access.error
+
+    const { start, end, body } = await request.json().catch(() => ({}))
+    const commentBody = sanitizeString(body, MAX_COMMENT_LENGTH)
+
+    if (!commentBody) {
+      return errorResponses.validation('Comment cannot be empty')
+    }
+
+    const supabase = await createClient()
+    const { data: letter } = await supabase
+      .from('letters')
+      .select('final_content, ai_draft_content')
+      .eq('id', id)
+      .single()
+
+    if (!letter) {
+      return errorResponses.notFound('Letter')
+    }
+
+    // The anchor is built from the stored text, not trusted from the client
+    const anchor = Number.isInteger(start) && Number.isInteger(end)
+      ? createAnchor(getCommentableText(letter), start, end)
+      : null
+
+    if (!anchor) {
+      return errorResponses.validation('Select a passage of the letter to comment on')
+    }
+
+    const threadId = await createCommentThread(id, anchor, commentBody, access.author)
+
+    notifyCommentRecipients(id, access.author.role, commentBody, anchor.quoted_text)
+
+    return NextResponse.json({ success: true, threadId })
+  } catch (error) {
+    console.error('[LetterComments] Create error:', error)
+    return NextResponse.json({ error: 'Failed to add comment' }, { status: 500 })
+  }
+}
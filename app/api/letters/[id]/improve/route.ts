@@ -1,9 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { generateText } from 'ai'
+import { createClient } from '@/lib/supabase/server'
 import { adminRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
 import { validateAdminAction } from '@/lib/admin/letter-actions'
 import { sanitizeString } from '@/lib/security/input-sanitizer'
-import { getOpenAIModel } from '@/lib/ai/openai-client'
+import { generateTextWithRetry } from '@/lib/ai/openai-retry'
+import { hasConfiguredAIProvider } from '@/lib/ai/providers'
+import { recordLetterVersion } from '@/lib/services/letter-version-service'
+import {
+  redactIntakeData,
+  redactText,
+  rehydrateText,
+  formatRedactionInstructions,
+  describeRedaction,
+} from '@/lib/security/pii-redaction'
 
 export async function POST(
   request: NextRequest,
@@ -36,27 +45,64 @@ export async function POST(
       return NextResponse.json({ error: 'Invalid content or instruction' }, { status: 400 })
     }
 
-    if (!process.env.OPENAI_API_KEY) {
-      console.error('[v0] Missing OPENAI_API_KEY')
+    if (!hasConfiguredAIProvider()) {
+      console.error('[v0] No AI provider is configured')
       return NextResponse.json({ error: 'Server configuration error' }, { status: 500 })
     }
 
+    const supabase = await createClient()
+
+    const { data: letter } = await supabase
+      .from('letters')
+      .select('status, intake_data')
+      .eq('id', id)
+      .single()
+
+    if (!letter) {
+      return NextResponse.json({ error: 'Letter not found' }, { status: 404 })
+    }
+
+    // Mask intake PII, and the same values in the letter and instruction, before it reaches the AI provider
+    const redaction = redactIntakeData(letter.intake_data || {})
+    const prompt = buildImprovementPrompt(
+      redactText(sanitizedContent, redaction, 'letter'),
+      redactText(sanitizedInstruction, redaction, 'instruction')
+    )
+
+    const redactionNotes = describeRedaction(redaction)
+    if (redactionNotes) {
+      await supabase.rpc('log_letter_audit', {
+        p_letter_id: id,
+        p_action: 'pii_redacted',
+        p_old_status: letter.status,
+        p_new_status: letter.status,
+        p_notes: redactionNotes,
+      })
+    }
+
     // Call OpenAI API for content improvement using AI SDK
-    const prompt = buildImprovementPrompt(sanitizedContent, sanitizedInstruction)
+    const { text: redactedImprovedContent } = await generateTextWithRetry({
+      model: "gpt-4-turbo",
+      system: `You are a professional legal attorney improving formal legal letters. Always maintain professional legal tone and proper formatting.
 
-    const { text: improvedContent } = await generateText({
-      model: getOpenAIModel("gpt-4-turbo"),
-      system: "You are a professional legal attorney improving formal legal letters. Always maintain professional legal tone and proper formatting.",
+${formatRedactionInstructions(redaction)}`,
       prompt,
       temperature: 0.7,
       maxOutputTokens: 2048,
+      tracking: { operation: 'improve', letterId: id },
     })
 
+    const improvedContent = redactedImprovedContent && rehydrateText(redactedImprovedContent, redaction)
+
     if (!improvedContent) {
       console.error('[v0] OpenAI returned empty content')
       return NextResponse.json({ error: 'AI returned empty content' }, { status: 500 })
     }
 
+    await recordLetterVersion(id, 'ai_improve', improvedContent, {
+      notes: sanitizedInstruction
+    })
+
     return NextResponse.json({ improvedContent }, { status: 200 })
   } catch (error: any) {
     console.error('[v0] Letter improvement error:', error)
@@ -43,9 +43,20 @@ export async function GET(
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
+    // Each completed revision request produces a new version of the PDF
+    const { data: revisions } = await supabase
+      .from('letter_revision_requests')
+      .select('resolved_at')
+      .eq('letter_id', id)
+      .eq('status', 'completed')
+      .order('resolved_at', { ascending: false })
+
+    const revisionNumber = revisions?.length || 0
+    const revisedAt = revisions?.[0]?.resolved_at
+
     const content = letter.final_content || letter.ai_draft_content || ''
     const safeTitle = letter.title?.trim() || 'letter'
-    const fileName = `${safeTitle.replace(/[^a-z0-9]/gi, '_') || 'letter'}.pdf`
+    const fileName = `${safeTitle.replace(/[^a-z0-9]/gi, '_') || 'letter'}${revisionNumber > 0 ? `_rev${revisionNumber}` : ''}.pdf`
 
     // Determine footer text based on reviewer qualification
     let footerReviewText = 'This document has been reviewed and approved for professional formatting and clarity.'
@@ -79,8 +90,16 @@ export async function GET(
       margin + 18,
       { align: 'right' }
     )
+    if (revisionNumber > 0 && revisedAt) {
+      doc.text(
+        `Revision ${revisionNumber}: ${new Date(revisedAt).toLocaleDateString()}`,
+        pageWidth - margin,
+        margin + 36,
+        { align: 'right' }
+      )
+    }
 
-    const bodyYStart = margin + 40
+    const bodyYStart = margin + (revisionNumber > 0 ? 58 : 40)
     const availableWidth = pageWidth - margin * 2
     const bodyLines = doc.splitTextToSize(content || ' ', availableWidth)
     doc.text(bodyLines, margin, bodyYStart, { maxWidth: availableWidth })
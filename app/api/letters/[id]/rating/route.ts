@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { apiRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
+import { errorResponses } from '@/lib/api/api-error-handler'
+import { sanitizeString } from '@/lib/security/input-sanitizer'
+
+export const runtime = 'nodejs'
+
+const MAX_RATING_COMMENT_LENGTH = 1000
+
+/**
+ * The owner's rating of the attorney who approved the letter
+ * GET /api/letters/[id]/rating
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, apiRateLimit, 100, '1 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const { id } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return errorResponses.unauthorized()
+    }
+
+    const { data: rating } = await supabase
+      .from('letter_ratings')
+      .select('rating, comment, updated_at')
+      .eq('letter_id', id)
+      .maybeSingle()
+
+    return NextResponse.json({ rating })
+  } catch (error) {
+    console.error('[LetterRating] Load error:', error)
+    return NextResponse.json({ error: 'Failed to load rating' }, { status: 500 })
+  }
+}
+
+/**
+ * Rate (or re-rate) the attorney's work on an approved letter
+ * POST /api/letters/[id]/rating
+ * Body: { rating: 1-5, comment?: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, apiRateLimit, 10, '1 h')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const { id } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return errorResponses.unauthorized()
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const rating = Number(body.rating)
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      return errorResponses.validation('Rating must be a whole number from 1 to 5')
+    }
+    const comment = body.comment ? sanitizeString(body.comment, MAX_RATING_COMMENT_LENGTH) || null : null
+
+    const { data: letter } = await supabase
+      .from('letters')
+      .select('id, status')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (!letter) {
+      return errorResponses.notFound('Letter')
+    }
+    if (!['approved', 'completed'].includes(letter.status)) {
+      return errorResponses.validation('Only approved letters can be rated')
+    }
+
+    const { data: saved, error } = await supabase
+      .from('letter_ratings')
+      .upsert({ letter_id: id, user_id: user.id, rating, comment }, { onConflict: 'letter_id' })
+      .select('rating, comment, updated_at')
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json({ rating: saved })
+  } catch (error) {
+    console.error('[LetterRating] Save error:', error)
+    return NextResponse.json({ error: 'Failed to save rating' }, { status: 500 })
+  }
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { validateSuperAdminAction } from '@/lib/admin/letter-actions'
+import { getAdminSession, isSuperAdmin } from '@/lib/auth/admin-session'
+import { adminRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
+import { errorResponses } from '@/lib/api/api-error-handler'
+import { generateRedlinePdf } from '@/lib/pdf'
+
+export const runtime = 'nodejs'
+
+const SHARED_STATUSES = ['approved', 'completed']
+
+/**
+ * Redline PDF of the attorney's changes to the AI draft
+ * GET /api/letters/[id]/redline
+ *
+ * Super admins can always download it; the subscriber only once a super admin
+ * has shared it and the letter is approved.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) return errorResponses.unauthorized()
+
+    const { data: letter } = await supabase
+      .from('letters')
+      .select('id, user_id, title, status, ai_draft_content, final_content, reviewed_by, created_at, approved_at, redline_shared_at')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (!letter) return errorResponses.notFound('Letter')
+
+    const superAdmin = await isSuperAdmin()
+    const sharedWithOwner = letter.user_id === user.id
+      && !!letter.redline_shared_at
+      && SHARED_STATUSES.includes(letter.status)
+
+    if (!superAdmin && !sharedWithOwner) {
+      return errorResponses.forbidden('The redline for this letter has not been shared')
+    }
+
+    if (!letter.ai_draft_content || !letter.final_content) {
+      return errorResponses.validation('This letter has no attorney-edited content to compare')
+    }
+
+    // Subscribers cannot read admin profiles
+    let attorneyName: string | undefined
+    if (letter.reviewed_by) {
+      const { data: attorney } = await createServiceClient()
+        .from('profiles')
+        .select('full_name')
+        .eq('id', letter.reviewed_by)
+        .single()
+      attorneyName = attorney?.full_name || undefined
+    }
+
+    const result = generateRedlinePdf({
+      id: letter.id,
+      title: letter.title || 'Legal Letter',
+      originalContent: letter.ai_draft_content,
+      revisedContent: letter.final_content,
+      attorneyName,
+      createdAt: letter.created_at,
+      approvedAt: letter.approved_at || undefined,
+    })
+
+    if (!result.success || !result.buffer) {
+      return errorResponses.serverError('Failed to generate redline PDF')
+    }
+
+    const safeTitle = (letter.title?.trim() || 'letter').replace(/[^a-z0-9]/gi, '_') || 'letter'
+
+    return new NextResponse(new Uint8Array(result.buffer), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${safeTitle}_redline.pdf"`,
+      },
+    })
+  } catch (error) {
+    console.error('[Redline] PDF generation error:', error)
+    return errorResponses.serverError('Failed to generate redline PDF')
+  }
+}
+
+/**
+ * Share or unshare the redline with the subscriber (super admin only)
+ * POST /api/letters/[id]/redline
+ * Body: { shared: boolean }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, adminRateLimit, 30, '15 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const validationError = await validateSuperAdminAction(request)
+    if (validationError) return validationError
+
+    const { id } = await params
+    const body = await request.json().catch(() => ({}))
+    if (typeof body.shared !== 'boolean') {
+      return errorResponses.validation('shared must be true or false')
+    }
+
+    const adminSession = await getAdminSession()
+    const supabase = await createClient()
+
+    const { data: letter, error } = await supabase
+      .from('letters')
+      .update({
+        redline_shared_at: body.shared ? new Date().toISOString() : null,
+        redline_shared_by: body.shared ? adminSession?.userId ?? null : null,
+      })
+      .eq('id', id)
+      .select('status, redline_shared_at')
+      .maybeSingle()
+
+    if (error) throw error
+    if (!letter) return errorResponses.notFound('Letter')
+
+    await supabase.rpc('log_letter_audit', {
+      p_letter_id: id,
+      p_action: body.shared ? 'redline_shared' : 'redline_unshared',
+      p_old_status: letter.status,
+      p_new_status: letter.status,
+      p_notes: body.shared ? 'Redline shared with subscriber' : 'Redline no longer shared with subscriber',
+    })
+
+    return NextResponse.json({ redlineSharedAt: letter.redline_shared_at })
+  } catch (error) {
+    console.error('[Redline] Share error:', error)
+    return errorResponses.serverError('Failed to update redline sharing')
+  }
+}
@@ -1,9 +1,18 @@
 import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
 import { NextRequest, NextResponse } from 'next/server'
-import { generateText } from 'ai'
 import { letterGenerationRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
 import { checkGenerationEligibility, deductLetterAllowance, shouldSkipDeduction } from '@/lib/services/allowance-service'
-import { getOpenAIModel } from '@/lib/ai/openai-client'
+import { generateTextWithRetry } from '@/lib/ai/openai-retry'
+import { recordLetterVersion } from '@/lib/services/letter-version-service'
+import {
+  redactIntakeData,
+  redactText,
+  rehydrateText,
+  formatRedactionInstructions,
+  describeRedaction,
+  type PIIRedaction,
+} from '@/lib/security/pii-redaction'
 
 export async function POST(
   request: NextRequest,
@@ -56,12 +65,15 @@ export async function POST(
       )
     }
 
-    // Update letter status back to generating
-    const { error: updateError } = await supabase
+    // Update letter status back to generating; only the service role may do so.
+    // The credit is taken once the new draft is saved, so there is nothing to
+    // refund if this generation gets stuck.
+    const { error: updateError } = await createServiceClient()
       .from('letters')
       .update({
         status: 'generating',
         rejection_reason: null, // Clear rejection reason
+        allowance_deducted: false,
         updated_at: new Date().toISOString()
       })
       .eq('id', id)
@@ -70,15 +82,30 @@ export async function POST(
 
     try {
       // Regenerate letter with rejection feedback
-      const prompt = buildResubmitPrompt(letter, letter.rejection_reason)
+      // Intake PII is masked in the prompt and restored in the revised letter
+      const redaction = redactIntakeData(letter.intake_data || {})
+      const prompt = buildResubmitPrompt(letter, letter.rejection_reason, redaction)
+
+      const redactionNotes = describeRedaction(redaction)
+      if (redactionNotes) {
+        await supabase.rpc('log_letter_audit', {
+          p_letter_id: id,
+          p_action: 'pii_redacted',
+          p_old_status: 'generating',
+          p_new_status: 'generating',
+          p_notes: redactionNotes,
+        })
+      }
 
-      const { text: generatedContent } = await generateText({
-        model: getOpenAIModel("gpt-4-turbo"),
+      const { text: redactedContent } = await generateTextWithRetry({
+        model: "gpt-4-turbo",
         system: "You are a professional legal attorney revising a formal legal letter based on feedback. Incorporate the rejection feedback to create an improved, professional letter.",
         prompt,
         temperature: 0.7,
         maxOutputTokens: 2048,
+        tracking: { operation: 'resubmit', letterId: id, userId: user.id },
       })
+      const generatedContent = redactedContent && rehydrateText(redactedContent, redaction)
 
       if (!generatedContent) {
         throw new Error("AI returned empty content")
@@ -96,6 +123,11 @@ export async function POST(
 
       if (finalUpdateError) throw finalUpdateError
 
+      await recordLetterVersion(id, 'ai_draft', generatedContent, {
+        notes: 'Regenerated after rejection feedback',
+        client: createServiceClient(),
+      })
+
       // Deduct credit if needed
       if (!shouldSkipDeduction(eligibility)) {
         const deduction = await deductLetterAllowance(user.id)
@@ -163,19 +195,17 @@ export async function POST(
   }
 }
 
-function buildResubmitPrompt(letter: any, rejectionReason: string): string {
-  const intakeData = letter.intake_data || {}
-
+function buildResubmitPrompt(letter: any, rejectionReason: string, redaction: PIIRedaction): string {
   return `Please revise and improve this legal letter based on the rejection feedback:
 
 ORIGINAL LETTER:
-${letter.ai_draft_content}
+${redactText(letter.ai_draft_content, redaction, 'letter')}
 
 REJECTION FEEDBACK:
-${rejectionReason}
+${redactText(rejectionReason, redaction, 'rejection_reason')}
 
 ORIGINAL INTAKE DATA:
-${Object.entries(intakeData).map(([key, value]) => `${key}: ${value}`).join('\n')}
+${Object.entries(redaction.intakeData).map(([key, value]) => `${key}: ${value}`).join('\n')}
 
 Requirements:
 - Address all the points in the rejection feedback
@@ -184,5 +214,7 @@ Requirements:
 - Ensure legal accuracy and effectiveness
 - Format as a complete letter with proper structure
 
-Return ONLY the revised letter content, no additional commentary or explanations.`
+Return ONLY the revised letter content, no additional commentary or explanations.
+
+${formatRedactionInstructions(redaction)}`
 }
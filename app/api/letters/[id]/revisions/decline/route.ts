@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAdminSession } from '@/lib/auth/admin-session'
+import { validateAdminAction } from '@/lib/admin/letter-actions'
+import { adminRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
+import { errorResponses } from '@/lib/api/api-error-handler'
+import { sanitizeString } from '@/lib/security/input-sanitizer'
+import { getReviewConflict } from '@/lib/services/review-assignment-service'
+import { describeReviewConflict } from '@/lib/admin/review-queue'
+import {
+  MAX_REVISION_REQUEST_LENGTH,
+  declineLetterRevision,
+} from '@/lib/services/letter-revision-service'
+
+export const runtime = 'nodejs'
+
+/**
+ * Decline the letter's open revision request
+ * POST /api/letters/[id]/revisions/decline
+ * Body: { reason: string }
+ *
+ * The letter returns to the status and approved text it had before the request.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, adminRateLimit, 10, '15 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const validationError = await validateAdminAction(request)
+    if (validationError) return validationError
+
+    const { id } = await params
+    const { reason } = await request.json().catch(() => ({}))
+    const declineReason = sanitizeString(reason, MAX_REVISION_REQUEST_LENGTH)
+
+    if (!declineReason) {
+      return errorResponses.validation('Explain why the revision is declined')
+    }
+
+    // Only the lock holder / assignee decides the revision
+    const adminSession = await getAdminSession()
+    const conflict = await getReviewConflict(id, adminSession?.userId)
+    if (conflict) return errorResponses.conflict(describeReviewConflict(conflict), conflict)
+
+    const result = await declineLetterRevision(id, declineReason)
+    if (!result.declined) {
+      return errorResponses.conflict('This letter has no open revision request')
+    }
+
+    return NextResponse.json({ success: true, status: result.status })
+  } catch (error) {
+    console.error('[LetterRevisions] Decline error:', error)
+    return errorResponses.serverError('Failed to decline the revision request')
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { apiRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
+import { errorResponses } from '@/lib/api/api-error-handler'
+import { sanitizeString } from '@/lib/security/input-sanitizer'
+import {
+  MAX_REVISION_REQUEST_LENGTH,
+  getLetterRevisionRequests,
+  getRevisionAllowance,
+  notifyRevisionRequested,
+} from '@/lib/services/letter-revision-service'
+
+export const runtime = 'nodejs'
+
+/**
+ * Revision requests on a letter and how many the owner has left
+ * GET /api/letters/[id]/revisions
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, apiRateLimit, 100, '1 m')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const { id } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return errorResponses.unauthorized()
+    }
+
+    // RLS limits this to the owner and admins
+    const { data: letter } = await supabase
+      .from('letters')
+      .select('id, user_id')
+      .eq('id', id)
+      .single()
+
+    if (!letter) {
+      return errorResponses.notFound('Letter')
+    }
+
+    const requests = await getLetterRevisionRequests(id)
+    const allowance = await getRevisionAllowance(letter.user_id, requests)
+
+    return NextResponse.json({ requests, allowance })
+  } catch (error) {
+    console.error('[LetterRevisions] Load error:', error)
+    return NextResponse.json({ error: 'Failed to load revision requests' }, { status: 500 })
+  }
+}
+
+/**
+ * Ask for changes to an approved or completed letter
+ * POST /api/letters/[id]/revisions
+ * Body: { changes: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResponse = await safeApplyRateLimit(request, apiRateLimit, 10, '1 h')
+    if (rateLimitResponse) return rateLimitResponse
+
+    const { id } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return errorResponses.unauthorized()
+    }
+
+    const { changes } = await request.json().catch(() => ({}))
+    const requestedChanges = sanitizeString(changes, MAX_REVISION_REQUEST_LENGTH)
+
+    if (!requestedChanges) {
+      return errorResponses.validation('Describe the changes you would like')
+    }
+
+    // Limit check, request, status change and audit entry happen in one transaction
+    const { data: result, error: rpcError } = await supabase.rpc('request_letter_revision', {
+      p_letter_id: id,
+      p_requested_changes: requestedChanges,
+    })
+
+    if (rpcError) {
+      // Unique index on open requests: another request won the race
+      if (rpcError.code === '23505') {
+        return errorResponses.conflict('A revision request is already open for this letter')
+      }
+      throw rpcError
+    }
+
+    if (!result?.requested) {
+      switch (result?.reason) {
+        case 'not_found':
+          return errorResponses.notFound('Letter')
+        case 'not_revisable':
+          return errorResponses.conflict('Revisions can only be requested on approved or completed letters')
+        case 'already_open':
+          return errorResponses.conflict('A revision request is already open for this letter')
+        case 'limit_reached':
+          return errorResponses.forbidden(
+            `Your plan includes ${result.limit} revision${result.limit === 1 ? '' : 's'} per letter and all have been used`
+          )
+        default:
+          throw new Error(`Unexpected revision request result: ${result?.reason}`)
+      }
+    }
+
+    notifyRevisionRequested(id, requestedChanges)
+
+    return NextResponse.json({
+      success: true,
+      revisionRequestId: result.revision_request_id,
+      status: 'revision_requested',
+      allowance: { limit: result.limit, used: result.used, remaining: Math.max(result.limit - result.used, 0) },
+    })
+  } catch (error) {
+    console.error('[LetterRevisions] Request error:', error)
+    return NextResponse.json({ error: 'Failed to request a revision' }, { status: 500 })
+  }
+}
@@ -4,6 +4,7 @@ import { getEmailService } from '@/lib/email'
 import { generateLetterPdf } from '@/lib/pdf'
 import { apiRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
 import { sanitizeEmail, sanitizeString } from '@/lib/security/input-sanitizer'
+import { loadAttorneyParty } from '@/lib/services/attorney-profile-service'
 
 type LetterRecord = {
   id: string
@@ -14,6 +15,8 @@ type LetterRecord = {
   intake_data: Record<string, unknown> | null
   created_at: string
   approved_at: string | null
+  reviewed_by: string | null
+  governing_state: string | null
   profiles?: {
     full_name?: string | null
     email?: string | null
@@ -93,7 +96,10 @@ export async function POST(
       return NextResponse.json({ error: 'Invalid email address format' }, { status: 400 })
     }
 
-    const parties = extractParties(letter)
+    const parties = {
+      ...extractParties(letter),
+      attorney: await loadAttorneyParty(letter.reviewed_by, letter.governing_state),
+    }
     const content = letter.final_content || letter.ai_draft_content || ''
 
     const pdfResult = generateLetterPdf({
@@ -1,9 +1,15 @@
-import { createClient } from '@/lib/supabase/server'
 import { NextRequest, NextResponse } from 'next/server'
 import { getAdminSession } from '@/lib/auth/admin-session'
 import { validateAdminAction } from '@/lib/admin/letter-actions'
 import { adminRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
-
+import { claimLetterReview, getReviewConflict } from '@/lib/services/review-assignment-service'
+import { describeReviewConflict } from '@/lib/admin/review-queue'
+
+/**
+ * Start (or resume) reviewing a letter by claiming its edit lock
+ * Returns 409 when another attorney holds the lock, the letter is assigned elsewhere
+ * or the admin is not licensed in the letter's governing state
+ */
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -16,39 +22,28 @@ export async function POST(
     if (validationError) return validationError
 
     const { id } = await params
-    const supabase = await createClient()
-    const adminSession = await getAdminSession()
-
-    const { data: letter } = await supabase
-      .from('letters')
-      .select('status')
-      .eq('id', id)
-      .single()
-
-    if (!letter) {
-      return NextResponse.json({ error: 'Letter not found' }, { status: 404 })
+    const result = await claimLetterReview(id)
+
+    if (!result.claimed) {
+      if (result.reason === 'not_reviewable') {
+        return NextResponse.json({ error: 'Letter is not awaiting review' }, { status: 409 })
+      }
+      if (result.reason === 'not_licensed') {
+        return NextResponse.json(
+          { error: `You are not licensed to review letters governed by ${result.state} law` },
+          { status: 409 }
+        )
+      }
+
+      const adminSession = await getAdminSession()
+      const conflict = await getReviewConflict(id, adminSession?.userId)
+      return NextResponse.json(
+        { error: conflict ? describeReviewConflict(conflict) : 'Letter is claimed by another attorney', conflict },
+        { status: 409 }
+      )
     }
 
-    const { error: updateError } = await supabase
-      .from('letters')
-      .update({
-        status: 'under_review',
-        reviewed_by: adminSession?.userId,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', id)
-
-    if (updateError) throw updateError
-
-    await supabase.rpc('log_letter_audit', {
-      p_letter_id: id,
-      p_action: 'review_started',
-      p_old_status: letter.status,
-      p_new_status: 'under_review',
-      p_notes: 'Admin started reviewing the letter'
-    })
-
-    return NextResponse.json({ success: true })
+    return NextResponse.json({ success: true, lockExpiresAt: result.lock_expires_at })
   } catch (error) {
     console.error('[v0] Start review error:', error)
     return NextResponse.json(
@@ -1,9 +1,16 @@
 import { createClient } from "@/lib/supabase/server"
-import { generateText } from "ai"
 import { NextRequest, NextResponse } from "next/server"
 import { adminRateLimit, safeApplyRateLimit } from '@/lib/rate-limit-redis'
 import { validateAdminAction } from '@/lib/admin/letter-actions'
-import { getOpenAIModel } from '@/lib/ai/openai-client'
+import { generateTextWithRetry } from '@/lib/ai/openai-retry'
+import { recordLetterVersion } from '@/lib/services/letter-version-service'
+import {
+  redactIntakeData,
+  redactText,
+  rehydrateText,
+  formatRedactionInstructions,
+  describeRedaction,
+} from '@/lib/security/pii-redaction'
 
 export async function POST(request: NextRequest) {
   try {
@@ -28,7 +35,7 @@ export async function POST(request: NextRequest) {
     // Fetch letter details for context
     const { data: letter, error: letterError } = await supabase
       .from("letters")
-      .select("title, letter_type, intake_data")
+      .select("title, letter_type, status, intake_data")
       .eq("id", letterId)
       .single()
 
@@ -36,9 +43,25 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Letter not found" }, { status: 404 })
     }
 
+    // Mask intake PII, and the same values in the letter itself, before it reaches the AI provider
+    const redaction = redactIntakeData(letter.intake_data || {})
+    const redactedTitle = redactText(letter.title, redaction, 'title')
+    const redactedContent = redactText(content, redaction, 'letter')
+
+    const redactionNotes = describeRedaction(redaction)
+    if (redactionNotes) {
+      await supabase.rpc('log_letter_audit', {
+        p_letter_id: letterId,
+        p_action: 'pii_redacted',
+        p_old_status: letter.status,
+        p_new_status: letter.status,
+        p_notes: redactionNotes,
+      })
+    }
+
     // Improve letter content with AI
-    const { text: improvedContent } = await generateText({
-      model: getOpenAIModel("gpt-4-turbo"),
+    const { text: redactedImprovedContent } = await generateTextWithRetry({
+      model: "gpt-4-turbo",
       system: `You are a professional legal editor. Your task is to improve legal letters while maintaining their core message and legal integrity.
 
       Your improvements should:
@@ -56,11 +79,17 @@ export async function POST(request: NextRequest) {
       - Make promises about legal outcomes
       - Change the letter type or purpose
 
-      Return ONLY the improved letter content, no additional commentary.`,
-      prompt: `Please improve the following legal letter:\n\nLetter Title: ${letter.title}\nLetter Type: ${letter.letter_type}\nContext: ${JSON.stringify(letter.intake_data || {})}\n\nCurrent Content:\n${content}\n\nImproved version:`,
+      Return ONLY the improved letter content, no additional commentary.
+
+      ${formatRedactionInstructions(redaction)}`,
+      prompt: `Please improve the following legal letter:\n\nLetter Title: ${redactedTitle}\nLetter Type: ${letter.letter_type}\nContext: ${JSON.stringify(redaction.intakeData)}\n\nCurrent Content:\n${redactedContent}\n\nImproved version:`,
       temperature: 0.3,
       maxOutputTokens: 4000,
+      tracking: { operation: "improve", letterId },
     })
+    const improvedContent = rehydrateText(redactedImprovedContent, redaction)
+
+    await recordLetterVersion(letterId, "ai_improve", improvedContent)
 
     return NextResponse.json({
       success: true,
@@ -4,6 +4,13 @@ import Stripe from 'stripe'
 import { queueTemplateEmail } from '@/lib/email/service'
 import { createStripeClient } from '@/lib/stripe/client'
 import { getSupabaseServiceKey, getSupabaseUrl } from '@/lib/supabase/keys'
+import {
+  applyFailedInvoice,
+  applyPaidInvoice,
+  linkCheckoutSubscription,
+  notifySubscriber,
+  syncStripeSubscription,
+} from '@/lib/services/subscription-billing-service'
 
 const stripe = createStripeClient()
 
@@ -132,6 +139,9 @@ export async function POST(request: NextRequest) {
           const result = atomicResult[0]
           console.log('[StripeWebhook] Subscription completed atomically:', result.subscription_id)
 
+          // Recurring plans: record the Stripe subscription that bills the renewals
+          await linkCheckoutSubscription(supabase, stripe, session)
+
           // Send commission earned email if commission was created
           if (result.commission_id && employeeId) {
             const { data: employeeProfile } = await supabase
@@ -221,6 +231,46 @@ export async function POST(request: NextRequest) {
         break
       }
 
+      case 'invoice.paid': {
+        const invoice = event.data.object as Stripe.Invoice
+        const result = await applyPaidInvoice(supabase, invoice)
+
+        if (result?.renewed) {
+          console.log('[StripeWebhook] Subscription renewed, allowance reset:', result.subscription.id)
+        }
+        break
+      }
+
+      case 'invoice.payment_failed': {
+        const invoice = event.data.object as Stripe.Invoice
+        const subscription = await applyFailedInvoice(supabase, invoice)
+
+        if (subscription && subscription.status !== 'pending') {
+          console.log('[StripeWebhook] Renewal payment failed:', subscription.id)
+          await notifySubscriber(supabase, subscription, 'payment-failed', {
+            amountDue: invoice.amount_due / 100,
+          })
+        }
+        break
+      }
+
+      case 'customer.subscription.updated': {
+        const stripeSubscription = event.data.object as Stripe.Subscription
+        await syncStripeSubscription(supabase, stripeSubscription)
+        break
+      }
+
+      case 'customer.subscription.deleted': {
+        const stripeSubscription = event.data.object as Stripe.Subscription
+        const subscription = await syncStripeSubscription(supabase, stripeSubscription)
+
+        if (subscription?.status === 'canceled') {
+          console.log('[StripeWebhook] Subscription canceled:', subscription.id)
+          await notifySubscriber(supabase, subscription, 'subscription-cancelled')
+        }
+        break
+      }
+
       default: {
         console.log(`[StripeWebhook] Unhandled event type: ${event.type}`)
       }
@@ -33,7 +33,7 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Call reset_monthly_allowances function
+    // Call reset_monthly_allowances function (monthly Stripe-billed plans reset on renewal instead)
     const supabase = await createClient();
     const { error } = await supabase.rpc('reset_monthly_allowances');
 
@@ -12,6 +12,16 @@ import { resumeWorkflow } from "workflow/next"
 import { requireAdminAuth } from "@/lib/auth/admin-guard"
 import { successResponse, errorResponses, handleApiError } from "@/lib/api/api-error-handler"
 import { validateCsrfToken } from "@/lib/security/csrf"
+import { createClient } from "@/lib/supabase/server"
+import { getAdminSession } from "@/lib/auth/admin-session"
+import { getReviewConflict } from "@/lib/services/review-assignment-service"
+import { describeReviewConflict } from "@/lib/admin/review-queue"
+import { getApprovalBlock } from "@/lib/services/conflict-check-service"
+import {
+  buildRejectionGuidance,
+  composeRejectionReason,
+  resolveRejectionCodes,
+} from "@/lib/services/rejection-code-service"
 import { z } from "zod"
 
 export const runtime = "nodejs"
@@ -23,6 +33,7 @@ const resumeSchema = z.object({
   editedContent: z.string().optional(),
   notes: z.string().optional(),
   reason: z.string().optional(),
+  rejectionCodes: z.array(z.string()).optional(),
   csrfToken: z.string(),
 })
 
@@ -46,7 +57,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { workflowId, approved, editedContent, notes, reason, csrfToken } = validation.data
+    const { workflowId, approved, editedContent, notes, reason, rejectionCodes, csrfToken } = validation.data
 
     // 3. CSRF protection (critical for state-changing admin actions)
     const isCsrfValid = await validateCsrfToken(csrfToken)
@@ -54,7 +65,41 @@ export async function POST(request: NextRequest) {
       return errorResponses.forbidden("Invalid CSRF token")
     }
 
-    // 4. Resume the workflow with approval decision
+    // 4. Only the attorney holding the review lock (or the assignee) may decide
+    const supabase = await createClient()
+    const { data: letter } = await supabase
+      .from("letters")
+      .select("id")
+      .eq("workflow_id", workflowId)
+      .maybeSingle()
+
+    if (letter) {
+      const adminSession = await getAdminSession()
+      const conflict = await getReviewConflict(letter.id, adminSession?.userId)
+      if (conflict) return errorResponses.conflict(describeReviewConflict(conflict), conflict)
+
+      // Approval needs a clear (or acknowledged) conflict-of-interest check
+      if (approved) {
+        const approvalBlock = await getApprovalBlock(letter.id, adminSession?.userId)
+        if (approvalBlock) return errorResponses.conflict(approvalBlock)
+      }
+    }
+
+    // 5. Rejections need at least one managed rejection code
+    let rejection: { reason: string; codes: string[]; guidance: Array<{ label: string; guidance: string }> } | undefined
+    if (!approved) {
+      const resolved = await resolveRejectionCodes(rejectionCodes)
+      if (resolved.error !== undefined) {
+        return errorResponses.validation(resolved.error)
+      }
+      rejection = {
+        reason: composeRejectionReason(resolved.codes, reason),
+        codes: resolved.codes.map(code => code.code),
+        guidance: buildRejectionGuidance(resolved.codes),
+      }
+    }
+
+    // 6. Resume the workflow with approval decision
     console.log(`[ResumeWorkflow] Resuming workflow ${workflowId}`)
 
     await resumeWorkflow(workflowId, "attorney-approval", {
@@ -62,7 +107,9 @@ export async function POST(request: NextRequest) {
       attorneyId: adminAuth.data.admin.id,
       editedContent,
       notes,
-      reason,
+      reason: rejection?.reason ?? reason,
+      rejectionCodes: rejection?.codes,
+      rejectionGuidance: rejection?.guidance,
     })
 
     console.log(`[ResumeWorkflow] Workflow resumed: ${approved ? 'approved' : 'rejected'}`)
@@ -10,6 +10,7 @@ import { NextRequest } from "next/server"
 import { createClient } from "@/lib/supabase/server"
 import { safeApplyRateLimit, letterGenerationRateLimit } from "@/lib/rate-limit-redis"
 import { successResponse, errorResponses, handleApiError } from "@/lib/api/api-error-handler"
+import { withIdempotency } from "@/lib/api/idempotency"
 import { validateLetterGenerationRequest } from "@/lib/validation/letter-schema"
 import { generateLetterWorkflow } from "@/app/workflows/letter-generation.workflow"
 import { runWorkflow } from "workflow/next"
@@ -19,7 +20,7 @@ export const runtime = "nodejs"
 /**
  * Start a new letter generation workflow
  */
-export async function POST(request: NextRequest) {
+async function handleTriggerWorkflow(request: NextRequest) {
   try {
     // 1. Rate limiting
     const rateLimitResponse = await safeApplyRateLimit(
@@ -59,10 +60,16 @@ export async function POST(request: NextRequest) {
     // 5. Start the workflow
     console.log('[TriggerWorkflow] Starting letter generation workflow')
 
+    // The letter ID is assigned here so the client can follow the draft as it streams
+    const letterId = crypto.randomUUID()
+
     const workflowRun = await runWorkflow(generateLetterWorkflow, {
       userId: user.id,
+      letterId,
       letterType,
       intakeData: validation.data!,
+      jurisdictionRules: validation.jurisdiction,
+      contentScreening: validation.screening,
       recipientInfo,
       title,
     })
@@ -71,11 +78,16 @@ export async function POST(request: NextRequest) {
 
     return successResponse({
       workflowId: workflowRun.id,
+      letterId,
       message: "Letter generation started",
       status: "processing",
+      warnings: validation.warnings,
     })
 
   } catch (error) {
     return handleApiError(error, "TriggerWorkflow")
   }
 }
+
+// A repeated Idempotency-Key returns the first run instead of starting another
+export const POST = withIdempotency(handleTriggerWorkflow)
@@ -5,9 +5,17 @@ import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { ArrowLeft, User, Mail, Phone, Building, FileText, Calendar, Clock, LogOut, Scale } from 'lucide-react'
+import { ArrowLeft, User, Mail, Phone, Building, FileText, Calendar, Clock, PenLine, LogOut, Scale } from 'lucide-react'
 import { format } from 'date-fns'
 import { ReviewLetterModal } from '@/components/review-letter-modal'
+import { LetterAttachmentsPanel } from '@/components/admin/letter-attachments-panel'
+import { JurisdictionRulesCard } from '@/components/admin/jurisdiction-rules-card'
+import { DraftQualityChecklist } from '@/components/admin/draft-quality-checklist'
+import { ReviewAssignmentPanel } from '@/components/admin/review-assignment-panel'
+import { ConflictCheckPanel } from '@/components/admin/conflict-check-panel'
+import { LetterComments } from '@/components/letter-comments'
+import { getLetterAttachments } from '@/lib/attachments/service'
+import { getLetterRevisionRequests } from '@/lib/services/letter-revision-service'
 
 export default async function AttorneyReviewLetterDetailPage({ params }: { params: { id: string } }) {
   // Verify admin authentication
@@ -53,10 +61,18 @@ export default async function AttorneyReviewLetterDetailPage({ params }: { param
     .eq('letter_id', id)
     .order('created_at', { ascending: false })
 
+  // Supporting documents uploaded with the intake
+  const attachments = await getLetterAttachments(id)
+
+  // Changes the subscriber asked for on the approved letter
+  const revisionRequests = await getLetterRevisionRequests(id)
+  const openRevision = revisionRequests.find(request => request.status === 'open')
+
   const statusColors: Record<string, string> = {
     'draft': 'bg-gray-100 text-gray-800',
     'generating': 'bg-blue-100 text-blue-800',
     'pending_review': 'bg-yellow-100 text-yellow-800',
+    'revision_requested': 'bg-purple-100 text-purple-800',
     'under_review': 'bg-blue-100 text-blue-800',
     'approved': 'bg-green-100 text-green-800',
     'rejected': 'bg-red-100 text-red-800',
@@ -106,6 +122,31 @@ export default async function AttorneyReviewLetterDetailPage({ params }: { param
         <ReviewLetterModal letter={letter} />
       </div>
 
+      {/* Assignment and edit lock */}
+      <ReviewAssignmentPanel letterId={letter.id} />
+
+      {/* Conflicts of interest */}
+      <ConflictCheckPanel letterId={letter.id} letterPathPrefix="/attorney-portal/review" />
+
+      {openRevision && (
+        <Card className="border-purple-300 bg-purple-50/50">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <PenLine className="w-5 h-5" />
+              Revision Requested
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              Requested {format(new Date(openRevision.created_at), 'MMM d, yyyy h:mm a')}
+              {revisionRequests.length > 1 && ` · revision ${revisionRequests.length} for this letter`}.
+              Approving the letter sends the subscriber the revised version; declining restores the approved letter.
+            </p>
+            <p className="text-sm whitespace-pre-wrap bg-background border rounded-lg p-3">{openRevision.requested_changes}</p>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Subscriber Information */}
       <Card>
         <CardHeader>
@@ -195,16 +236,25 @@ export default async function AttorneyReviewLetterDetailPage({ params }: { param
         </CardContent>
       </Card>
 
+      {/* Automated checks run on the AI draft */}
+      <DraftQualityChecklist report={letter.quality_report} />
+
+      {/* Jurisdiction rules applied at generation */}
+      <JurisdictionRulesCard ruleSet={letter.jurisdiction_rules} />
+
       {/* AI Generated Draft */}
       <Card>
         <CardHeader>
           <CardTitle>AI Generated Draft</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="bg-muted/30 p-6 rounded-lg border">
-            <pre className="whitespace-pre-wrap text-sm font-mono leading-relaxed">
-              {letter.ai_draft_content || 'No draft content available.'}
-            </pre>
+          <div className={attachments.length > 0 ? 'grid gap-4 lg:grid-cols-3' : ''}>
+            <div className="bg-muted/30 p-6 rounded-lg border lg:col-span-2">
+              <pre className="whitespace-pre-wrap text-sm font-mono leading-relaxed">
+                {letter.ai_draft_content || 'No draft content available.'}
+              </pre>
+            </div>
+            {attachments.length > 0 && <LetterAttachmentsPanel attachments={attachments} />}
           </div>
         </CardContent>
       </Card>
@@ -230,6 +280,20 @@ export default async function AttorneyReviewLetterDetailPage({ params }: { param
         </Card>
       )}
 
+      {/* Comment threads anchored to passages of the current text */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Comments</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <LetterComments
+            letterId={letter.id}
+            content={letter.final_content || letter.ai_draft_content || null}
+            adminMode
+          />
+        </CardContent>
+      </Card>
+
       {/* Review Notes */}
       {letter.review_notes && (
         <Card>
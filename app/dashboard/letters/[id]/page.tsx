@@ -7,6 +7,10 @@ import { format } from 'date-fns'
 import Link from 'next/link'
 import { LetterActions } from '@/components/letter-actions'
 import { GenerationTrackerModal, type LetterStatus } from '@/components/generation-tracker-modal'
+import { LetterComments } from '@/components/letter-comments'
+import { LetterRevisionRequest } from '@/components/letter-revision-request'
+import { LetterRating } from '@/components/letter-rating'
+import { LiveLetterRefresh } from '@/components/live-letter-refresh'
 
 export default async function LetterDetailPage({
   params,
@@ -35,10 +39,19 @@ export default async function LetterDetailPage({
     redirect('/dashboard/letters')
   }
 
+  const { data: rejectionCodes } = letter.status === 'rejected' && letter.rejection_codes?.length
+    ? await supabase
+      .from('rejection_codes')
+      .select('code, label, user_guidance, sort_order')
+      .in('code', letter.rejection_codes)
+      .order('sort_order', { ascending: true })
+    : { data: null }
+
   const statusColors: Record<string, string> = {
     'draft': 'bg-muted text-muted-foreground',
     'pending_review': 'bg-warning/10 text-warning',
     'approved': 'bg-success/10 text-success',
+    'revision_requested': 'bg-primary/10 text-primary',
     'rejected': 'bg-destructive/10 text-destructive'
   }
 
@@ -50,14 +63,16 @@ export default async function LetterDetailPage({
       description: format(new Date(letter.created_at), 'MMM d, yyyy h:mm a')
     },
     {
-      label: 'Under Attorney Review',
-      status: ['pending_review', 'under_review'].includes(letter.status) 
+      label: letter.status === 'revision_requested' ? 'Revision Requested' : 'Under Attorney Review',
+      status: ['pending_review', 'revision_requested', 'under_review'].includes(letter.status) 
         ? 'active' 
         : (['approved', 'rejected'].includes(letter.status) ? 'completed' : 'pending'),
-      icon: ['pending_review', 'under_review'].includes(letter.status) ? '⏳' : '✓',
+      icon: ['pending_review', 'revision_requested', 'under_review'].includes(letter.status) ? '⏳' : '✓',
       description: letter.status === 'under_review' 
         ? 'Attorney is currently reviewing your letter' 
-        : (letter.status === 'pending_review' ? 'Waiting for attorney review' : 'Review completed')
+        : (letter.status === 'pending_review'
+          ? 'Waiting for attorney review'
+          : (letter.status === 'revision_requested' ? 'Waiting for your attorney to revise the letter' : 'Review completed'))
     },
     {
       label: letter.status === 'rejected' ? 'Rejected' : 'Approved',
@@ -88,6 +103,11 @@ export default async function LetterDetailPage({
         letterId={letter.id}
         initialStatus={letter.status as LetterStatus}
       />
+      <LiveLetterRefresh
+        channel={`letter:${letter.id}`}
+        letters={[{ id: letter.id, status: letter.status }]}
+        filter={`id=eq.${letter.id}`}
+      />
       <div className="max-w-4xl mx-auto">
         <div className="mb-6">
           <Link href="/dashboard/letters" className="text-primary hover:text-primary/80 text-sm flex items-center gap-1 mb-4">
@@ -183,6 +203,18 @@ export default async function LetterDetailPage({
                 <div>
                   <h3 className="font-semibold text-destructive">Rejected</h3>
                   <p className="text-sm text-destructive/80 mt-1">{letter.rejection_reason}</p>
+                  {rejectionCodes && rejectionCodes.length > 0 && (
+                    <div className="mt-3">
+                      <p className="text-sm font-medium text-destructive">What to do next</p>
+                      <ul className="list-disc pl-5 mt-1 space-y-1 text-sm text-destructive/80">
+                        {rejectionCodes.map((code) => (
+                          <li key={code.code}>
+                            <span className="font-medium">{code.label}:</span> {code.user_guidance}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -231,11 +263,55 @@ export default async function LetterDetailPage({
                 <h2 className="text-lg font-semibold">Final Letter</h2>
                 <span className="text-xs text-primary font-medium">Approved</span>
               </div>
+              {letter.redline_shared_at && letter.ai_draft_content && (
+                <a
+                  href={`/api/letters/${letter.id}/redline`}
+                  className="text-sm text-primary hover:text-primary/80 inline-flex items-center gap-1"
+                >
+                  Download redline of your attorney&apos;s changes
+                </a>
+              )}
               <div className="bg-muted/40 border rounded-lg p-4">
                 <pre className="whitespace-pre-wrap text-sm leading-relaxed">{letter.final_content}</pre>
               </div>
             </div>
           )}
+
+          {/* Rating of the attorney's review */}
+          {letter.user_id === profile.id && ['approved', 'completed'].includes(letter.status) && (
+            <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+              <div>
+                <h2 className="text-lg font-semibold">Rate Your Attorney Review</h2>
+                <p className="text-sm text-muted-foreground">How satisfied are you with the approved letter?</p>
+              </div>
+              <LetterRating letterId={letter.id} />
+            </div>
+          )}
+
+          {/* Revision requests on the approved letter */}
+          {letter.user_id === profile.id && ['approved', 'completed', 'revision_requested'].includes(letter.status) && (
+            <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+              <div>
+                <h2 className="text-lg font-semibold">Revisions</h2>
+                <p className="text-sm text-muted-foreground">Ask your attorney to change the approved letter</p>
+              </div>
+              <LetterRevisionRequest letterId={letter.id} status={letter.status} />
+            </div>
+          )}
+
+          {/* Comment threads with the reviewing attorney; the text is commentable once it is visible */}
+          {letter.user_id === profile.id && (
+            <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+              <div>
+                <h2 className="text-lg font-semibold">Comments</h2>
+                <p className="text-sm text-muted-foreground">Questions and feedback on specific passages of your letter</p>
+              </div>
+              <LetterComments
+                letterId={letter.id}
+                content={letter.status === 'approved' ? (letter.final_content || letter.ai_draft_content || null) : null}
+              />
+            </div>
+          )}
         </div>
       </div>
     </DashboardLayout>
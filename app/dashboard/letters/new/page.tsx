@@ -2,16 +2,22 @@
 
 import type React from "react"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo, useRef } from "react"
 import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
-import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { Textarea } from "@/components/ui/textarea"
 import { SubscriptionModal } from "@/components/subscription-modal"
 import { GenerateButton } from "@/components/generate-button"
 import { GenerationTrackerModal, type LetterStatus } from "@/components/generation-tracker-modal"
 import { FileUpload, type UploadedFile } from "@/components/ui/file-upload"
+import { IntakeFormFields } from "@/components/intake-form-fields"
+import { getJurisdictionRules, checkDeadlineAgainstRules } from "@/lib/jurisdiction"
+import {
+  getVisibleIntakeFields,
+  validateIntakeFields,
+  buildIntakePayload,
+  MAX_INTAKE_ATTACHMENTS,
+} from "@/lib/validation/intake-fields"
 import { createClient } from "@/lib/supabase/client"
 
 const LETTER_TYPES = [
@@ -92,24 +98,39 @@ export default function NewLetterPage() {
   const [isChecking, setIsChecking] = useState(true)
   const [showTrackerModal, setShowTrackerModal] = useState(false)
   const [trackerStatus, setTrackerStatus] = useState<LetterStatus>("generating")
-  const [formData, setFormData] = useState({
-    senderName: "",
-    senderAddress: "",
-    recipientName: "",
-    recipientAddress: "",
-    issueDescription: "",
-    desiredOutcome: "",
-    amountDemanded: "",
-    deadlineDate: "",
-    incidentDate: "",
-    supportingDocuments: "",
-  })
+  // Values keyed by field name; the fields themselves come from the letter type's definition
+  const [formData, setFormData] = useState<Record<string, string>>({})
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([])
+  // Idempotency key of the last submission; resending the same letter reuses it so
+  // a double-click or retry cannot start a second generation
+  const submissionRef = useRef<{ key: string; body: string } | null>(null)
 
   useEffect(() => {
     checkSubscription()
   }, [])
 
+  // Same deadline check the server runs; shown early so users can adjust the date
+  const jurisdictionWarnings = useMemo(() => {
+    if (!selectedType || !formData.governingState) return []
+    const rules = getJurisdictionRules(formData.governingState, selectedType)
+    return rules ? checkDeadlineAgainstRules(rules, formData.deadlineDate || undefined) : []
+  }, [selectedType, formData.governingState, formData.deadlineDate])
+
+  const visibleFields = useMemo(
+    () => (selectedType ? getVisibleIntakeFields(selectedType, formData) : []),
+    [selectedType, formData]
+  )
+
+  const handleFieldChange = (name: string, value: string) => {
+    setFormData(prev => ({ ...prev, [name]: value }))
+    setFieldErrors(prev => {
+      if (!prev[name]) return prev
+      const { [name]: _cleared, ...rest } = prev
+      return rest
+    })
+  }
+
   const checkSubscription = async () => {
     setIsChecking(true)
     try {
@@ -170,45 +191,46 @@ export default function NewLetterPage() {
       return
     }
 
+    // Party, case and document fields are checked against the same definition the server uses
+    const attachmentIds = uploadedFiles
+      .filter(f => f.status === "success" && f.attachmentId)
+      .map(f => f.attachmentId as string)
+
+    const intakeData = {
+      ...buildIntakePayload(selectedType, formData),
+      attachments: attachmentIds.length > 0 ? attachmentIds : undefined,
+    }
+
+    const errors = validateIntakeFields(selectedType, intakeData)
+    setFieldErrors(Object.fromEntries(errors.map(error => [error.field, error.message])))
+    if (errors.length > 0) {
+      setError("Please correct the highlighted fields")
+      return
+    }
+
     setLoading(true)
     setError(null)
     setShowTrackerModal(true)
     setTrackerStatus("generating")
 
     try {
-      // Prepare uploaded files data for the API
-      const attachedFiles = uploadedFiles
-        .filter(f => f.status === "success")
-        .map(f => ({
-          name: f.name,
-          type: f.type,
-          size: f.size,
-          url: f.url || undefined,
-        }))
-
-      const intakeData = {
-        senderName: formData.senderName,
-        senderAddress: formData.senderAddress,
-        recipientName: formData.recipientName,
-        recipientAddress: formData.recipientAddress,
-        issueDescription: formData.issueDescription,
-        desiredOutcome: formData.desiredOutcome,
-        amountDemanded: formData.amountDemanded ? Number(formData.amountDemanded) : undefined,
-        deadlineDate: formData.deadlineDate || undefined,
-        incidentDate: formData.incidentDate || undefined,
-        additionalDetails: formData.supportingDocuments || undefined,
-        attachedFiles: attachedFiles.length > 0 ? attachedFiles : undefined,
-      }
-
-      const requestBody = {
+      // Only stored uploads are sent; the server resolves their extracted text
+      const requestBody = JSON.stringify({
         letterType: selectedType,
         intakeData,
+      })
+
+      if (submissionRef.current?.body !== requestBody) {
+        submissionRef.current = { key: crypto.randomUUID(), body: requestBody }
       }
 
       const response = await fetch("/api/workflows/trigger", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(requestBody),
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": submissionRef.current.key,
+        },
+        body: requestBody,
       })
 
       if (!response.ok) {
@@ -228,16 +250,11 @@ export default function NewLetterPage() {
       const result = await response.json()
 
       // Workflow endpoint returns: { success, data: { workflowId, letterId, message, status } }
+      // The tracker follows the letter while the draft streams, then we move to the letter page
       if (result.success && result.data) {
         setWorkflowId(result.data.workflowId)
         setLetterId(result.data.letterId || null)
-        setTrackerStatus(result.data.status as LetterStatus || "generating")
-
-        // For now, we'll navigate to the letter page
-        // In the future, we can poll workflow status using workflowId
-        if (result.data.letterId) {
-          router.push(`/dashboard/letters/${result.data.letterId}?submitted=1&workflow=${result.data.workflowId}`)
-        }
+        setTrackerStatus("generating")
       } else {
         throw new Error(result.error || "Failed to start letter generation workflow")
       }
@@ -254,8 +271,14 @@ export default function NewLetterPage() {
     <div className="max-w-4xl mx-auto px-4 py-8">
       <GenerationTrackerModal
         isOpen={showTrackerModal}
+        letterId={letterId ?? undefined}
         initialStatus={trackerStatus}
         showClose={false}
+        onStatusChange={(status) => {
+          if (letterId && status !== "generating") {
+            router.push(`/dashboard/letters/${letterId}?submitted=1&workflow=${workflowId}`)
+          }
+        }}
       />
       <SubscriptionModal
         show={showSubscriptionModal}
@@ -306,166 +329,22 @@ export default function NewLetterPage() {
             </div>
 
             <div className="space-y-4">
-              <div className="grid md:grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="senderName">Your Full Name</Label>
-                  <Input
-                    id="senderName"
-                    value={formData.senderName}
-                    onChange={(e) => setFormData({ ...formData, senderName: e.target.value })}
-                    required
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="recipientName">Recipient Name</Label>
-                  <Input
-                    id="recipientName"
-                    value={formData.recipientName}
-                    onChange={(e) => setFormData({ ...formData, recipientName: e.target.value })}
-                    required
-                  />
-                </div>
-              </div>
-
-              <div>
-                <Label htmlFor="senderAddress">Your Address</Label>
-                <Textarea
-                  id="senderAddress"
-                  rows={3}
-                  value={formData.senderAddress}
-                  onChange={(e) => setFormData({ ...formData, senderAddress: e.target.value })}
-                  required
-                />
-              </div>
-
-              <div>
-                <Label htmlFor="recipientAddress">Recipient Address</Label>
-                <Textarea
-                  id="recipientAddress"
-                  rows={3}
-                  value={formData.recipientAddress}
-                  onChange={(e) => setFormData({ ...formData, recipientAddress: e.target.value })}
-                  required
-                />
-              </div>
-
-              <div>
-                <Label htmlFor="issueDescription">Issue Description</Label>
-                <Textarea
-                  id="issueDescription"
-                  rows={6}
-                  placeholder="Describe the issue in detail. Include relevant dates, events, and any supporting information..."
-                  value={formData.issueDescription}
-                  onChange={(e) => setFormData({ ...formData, issueDescription: e.target.value })}
-                  required
-                />
-              </div>
-
-              {selectedType === "demand_letter" && (
-                <div className="grid md:grid-cols-2 gap-4">
-                  <div>
-                    <Label htmlFor="amountDemanded">Amount Demanded ($)</Label>
-                    <Input
-                      id="amountDemanded"
-                      type="number"
-                      step="0.01"
-                      placeholder="0.00"
-                      value={formData.amountDemanded}
-                      onChange={(e) => setFormData({ ...formData, amountDemanded: e.target.value })}
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="deadlineDate">Deadline for Response</Label>
-                    <Input
-                      id="deadlineDate"
-                      type="date"
-                      value={formData.deadlineDate}
-                      onChange={(e) => setFormData({ ...formData, deadlineDate: e.target.value })}
-                    />
-                  </div>
-                </div>
-              )}
-
-              {selectedType === "cease_desist" && (
-                <div>
-                  <Label htmlFor="deadlineDate">Deadline to Cease Activity</Label>
-                  <Input
-                    id="deadlineDate"
-                    type="date"
-                    value={formData.deadlineDate}
-                    onChange={(e) => setFormData({ ...formData, deadlineDate: e.target.value })}
-                  />
-                  <p className="text-xs text-muted-foreground mt-1">
-                    Specify by when the activity must stop
-                  </p>
-                </div>
-              )}
-
-              {(selectedType === "contract_breach" || selectedType === "employment_dispute") && (
-                <div>
-                  <Label htmlFor="incidentDate">Date of Incident/Breach</Label>
-                  <Input
-                    id="incidentDate"
-                    type="date"
-                    value={formData.incidentDate}
-                    onChange={(e) => setFormData({ ...formData, incidentDate: e.target.value })}
-                  />
-                  <p className="text-xs text-muted-foreground mt-1">
-                    When did the breach or incident occur?
-                  </p>
-                </div>
-              )}
-
-              {selectedType === "eviction_notice" && (
-                <div className="grid md:grid-cols-2 gap-4">
-                  <div>
-                    <Label htmlFor="deadlineDate">Notice to Vacate By</Label>
-                    <Input
-                      id="deadlineDate"
-                      type="date"
-                      value={formData.deadlineDate}
-                      onChange={(e) => setFormData({ ...formData, deadlineDate: e.target.value })}
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="incidentDate">Lease Start Date</Label>
-                    <Input
-                      id="incidentDate"
-                      type="date"
-                      value={formData.incidentDate}
-                      onChange={(e) => setFormData({ ...formData, incidentDate: e.target.value })}
-                    />
-                  </div>
-                </div>
-              )}
+              <IntakeFormFields
+                fields={visibleFields.filter(field => field.section !== "documents")}
+                values={formData}
+                errors={fieldErrors}
+                onChange={handleFieldChange}
+                disabled={loading}
+              />
 
-              {selectedType === "consumer_complaint" && (
-                <div>
-                  <Label htmlFor="incidentDate">Date of Purchase or Incident</Label>
-                  <Input
-                    id="incidentDate"
-                    type="date"
-                    value={formData.incidentDate}
-                    onChange={(e) => setFormData({ ...formData, incidentDate: e.target.value })}
-                  />
-                  <p className="text-xs text-muted-foreground mt-1">
-                    When did you purchase the product or when did the issue occur?
-                  </p>
+              {jurisdictionWarnings.length > 0 && (
+                <div className="p-3 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md space-y-1">
+                  {jurisdictionWarnings.map((warning) => (
+                    <p key={warning}>{warning}</p>
+                  ))}
                 </div>
               )}
 
-              <div>
-                <Label htmlFor="desiredOutcome">Desired Outcome</Label>
-                <Textarea
-                  id="desiredOutcome"
-                  rows={3}
-                  placeholder="What resolution are you seeking?"
-                  value={formData.desiredOutcome}
-                  onChange={(e) => setFormData({ ...formData, desiredOutcome: e.target.value })}
-                  required
-                />
-              </div>
-
               <div>
                 <Label className="flex items-center gap-2 mb-3">
                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -476,7 +355,7 @@ export default function NewLetterPage() {
                 <FileUpload
                   files={uploadedFiles}
                   onFilesChange={setUploadedFiles}
-                  maxFiles={5}
+                  maxFiles={MAX_INTAKE_ATTACHMENTS}
                   maxSizeBytes={10 * 1024 * 1024}
                   disabled={loading}
                 />
@@ -484,18 +363,13 @@ export default function NewLetterPage() {
                   Upload contracts, invoices, emails, photos, or any documents that support your case. The AI will review these to create a more accurate draft.
                 </p>
                 
-                {/* Optional text field for additional document descriptions */}
                 <div className="mt-3">
-                  <Label htmlFor="supportingDocuments" className="text-xs text-muted-foreground">
-                    Additional notes about your documents (optional)
-                  </Label>
-                  <Textarea
-                    id="supportingDocuments"
-                    rows={2}
-                    placeholder="Describe any additional context about your documents..."
-                    value={formData.supportingDocuments}
-                    onChange={(e) => setFormData({ ...formData, supportingDocuments: e.target.value })}
-                    className="mt-1"
+                  <IntakeFormFields
+                    fields={visibleFields.filter(field => field.section === "documents")}
+                    values={formData}
+                    errors={fieldErrors}
+                    onChange={handleFieldChange}
+                    disabled={loading}
                   />
                 </div>
               </div>
@@ -507,7 +381,7 @@ export default function NewLetterPage() {
               <GenerateButton
                 type="submit"
                 loading={loading}
-                disabled={loading || isChecking}
+                disabled={loading || isChecking || uploadedFiles.some(f => f.status === "uploading")}
                 hasSubscription={hasSubscription}
                 className="flex-1"
               />
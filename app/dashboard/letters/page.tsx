@@ -5,6 +5,7 @@ import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { DashboardLayout } from '@/components/dashboard-layout'
 import { GenerateButton } from '@/components/generate-button'
+import { LiveLetterRefresh } from '@/components/live-letter-refresh'
 import { format } from 'date-fns'
 
 export default async function MyLettersPage() {
@@ -36,6 +37,7 @@ export default async function MyLettersPage() {
     'draft': 'bg-muted text-muted-foreground',
     'generating': 'bg-primary/10 text-primary',
     'pending_review': 'bg-warning/10 text-warning',
+    'revision_requested': 'bg-primary/10 text-primary',
     'under_review': 'bg-amber-100 text-amber-800',
     'approved': 'bg-success/10 text-success',
     'rejected': 'bg-destructive/10 text-destructive',
@@ -47,6 +49,7 @@ export default async function MyLettersPage() {
     'draft': 'Draft',
     'generating': 'Generating',
     'pending_review': 'Awaiting Review',
+    'revision_requested': 'Revision Requested',
     'under_review': 'Under Review',
     'approved': 'Approved',
     'rejected': 'Rejected',
@@ -116,6 +119,12 @@ export default async function MyLettersPage() {
 
   return (
     <DashboardLayout>
+      {/* Status changes (pending_review → under_review → approved) re-render the list */}
+      <LiveLetterRefresh
+        channel={`letters:${profile.id}`}
+        letters={(letters || []).map(l => ({ id: l.id, status: l.status }))}
+        filter={profile.role === 'subscriber' ? `user_id=eq.${profile.id}` : undefined}
+      />
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-3xl font-bold text-slate-900">My Letters</h1>
         <Link href="/dashboard/letters/new">
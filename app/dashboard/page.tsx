@@ -48,6 +48,7 @@ export default async function DashboardPage() {
           </Badge>
         )
       case 'pending_review':
+      case 'revision_requested':
       case 'under_review':
         return (
           <Badge className="bg-warning text-warning-foreground hover:bg-warning/90 flex items-center gap-1">
@@ -41,12 +41,15 @@ import {
   CheckSquare,
   Play,
   Ban,
-  Eye
+  Eye,
+  ShieldAlert
 } from 'lucide-react'
 import { toast } from 'sonner'
 import { format } from 'date-fns'
 import { getAdminCsrfToken } from '@/lib/admin/csrf-client'
+import { RejectionCodePicker } from '@/components/admin/rejection-code-picker'
 import Link from 'next/link'
+import type { ContentScreeningResult } from '@/lib/validation/content-screening'
 
 interface Letter {
   id: string
@@ -55,6 +58,8 @@ interface Letter {
   status: string
   created_at: string
   approved_at: string | null
+  content_flagged: boolean
+  content_screening: ContentScreeningResult | null
   profiles: {
     full_name: string | null
     email: string
@@ -65,6 +70,7 @@ const statusColors: Record<string, string> = {
   'draft': 'bg-slate-100 text-slate-800',
   'generating': 'bg-blue-100 text-blue-800',
   'pending_review': 'bg-yellow-100 text-yellow-800',
+  'revision_requested': 'bg-purple-100 text-purple-800',
   'under_review': 'bg-orange-100 text-orange-800',
   'approved': 'bg-green-100 text-green-800',
   'rejected': 'bg-red-100 text-red-800',
@@ -76,6 +82,7 @@ const statusIcons: Record<string, any> = {
   'draft': FileText,
   'generating': RefreshCw,
   'pending_review': Clock,
+  'revision_requested': RefreshCw,
   'under_review': Eye,
   'approved': CheckCircle,
   'rejected': XCircle,
@@ -92,6 +99,7 @@ export default function AllLettersPage() {
   const [batchDialogOpen, setBatchDialogOpen] = useState(false)
   const [batchAction, setBatchAction] = useState<string>('')
   const [batchNotes, setBatchNotes] = useState('')
+  const [batchRejectionCodes, setBatchRejectionCodes] = useState<string[]>([])
   const [processing, setProcessing] = useState(false)
 
   const fetchLetters = async () => {
@@ -112,7 +120,8 @@ export default function AllLettersPage() {
   }, [])
 
   const filteredLetters = letters.filter(letter => {
-    const matchesStatus = statusFilter === 'all' || letter.status === statusFilter
+    const matchesStatus = statusFilter === 'all' ||
+      (statusFilter === 'flagged' ? letter.content_flagged : letter.status === statusFilter)
     const matchesSearch = searchQuery === '' || 
       letter.title?.toLowerCase().includes(searchQuery.toLowerCase()) ||
       letter.profiles?.email?.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -167,7 +176,8 @@ export default function AllLettersPage() {
         body: JSON.stringify({
           letterIds: Array.from(selectedIds),
           action: batchAction,
-          notes: batchNotes
+          notes: batchNotes,
+          ...(batchAction === 'reject' && { rejectionCodes: batchRejectionCodes })
         })
       })
 
@@ -180,6 +190,7 @@ export default function AllLettersPage() {
       toast.success(result.message)
       setBatchDialogOpen(false)
       setBatchNotes('')
+      setBatchRejectionCodes([])
       setSelectedIds(new Set())
       fetchLetters()
     } catch (error: any) {
@@ -189,6 +200,31 @@ export default function AllLettersPage() {
     }
   }
 
+  const clearContentFlag = async (letterId: string) => {
+    try {
+      const csrfToken = await getAdminCsrfToken()
+      const response = await fetch(`/api/admin/letters/${letterId}/screening`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-csrf-token': csrfToken
+        },
+        body: JSON.stringify({})
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to clear flag')
+      }
+
+      toast.success('Content flag cleared')
+      fetchLetters()
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to clear flag')
+    }
+  }
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -200,6 +236,7 @@ export default function AllLettersPage() {
   }
 
   const pendingCount = letters.filter(l => l.status === 'pending_review').length
+  const flaggedCount = letters.filter(l => l.content_flagged).length
 
   return (
     <div className="space-y-6">
@@ -210,6 +247,7 @@ export default function AllLettersPage() {
           <p className="text-muted-foreground mt-1">
             Manage all letters with batch operations • {letters.length} total
             {pendingCount > 0 && <span className="text-yellow-600 ml-2">({pendingCount} pending review)</span>}
+            {flaggedCount > 0 && <span className="text-red-600 ml-2">({flaggedCount} flagged)</span>}
           </p>
         </div>
         <Button variant="outline" onClick={fetchLetters}>
@@ -239,10 +277,12 @@ export default function AllLettersPage() {
               <SelectContent>
                 <SelectItem value="all">All Status</SelectItem>
                 <SelectItem value="pending_review">Pending Review</SelectItem>
+                <SelectItem value="revision_requested">Revision Requested</SelectItem>
                 <SelectItem value="under_review">Under Review</SelectItem>
                 <SelectItem value="approved">Approved</SelectItem>
                 <SelectItem value="rejected">Rejected</SelectItem>
                 <SelectItem value="completed">Completed</SelectItem>
+                <SelectItem value="flagged">Flagged Content</SelectItem>
               </SelectContent>
             </Select>
 
@@ -341,6 +381,18 @@ export default function AllLettersPage() {
                       </td>
                       <td className="px-4 py-3">
                         <div className="text-sm font-medium">{letter.title || 'Untitled'}</div>
+                        {letter.content_flagged && (
+                          <Badge
+                            variant="outline"
+                            className="mt-1 border-red-300 text-red-700"
+                            title={letter.content_screening?.reasons
+                              .map(reason => `${reason.label} (${reason.field}): ${reason.excerpt}`)
+                              .join('\n')}
+                          >
+                            <ShieldAlert className="h-3 w-3 mr-1" />
+                            Flagged · risk {letter.content_screening?.score ?? '?'}
+                          </Badge>
+                        )}
                       </td>
                       <td className="px-4 py-3">
                         <div className="text-sm">{letter.profiles?.full_name || 'Unknown'}</div>
@@ -377,6 +429,11 @@ export default function AllLettersPage() {
                                   View & Edit
                                 </Link>
                               </DropdownMenuItem>
+                              {letter.content_flagged && (
+                                <DropdownMenuItem onClick={() => clearContentFlag(letter.id)}>
+                                  Clear Content Flag
+                                </DropdownMenuItem>
+                              )}
                               {letter.status === 'pending_review' && (
                                 <>
                                   <DropdownMenuItem onClick={() => {
@@ -432,9 +489,14 @@ export default function AllLettersPage() {
           </DialogHeader>
 
           {(batchAction === 'reject') && (
-            <div className="py-4">
+            <div className="py-4 space-y-4 max-h-[60vh] overflow-y-auto">
+              <RejectionCodePicker
+                value={batchRejectionCodes}
+                onChange={setBatchRejectionCodes}
+                disabled={processing}
+              />
               <Textarea
-                placeholder="Reason for rejection (optional but recommended)"
+                placeholder="Notes for the users (optional)"
                 value={batchNotes}
                 onChange={(e) => setBatchNotes(e.target.value)}
                 rows={3}
@@ -448,7 +510,7 @@ export default function AllLettersPage() {
             </Button>
             <Button
               onClick={executeBatchAction}
-              disabled={processing}
+              disabled={processing || (batchAction === 'reject' && batchRejectionCodes.length === 0)}
               className={batchAction === 'reject' ? 'bg-red-600 hover:bg-red-700' : ''}
             >
               {processing ? 'Processing...' : `${batchAction.charAt(0).toUpperCase() + batchAction.slice(1).replace('_', ' ')} ${selectedIds.size} Letters`}
@@ -37,6 +37,12 @@ import {
   Cell,
   Legend
 } from 'recharts'
+import { AICostPanel, type AICostAnalytics } from '@/components/admin/ai-cost-panel'
+import { ReviewSlaPanel } from '@/components/admin/review-sla-panel'
+import type { ReviewSlaSummary } from '@/lib/services/review-sla-service'
+import { RejectionReasonsPanel } from '@/components/admin/rejection-reasons-panel'
+import { AttorneyMetricsPanel } from '@/components/admin/attorney-metrics-panel'
+import type { RejectionCodeStats } from '@/lib/services/rejection-code-service'
 
 interface AnalyticsData {
   dashboard: {
@@ -71,6 +77,9 @@ interface AnalyticsData {
     net_revenue: number
     new_subscriptions: number
   }>
+  aiCosts: AICostAnalytics | null
+  reviewSla: ReviewSlaSummary | null
+  rejections: RejectionCodeStats | null
 }
 
 export default function AnalyticsPage() {
@@ -424,6 +433,14 @@ export default function AnalyticsPage() {
         </CardContent>
       </Card>
 
+      <AICostPanel costs={data.aiCosts} daysBack={daysBack} />
+
+      <ReviewSlaPanel sla={data.reviewSla} daysBack={daysBack} />
+
+      <RejectionReasonsPanel rejections={data.rejections} daysBack={daysBack} />
+
+      <AttorneyMetricsPanel daysBack={daysBack} />
+
       <div className="grid gap-6 md:grid-cols-3">
         <Card>
           <CardHeader>
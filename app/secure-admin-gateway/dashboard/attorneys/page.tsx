@@ -0,0 +1,17 @@
+import { AttorneyProfileManager } from '@/components/admin/attorney-profile-manager'
+
+export default function AttorneysPage() {
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Attorneys</h1>
+        <p className="text-muted-foreground mt-1">
+          Bar admissions, practice areas and signatures. Letters are only routed to active attorneys licensed in their governing state.
+        </p>
+      </div>
+
+      <AttorneyProfileManager />
+    </div>
+  )
+}
@@ -2,7 +2,7 @@ import { getAdminSession } from '@/lib/auth/admin-session'
 import { redirect } from 'next/navigation'
 import Image from 'next/image'
 import Link from 'next/link'
-import { FileText, DollarSign, BarChart3, Shield, Gavel, LayoutDashboard, FileStack, Ticket, Users, Mail } from 'lucide-react'
+import { FileText, DollarSign, BarChart3, Shield, Gavel, LayoutDashboard, FileStack, Ticket, Users, Mail, Scale, Workflow } from 'lucide-react'
 import { AdminLogoutButton } from '@/components/admin-logout-button'
 import { DEFAULT_LOGO_ALT, DEFAULT_LOGO_SRC } from '@/lib/constants'
 
@@ -53,6 +53,12 @@ export default async function AdminDashboardLayout({
       icon: Users,
       description: 'User management'
     },
+    {
+      name: 'Attorneys',
+      href: '/secure-admin-gateway/dashboard/attorneys',
+      icon: Scale,
+      description: 'Licenses & routing'
+    },
     {
       name: 'Coupons',
       href: '/secure-admin-gateway/dashboard/coupons',
@@ -71,6 +77,12 @@ export default async function AdminDashboardLayout({
       icon: Mail,
       description: 'Email delivery management'
     },
+    {
+      name: 'Workflows',
+      href: '/secure-admin-gateway/dashboard/workflows',
+      icon: Workflow,
+      description: 'Letter workflow runs'
+    },
     {
       name: 'Analytics',
       href: '/secure-admin-gateway/dashboard/analytics',
@@ -23,7 +23,7 @@ export default async function AdminLettersPage() {
         email
       )
     `)
-    .in('status', ['pending_review', 'under_review'])
+    .in('status', ['pending_review', 'revision_requested', 'under_review'])
     .order('created_at', { ascending: true })
 
   return (
@@ -50,9 +50,11 @@ export default async function AdminLettersPage() {
                       Status: <span className={
                         letter.status === 'under_review' 
                           ? 'text-orange-600' 
-                          : 'text-yellow-600'
+                          : (letter.status === 'revision_requested' ? 'text-purple-600' : 'text-yellow-600')
                       }>
-                        {letter.status === 'under_review' ? 'Under Review' : 'Pending Review'}
+                        {letter.status === 'under_review'
+                          ? 'Under Review'
+                          : (letter.status === 'revision_requested' ? 'Revision Requested' : 'Pending Review')}
                       </span>
                     </p>
                   </div>
@@ -0,0 +1,17 @@
+import { WorkflowOpsConsole } from '@/components/admin/workflow-ops-console'
+
+export default function WorkflowsPage() {
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Workflows</h1>
+        <p className="text-muted-foreground mt-1">
+          Letter generation runs with their step history. Cancel a run, retry a failed step, or resume a run waiting for an attorney decision.
+        </p>
+      </div>
+
+      <WorkflowOpsConsole />
+    </div>
+  )
+}
@@ -1,13 +1,22 @@
 import { createClient } from '@/lib/supabase/server'
-import { isAdminAuthenticated } from '@/lib/auth/admin-session'
+import { isAdminAuthenticated, isSuperAdmin } from '@/lib/auth/admin-session'
 import { redirect, notFound } from 'next/navigation'
 import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { ArrowLeft, User, Mail, Phone, Building, FileText, Calendar, Clock } from 'lucide-react'
+import { ArrowLeft, User, Mail, Phone, Building, FileText, Calendar, Clock, PenLine } from 'lucide-react'
 import { format } from 'date-fns'
 import { ReviewLetterModal } from '@/components/review-letter-modal'
+import { LetterAttachmentsPanel } from '@/components/admin/letter-attachments-panel'
+import { JurisdictionRulesCard } from '@/components/admin/jurisdiction-rules-card'
+import { DraftQualityChecklist } from '@/components/admin/draft-quality-checklist'
+import { ReviewAssignmentPanel } from '@/components/admin/review-assignment-panel'
+import { ConflictCheckPanel } from '@/components/admin/conflict-check-panel'
+import { RedlineControls } from '@/components/admin/redline-controls'
+import { LetterComments } from '@/components/letter-comments'
+import { getLetterAttachments } from '@/lib/attachments/service'
+import { getLetterRevisionRequests } from '@/lib/services/letter-revision-service'
 
 export default async function ReviewLetterDetailPage({ params }: { params: { id: string } }) {
   // Verify admin authentication
@@ -53,10 +62,21 @@ export default async function ReviewLetterDetailPage({ params }: { params: { id:
     .eq('letter_id', id)
     .order('created_at', { ascending: false })
 
+  // Supporting documents uploaded with the intake
+  const attachments = await getLetterAttachments(id)
+
+  // Changes the subscriber asked for on the approved letter
+  const revisionRequests = await getLetterRevisionRequests(id)
+  const openRevision = revisionRequests.find(request => request.status === 'open')
+
+  // Redlines of the attorney's changes are a super admin tool
+  const canDownloadRedline = await isSuperAdmin() && !!letter.ai_draft_content && !!letter.final_content
+
   const statusColors: Record<string, string> = {
     'draft': 'bg-gray-100 text-gray-800',
     'generating': 'bg-blue-100 text-blue-800',
     'pending_review': 'bg-yellow-100 text-yellow-800',
+    'revision_requested': 'bg-purple-100 text-purple-800',
     'under_review': 'bg-blue-100 text-blue-800',
     'approved': 'bg-green-100 text-green-800',
     'rejected': 'bg-red-100 text-red-800',
@@ -98,6 +118,31 @@ export default async function ReviewLetterDetailPage({ params }: { params: { id:
         <ReviewLetterModal letter={letter} />
       </div>
 
+      {/* Assignment and edit lock */}
+      <ReviewAssignmentPanel letterId={letter.id} />
+
+      {/* Conflicts of interest */}
+      <ConflictCheckPanel letterId={letter.id} letterPathPrefix="/secure-admin-gateway/review" />
+
+      {openRevision && (
+        <Card className="border-purple-300 bg-purple-50/50">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <PenLine className="w-5 h-5" />
+              Revision Requested
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              Requested {format(new Date(openRevision.created_at), 'MMM d, yyyy h:mm a')}
+              {revisionRequests.length > 1 && ` · revision ${revisionRequests.length} for this letter`}.
+              Approving the letter sends the subscriber the revised version; declining restores the approved letter.
+            </p>
+            <p className="text-sm whitespace-pre-wrap bg-background border rounded-lg p-3">{openRevision.requested_changes}</p>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Subscriber Information */}
       <Card>
         <CardHeader>
@@ -187,16 +232,25 @@ export default async function ReviewLetterDetailPage({ params }: { params: { id:
         </CardContent>
       </Card>
 
+      {/* Automated checks run on the AI draft */}
+      <DraftQualityChecklist report={letter.quality_report} />
+
+      {/* Jurisdiction rules applied at generation */}
+      <JurisdictionRulesCard ruleSet={letter.jurisdiction_rules} />
+
       {/* AI Generated Draft */}
       <Card>
         <CardHeader>
           <CardTitle>AI Generated Draft</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="bg-muted/30 p-6 rounded-lg border">
-            <pre className="whitespace-pre-wrap text-sm font-mono leading-relaxed">
-              {letter.ai_draft_content || 'No draft content available.'}
-            </pre>
+          <div className={attachments.length > 0 ? 'grid gap-4 lg:grid-cols-3' : ''}>
+            <div className="bg-muted/30 p-6 rounded-lg border lg:col-span-2">
+              <pre className="whitespace-pre-wrap text-sm font-mono leading-relaxed">
+                {letter.ai_draft_content || 'No draft content available.'}
+              </pre>
+            </div>
+            {attachments.length > 0 && <LetterAttachmentsPanel attachments={attachments} />}
           </div>
         </CardContent>
       </Card>
@@ -205,12 +259,17 @@ export default async function ReviewLetterDetailPage({ params }: { params: { id:
       {letter.final_content && (
         <Card>
           <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              Final Reviewed Content
-              <Badge variant="outline" className="bg-green-100 text-green-800">
-                Approved
-              </Badge>
-            </CardTitle>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <CardTitle className="flex items-center gap-2">
+                Final Reviewed Content
+                <Badge variant="outline" className="bg-green-100 text-green-800">
+                  Approved
+                </Badge>
+              </CardTitle>
+              {canDownloadRedline && (
+                <RedlineControls letterId={letter.id} sharedAt={letter.redline_shared_at} />
+              )}
+            </div>
           </CardHeader>
           <CardContent>
             <div className="bg-muted/30 p-6 rounded-lg border">
@@ -222,6 +281,20 @@ export default async function ReviewLetterDetailPage({ params }: { params: { id:
         </Card>
       )}
 
+      {/* Comment threads anchored to passages of the current text */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Comments</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <LetterComments
+            letterId={letter.id}
+            content={letter.final_content || letter.ai_draft_content || null}
+            adminMode
+          />
+        </CardContent>
+      </Card>
+
       {/* Review Notes */}
       {letter.review_notes && (
         <Card>
@@ -5,9 +5,20 @@ import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Clock, FileText, User } from 'lucide-react'
 import { format } from 'date-fns'
-
-export default async function ReviewCenterPage() {
+import { getAdminSession } from '@/lib/auth/admin-session'
+import { ReviewQueueTabs, ReviewAssignmentBadge } from '@/components/admin/review-queue-tabs'
+import { parseReviewQueueView, type ReviewQueueView } from '@/lib/admin/review-queue'
+import { LiveLetterRefresh } from '@/components/live-letter-refresh'
+
+export default async function ReviewCenterPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ view?: string }>
+}) {
   const supabase = await createClient()
+  const adminSession = await getAdminSession()
+  const currentAdminId = adminSession?.userId ?? null
+  const view = parseReviewQueueView((await searchParams).view, 'all')
 
   // Fetch all letters needing review (pending_review and under_review)
   const { data: letters, error } = await supabase
@@ -18,9 +29,17 @@ export default async function ReviewCenterPage() {
         id,
         full_name,
         email
+      ),
+      assignee:profiles!assigned_to (
+        full_name,
+        email
+      ),
+      lock_holder:profiles!review_locked_by (
+        full_name,
+        email
       )
     `)
-    .in('status', ['pending_review', 'under_review'])
+    .in('status', ['pending_review', 'revision_requested', 'under_review'])
     .order('created_at', { ascending: true }) // FIFO: Oldest first
     .limit(100)
 
@@ -28,16 +47,28 @@ export default async function ReviewCenterPage() {
     console.error('[ReviewCenter] Error fetching letters:', error)
   }
 
-  const pendingCount = letters?.filter(l => l.status === 'pending_review').length || 0
+  const pendingCount = letters?.filter(l => l.status === 'pending_review' || l.status === 'revision_requested').length || 0
   const underReviewCount = letters?.filter(l => l.status === 'under_review').length || 0
 
+  // Queue views over the same fetch so the tab counts stay in step
+  const viewCounts: Record<ReviewQueueView, number> = {
+    mine: letters?.filter(l => l.assigned_to === currentAdminId).length || 0,
+    unassigned: letters?.filter(l => !l.assigned_to).length || 0,
+    all: letters?.length || 0,
+  }
+  const visibleLetters = letters?.filter(l =>
+    view === 'all' || (view === 'mine' ? l.assigned_to === currentAdminId : !l.assigned_to)
+  ) ?? []
+
   const statusColors: Record<string, string> = {
     'pending_review': 'bg-yellow-100 text-yellow-800 border-yellow-300',
+    'revision_requested': 'bg-purple-100 text-purple-800 border-purple-300',
     'under_review': 'bg-blue-100 text-blue-800 border-blue-300'
   }
 
   const statusLabels: Record<string, string> = {
     'pending_review': 'Pending Review',
+    'revision_requested': 'Revision Requested',
     'under_review': 'Under Review'
   }
 
@@ -45,6 +76,17 @@ export default async function ReviewCenterPage() {
 
   return (
     <div className="space-y-6">
+      {/* New submissions, claims and decisions by other attorneys update the queue */}
+      <LiveLetterRefresh
+        channel={`review-queue:admin:${currentAdminId}`}
+        letters={(letters || []).map(l => ({
+          id: l.id,
+          status: l.status,
+          assigned_to: l.assigned_to,
+          review_locked_by: l.review_locked_by,
+        }))}
+        fields={['status', 'assigned_to', 'review_locked_by']}
+      />
       {/* Test Mode Indicator */}
       {isTestMode && (
         <div className="bg-amber-500/10 border-2 border-amber-500/50 rounded-lg p-4">
@@ -101,9 +143,12 @@ export default async function ReviewCenterPage() {
 
       {/* Letters List */}
       <div className="space-y-3">
-        <h2 className="text-xl font-semibold">Letters Awaiting Review</h2>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-xl font-semibold">Letters Awaiting Review</h2>
+          <ReviewQueueTabs basePath="/secure-admin-gateway/review" current={view} counts={viewCounts} />
+        </div>
 
-        {!letters || letters.length === 0 ? (
+        {visibleLetters.length === 0 ? (
           <Card className="bg-muted/30">
             <CardContent className="flex flex-col items-center justify-center py-12 text-center">
               <div className="w-16 h-16 bg-success/20 rounded-full flex items-center justify-center mb-4">
@@ -112,14 +157,16 @@ export default async function ReviewCenterPage() {
                 </svg>
               </div>
               <h3 className="text-lg font-semibold mb-2">All Caught Up!</h3>
-              <p className="text-muted-foreground">No letters pending review at the moment.</p>
+              <p className="text-muted-foreground">
+                {view === 'mine' ? 'No letters are assigned to you at the moment.' : 'No letters pending review at the moment.'}
+              </p>
             </CardContent>
           </Card>
         ) : (
           <div className="space-y-3">
-            {letters.map((letter) => (
+            {visibleLetters.map((letter) => (
               <Card key={letter.id} className="hover:bg-muted/30 transition-colors border-l-4" style={{
-                borderLeftColor: letter.status === 'pending_review' ? '#eab308' : '#3b82f6'
+                borderLeftColor: letter.status === 'pending_review' ? '#eab308' : (letter.status === 'revision_requested' ? '#a855f7' : '#3b82f6')
               }}>
                 <CardContent className="p-5">
                   <div className="flex items-start justify-between gap-4">
@@ -130,9 +177,22 @@ export default async function ReviewCenterPage() {
                           <h3 className="text-lg font-semibold text-foreground mb-1">
                             {letter.title || 'Untitled Letter'}
                           </h3>
-                          <Badge variant="outline" className={statusColors[letter.status]}>
-                            {statusLabels[letter.status]}
-                          </Badge>
+                          <div className="flex flex-wrap items-center gap-2">
+                            <Badge variant="outline" className={statusColors[letter.status]}>
+                              {statusLabels[letter.status]}
+                            </Badge>
+                            <ReviewAssignmentBadge
+                              assignment={letter}
+                              currentAdminId={currentAdminId}
+                              assigneeName={letter.assignee?.full_name || letter.assignee?.email || null}
+                              lockHolderName={letter.lock_holder?.full_name || letter.lock_holder?.email || null}
+                            />
+                            {letter.intervention_required_at && (
+                              <Badge variant="destructive" title={letter.intervention_reason || undefined}>
+                                Needs intervention
+                              </Badge>
+                            )}
+                          </div>
                         </div>
                       </div>
 
@@ -165,7 +225,7 @@ export default async function ReviewCenterPage() {
                     {/* Action Button */}
                     <Link href={`/secure-admin-gateway/review/${letter.id}`}>
                       <Button>
-                        {letter.status === 'pending_review' ? 'Start Review' : 'Continue Review'}
+                        {letter.status === 'under_review' ? 'Continue Review' : 'Start Review'}
                       </Button>
                     </Link>
                   </div>
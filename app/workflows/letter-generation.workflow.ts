@@ -5,12 +5,20 @@
  *
  * Flow:
  * 1. Check allowance (atomic)
- * 2. Generate AI draft (auto-retry)
- * 3. Save draft to database
- * 4. Notify attorneys for review
- * 5. SLEEP until attorney approval/rejection
- * 6. Finalize letter with decision
- * 7. Notify user
+ * 2. Create letter in 'generating' state
+ * 3. Stream AI draft into the letter (auto-retry)
+ * 4. Save draft for review
+ * 5. Notify attorneys for review
+ * 6. SLEEP until attorney approval/rejection, waking at each approval
+ *    deadline to remind, escalate, reassign and finally refund or flag
+ *    the letter for super-admin intervention
+ * 7. Finalize letter with decision
+ * 8. Notify user
+ *
+ * Each step after the letter exists is recorded for the super admin workflow
+ * console; a failed step after the draft pauses the run so it can be retried
+ * from there. A failed draft fails the letter and refunds it straight away
+ * rather than leave the subscriber waiting on a retry.
  *
  * Benefits:
  * - Single workflow definition replacing 10+ API endpoints
@@ -21,7 +29,7 @@
  */
 "use workflow"
 
-import { sleep } from "workflow"
+import { getWorkflowMetadata, sleep } from "workflow"
 import { checkAllowanceStep } from "./steps/check-allowance"
 import { generateDraftStep } from "./steps/generate-draft"
 import { saveLetterStep } from "./steps/save-letter"
@@ -29,12 +37,25 @@ import { notifyAttorneysStep } from "./steps/notify-attorneys"
 import { finalizeLetterStep } from "./steps/finalize-letter"
 import { notifyUserStep } from "./steps/notify-user"
 import { logLetterAuditStep } from "./steps/save-letter"
+import {
+  getApprovalDeadlines,
+  handleApprovalTimeoutStep,
+  resolveApprovalTimeouts,
+} from "./steps/approval-timeout"
+import { recordWorkflowStepStep, setWorkflowStatusStep } from "./steps/track-workflow"
 import { refundLetterAllowance, incrementTotalLetters } from "@/lib/services/allowance-service"
+import { buildDraftMetadata } from "@/lib/ai/openai-retry"
+import type { JurisdictionRuleSet } from "@/lib/jurisdiction"
+import { describeScreening, type ContentScreeningResult } from "@/lib/validation/content-screening"
+import { APPROVAL_WAIT_STEP, STEP_RECOVERY_EVENT, type StepRecovery } from "@/lib/admin/workflow-ops"
 
 export interface LetterGenerationInput {
   userId: string
+  letterId?: string  // Preassigned by the trigger so the client can follow generation
   letterType: string
   intakeData: Record<string, unknown>
+  jurisdictionRules?: JurisdictionRuleSet | null
+  contentScreening?: ContentScreeningResult | null
   recipientInfo?: {
     name?: string
     email?: string
@@ -49,6 +70,8 @@ export interface AttorneyApproval {
   editedContent?: string
   notes?: string
   reason?: string
+  rejectionCodes?: string[]
+  rejectionGuidance?: Array<{ label: string; guidance: string }>
 }
 
 export interface LetterGenerationResult {
@@ -58,6 +81,60 @@ export interface LetterGenerationResult {
   reason?: string
 }
 
+const HOUR_MS = 60 * 60 * 1000
+
+// How long a failed step waits for a retry from the workflow console
+const STEP_RECOVERY_HOURS = 24
+
+/**
+ * Wait for the workflow to be resumed with `event`; with a timeout, resolves
+ * to null if it is not resumed in time
+ */
+async function waitForResume<T>(event: string): Promise<T>
+async function waitForResume<T>(event: string, timeoutMs: number): Promise<T | null>
+async function waitForResume<T>(event: string, timeoutMs?: number): Promise<T | null> {
+  const resumed: Promise<T> = sleep<T>(event)
+  if (timeoutMs === undefined) return resumed
+
+  return Promise.race([resumed, sleep(timeoutMs).then(() => null)])
+}
+
+/**
+ * Run a step, recording each attempt. When it fails, the run pauses until a
+ * super admin retries it or STEP_RECOVERY_HOURS pass, and then fails as usual;
+ * with pauseOnFailure off it fails straight away.
+ */
+async function runTrackedStep<T>(
+  run: { letterId: string; workflowId: string },
+  stepName: string,
+  execute: () => Promise<T>,
+  { pauseOnFailure = true }: { pauseOnFailure?: boolean } = {}
+): Promise<T> {
+  for (;;) {
+    await recordWorkflowStepStep({ ...run, step: stepName, status: "running" })
+
+    try {
+      const result = await execute()
+      await recordWorkflowStepStep({ ...run, step: stepName, status: "completed" })
+      return result
+    } catch (error) {
+      await recordWorkflowStepStep({
+        ...run,
+        step: stepName,
+        status: "failed",
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+
+      if (!pauseOnFailure) throw error
+
+      const recovery = await waitForResume<StepRecovery>(STEP_RECOVERY_EVENT, STEP_RECOVERY_HOURS * HOUR_MS)
+      if (!recovery?.retry) throw error
+
+      console.log(`[Workflow] Retrying ${stepName} at the request of ${recovery.adminId}`)
+    }
+  }
+}
+
 /**
  * Main workflow function
  *
@@ -71,6 +148,7 @@ export async function generateLetterWorkflow(
   let allowanceDeducted = false
   let isFreeTrial = false
   let isSuperAdmin = false
+  const { workflowRunId: workflowId } = getWorkflowMetadata()
 
   try {
     // Step 1: Check and deduct allowance (atomic operation)
@@ -87,31 +165,72 @@ export async function generateLetterWorkflow(
 
     console.log(`[Workflow] Allowance deducted. Remaining: ${allowance.remaining}`)
 
-    // Step 2: Generate AI draft (with automatic retries)
-    console.log('[Workflow] Step 2: Generating AI draft')
-    const aiDraft = await generateDraftStep({
-      letterType: input.letterType,
-      intakeData: input.intakeData,
-      recipientInfo: input.recipientInfo,
-    })
-
-    console.log(`[Workflow] AI draft generated (${aiDraft.length} chars)`)
-
-    // Step 3: Save draft to database with 'pending_review' status
-    console.log('[Workflow] Step 3: Saving letter to database')
+    // Step 2: Create the letter up front so the draft can be previewed while it streams
+    console.log('[Workflow] Step 2: Creating letter record')
     letterId = await saveLetterStep({
       userId: input.userId,
+      newLetterId: input.letterId,
+      workflowId,
+      allowanceDeducted: !isFreeTrial && !isSuperAdmin,
       letterType: input.letterType,
       title: input.title,
-      status: "pending_review",
-      aiDraftContent: aiDraft,
+      status: "generating",
       intakeData: input.intakeData,
+      jurisdictionRules: input.jurisdictionRules,
+      contentScreening: input.contentScreening,
       recipientInfo: input.recipientInfo,
     })
 
+    const run = { letterId, workflowId }
+
+    if (input.contentScreening?.flagged) {
+      await logLetterAuditStep(
+        letterId,
+        'content_flagged',
+        'generating',
+        'generating',
+        describeScreening(input.contentScreening)
+      )
+    }
+
+    // Step 3: Generate AI draft (with automatic retries)
+    console.log('[Workflow] Step 3: Generating AI draft')
+    const { generation: aiDraft, report: qualityReport, redactionNotes } = await runTrackedStep(run, 'generate-draft', () =>
+      generateDraftStep({
+        userId: input.userId,
+        letterId: run.letterId,
+        letterType: input.letterType,
+        intakeData: input.intakeData,
+        jurisdictionRules: input.jurisdictionRules,
+        recipientInfo: input.recipientInfo,
+      }),
+      // The step retries the AI itself; the letter is still generating, so fail and refund now
+      { pauseOnFailure: false }
+    )
+
+    console.log(`[Workflow] AI draft generated by ${aiDraft.provider} (${aiDraft.text.length} chars)`)
+
+    if (redactionNotes) {
+      await logLetterAuditStep(letterId, 'pii_redacted', 'generating', 'generating', redactionNotes)
+    }
+
+    // Step 4: Save final draft with 'pending_review' status
+    console.log('[Workflow] Step 4: Saving draft for review')
+    await runTrackedStep(run, 'save-draft', () =>
+      saveLetterStep({
+        userId: input.userId,
+        letterId: run.letterId,
+        letterType: input.letterType,
+        status: "pending_review",
+        aiDraftContent: aiDraft.text,
+        draftMetadata: buildDraftMetadata(aiDraft),
+        qualityReport,
+      })
+    )
+
     console.log(`[Workflow] Letter saved: ${letterId}`)
 
-    // Step 4: Log audit trail
+    // Step 5: Log audit trail
     await logLetterAuditStep(
       letterId,
       'created',
@@ -120,51 +239,126 @@ export async function generateLetterWorkflow(
       'Letter generated successfully by AI'
     )
 
-    // Step 5: Increment total letters generated
+    // Step 6: Increment total letters generated
     await incrementTotalLetters(input.userId)
 
-    // Step 6: Notify attorneys for review
+    // Step 7: Notify attorneys for review
     console.log('[Workflow] Step 4: Notifying attorneys')
     const title = input.title || `${input.letterType} - ${new Date().toLocaleDateString()}`
-    await notifyAttorneysStep({
-      letterId,
-      letterTitle: title,
-      letterType: input.letterType,
-    })
+    await runTrackedStep(run, 'notify-attorneys', () =>
+      notifyAttorneysStep({
+        letterId: run.letterId,
+        letterTitle: title,
+        letterType: input.letterType,
+      })
+    )
 
     console.log('[Workflow] Attorneys notified')
 
-    // Step 7: SLEEP until attorney approval
+    // Step 8: SLEEP until attorney approval
     // This is where the magic happens - no server cost while waiting!
+    // Each approval deadline wakes the workflow to chase the decision
     console.log('[Workflow] Step 5: Waiting for attorney approval (sleeping)')
-    const approval = await sleep<AttorneyApproval>("attorney-approval")
+    await setWorkflowStatusStep({ letterId, status: "paused", currentStep: APPROVAL_WAIT_STEP })
+    const timeouts = resolveApprovalTimeouts()
+    let approval: AttorneyApproval | null = null
+    let waitedHours = 0
+
+    for (const deadline of getApprovalDeadlines(timeouts)) {
+      approval = await waitForResume<AttorneyApproval>(APPROVAL_WAIT_STEP, (deadline.afterHours - waitedHours) * HOUR_MS)
+      if (approval) break
+
+      waitedHours = deadline.afterHours
+      console.log(`[Workflow] No attorney decision after ${waitedHours}h: ${deadline.stage}`)
+
+      const outcome = await handleApprovalTimeoutStep({
+        letterId,
+        letterTitle: title,
+        stage: deadline.stage,
+        waitedHours,
+        cutoffAction: timeouts.cutoffAction,
+      })
+
+      // Decided outside the workflow (e.g. directly from the review page)
+      if (!outcome.pending) {
+        await setWorkflowStatusStep({ letterId, status: "completed", currentStep: null })
+        return {
+          success: true,
+          status: outcome.newStatus,
+          letterId,
+        }
+      }
+
+      await logLetterAuditStep(
+        letterId,
+        `approval_timeout_${deadline.stage}`,
+        outcome.oldStatus,
+        outcome.newStatus,
+        outcome.notes
+      )
+
+      // The cutoff leaves a letter an attorney is reviewing open
+      if (deadline.stage === 'cutoff' && timeouts.cutoffAction === 'refund' && outcome.newStatus === 'failed') {
+        if (!isFreeTrial && !isSuperAdmin) {
+          const refund = await refundLetterAllowance(input.userId, 1)
+          await logLetterAuditStep(
+            letterId,
+            refund.success ? 'approval_timeout_refunded' : 'approval_timeout_refund_failed',
+            'failed',
+            'failed',
+            refund.success ? 'Letter allowance refunded' : refund.error
+          )
+        }
+
+        await setWorkflowStatusStep({ letterId, status: "failed", error: outcome.notes })
+        return {
+          success: false,
+          status: "failed",
+          letterId,
+          reason: outcome.notes,
+        }
+      }
+    }
+
+    // Flagged for intervention: wait for whoever a super admin brings in
+    if (!approval) {
+      approval = await waitForResume<AttorneyApproval>(APPROVAL_WAIT_STEP)
+    }
 
     console.log(`[Workflow] Resumed with approval: ${approval.approved}`)
+    const decision = approval
 
-    // Step 8: Finalize letter based on approval decision
+    // Step 9: Finalize letter based on approval decision
     console.log('[Workflow] Step 6: Finalizing letter')
-    const finalStatus = await finalizeLetterStep({
-      letterId,
-      approved: approval.approved,
-      finalContent: approval.editedContent,
-      reviewedBy: approval.attorneyId,
-      reviewNotes: approval.notes,
-      rejectionReason: approval.reason,
-    })
+    const finalStatus = await runTrackedStep(run, 'finalize-letter', () =>
+      finalizeLetterStep({
+        letterId: run.letterId,
+        approved: decision.approved,
+        finalContent: decision.editedContent,
+        reviewedBy: decision.attorneyId,
+        reviewNotes: decision.notes,
+        rejectionReason: decision.reason,
+        rejectionCodes: decision.rejectionCodes,
+      })
+    )
 
     console.log(`[Workflow] Letter finalized: ${finalStatus}`)
 
-    // Step 9: Notify user of the decision
+    // Step 10: Notify user of the decision
     console.log('[Workflow] Step 7: Notifying user')
-    await notifyUserStep({
-      userId: input.userId,
-      letterId,
-      letterTitle: title,
-      approved: approval.approved,
-      rejectionReason: approval.reason,
-    })
+    await runTrackedStep(run, 'notify-user', () =>
+      notifyUserStep({
+        userId: input.userId,
+        letterId: run.letterId,
+        letterTitle: title,
+        approved: decision.approved,
+        rejectionReason: decision.reason,
+        rejectionGuidance: decision.rejectionGuidance,
+      })
+    )
 
     console.log('[Workflow] User notified')
+    await setWorkflowStatusStep({ letterId, status: "completed", currentStep: null })
 
     // Return success result
     return {
@@ -199,6 +393,14 @@ export async function generateLetterWorkflow(
       ).catch(err => {
         console.error('[Workflow] Failed to log audit:', err)
       })
+
+      await setWorkflowStatusStep({
+        letterId,
+        status: "failed",
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }).catch(err => {
+        console.error('[Workflow] Failed to record workflow failure:', err)
+      })
     }
 
     // Refund allowance if we deducted it (unless free trial or super admin)
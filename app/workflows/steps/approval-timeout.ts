@@ -0,0 +1,270 @@
+/**
+ * Workflow Step: Attorney Approval Timeouts
+ *
+ * Acts on a letter that has waited too long for an attorney decision:
+ * - reminder: email the assigned attorney
+ * - escalation: email super admins
+ * - reassignment: hand the letter to the next least-loaded attorney
+ * - cutoff: fail the letter so its allowance can be refunded, or flag it
+ *   for super-admin intervention. A letter an attorney currently holds the
+ *   edit lock on is not failed; the workflow keeps waiting for their decision.
+ *
+ * Deadlines are hours since the letter entered review, configured with
+ * WORKFLOW_APPROVAL_*_HOURS and WORKFLOW_APPROVAL_CUTOFF_ACTION.
+ *
+ * Returns: The letter's status before and after, or pending=false when the
+ * letter already left the review queue
+ */
+import { step } from "workflow"
+import { createServiceClient } from "@/lib/supabase/service"
+import { queueTemplateEmail } from "@/lib/email/service"
+
+export type ApprovalTimeoutStage = "reminder" | "escalation" | "reassignment" | "cutoff"
+
+export type ApprovalCutoffAction = "refund" | "intervene"
+
+export interface ApprovalTimeouts {
+  reminderHours: number
+  escalationHours: number
+  reassignHours: number
+  cutoffHours: number
+  cutoffAction: ApprovalCutoffAction
+}
+
+export interface ApprovalDeadline {
+  stage: ApprovalTimeoutStage
+  afterHours: number
+}
+
+export interface ApprovalTimeoutInput {
+  letterId: string
+  letterTitle: string
+  stage: ApprovalTimeoutStage
+  waitedHours: number
+  cutoffAction: ApprovalCutoffAction
+}
+
+export interface ApprovalTimeoutOutcome {
+  pending: boolean
+  oldStatus: string
+  newStatus: string
+  notes: string
+}
+
+const REVIEW_QUEUE_STATUSES = ["pending_review", "revision_requested", "under_review"]
+
+function readHours(value: string | undefined, fallback: number): number {
+  const hours = Number(value)
+  return value && Number.isFinite(hours) && hours > 0 ? hours : fallback
+}
+
+/**
+ * Deadlines from the environment; each stage is kept at or after the previous one
+ */
+export function resolveApprovalTimeouts(env: NodeJS.ProcessEnv = process.env): ApprovalTimeouts {
+  const reminderHours = readHours(env.WORKFLOW_APPROVAL_REMINDER_HOURS, 24)
+  const escalationHours = Math.max(readHours(env.WORKFLOW_APPROVAL_ESCALATION_HOURS, 48), reminderHours)
+  const reassignHours = Math.max(readHours(env.WORKFLOW_APPROVAL_REASSIGN_HOURS, 72), escalationHours)
+  const cutoffHours = Math.max(readHours(env.WORKFLOW_APPROVAL_CUTOFF_HOURS, 120), reassignHours)
+
+  return {
+    reminderHours,
+    escalationHours,
+    reassignHours,
+    cutoffHours,
+    cutoffAction: env.WORKFLOW_APPROVAL_CUTOFF_ACTION === "refund" ? "refund" : "intervene",
+  }
+}
+
+export function getApprovalDeadlines(timeouts: ApprovalTimeouts): ApprovalDeadline[] {
+  return [
+    { stage: "reminder", afterHours: timeouts.reminderHours },
+    { stage: "escalation", afterHours: timeouts.escalationHours },
+    { stage: "reassignment", afterHours: timeouts.reassignHours },
+    { stage: "cutoff", afterHours: timeouts.cutoffHours },
+  ]
+}
+
+type ServiceClient = ReturnType<typeof createServiceClient>
+
+async function getAdminEmails(supabase: ServiceClient, filter: { ids?: string[]; subRole?: string }): Promise<string[]> {
+  let query = supabase.from("profiles").select("email").eq("role", "admin")
+  if (filter.ids) query = query.in("id", filter.ids)
+  if (filter.subRole) query = query.eq("admin_sub_role", filter.subRole)
+
+  const { data } = await query
+  return (data || []).map(admin => admin.email).filter(Boolean) as string[]
+}
+
+export async function handleApprovalTimeoutStep(input: ApprovalTimeoutInput): Promise<ApprovalTimeoutOutcome> {
+  return await step(
+    `approval-timeout-${input.stage}`,
+    async () => {
+      const supabase = createServiceClient()
+      const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+      const waited = `${input.waitedHours} hours`
+
+      const { data: letter, error } = await supabase
+        .from("letters")
+        .select("status, assigned_to, review_lock_expires_at")
+        .eq("id", input.letterId)
+        .single()
+
+      if (error) throw error
+
+      const oldStatus = letter.status as string
+      if (!REVIEW_QUEUE_STATUSES.includes(oldStatus)) {
+        return { pending: false, oldStatus, newStatus: oldStatus, notes: `Letter left the review queue as ${oldStatus}` }
+      }
+
+      switch (input.stage) {
+        case "reminder": {
+          const recipients = letter.assigned_to
+            ? await getAdminEmails(supabase, { ids: [letter.assigned_to] })
+            : await getAdminEmails(supabase, { subRole: "attorney_admin" })
+
+          if (recipients.length > 0) {
+            await queueTemplateEmail('admin-alert', recipients, {
+              alertMessage: `Letter "${input.letterTitle}" has been waiting ${waited} for a decision`,
+              actionUrl: `${siteUrl}/attorney-portal/review/${input.letterId}`,
+            })
+          }
+
+          return {
+            pending: true,
+            oldStatus,
+            newStatus: oldStatus,
+            notes: `No attorney decision after ${waited}; reminded ${recipients.length} attorney(s)`,
+          }
+        }
+
+        case "escalation": {
+          const recipients = await getAdminEmails(supabase, { subRole: "super_admin" })
+
+          if (recipients.length > 0) {
+            await queueTemplateEmail('admin-alert', recipients, {
+              alertMessage: `Letter "${input.letterTitle}" has had no attorney decision for ${waited}`,
+              actionUrl: `${siteUrl}/secure-admin-gateway/review/${input.letterId}`,
+            })
+          }
+
+          return {
+            pending: true,
+            oldStatus,
+            newStatus: oldStatus,
+            notes: `No attorney decision after ${waited}; escalated to ${recipients.length} super admin(s)`,
+          }
+        }
+
+        case "reassignment": {
+          const { data, error: reassignError } = await supabase.rpc('reassign_stalled_review', {
+            p_letter_id: input.letterId,
+          })
+
+          if (reassignError) throw reassignError
+
+          const result = data as { reassigned: boolean; status: string; assigned_to?: string }
+          if (!result.reassigned) {
+            return {
+              pending: true,
+              oldStatus,
+              newStatus: result.status,
+              notes: `No attorney decision after ${waited}; no other attorney is available to take the letter`,
+            }
+          }
+
+          const recipients = await getAdminEmails(supabase, { ids: [result.assigned_to!] })
+          if (recipients.length > 0) {
+            await queueTemplateEmail('admin-alert', recipients, {
+              alertMessage: `Letter "${input.letterTitle}" has been reassigned to you after ${waited} without a decision`,
+              actionUrl: `${siteUrl}/attorney-portal/review/${input.letterId}`,
+            })
+          }
+
+          return {
+            pending: true,
+            oldStatus,
+            newStatus: result.status,
+            notes: `No attorney decision after ${waited}; reassigned to another attorney`,
+          }
+        }
+
+        case "cutoff": {
+          if (input.cutoffAction === "refund") {
+            const now = new Date().toISOString()
+            const lockedNotes = `No attorney decision after ${waited}; an attorney is reviewing the letter, so it was left open`
+
+            if (letter.review_lock_expires_at && new Date(letter.review_lock_expires_at) > new Date(now)) {
+              return { pending: true, oldStatus, newStatus: oldStatus, notes: lockedNotes }
+            }
+
+            // Only fail a letter still waiting in the queue and not claimed since it was read
+            const { data: failed, error: updateError } = await supabase
+              .from("letters")
+              .update({ status: "failed", updated_at: now })
+              .eq("id", input.letterId)
+              .in("status", REVIEW_QUEUE_STATUSES)
+              .or(`review_lock_expires_at.is.null,review_lock_expires_at.lte.${now}`)
+              .select("id")
+              .maybeSingle()
+
+            if (updateError) throw updateError
+
+            if (!failed) {
+              const { data: current, error: currentError } = await supabase
+                .from("letters")
+                .select("status")
+                .eq("id", input.letterId)
+                .single()
+
+              if (currentError) throw currentError
+
+              const currentStatus = current.status as string
+              if (REVIEW_QUEUE_STATUSES.includes(currentStatus)) {
+                return { pending: true, oldStatus, newStatus: currentStatus, notes: lockedNotes }
+              }
+              return { pending: false, oldStatus, newStatus: currentStatus, notes: `Letter left the review queue as ${currentStatus}` }
+            }
+
+            return {
+              pending: true,
+              oldStatus,
+              newStatus: "failed",
+              notes: `No attorney decision after ${waited}; letter closed and allowance refunded`,
+            }
+          }
+
+          const reason = `No attorney decision after ${waited}`
+          const { error: updateError } = await supabase
+            .from("letters")
+            .update({
+              intervention_required_at: new Date().toISOString(),
+              intervention_reason: reason,
+            })
+            .eq("id", input.letterId)
+
+          if (updateError) throw updateError
+
+          const recipients = await getAdminEmails(supabase, { subRole: "super_admin" })
+          if (recipients.length > 0) {
+            await queueTemplateEmail('admin-alert', recipients, {
+              alertMessage: `Letter "${input.letterTitle}" needs intervention: ${reason}`,
+              actionUrl: `${siteUrl}/secure-admin-gateway/review/${input.letterId}`,
+            })
+          }
+
+          return {
+            pending: true,
+            oldStatus,
+            newStatus: oldStatus,
+            notes: `${reason}; flagged for super-admin intervention`,
+          }
+        }
+      }
+    },
+    {
+      maxAttempts: 3,
+      backoff: "exponential"
+    }
+  )
+}
@@ -7,6 +7,7 @@
  */
 import { step } from "workflow"
 import { createClient } from "@/lib/supabase/server"
+import { recordLetterVersion } from "@/lib/services/letter-version-service"
 
 export interface FinalizeLetterInput {
   letterId: string
@@ -15,6 +16,7 @@ export interface FinalizeLetterInput {
   reviewedBy: string     // Attorney/admin user ID
   reviewNotes?: string
   rejectionReason?: string
+  rejectionCodes?: string[]
 }
 
 export async function finalizeLetterStep(input: FinalizeLetterInput): Promise<string> {
@@ -31,6 +33,7 @@ export async function finalizeLetterStep(input: FinalizeLetterInput): Promise<st
         reviewed_by: input.reviewedBy,
         reviewed_at: new Date().toISOString(),
         rejection_reason: input.rejectionReason || null,
+        ...(!input.approved && { rejection_codes: input.rejectionCodes ?? [] }),
         updated_at: new Date().toISOString(),
       })
       .eq("id", input.letterId)
@@ -40,6 +43,13 @@ export async function finalizeLetterStep(input: FinalizeLetterInput): Promise<st
       throw updateError
     }
 
+    if (input.approved && input.finalContent) {
+      await recordLetterVersion(input.letterId, "final_approved", input.finalContent, {
+        notes: input.reviewNotes,
+        metadata: { reviewed_by: input.reviewedBy },
+      })
+    }
+
     // Log audit trail
     await supabase.rpc('log_letter_audit', {
       p_letter_id: input.letterId,
@@ -1,17 +1,45 @@
 /**
  * Workflow Step: Generate AI Draft
  *
- * Uses OpenAI GPT-4 to generate legal letter content.
+ * Uses OpenAI GPT-4 to generate legal letter content, failing over to the
+ * secondary AI providers when OpenAI is unavailable.
+ * Text extracted from the user's uploaded documents is included as evidence.
+ * When a letterId is given the draft is streamed and the partial text is written
+ * to the letter row as it arrives, so the tracker modal can preview it live.
+ * Names, addresses, emails and phone numbers are replaced with tokens before the
+ * prompt is sent and restored in the returned draft.
+ * The draft then goes through the quality gate, which regenerates it once on hard failures.
  * Automatically retries on failure (configured in step options).
  *
- * Returns: Generated letter content as string
+ * Returns: Generated letter content with the provider and model that produced it,
+ *          the quality report and an audit note of what was redacted
  */
 import { step } from "workflow"
-import { generateTextWithRetry } from "@/lib/ai/openai-retry"
+import { generateTextWithRetry, streamTextWithRetry } from "@/lib/ai/openai-retry"
+import { hasConfiguredAIProvider } from "@/lib/ai/providers"
+import { enforceDraftQuality, type DraftQualityGateResult } from "@/lib/ai/draft-quality-gate"
+import { createClient } from "@/lib/supabase/server"
+import type { AIUsageContext } from "@/lib/services/ai-usage-service"
+import { getAttachmentEvidence, formatAttachmentEvidence } from "@/lib/attachments/service"
+import type { AttachmentEvidence } from "@/lib/attachments/types"
+import { formatJurisdictionRulesForPrompt, type JurisdictionRuleSet } from "@/lib/jurisdiction"
+import { formatLetterTypeDetails, getLetterTypeDetailFields } from "@/lib/validation/intake-fields"
+import {
+  redactIntakeData,
+  redactEvidence,
+  rehydrateText,
+  createStreamRehydrator,
+  formatRedactionInstructions,
+  describeRedaction,
+  type PIIRedaction,
+} from "@/lib/security/pii-redaction"
 
 export interface GenerateDraftInput {
+  userId: string
+  letterId?: string  // Letter row to receive partial drafts while streaming
   letterType: string
   intakeData: Record<string, unknown>
+  jurisdictionRules?: JurisdictionRuleSet | null
   recipientInfo?: {
     name?: string
     email?: string
@@ -19,10 +47,25 @@ export interface GenerateDraftInput {
   }
 }
 
+export interface GeneratedDraft extends DraftQualityGateResult {
+  redactionNotes: string | null  // What was masked before the prompt was sent, for the audit trail
+}
+
+// Minimum gap between partial draft writes
+const PREVIEW_FLUSH_INTERVAL_MS = 750
+
+const SYSTEM_PROMPT = "You are a professional legal attorney drafting formal legal letters. Always produce professional, legally sound content with proper formatting."
+
 /**
  * Build AI prompt from letter type and intake data
  */
-function buildPrompt(letterType: string, intakeData: Record<string, unknown>) {
+function buildPrompt(
+  letterType: string,
+  intakeData: Record<string, unknown>,
+  evidence: AttachmentEvidence[] = [],
+  jurisdiction: JurisdictionRuleSet | null = null,
+  redactionInstructions = ""
+) {
   const fields = (key: string) => {
     const value = intakeData[key]
     if (value === undefined || value === null || value === '') return ''
@@ -33,25 +76,22 @@ function buildPrompt(letterType: string, intakeData: Record<string, unknown>) {
     return `${fieldName}: ${String(value)}`
   }
 
-  const amountField = intakeData["amountDemanded"]
-    ? `Amount Demanded: $${Number(intakeData["amountDemanded"]).toLocaleString()}`
-    : ""
-
-  const deadlineField = intakeData["deadlineDate"]
-    ? `Deadline: ${intakeData["deadlineDate"]}`
-    : ""
-
-  const incidentDateField = intakeData["incidentDate"]
-    ? `Incident Date: ${intakeData["incidentDate"]}`
-    : ""
+  // Type-specific fields are listed with their form labels
+  const detailFields = getLetterTypeDetailFields(letterType).map(field => field.name)
+  const otherFields = Object.keys(intakeData)
+    .filter(k => !["attachments", "governingState", ...detailFields].includes(k))
 
   return `
 Generate a professional legal ${letterType} with the following details:
 
-${Object.keys(intakeData).filter(k => !["amountDemanded", "deadlineDate", "incidentDate"].includes(k)).map(fields).filter(Boolean).join('\n')}
-${amountField}
-${deadlineField}
-${incidentDateField}
+${otherFields.map(fields).filter(Boolean).join('\n')}
+${formatLetterTypeDetails(letterType, intakeData).join('\n')}
+
+${formatJurisdictionRulesForPrompt(jurisdiction)}
+
+${formatAttachmentEvidence(evidence)}
+
+${redactionInstructions}
 
 Requirements:
 - Professional formal tone
@@ -59,41 +99,79 @@ Requirements:
 - Proper letter formatting
 - Clear and concise
 - Include all relevant details
+- Respect the governing jurisdiction's notice periods and deadlines, if provided
 - End with appropriate closing
 `.trim()
 }
 
-export async function generateDraftStep(input: GenerateDraftInput): Promise<string> {
+export async function generateDraftStep(input: GenerateDraftInput): Promise<GeneratedDraft> {
   return await step(
     "generate-ai-draft",
     async () => {
-      if (!process.env.OPENAI_API_KEY) {
-        throw new Error("OPENAI_API_KEY is not configured")
+      if (!hasConfiguredAIProvider()) {
+        throw new Error("No AI provider is configured")
       }
 
-      const prompt = buildPrompt(input.letterType, input.intakeData)
+      const attachmentIds = Array.isArray(input.intakeData["attachments"])
+        ? (input.intakeData["attachments"] as string[])
+        : []
+      const evidence = await getAttachmentEvidence(input.userId, attachmentIds)
+
+      const redaction = redactIntakeData(input.intakeData)
+      const redactedEvidence = redactEvidence(evidence, redaction)
+      const prompt = buildPrompt(
+        input.letterType,
+        redaction.intakeData,
+        redactedEvidence,
+        input.jurisdictionRules,
+        formatRedactionInstructions(redaction)
+      )
 
       console.log('[GenerateDraft] Starting AI generation with retry logic')
 
-      const { text: generatedContent, attempts, duration } = await generateTextWithRetry({
-        prompt,
-        system: "You are a professional legal attorney drafting formal legal letters. Always produce professional, legally sound content with proper formatting.",
-        temperature: 0.7,
-        maxOutputTokens: 2048,
-        model: "gpt-4-turbo"
-      })
+      const tracking: AIUsageContext = { operation: "draft", letterId: input.letterId, userId: input.userId }
+
+      const redactedGeneration = input.letterId
+        ? await streamDraftPreview(input.letterId, prompt, tracking, redaction)
+        : await generateTextWithRetry({
+            prompt,
+            system: SYSTEM_PROMPT,
+            temperature: 0.7,
+            maxOutputTokens: 2048,
+            model: "gpt-4-turbo",
+            tracking
+          })
+      const generation = { ...redactedGeneration, text: rehydrateText(redactedGeneration.text, redaction) }
 
       console.log(`[GenerateDraft] AI generation completed:`, {
-        attempts,
-        duration,
-        contentLength: generatedContent.length
+        provider: generation.provider,
+        model: generation.model,
+        attempts: generation.attempts,
+        duration: generation.duration,
+        evidenceDocuments: evidence.length,
+        contentLength: generation.text.length
       })
 
-      if (!generatedContent || generatedContent.trim().length === 0) {
+      if (!generation.text || generation.text.trim().length === 0) {
         throw new Error("AI returned empty content")
       }
 
-      return generatedContent
+      const gated = await enforceDraftQuality({
+        generation,
+        intakeData: input.intakeData,
+        prompt,
+        system: SYSTEM_PROMPT,
+        model: "gpt-4-turbo",
+        tracking,
+        redaction,
+      })
+
+      console.log(`[GenerateDraft] Quality gate:`, {
+        passed: gated.report.passed,
+        regenerated: gated.report.regenerated
+      })
+
+      return { ...gated, redactionNotes: describeRedaction(redaction) }
     },
     {
       // Automatic retry configuration
@@ -102,3 +180,48 @@ export async function generateDraftStep(input: GenerateDraftInput): Promise<stri
     }
   )
 }
+
+/**
+ * Stream the draft, writing the partial text to the letter at a throttled pace
+ * The preview is rehydrated as it streams so the tracker shows real names
+ */
+async function streamDraftPreview(
+  letterId: string,
+  prompt: string,
+  tracking: AIUsageContext,
+  redaction: PIIRedaction
+) {
+  const supabase = await createClient()
+  const rehydrator = createStreamRehydrator(redaction)
+  let draft = ""
+  let lastFlush = 0
+  let pendingFlush: Promise<unknown> = Promise.resolve()
+
+  const flush = () => {
+    lastFlush = Date.now()
+    const preview = draft
+    pendingFlush = pendingFlush.then(() =>
+      supabase
+        .from("letters")
+        .update({ ai_draft_content: preview, updated_at: new Date().toISOString() })
+        .eq("id", letterId)
+        .eq("status", "generating")
+    )
+  }
+
+  const result = await streamTextWithRetry({
+    prompt,
+    system: SYSTEM_PROMPT,
+    temperature: 0.7,
+    maxOutputTokens: 2048,
+    model: "gpt-4-turbo",
+    tracking,
+    onDelta: (delta) => {
+      draft += rehydrator.push(delta)
+      if (Date.now() - lastFlush >= PREVIEW_FLUSH_INTERVAL_MS) flush()
+    },
+  })
+
+  await pendingFlush
+  return result
+}
@@ -16,6 +16,7 @@ export interface NotifyUserInput {
   letterTitle: string
   approved: boolean
   rejectionReason?: string
+  rejectionGuidance?: Array<{ label: string; guidance: string }>
 }
 
 export async function notifyUserStep(input: NotifyUserInput): Promise<boolean> {
@@ -53,6 +54,7 @@ export async function notifyUserStep(input: NotifyUserInput): Promise<boolean> {
           userName: profile.full_name || 'User',
           letterTitle: input.letterTitle,
           rejectionReason: input.rejectionReason || 'Please review the feedback and resubmit.',
+          rejectionGuidance: input.rejectionGuidance,
           letterLink: `${siteUrl}/dashboard/letters/${input.letterId}`,
         })
 
@@ -7,16 +7,29 @@
  */
 import { step } from "workflow"
 import { createClient } from "@/lib/supabase/server"
+import { createServiceClient } from "@/lib/supabase/service"
+import { linkAttachmentsToLetter } from "@/lib/attachments/service"
+import { recordLetterVersion } from "@/lib/services/letter-version-service"
+import type { JurisdictionRuleSet } from "@/lib/jurisdiction"
+import type { DraftQualityReport } from "@/lib/validation/draft-quality"
+import type { ContentScreeningResult } from "@/lib/validation/content-screening"
 
 export interface SaveLetterInput {
   userId: string
   letterId?: string  // If provided, updates existing letter
+  newLetterId?: string  // Preassigned ID when creating, so callers can track the letter early
+  workflowId?: string  // Run creating the letter, for the workflow operations console
+  allowanceDeducted?: boolean  // Creating the letter used a credit, refunded if generation fails
   letterType: string
   title?: string
   status: string
   aiDraftContent?: string
+  draftMetadata?: Record<string, unknown>  // Generation provider/model details
+  qualityReport?: DraftQualityReport
   finalContent?: string
   intakeData?: Record<string, unknown>
+  jurisdictionRules?: JurisdictionRuleSet | null
+  contentScreening?: ContentScreeningResult | null
   recipientInfo?: {
     name?: string
     email?: string
@@ -34,6 +47,8 @@ export async function saveLetterStep(input: SaveLetterInput): Promise<string> {
         .from("letters")
         .update({
           ...(input.aiDraftContent && { ai_draft_content: input.aiDraftContent }),
+          ...(input.draftMetadata && { draft_metadata: input.draftMetadata }),
+          ...(input.qualityReport && { quality_report: input.qualityReport }),
           ...(input.finalContent && { final_content: input.finalContent }),
           ...(input.status && { status: input.status }),
           updated_at: new Date().toISOString(),
@@ -45,24 +60,40 @@ export async function saveLetterStep(input: SaveLetterInput): Promise<string> {
         throw updateError
       }
 
+      if (input.aiDraftContent) {
+        await recordLetterVersion(input.letterId, "ai_draft", input.aiDraftContent, { client: createServiceClient() })
+      }
+
       console.log(`[SaveLetter] Updated letter ${input.letterId}`)
       return input.letterId
     } else {
       // Create new letter
       const title = input.title || `${input.letterType} - ${new Date().toLocaleDateString()}`
 
-      const { data: newLetter, error: insertError } = await supabase
+      // Workflow and allowance columns can only be written by the service role
+      const { data: newLetter, error: insertError } = await createServiceClient()
         .from("letters")
         .insert({
+          ...(input.newLetterId && { id: input.newLetterId }),
           user_id: input.userId,
           letter_type: input.letterType,
           title,
           intake_data: input.intakeData || {},
+          governing_state: input.jurisdictionRules?.state ?? null,
+          jurisdiction_rules: input.jurisdictionRules ?? null,
+          content_screening: input.contentScreening ?? null,
+          content_flagged: input.contentScreening?.flagged ?? false,
           recipient_name: input.recipientInfo?.name,
           recipient_email: input.recipientInfo?.email,
           status: input.status,
           ai_draft_content: input.aiDraftContent,
           final_content: input.finalContent,
+          ...(input.allowanceDeducted !== undefined && { allowance_deducted: input.allowanceDeducted }),
+          ...(input.workflowId && {
+            workflow_id: input.workflowId,
+            workflow_status: "running",
+            workflow_started_at: new Date().toISOString(),
+          }),
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         })
@@ -74,6 +105,16 @@ export async function saveLetterStep(input: SaveLetterInput): Promise<string> {
         throw insertError || new Error("Failed to create letter")
       }
 
+      // Link uploaded intake documents so reviewers can open them
+      const attachmentIds = input.intakeData?.attachments
+      if (Array.isArray(attachmentIds) && attachmentIds.length > 0) {
+        await linkAttachmentsToLetter(input.userId, newLetter.id, attachmentIds as string[])
+      }
+
+      if (input.aiDraftContent) {
+        await recordLetterVersion(newLetter.id, "ai_draft", input.aiDraftContent, { client: createServiceClient() })
+      }
+
       console.log(`[SaveLetter] Created letter ${newLetter.id}`)
       return newLetter.id
     }
@@ -0,0 +1,99 @@
+/**
+ * Workflow Steps: Track Workflow Progress
+ *
+ * Records each step attempt in letter_workflow_steps and keeps the letter's
+ * workflow_status and workflow_current_step current, for the super admin
+ * workflow operations console.
+ *
+ * Tracking failures are logged and never fail the workflow.
+ */
+import { step } from "workflow"
+import { createServiceClient } from "@/lib/supabase/service"
+import type { WorkflowRunStatus, WorkflowStepStatus } from "@/lib/admin/workflow-ops"
+
+export interface RecordWorkflowStepInput {
+  letterId: string
+  workflowId: string
+  step: string
+  status: WorkflowStepStatus
+  error?: string
+}
+
+export interface WorkflowStatusInput {
+  letterId: string
+  status: WorkflowRunStatus
+  currentStep?: string | null
+  error?: string
+}
+
+export async function recordWorkflowStepStep(input: RecordWorkflowStepInput): Promise<void> {
+  return await step("record-workflow-step", async () => {
+    const supabase = createServiceClient()
+    const now = new Date().toISOString()
+
+    if (input.status === "running") {
+      const { count } = await supabase
+        .from("letter_workflow_steps")
+        .select("id", { count: "exact", head: true })
+        .eq("workflow_id", input.workflowId)
+        .eq("step", input.step)
+
+      const { error } = await supabase.from("letter_workflow_steps").insert({
+        letter_id: input.letterId,
+        workflow_id: input.workflowId,
+        step: input.step,
+        attempt: (count || 0) + 1,
+      })
+
+      if (error) {
+        console.error("[TrackWorkflow] Failed to record step start:", error)
+      }
+    } else {
+      const { error } = await supabase
+        .from("letter_workflow_steps")
+        .update({ status: input.status, error: input.error ?? null, finished_at: now })
+        .eq("workflow_id", input.workflowId)
+        .eq("step", input.step)
+        .eq("status", "running")
+
+      if (error) {
+        console.error("[TrackWorkflow] Failed to record step outcome:", error)
+      }
+    }
+
+    const { error: letterError } = await supabase
+      .from("letters")
+      .update({
+        workflow_current_step: input.step,
+        // A failed step pauses the run until it is retried or given up on
+        workflow_status: input.status === "failed" ? "paused" : "running",
+        workflow_error: input.status === "failed" ? input.error ?? null : null,
+      })
+      .eq("id", input.letterId)
+
+    if (letterError) {
+      console.error("[TrackWorkflow] Failed to update letter workflow state:", letterError)
+    }
+  })
+}
+
+export async function setWorkflowStatusStep(input: WorkflowStatusInput): Promise<void> {
+  return await step("set-workflow-status", async () => {
+    const supabase = createServiceClient()
+    const finished = input.status === "completed" || input.status === "failed" || input.status === "cancelled"
+
+    const { error } = await supabase
+      .from("letters")
+      .update({
+        workflow_status: input.status,
+        ...(input.currentStep !== undefined && { workflow_current_step: input.currentStep }),
+        ...(input.error !== undefined && { workflow_error: input.error }),
+        ...(finished && { workflow_completed_at: new Date().toISOString() }),
+      })
+      .eq("id", input.letterId)
+
+    if (error) {
+      console.error("[TrackWorkflow] Failed to update workflow status:", error)
+    }
+  })
+}
@@ -0,0 +1,239 @@
+'use client'
+
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Cpu, DollarSign, Percent, Receipt, Users } from 'lucide-react'
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts'
+import type { AICostConsumer, AICostSummary, AIPlanMargin } from '@/lib/services/ai-usage-service'
+
+export type AICostAnalytics = AICostSummary & { plan_margins: AIPlanMargin[] }
+
+interface AICostPanelProps {
+  costs: AICostAnalytics | null
+  daysBack: string
+}
+
+function formatUsd(value: number, digits = 2) {
+  return `$${Number(value || 0).toLocaleString('en-US', { minimumFractionDigits: digits, maximumFractionDigits: digits })}`
+}
+
+function formatTokens(value: number) {
+  const tokens = Number(value || 0)
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`
+  return String(tokens)
+}
+
+function ConsumerList({ consumers }: { consumers: AICostConsumer[] }) {
+  if (consumers.length === 0) {
+    return <p className="text-sm text-muted-foreground">No AI usage recorded</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      {consumers.map(consumer => (
+        <div key={consumer.user_id} className="flex items-center justify-between gap-4 text-sm">
+          <div className="min-w-0">
+            <p className="truncate font-medium">{consumer.full_name || consumer.email || consumer.user_id}</p>
+            <p className="text-xs text-muted-foreground">
+              {consumer.letters} letters · {consumer.calls} calls · {formatTokens(consumer.tokens)} tokens
+            </p>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            {consumer.role && <Badge variant="outline" className="text-xs">{consumer.role}</Badge>}
+            <span className="font-semibold">{formatUsd(consumer.cost_usd)}</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * AI token spend for the selected period: cost per letter type, plan margins and top consumers
+ */
+export function AICostPanel({ costs, daysBack }: AICostPanelProps) {
+  if (!costs) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Cpu className="h-5 w-5" />
+            AI Costs
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground">AI cost data is unavailable</p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const letterTypeData = costs.by_letter_type.map(row => ({
+    letterType: row.letter_type,
+    avgCost: Number(row.avg_cost_per_letter) || 0
+  }))
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">AI Spend (Period)</CardTitle>
+            <DollarSign className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatUsd(costs.totals.cost_usd)}</div>
+            <p className="text-xs text-muted-foreground mt-1">
+              {costs.totals.calls} calls over the last {daysBack} days
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Avg Cost / Letter</CardTitle>
+            <Receipt className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatUsd(costs.totals.avg_cost_per_letter, 4)}</div>
+            <p className="text-xs text-muted-foreground mt-1">
+              Across {costs.totals.letters} letters, including revisions
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Tokens</CardTitle>
+            <Cpu className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {formatTokens(costs.totals.input_tokens + costs.totals.output_tokens)}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              {formatTokens(costs.totals.input_tokens)} prompt · {formatTokens(costs.totals.output_tokens)} completion
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Lowest Plan Margin</CardTitle>
+            <Percent className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            {costs.plan_margins.length > 0 ? (
+              <>
+                <div className="text-2xl font-bold">
+                  {Math.min(...costs.plan_margins.map(plan => plan.margin_percent)).toFixed(1)}%
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">Revenue per letter after AI cost</p>
+              </>
+            ) : (
+              <div className="text-2xl font-bold">—</div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Cpu className="h-5 w-5" />
+              AI Cost per Letter Type
+            </CardTitle>
+            <CardDescription>
+              Average AI cost of a letter, including regenerations and improvements
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {letterTypeData.length > 0 ? (
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={letterTypeData}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                    <XAxis dataKey="letterType" tick={{ fontSize: 12 }} />
+                    <YAxis tick={{ fontSize: 12 }} tickFormatter={(value) => `$${value}`} />
+                    <Tooltip formatter={(value: number | undefined) => [formatUsd(value ?? 0, 4), '']} />
+                    <Bar dataKey="avgCost" name="Avg cost / letter" fill="#8b5cf6" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            ) : (
+              <div className="h-64 flex items-center justify-center text-muted-foreground">
+                No AI usage recorded
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Percent className="h-5 w-5" />
+              Plan Margins
+            </CardTitle>
+            <CardDescription>
+              Plan price per letter against the average AI cost of a letter
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {costs.plan_margins.map(plan => (
+              <div key={plan.plan_type} className="flex items-center justify-between text-sm">
+                <div>
+                  <p className="font-medium">{plan.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatUsd(plan.revenue_per_letter)} per letter · {formatUsd(plan.ai_cost_per_letter, 4)} AI
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="font-semibold">{formatUsd(plan.margin)}</p>
+                  <p className="text-xs text-muted-foreground">{plan.margin_percent.toFixed(1)}%</p>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Top Consumers
+            </CardTitle>
+            <CardDescription>Letter owners the AI cost is attributed to</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ConsumerList consumers={costs.top_users} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Top Triggers
+            </CardTitle>
+            <CardDescription>Users and admins whose requests made the AI calls</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ConsumerList consumers={costs.top_triggers} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,212 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Download, Gavel, Star } from 'lucide-react'
+import { LETTER_TYPES } from '@/lib/constants'
+import type { AttorneyMetrics } from '@/lib/services/attorney-metrics-service'
+
+interface AttorneyMetricsPanelProps {
+  daysBack: string
+}
+
+// Select values cannot be empty strings
+const ALL_TYPES = 'all'
+
+function toDateInput(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function defaultRange(daysBack: string) {
+  const to = new Date()
+  const from = new Date(to.getTime() - Number(daysBack) * 24 * 60 * 60 * 1000)
+  return { from: toDateInput(from), to: toDateInput(to) }
+}
+
+function formatHours(hours: number | null): string {
+  if (hours === null) return '—'
+  return hours < 48 ? `${hours.toFixed(1)}h` : `${(hours / 24).toFixed(1)}d`
+}
+
+const COLUMN_CLASS = 'px-4 py-2 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider'
+
+/**
+ * Per-attorney review volume, speed and quality for a date range and letter
+ * type, with CSV export
+ */
+export function AttorneyMetricsPanel({ daysBack }: AttorneyMetricsPanelProps) {
+  const [range, setRange] = useState(() => defaultRange(daysBack))
+  const [letterType, setLetterType] = useState(ALL_TYPES)
+  const [attorneys, setAttorneys] = useState<AttorneyMetrics[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    setRange(defaultRange(daysBack))
+  }, [daysBack])
+
+  const query = new URLSearchParams({
+    from: range.from,
+    to: range.to,
+    ...(letterType !== ALL_TYPES && { letterType }),
+  }).toString()
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/admin/analytics/attorneys?${query}`)
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(result.error || 'Failed to load attorney metrics')
+
+      setAttorneys(result.data?.attorneys || [])
+      setError(null)
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load attorney metrics')
+    } finally {
+      setLoading(false)
+    }
+  }, [query])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Gavel className="h-5 w-5" />
+              Attorney Performance
+            </CardTitle>
+            <CardDescription>
+              Review decisions, turnaround, draft edits, revision requests and subscriber ratings per attorney
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/admin/analytics/attorneys?${query}&format=csv`}>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </a>
+          </Button>
+        </div>
+        <div className="flex flex-wrap items-end gap-3 pt-2">
+          <div>
+            <Label htmlFor="attorney-metrics-from" className="text-xs">From</Label>
+            <Input
+              id="attorney-metrics-from"
+              type="date"
+              value={range.from}
+              max={range.to}
+              onChange={(e) => e.target.value && setRange({ ...range, from: e.target.value })}
+              className="w-40"
+            />
+          </div>
+          <div>
+            <Label htmlFor="attorney-metrics-to" className="text-xs">To</Label>
+            <Input
+              id="attorney-metrics-to"
+              type="date"
+              value={range.to}
+              min={range.from}
+              onChange={(e) => e.target.value && setRange({ ...range, to: e.target.value })}
+              className="w-40"
+            />
+          </div>
+          <div>
+            <Label className="text-xs">Letter type</Label>
+            <Select value={letterType} onValueChange={setLetterType}>
+              <SelectTrigger className="w-52">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_TYPES}>All letter types</SelectItem>
+                {LETTER_TYPES.map(type => (
+                  <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        {error ? (
+          <p className="px-6 pb-6 text-sm text-red-600">{error}</p>
+        ) : loading ? (
+          <p className="px-6 pb-6 text-sm text-muted-foreground">Loading attorney metrics...</p>
+        ) : attorneys.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-border text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                    Attorney
+                  </th>
+                  <th className={COLUMN_CLASS}>Reviewed</th>
+                  <th className={COLUMN_CLASS}>Approved / Rejected</th>
+                  <th className={COLUMN_CLASS}>Median to first action</th>
+                  <th className={COLUMN_CLASS}>Median to approval</th>
+                  <th className={COLUMN_CLASS}>Draft edited</th>
+                  <th className={COLUMN_CLASS}>Revision requests</th>
+                  <th className={COLUMN_CLASS}>Rating</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {attorneys.map(attorney => (
+                  <tr key={attorney.attorney_id}>
+                    <td className="px-4 py-2">
+                      <p className="font-medium">{attorney.full_name || attorney.email || 'Unknown attorney'}</p>
+                      {attorney.full_name && attorney.email && (
+                        <p className="text-xs text-muted-foreground">{attorney.email}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-right font-semibold">{attorney.letters_reviewed}</td>
+                    <td className="px-4 py-2 text-right">
+                      {attorney.approved} / {attorney.rejected}
+                      <span className="ml-1 text-xs text-muted-foreground">({attorney.approval_rate.toFixed(0)}%)</span>
+                    </td>
+                    <td className="px-4 py-2 text-right">{formatHours(attorney.median_first_action_hours)}</td>
+                    <td className="px-4 py-2 text-right">{formatHours(attorney.median_approval_hours)}</td>
+                    <td className="px-4 py-2 text-right">
+                      {attorney.avg_edit_percent === null ? '—' : (
+                        <>
+                          {attorney.avg_edit_percent.toFixed(0)}%
+                          <span className="ml-1 text-xs text-muted-foreground">
+                            ({attorney.avg_words_changed!.toFixed(0)} words)
+                          </span>
+                        </>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-right">{attorney.revision_requests}</td>
+                    <td className="px-4 py-2 text-right">
+                      {attorney.avg_rating === null ? '—' : (
+                        <span className="inline-flex items-center gap-1">
+                          <Star className="h-3.5 w-3.5 fill-amber-400 text-amber-400" />
+                          {attorney.avg_rating.toFixed(1)}
+                          <span className="text-xs text-muted-foreground">({attorney.rating_count})</span>
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="px-6 pb-6 text-sm text-muted-foreground">No review decisions in this period</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,307 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader2, Plus, Scale, Trash2, Upload } from 'lucide-react'
+import { getAdminCsrfToken } from '@/lib/admin/csrf-client'
+import { LETTER_TYPES } from '@/lib/constants'
+import { US_STATES } from '@/lib/jurisdiction/states'
+import type { AttorneyDirectoryEntry } from '@/lib/services/attorney-profile-service'
+
+interface AdmissionForm {
+  state: string
+  barNumber: string
+  isActive: boolean
+}
+
+interface ProfileForm {
+  firmName: string
+  practiceAreas: string[]
+  isActive: boolean
+  admissions: AdmissionForm[]
+}
+
+function toForm(attorney: AttorneyDirectoryEntry): ProfileForm {
+  return {
+    firmName: attorney.profile?.firm_name || '',
+    practiceAreas: attorney.profile?.practice_areas || [],
+    isActive: attorney.profile?.is_active ?? true,
+    admissions: (attorney.profile?.admissions || []).map(admission => ({
+      state: admission.state,
+      barNumber: admission.bar_number,
+      isActive: admission.is_active,
+    })),
+  }
+}
+
+function AttorneyProfileCard({ attorney, onSaved }: { attorney: AttorneyDirectoryEntry; onSaved: () => void }) {
+  const [form, setForm] = useState<ProfileForm>(() => toForm(attorney))
+  const [saving, setSaving] = useState(false)
+  const [uploading, setUploading] = useState(false)
+
+  useEffect(() => {
+    setForm(toForm(attorney))
+  }, [attorney])
+
+  const updateAdmission = (index: number, changes: Partial<AdmissionForm>) => {
+    setForm({
+      ...form,
+      admissions: form.admissions.map((admission, i) => (i === index ? { ...admission, ...changes } : admission)),
+    })
+  }
+
+  const togglePracticeArea = (value: string, checked: boolean) => {
+    setForm({
+      ...form,
+      practiceAreas: checked
+        ? [...form.practiceAreas, value]
+        : form.practiceAreas.filter(area => area !== value),
+    })
+  }
+
+  const save = async () => {
+    setSaving(true)
+    try {
+      const csrfToken = await getAdminCsrfToken()
+      const response = await fetch('/api/admin/attorneys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-csrf-token': csrfToken },
+        body: JSON.stringify({ attorneyId: attorney.id, ...form }),
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(result.error || 'Failed to save attorney profile')
+
+      toast.success('Attorney profile saved')
+      onSaved()
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save attorney profile')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const uploadSignature = async (file: File | undefined) => {
+    if (!file) return
+    setUploading(true)
+    try {
+      const csrfToken = await getAdminCsrfToken()
+      const body = new FormData()
+      body.append('file', file)
+
+      const response = await fetch(`/api/admin/attorneys/${attorney.id}/signature`, {
+        method: 'POST',
+        headers: { 'x-csrf-token': csrfToken },
+        body,
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(result.error || 'Failed to upload signature')
+
+      toast.success('Signature uploaded')
+      onSaved()
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to upload signature')
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const usedStates = new Set(form.admissions.map(admission => admission.state))
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-base">{attorney.full_name || attorney.email}</CardTitle>
+            <CardDescription>{attorney.email}</CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`attorney-active-${attorney.id}`} className="text-sm">Taking letters</Label>
+            <Switch
+              id={`attorney-active-${attorney.id}`}
+              checked={form.isActive}
+              onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div>
+          <Label htmlFor={`attorney-firm-${attorney.id}`}>Firm name</Label>
+          <Input
+            id={`attorney-firm-${attorney.id}`}
+            value={form.firmName}
+            onChange={(e) => setForm({ ...form, firmName: e.target.value })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Bar admissions</Label>
+          {form.admissions.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No admissions recorded. Letters with a governing state will not be routed to this attorney.
+            </p>
+          )}
+          {form.admissions.map((admission, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Select value={admission.state} onValueChange={(state) => updateAdmission(index, { state })}>
+                <SelectTrigger className="w-44">
+                  <SelectValue placeholder="State" />
+                </SelectTrigger>
+                <SelectContent>
+                  {US_STATES.filter(state => state.code === admission.state || !usedStates.has(state.code)).map(state => (
+                    <SelectItem key={state.code} value={state.code}>{state.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={admission.barNumber}
+                onChange={(e) => updateAdmission(index, { barNumber: e.target.value })}
+                placeholder="Bar number"
+                className="max-w-48"
+              />
+              <Switch
+                checked={admission.isActive}
+                onCheckedChange={(checked) => updateAdmission(index, { isActive: checked })}
+                aria-label={`License in ${admission.state || 'state'} is active`}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setForm({ ...form, admissions: form.admissions.filter((_, i) => i !== index) })}
+                aria-label="Remove admission"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setForm({ ...form, admissions: [...form.admissions, { state: '', barNumber: '', isActive: true }] })}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add State
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Practice areas</Label>
+          <p className="text-xs text-muted-foreground">Preferred when several licensed attorneys could take a letter</p>
+          <div className="grid gap-2 md:grid-cols-2">
+            {LETTER_TYPES.map(type => (
+              <div key={type.value} className="flex items-center gap-2">
+                <Checkbox
+                  id={`attorney-area-${attorney.id}-${type.value}`}
+                  checked={form.practiceAreas.includes(type.value)}
+                  onCheckedChange={(checked) => togglePracticeArea(type.value, checked === true)}
+                />
+                <Label htmlFor={`attorney-area-${attorney.id}-${type.value}`} className="font-normal">
+                  {type.label}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 border-t pt-4">
+          <div className="flex items-center gap-2 text-sm">
+            <Badge variant="outline">
+              {attorney.profile?.signature_path ? 'Signature on file' : 'No signature'}
+            </Badge>
+            <Label
+              htmlFor={`attorney-signature-${attorney.id}`}
+              className="flex cursor-pointer items-center gap-1 font-normal text-primary"
+            >
+              {uploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+              Upload PNG or JPEG
+            </Label>
+            <input
+              id={`attorney-signature-${attorney.id}`}
+              type="file"
+              accept="image/png,image/jpeg"
+              className="hidden"
+              disabled={uploading || !attorney.profile}
+              onChange={(e) => uploadSignature(e.target.files?.[0])}
+            />
+          </div>
+          <Button
+            onClick={save}
+            disabled={saving || form.admissions.some(admission => !admission.state || !admission.barNumber.trim())}
+          >
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Profile
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Licensing profiles of every attorney admin, which decide where letters are routed
+ */
+export function AttorneyProfileManager() {
+  const [attorneys, setAttorneys] = useState<AttorneyDirectoryEntry[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/attorneys')
+      if (!response.ok) return
+      const result = await response.json()
+      setAttorneys(result.attorneys || [])
+    } catch (error) {
+      console.error('[AttorneyProfiles] Failed to load attorneys:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-48 w-full" />
+        <Skeleton className="h-48 w-full" />
+      </div>
+    )
+  }
+
+  if (attorneys.length === 0) {
+    return (
+      <Card className="bg-muted/30">
+        <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+          <Scale className="h-8 w-8 text-muted-foreground mb-3" />
+          <p className="text-muted-foreground">No attorney admins yet.</p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {attorneys.map(attorney => (
+        <AttorneyProfileCard key={attorney.id} attorney={attorney} onSaved={load} />
+      ))}
+    </div>
+  )
+}
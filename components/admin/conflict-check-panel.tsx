@@ -0,0 +1,175 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+import { format } from 'date-fns'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Textarea } from '@/components/ui/textarea'
+import { Loader2, ShieldAlert, ShieldCheck } from 'lucide-react'
+import { getAdminCsrfToken } from '@/lib/admin/csrf-client'
+import {
+  CONFLICT_KIND_LABELS,
+  getUnacknowledgedConflicts,
+  type ConflictCheckResult,
+  type ConflictConfidence,
+} from '@/lib/admin/conflict-check'
+
+const CONFIDENCE_STYLES: Record<ConflictConfidence, string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-amber-100 text-amber-800',
+  low: 'bg-slate-100 text-slate-700',
+}
+
+interface ConflictCheckState {
+  check: ConflictCheckResult
+  approvalBlock: string | null
+}
+
+/**
+ * Conflict-of-interest check for the current attorney, with the
+ * acknowledgment required before potential conflicts allow approval
+ */
+export function ConflictCheckPanel({ letterId, letterPathPrefix }: { letterId: string; letterPathPrefix: string }) {
+  const [state, setState] = useState<ConflictCheckState | null>(null)
+  const [notes, setNotes] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/letters/${letterId}/conflicts`)
+      if (!response.ok) return
+      setState(await response.json())
+    } catch (error) {
+      console.error('[ConflictCheck] Failed to load conflict check:', error)
+    }
+  }, [letterId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const acknowledge = async () => {
+    setSubmitting(true)
+    try {
+      const csrfToken = await getAdminCsrfToken()
+      const response = await fetch(`/api/admin/letters/${letterId}/conflicts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-csrf-token': csrfToken },
+        body: JSON.stringify({ notes }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(data.error || 'Failed to acknowledge conflicts')
+
+      setState(data)
+      setNotes('')
+      toast.success('Conflicts acknowledged')
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to acknowledge conflicts')
+      await load()
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (!state) return null
+
+  const { check, approvalBlock } = state
+  const hasHardConflict = check.conflicts.some(conflict => conflict.hard)
+  const unacknowledged = getUnacknowledgedConflicts(check)
+  const acknowledgment = check.acknowledgment
+
+  if (check.conflicts.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-green-600" />
+            Conflict Check
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground">
+            No matches against subscribers or letters you have reviewed.
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className={hasHardConflict ? 'border-red-300' : unacknowledged.length > 0 ? 'border-amber-300' : undefined}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className={`h-5 w-5 ${hasHardConflict ? 'text-red-600' : 'text-amber-600'}`} />
+          Conflict Check
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {approvalBlock && (
+          <p className={`text-sm font-medium ${hasHardConflict ? 'text-red-700' : 'text-amber-700'}`}>
+            {approvalBlock}
+          </p>
+        )}
+
+        <ul className="space-y-3">
+          {check.conflicts.map(conflict => (
+            <li key={conflict.id} className="rounded-md border p-3 text-sm">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">{CONFLICT_KIND_LABELS[conflict.kind]}</span>
+                <Badge variant="outline" className={CONFIDENCE_STYLES[conflict.confidence]}>
+                  {conflict.confidence} confidence
+                </Badge>
+                {conflict.hard && <Badge variant="destructive">Blocks approval</Badge>}
+              </div>
+              <p className="mt-1 text-muted-foreground">
+                &ldquo;{conflict.partyName}&rdquo; matches &ldquo;{conflict.matchedName}&rdquo;
+                {conflict.emailMatch
+                  ? ' (same email)'
+                  : ` (${Math.round(conflict.similarity * 100)}% name similarity)`}
+                {conflict.matchedEmail && !conflict.emailMatch && <> &middot; {conflict.matchedEmail}</>}
+              </p>
+              {conflict.matchedLetterId && (
+                <Link
+                  href={`${letterPathPrefix}/${conflict.matchedLetterId}`}
+                  className="mt-1 inline-block text-primary hover:underline"
+                >
+                  View matched letter
+                </Link>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {acknowledgment && acknowledgment.attorneyId === check.attorneyId && (
+          <div className="rounded-md bg-muted/50 p-3 text-sm">
+            <p className="font-medium">
+              Acknowledged {format(new Date(acknowledgment.acknowledgedAt), 'MMM d, yyyy h:mm a')}
+            </p>
+            <p className="text-muted-foreground whitespace-pre-wrap">{acknowledgment.notes}</p>
+          </div>
+        )}
+
+        {!hasHardConflict && unacknowledged.length > 0 && (
+          <div className="space-y-2">
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Explain why these matches do not prevent you from reviewing this letter..."
+              rows={3}
+              disabled={submitting}
+            />
+            <div className="flex justify-end">
+              <Button size="sm" onClick={acknowledge} disabled={submitting || !notes.trim()}>
+                {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Acknowledge Conflicts
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
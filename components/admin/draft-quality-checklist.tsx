@@ -0,0 +1,59 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { AlertTriangle, CheckCircle2, ClipboardCheck, RefreshCw, XCircle } from "lucide-react"
+import type { DraftQualityReport } from "@/lib/validation/draft-quality"
+
+interface DraftQualityChecklistProps {
+  report: DraftQualityReport | null
+}
+
+/**
+ * Automated quality checks run on the AI draft before it entered the review queue
+ */
+export function DraftQualityChecklist({ report }: DraftQualityChecklistProps) {
+  if (!report) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <ClipboardCheck className="w-5 h-5" />
+            Draft Quality Checks
+          </span>
+          <Badge variant={report.passed ? "default" : "destructive"}>
+            {report.passed ? "Passed" : "Needs attention"}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {report.regenerated && (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <RefreshCw className="h-4 w-4" />
+            The first draft failed these checks and was regenerated automatically.
+          </p>
+        )}
+
+        <ul className="space-y-2">
+          {report.checks.map((check) => (
+            <li key={check.id} className="flex items-start gap-2 text-sm">
+              {check.passed ? (
+                <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-green-600" />
+              ) : check.severity === "hard" ? (
+                <XCircle className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />
+              ) : (
+                <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-amber-600" />
+              )}
+              <div>
+                <p className={check.passed ? "text-muted-foreground" : "font-medium"}>{check.label}</p>
+                {check.details && <p className="text-muted-foreground">{check.details}</p>}
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <p className="text-xs text-muted-foreground">{report.wordCount} words</p>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,71 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { AlertTriangle, Scale } from "lucide-react"
+import type { JurisdictionRuleSet } from "@/lib/jurisdiction/types"
+
+interface JurisdictionRulesCardProps {
+  ruleSet: JurisdictionRuleSet | null
+}
+
+/**
+ * Shows the versioned state rule set that was injected into the generation prompt,
+ * plus any deadline warnings raised at intake
+ */
+export function JurisdictionRulesCard({ ruleSet }: JurisdictionRulesCardProps) {
+  if (!ruleSet) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Scale className="w-5 h-5" />
+            Jurisdiction: {ruleSet.stateName}
+          </span>
+          <Badge variant="outline">Rules v{ruleSet.version}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {ruleSet.warnings.length > 0 && (
+          <div className="space-y-1 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+            {ruleSet.warnings.map((warning) => (
+              <p key={warning} className="flex items-start gap-2">
+                <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                {warning}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {ruleSet.rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No state-specific rules on file for this letter type. Verify applicable law independently.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {ruleSet.rules.map((rule) => (
+              <li key={rule.id} className="border-l-2 border-primary/30 pl-3">
+                <p className="text-sm font-medium">{rule.topic}</p>
+                <p className="text-sm text-muted-foreground">{rule.description}</p>
+                <div className="mt-1 flex flex-wrap gap-2">
+                  <Badge variant="secondary">{rule.citation}</Badge>
+                  {rule.minNoticeDays !== undefined && (
+                    <Badge variant="outline">
+                      Min. notice {rule.minNoticeDays} {rule.businessDaysOnly ? "business days" : "days"}
+                    </Badge>
+                  )}
+                  {rule.statutoryDeadlineDays !== undefined && (
+                    <Badge variant="outline">Deadline {rule.statutoryDeadlineDays} days</Badge>
+                  )}
+                  {rule.penaltyMultiplier !== undefined && (
+                    <Badge variant="outline">Penalty up to {rule.penaltyMultiplier}x</Badge>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,72 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { ExternalLink, FileText, Paperclip } from "lucide-react"
+import type { LetterAttachment } from "@/lib/attachments/types"
+
+interface LetterAttachmentsPanelProps {
+  attachments: LetterAttachment[]
+}
+
+const extractionLabels: Record<LetterAttachment["extraction_status"], string> = {
+  pending: "Processing",
+  extracted: "Text used by AI",
+  unsupported: "Not read by AI",
+  failed: "Unreadable",
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * Supporting documents the subscriber uploaded with the letter
+ * Each link goes through /api/attachments/[id], which checks access and
+ * redirects to a short-lived signed URL
+ */
+export function LetterAttachmentsPanel({ attachments }: LetterAttachmentsPanelProps) {
+  return (
+    <div className="space-y-3">
+      <p className="flex items-center gap-2 text-sm font-medium">
+        <Paperclip className="h-4 w-4" />
+        Supporting Documents ({attachments.length})
+      </p>
+
+      {attachments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No documents were uploaded with this letter.</p>
+      ) : (
+        <ul className="space-y-2">
+          {attachments.map((attachment) => (
+            <li
+              key={attachment.id}
+              className="flex items-center gap-3 rounded-lg border bg-card p-3"
+            >
+              <FileText className="h-5 w-5 shrink-0 text-muted-foreground" />
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium">{attachment.file_name}</p>
+                <div className="mt-1 flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground">{formatSize(attachment.size_bytes)}</span>
+                  <Badge
+                    variant={attachment.extraction_status === "extracted" ? "secondary" : "outline"}
+                    className="text-xs"
+                  >
+                    {extractionLabels[attachment.extraction_status]}
+                  </Badge>
+                </div>
+              </div>
+              <Button variant="outline" size="sm" asChild>
+                <a href={`/api/attachments/${attachment.id}`} target="_blank" rel="noopener noreferrer">
+                  <ExternalLink className="mr-1 h-3 w-3" />
+                  Open
+                </a>
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -18,7 +18,6 @@ import {
   DialogFooter,
   DialogHeader,
   DialogTitle,
-  DialogTrigger,
 } from "@/components/ui/dialog"
 import {
   Select,
@@ -42,19 +41,29 @@ import {
 } from "lucide-react"
 import { toast } from "sonner"
 import type { Letter, LetterAuditTrail } from "@/lib/types/letter.types"
+import type { LetterAttachment } from "@/lib/attachments/types"
 import { getAdminCsrfToken } from "@/lib/admin/csrf-client"
+import { LetterAttachmentsPanel } from "@/components/admin/letter-attachments-panel"
+import { JurisdictionRulesCard } from "@/components/admin/jurisdiction-rules-card"
+import { DraftQualityChecklist } from "@/components/admin/draft-quality-checklist"
+import { LetterVersionHistory } from "@/components/admin/letter-version-history"
+import { LetterComments } from "@/components/letter-comments"
+import { RejectionCodePicker } from "@/components/admin/rejection-code-picker"
 
 interface LetterReviewInterfaceProps {
   letter: Letter
   auditTrail: LetterAuditTrail[]
+  attachments?: LetterAttachment[]
 }
 
-export function LetterReviewInterface({ letter, auditTrail }: LetterReviewInterfaceProps) {
+export function LetterReviewInterface({ letter, auditTrail, attachments = [] }: LetterReviewInterfaceProps) {
   const router = useRouter()
   const [isEditing, setIsEditing] = useState(false)
   const [editedContent, setEditedContent] = useState(letter.final_content || letter.ai_draft_content || "")
   const [reviewNotes, setReviewNotes] = useState("")
   const [rejectionReason, setRejectionReason] = useState("")
+  const [rejectionCodes, setRejectionCodes] = useState<string[]>([])
+  const [rejectDialogOpen, setRejectDialogOpen] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [activeTab, setActiveTab] = useState("review")
   const [newStatus, setNewStatus] = useState<string>("")
@@ -73,6 +82,7 @@ export function LetterReviewInterface({ letter, auditTrail }: LetterReviewInterf
       draft: { variant: "secondary" as const, label: "Draft" },
       generating: { variant: "secondary" as const, label: "Generating" },
       pending_review: { variant: "default" as const, label: "Pending Review" },
+      revision_requested: { variant: "default" as const, label: "Revision Requested" },
       under_review: { variant: "secondary" as const, label: "Under Review" },
       approved: { variant: "default" as const, label: "Approved" },
       completed: { variant: "default" as const, label: "Completed" },
@@ -139,8 +149,8 @@ export function LetterReviewInterface({ letter, auditTrail }: LetterReviewInterf
   }
 
   const handleReject = async () => {
-    if (!rejectionReason.trim()) {
-      toast.error("Please provide a rejection reason")
+    if (rejectionCodes.length === 0) {
+      toast.error("Please select at least one rejection reason")
       return
     }
 
@@ -152,6 +162,7 @@ export function LetterReviewInterface({ letter, auditTrail }: LetterReviewInterf
         headers,
         body: JSON.stringify({
           action: "reject",
+          rejectionCodes,
           rejectionReason,
           reviewNotes,
         }),
@@ -163,6 +174,7 @@ export function LetterReviewInterface({ letter, auditTrail }: LetterReviewInterf
       }
 
       toast.success("Letter rejected")
+      setRejectDialogOpen(false)
       router.refresh()
     } catch (error: unknown) {
       toast.error("Failed to reject letter: " + (error instanceof Error ? error.message : "Unknown error"))
@@ -200,6 +212,13 @@ export function LetterReviewInterface({ letter, auditTrail }: LetterReviewInterf
   const handleStatusChange = async (status: string) => {
     if (!status) return
 
+    // Rejections always need reasons, so they go through the reject dialog
+    if (status === "rejected") {
+      setNewStatus("")
+      setRejectDialogOpen(true)
+      return
+    }
+
     setIsLoading(true)
     try {
       const headers = await getAdminHeaders()
@@ -207,8 +226,7 @@ export function LetterReviewInterface({ letter, auditTrail }: LetterReviewInterf
         method: "POST",
         headers,
         body: JSON.stringify({
-          action: status === "approved" ? "approve" : status === "rejected" ? "reject" : "mark_completed",
-          ...(status === "rejected" && { rejectionReason: "Status changed by admin" }),
+          action: status === "approved" ? "approve" : "mark_completed",
           ...(status === "approved" && { finalContent: editedContent }),
         }),
       })
@@ -324,14 +342,19 @@ export function LetterReviewInterface({ letter, auditTrail }: LetterReviewInterf
         </CardHeader>
         <CardContent>
           <Tabs value={activeTab} onValueChange={setActiveTab}>
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-6">
               <TabsTrigger value="review">Review</TabsTrigger>
               <TabsTrigger value="edit">Edit & Improve</TabsTrigger>
+              <TabsTrigger value="comments">Comments</TabsTrigger>
+              <TabsTrigger value="versions">Versions</TabsTrigger>
               <TabsTrigger value="actions">Actions</TabsTrigger>
               <TabsTrigger value="history">History</TabsTrigger>
             </TabsList>
 
             <TabsContent value="review" className="space-y-4">
+              <DraftQualityChecklist report={letter.quality_report} />
+              <JurisdictionRulesCard ruleSet={letter.jurisdiction_rules} />
+
               {/* Review Notes */}
               <div>
                 <Label htmlFor="reviewNotes">Review Notes</Label>
@@ -346,7 +369,7 @@ export function LetterReviewInterface({ letter, auditTrail }: LetterReviewInterf
 
               {/* Quick Approval Actions */}
               <div className="flex gap-2">
-                {letter.status === "pending_review" && (
+                {(letter.status === "pending_review" || letter.status === "revision_requested") && (
                   <>
                     <Button
                       onClick={handleApprove}
@@ -365,50 +388,10 @@ export function LetterReviewInterface({ letter, auditTrail }: LetterReviewInterf
                         </>
                       )}
                     </Button>
-                    <Dialog>
-                      <DialogTrigger asChild>
-                        <Button variant="destructive" disabled={isLoading}>
-                          <XCircle className="mr-2 h-4 w-4" />
-                          Reject
-                        </Button>
-                      </DialogTrigger>
-                      <DialogContent>
-                        <DialogHeader>
-                          <DialogTitle>Reject Letter</DialogTitle>
-                          <DialogDescription>
-                            Please provide a reason for rejecting this letter.
-                          </DialogDescription>
-                        </DialogHeader>
-                        <div className="space-y-4">
-                          <div>
-                            <Label htmlFor="rejectionReason">Rejection Reason</Label>
-                            <Textarea
-                              id="rejectionReason"
-                              placeholder="Explain why this letter is being rejected..."
-                              value={rejectionReason}
-                              onChange={(e) => setRejectionReason(e.target.value)}
-                              rows={3}
-                            />
-                          </div>
-                        </div>
-                        <DialogFooter>
-                          <Button
-                            variant="destructive"
-                            onClick={handleReject}
-                            disabled={isLoading || !rejectionReason.trim()}
-                          >
-                            {isLoading ? (
-                              <>
-                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                                Rejecting...
-                              </>
-                            ) : (
-                              "Reject Letter"
-                            )}
-                          </Button>
-                        </DialogFooter>
-                      </DialogContent>
-                    </Dialog>
+                    <Button variant="destructive" disabled={isLoading} onClick={() => setRejectDialogOpen(true)}>
+                      <XCircle className="mr-2 h-4 w-4" />
+                      Reject
+                    </Button>
                   </>
                 )}
 
@@ -493,17 +476,20 @@ export function LetterReviewInterface({ letter, auditTrail }: LetterReviewInterf
                 </div>
               </div>
 
-              {/* Content Editor */}
-              <div>
-                <Label>Letter Content</Label>
-                <Textarea
-                  value={editedContent}
-                  onChange={(e) => setEditedContent(e.target.value)}
-                  disabled={!isEditing}
-                  rows={20}
-                  className="font-mono text-sm"
-                  placeholder="Letter content will appear here..."
-                />
+              {/* Content Editor with supporting documents alongside */}
+              <div className="grid gap-4 lg:grid-cols-3">
+                <div className="lg:col-span-2">
+                  <Label>Letter Content</Label>
+                  <Textarea
+                    value={editedContent}
+                    onChange={(e) => setEditedContent(e.target.value)}
+                    disabled={!isEditing}
+                    rows={20}
+                    className="font-mono text-sm"
+                    placeholder="Letter content will appear here..."
+                  />
+                </div>
+                <LetterAttachmentsPanel attachments={attachments} />
               </div>
 
               {isEditing && (
@@ -516,6 +502,24 @@ export function LetterReviewInterface({ letter, auditTrail }: LetterReviewInterf
               )}
             </TabsContent>
 
+            <TabsContent value="comments" className="space-y-4">
+              <LetterComments
+                letterId={letter.id}
+                content={letter.final_content || letter.ai_draft_content || null}
+                adminMode
+              />
+            </TabsContent>
+
+            <TabsContent value="versions" className="space-y-4">
+              <LetterVersionHistory
+                letterId={letter.id}
+                onRestore={(content) => {
+                  setEditedContent(content)
+                  router.refresh()
+                }}
+              />
+            </TabsContent>
+
             <TabsContent value="actions" className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <Button
@@ -562,6 +566,7 @@ export function LetterReviewInterface({ letter, auditTrail }: LetterReviewInterf
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="pending_review">Pending Review</SelectItem>
+                    <SelectItem value="revision_requested">Revision Requested</SelectItem>
                     <SelectItem value="under_review">Under Review</SelectItem>
                     <SelectItem value="approved">Approved</SelectItem>
                     <SelectItem value="completed">Completed</SelectItem>
@@ -602,6 +607,51 @@ export function LetterReviewInterface({ letter, auditTrail }: LetterReviewInterf
           </Tabs>
         </CardContent>
       </Card>
+
+      {/* Reject dialog also opened from the status selector */}
+      <Dialog open={rejectDialogOpen} onOpenChange={setRejectDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Letter</DialogTitle>
+            <DialogDescription>
+              Choose every reason that applies. The user receives guidance for each one.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+            <RejectionCodePicker
+              value={rejectionCodes}
+              onChange={setRejectionCodes}
+              disabled={isLoading}
+            />
+            <div>
+              <Label htmlFor="rejectionReason">Notes for the user (optional)</Label>
+              <Textarea
+                id="rejectionReason"
+                placeholder="Add specifics about what needs to change..."
+                value={rejectionReason}
+                onChange={(e) => setRejectionReason(e.target.value)}
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="destructive"
+              onClick={handleReject}
+              disabled={isLoading || rejectionCodes.length === 0}
+            >
+              {isLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Rejecting...
+                </>
+              ) : (
+                "Reject Letter"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
@@ -0,0 +1,235 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Columns2, GitCompare, Loader2, RotateCcw } from "lucide-react"
+import { toast } from "sonner"
+import type { LetterVersion, LetterVersionSource } from "@/lib/types/letter.types"
+import { getAdminCsrfToken } from "@/lib/admin/csrf-client"
+import { diffWords, getDiffStats, type DiffSegment } from "@/lib/utils/text-diff"
+
+const SOURCE_LABELS: Record<LetterVersionSource, string> = {
+  ai_draft: "AI Draft",
+  attorney_edit: "Attorney Edit",
+  ai_improve: "AI Improve",
+  final_approved: "Final Approved",
+  restored: "Restored",
+}
+
+interface LetterVersionHistoryProps {
+  letterId: string
+  onRestore?: (content: string) => void
+}
+
+function DiffText({ segments, hide }: { segments: DiffSegment[]; hide?: "insert" | "delete" }) {
+  return (
+    <div className="whitespace-pre-wrap rounded-lg border bg-white p-4 font-mono text-sm leading-relaxed">
+      {segments.map((segment, index) => {
+        if (segment.op === hide) return null
+        if (segment.op === "insert") {
+          return <ins key={index} className="bg-green-100 text-green-900 no-underline">{segment.text}</ins>
+        }
+        if (segment.op === "delete") {
+          return <del key={index} className="bg-red-100 text-red-900">{segment.text}</del>
+        }
+        return <span key={index}>{segment.text}</span>
+      })}
+    </div>
+  )
+}
+
+/**
+ * Version list with an inline or side-by-side diff between any two versions
+ */
+export function LetterVersionHistory({ letterId, onRestore }: LetterVersionHistoryProps) {
+  const [versions, setVersions] = useState<LetterVersion[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+  const [baseId, setBaseId] = useState("")
+  const [targetId, setTargetId] = useState("")
+  const [mode, setMode] = useState<"inline" | "side-by-side">("inline")
+
+  const loadVersions = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/admin/letters/${letterId}/versions`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to load versions")
+
+      const loaded: LetterVersion[] = data.versions || []
+      setVersions(loaded)
+      // Default comparison: original AI draft against the latest version
+      setBaseId(loaded[0]?.id ?? "")
+      setTargetId(loaded[loaded.length - 1]?.id ?? "")
+    } catch (error: unknown) {
+      toast.error("Failed to load versions: " + (error instanceof Error ? error.message : "Unknown error"))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [letterId])
+
+  useEffect(() => {
+    loadVersions()
+  }, [loadVersions])
+
+  const base = versions.find((v) => v.id === baseId)
+  const target = versions.find((v) => v.id === targetId)
+
+  const segments = useMemo(
+    () => (base && target ? diffWords(base.content, target.content) : []),
+    [base, target]
+  )
+  const stats = useMemo(() => getDiffStats(segments), [segments])
+
+  const handleRestore = async (version: LetterVersion) => {
+    setRestoringId(version.id)
+    try {
+      const csrfToken = await getAdminCsrfToken()
+      const response = await fetch(`/api/admin/letters/${letterId}/versions/${version.id}/restore`, {
+        method: "POST",
+        headers: { "x-csrf-token": csrfToken },
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to restore version")
+
+      toast.success(`Restored version ${version.version_number}`)
+      onRestore?.(data.content)
+      await loadVersions()
+    } catch (error: unknown) {
+      toast.error("Failed to restore version: " + (error instanceof Error ? error.message : "Unknown error"))
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8 text-sm text-gray-500">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        Loading versions...
+      </div>
+    )
+  }
+
+  if (versions.length === 0) {
+    return <p className="text-gray-500 text-sm">No versions recorded yet</p>
+  }
+
+  const versionLabel = (v: LetterVersion) => `v${v.version_number} · ${SOURCE_LABELS[v.source]}`
+
+  return (
+    <div className="space-y-6">
+      {/* Version list */}
+      <div className="space-y-2">
+        {[...versions].reverse().map((version) => (
+          <div key={version.id} className="flex items-center justify-between rounded-lg border p-3">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-sm">v{version.version_number}</span>
+                <Badge variant="outline">{SOURCE_LABELS[version.source]}</Badge>
+              </div>
+              <p className="text-xs text-gray-500">
+                {new Date(version.created_at).toLocaleString()}
+                {version.created_by && ` · ${version.created_by.slice(0, 8)}`}
+              </p>
+              {version.notes && <p className="text-sm text-gray-600">{version.notes}</p>}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleRestore(version)}
+              disabled={restoringId !== null}
+            >
+              {restoringId === version.id ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RotateCcw className="mr-2 h-4 w-4" />
+              )}
+              Restore
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {/* Compare */}
+      {versions.length > 1 && (
+        <div className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-[1fr_1fr_auto] md:items-end">
+            <div>
+              <Label>Compare from</Label>
+              <Select value={baseId} onValueChange={setBaseId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select version" />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((v) => (
+                    <SelectItem key={v.id} value={v.id}>{versionLabel(v)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>To</Label>
+              <Select value={targetId} onValueChange={setTargetId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select version" />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((v) => (
+                    <SelectItem key={v.id} value={v.id}>{versionLabel(v)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => setMode(mode === "inline" ? "side-by-side" : "inline")}
+            >
+              {mode === "inline" ? (
+                <>
+                  <Columns2 className="mr-2 h-4 w-4" />
+                  Side by side
+                </>
+              ) : (
+                <>
+                  <GitCompare className="mr-2 h-4 w-4" />
+                  Inline
+                </>
+              )}
+            </Button>
+          </div>
+
+          <div className="flex gap-4 text-xs text-gray-500">
+            <span className="text-green-700">+{stats.insertedWords} words added</span>
+            <span className="text-red-700">−{stats.deletedWords} words removed</span>
+            <span>{stats.unchangedWords} unchanged</span>
+          </div>
+
+          {mode === "inline" ? (
+            <DiffText segments={segments} />
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-1">
+                <Label>{base && versionLabel(base)}</Label>
+                <DiffText segments={segments} hide="insert" />
+              </div>
+              <div className="space-y-1">
+                <Label>{target && versionLabel(target)}</Label>
+                <DiffText segments={segments} hide="delete" />
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { FileDiff } from 'lucide-react'
+import { getAdminCsrfToken } from '@/lib/admin/csrf-client'
+
+/**
+ * Download the redline of the attorney's changes and choose whether the
+ * subscriber may download it too
+ */
+export function RedlineControls({ letterId, sharedAt }: { letterId: string; sharedAt: string | null }) {
+  const [shared, setShared] = useState(!!sharedAt)
+  const [saving, setSaving] = useState(false)
+
+  const toggleSharing = async (next: boolean) => {
+    setSaving(true)
+    try {
+      const csrfToken = await getAdminCsrfToken()
+      const response = await fetch(`/api/letters/${letterId}/redline`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-csrf-token': csrfToken },
+        body: JSON.stringify({ shared: next }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(data.error || 'Failed to update redline sharing')
+
+      setShared(next)
+      toast.success(next ? 'Redline shared with the subscriber' : 'Redline no longer shared')
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update redline sharing')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-4">
+      <div className="flex items-center gap-2">
+        <Switch
+          id={`redline-shared-${letterId}`}
+          checked={shared}
+          onCheckedChange={toggleSharing}
+          disabled={saving}
+        />
+        <Label htmlFor={`redline-shared-${letterId}`} className="text-sm font-normal">
+          Subscriber can download
+        </Label>
+      </div>
+      <Button variant="outline" size="sm" asChild>
+        <a href={`/api/letters/${letterId}/redline`}>
+          <FileDiff className="h-4 w-4 mr-2" />
+          Download Redline
+        </a>
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,83 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Loader2 } from 'lucide-react'
+import type { RejectionCode } from '@/lib/services/rejection-code-service'
+
+interface RejectionCodePickerProps {
+  value: string[]
+  onChange: (codes: string[]) => void
+  disabled?: boolean
+}
+
+const CATEGORY_LABELS: Record<RejectionCode['category'], string> = {
+  revision: 'Needs revision',
+  rejection: 'Cannot proceed as requested',
+}
+
+/**
+ * Multi-select of the active rejection codes, grouped by category
+ */
+export function RejectionCodePicker({ value, onChange, disabled = false }: RejectionCodePickerProps) {
+  const [codes, setCodes] = useState<RejectionCode[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetch('/api/admin/rejection-codes')
+      .then(response => (response.ok ? response.json() : { codes: [] }))
+      .then(data => setCodes(data.codes || []))
+      .catch(error => console.error('[RejectionCodePicker] Failed to load codes:', error))
+      .finally(() => setLoading(false))
+  }, [])
+
+  const toggle = (code: string, checked: boolean) => {
+    onChange(checked ? [...value, code] : value.filter(selected => selected !== code))
+  }
+
+  if (loading) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading rejection reasons...
+      </p>
+    )
+  }
+
+  if (codes.length === 0) {
+    return <p className="text-sm text-destructive">Rejection reasons could not be loaded.</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {(Object.keys(CATEGORY_LABELS) as RejectionCode['category'][]).map(category => {
+        const group = codes.filter(code => code.category === category)
+        if (group.length === 0) return null
+
+        return (
+          <div key={category} className="space-y-2">
+            <p className="text-xs font-medium uppercase text-muted-foreground">{CATEGORY_LABELS[category]}</p>
+            {group.map(code => (
+              <div key={code.code} className="flex items-start gap-2">
+                <Checkbox
+                  id={`rejection-code-${code.code}`}
+                  checked={value.includes(code.code)}
+                  onCheckedChange={(checked) => toggle(code.code, checked === true)}
+                  disabled={disabled}
+                  className="mt-0.5"
+                />
+                <Label htmlFor={`rejection-code-${code.code}`} className="flex flex-col items-start gap-0.5 font-normal">
+                  <span className="font-medium">{code.label}</span>
+                  {code.description && (
+                    <span className="text-xs text-muted-foreground">{code.description}</span>
+                  )}
+                </Label>
+              </div>
+            ))}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,375 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ListChecks, Tags, XCircle } from 'lucide-react'
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts'
+import { getAdminCsrfToken } from '@/lib/admin/csrf-client'
+import { LETTER_TYPES } from '@/lib/constants'
+import type {
+  RejectionBreakdownRow,
+  RejectionCode,
+  RejectionCodeCount,
+  RejectionCodeStats,
+} from '@/lib/services/rejection-code-service'
+
+interface RejectionReasonsPanelProps {
+  rejections: RejectionCodeStats | null
+  daysBack: string
+}
+
+// Columns shown in the breakdown tables; the rest are folded into "Other codes"
+const BREAKDOWN_COLUMNS = 4
+
+function letterTypeLabel(value: string) {
+  return LETTER_TYPES.find(type => type.value === value)?.label || value
+}
+
+function BreakdownTable({
+  title,
+  description,
+  rows,
+  columns,
+  formatKey,
+}: {
+  title: string
+  description: string
+  rows: RejectionBreakdownRow[]
+  columns: RejectionCodeCount[]
+  formatKey: (key: string) => string
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        {rows.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-border text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider" />
+                  {columns.map(column => (
+                    <th key={column.code} className="px-4 py-2 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                      {column.label}
+                    </th>
+                  ))}
+                  <th className="px-4 py-2 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                    Other codes
+                  </th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                    Total
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {rows.map(row => {
+                  const shown = columns.reduce((sum, column) => sum + (row.codes[column.code] || 0), 0)
+                  return (
+                    <tr key={row.key}>
+                      <td className="px-4 py-2 font-medium">{formatKey(row.key)}</td>
+                      {columns.map(column => (
+                        <td key={column.code} className="px-4 py-2 text-right">{row.codes[column.code] || 0}</td>
+                      ))}
+                      <td className="px-4 py-2 text-right">{row.total - shown}</td>
+                      <td className="px-4 py-2 text-right font-semibold">{row.total}</td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="px-6 pb-6 text-sm text-muted-foreground">No rejections in this period</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+const EMPTY_FORM = { code: '', label: '', description: '', userGuidance: '', category: 'revision' as RejectionCode['category'] }
+
+function RejectionCodeManager() {
+  const [codes, setCodes] = useState<RejectionCode[]>([])
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/rejection-codes?includeInactive=true')
+      if (!response.ok) return
+      const result = await response.json()
+      setCodes(result.codes || [])
+    } catch (error) {
+      console.error('[RejectionCodes] Failed to load codes:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const save = async (body: Record<string, unknown>, successMessage: string) => {
+    setSaving(true)
+    try {
+      const csrfToken = await getAdminCsrfToken()
+      const response = await fetch('/api/admin/rejection-codes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-csrf-token': csrfToken },
+        body: JSON.stringify(body),
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(result.error || 'Failed to save rejection code')
+
+      toast.success(successMessage)
+      await load()
+      return true
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save rejection code')
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toCodeBody = (code: RejectionCode) => ({
+    code: code.code,
+    label: code.label,
+    description: code.description,
+    userGuidance: code.user_guidance,
+    category: code.category,
+    isActive: code.is_active,
+    sortOrder: code.sort_order,
+  })
+
+  const toggleActive = (code: RejectionCode, isActive: boolean) =>
+    save({ ...toCodeBody(code), isActive }, isActive ? 'Rejection code enabled' : 'Rejection code retired')
+
+  const editCode = (code: RejectionCode) => setForm({
+    code: code.code,
+    label: code.label,
+    description: code.description || '',
+    userGuidance: code.user_guidance,
+    category: code.category,
+  })
+
+  const submitForm = async () => {
+    const existing = codes.find(code => code.code === form.code)
+    const saved = await save({
+      ...(existing ? toCodeBody(existing) : {}),
+      ...form,
+    }, existing ? 'Rejection code updated' : 'Rejection code added')
+    if (saved) setForm(EMPTY_FORM)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tags className="h-5 w-5" />
+          Rejection Codes
+        </CardTitle>
+        <CardDescription>
+          Codes attorneys choose when rejecting a letter. Retired codes stay in past rejections but can no longer be chosen.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {codes.map(code => (
+            <div key={code.code} className="flex items-start justify-between gap-4 text-sm">
+              <button type="button" className="text-left" onClick={() => editCode(code)}>
+                <p className="font-medium">
+                  {code.label}
+                  <Badge variant="outline" className="ml-2 text-xs">
+                    {code.category === 'rejection' ? 'Rejection' : 'Revision'}
+                  </Badge>
+                </p>
+                <p className="text-xs text-muted-foreground line-clamp-1">{code.user_guidance}</p>
+              </button>
+              <Switch
+                checked={code.is_active}
+                onCheckedChange={(checked) => toggleActive(code, checked)}
+                disabled={saving}
+                aria-label={`${code.is_active ? 'Retire' : 'Enable'} ${code.label}`}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="grid gap-3 md:grid-cols-3 border-t pt-4">
+          <div>
+            <Label htmlFor="rejection-code">Code</Label>
+            <Input
+              id="rejection-code"
+              value={form.code}
+              onChange={(e) => setForm({ ...form, code: e.target.value.toLowerCase() })}
+              placeholder="missing_deadline"
+            />
+          </div>
+          <div>
+            <Label htmlFor="rejection-code-label">Label</Label>
+            <Input
+              id="rejection-code-label"
+              value={form.label}
+              onChange={(e) => setForm({ ...form, label: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label>Category</Label>
+            <Select
+              value={form.category}
+              onValueChange={(value) => setForm({ ...form, category: value as RejectionCode['category'] })}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="revision">Revision</SelectItem>
+                <SelectItem value="rejection">Rejection</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="md:col-span-3">
+            <Label htmlFor="rejection-code-description">Description for attorneys</Label>
+            <Input
+              id="rejection-code-description"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+            />
+          </div>
+          <div className="md:col-span-3">
+            <Label htmlFor="rejection-code-guidance">Guidance for the user</Label>
+            <Textarea
+              id="rejection-code-guidance"
+              value={form.userGuidance}
+              onChange={(e) => setForm({ ...form, userGuidance: e.target.value })}
+              rows={2}
+            />
+          </div>
+          <div className="md:col-span-3 flex gap-2">
+            <Button onClick={submitForm} disabled={saving || !form.code || !form.label || !form.userGuidance}>
+              {codes.some(code => code.code === form.code) ? 'Update Code' : 'Add Code'}
+            </Button>
+            {form !== EMPTY_FORM && (
+              <Button variant="ghost" onClick={() => setForm(EMPTY_FORM)}>Clear</Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Why letters are sent back: rejection codes overall, per letter type and per
+ * drafting prompt version, plus management of the codes themselves
+ */
+export function RejectionReasonsPanel({ rejections, daysBack }: RejectionReasonsPanelProps) {
+  const byCode = rejections?.by_code ?? []
+  const columns = byCode.slice(0, BREAKDOWN_COLUMNS)
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-6 md:grid-cols-3">
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <XCircle className="h-5 w-5" />
+              Rejection Reasons
+            </CardTitle>
+            <CardDescription>
+              How often each code was chosen in the last {daysBack} days; one rejection can carry several codes
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {byCode.length > 0 ? (
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={byCode} layout="vertical" margin={{ left: 40 }}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                    <XAxis type="number" tick={{ fontSize: 12 }} allowDecimals={false} />
+                    <YAxis type="category" dataKey="label" tick={{ fontSize: 12 }} width={140} />
+                    <Tooltip />
+                    <Bar dataKey="count" name="Times chosen" fill="#ef4444" radius={[0, 4, 4, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            ) : (
+              <div className="h-72 flex items-center justify-center text-muted-foreground">
+                No rejections in this period
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ListChecks className="h-5 w-5" />
+              Top Reasons
+            </CardTitle>
+            <CardDescription>Share of all codes chosen</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {byCode.length > 0 ? (
+              byCode.slice(0, 6).map(row => (
+                <div key={row.code} className="flex items-center justify-between text-sm">
+                  <div>
+                    <p className="font-medium">{row.label}</p>
+                    <p className="text-xs text-muted-foreground">{row.count} times</p>
+                  </div>
+                  <span className="font-semibold">
+                    {((row.count / (rejections?.total_codes || 1)) * 100).toFixed(1)}%
+                  </span>
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-muted-foreground">No rejections in this period</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <BreakdownTable
+          title="By Letter Type"
+          description="Codes chosen per letter type"
+          rows={rejections?.by_letter_type ?? []}
+          columns={columns}
+          formatKey={letterTypeLabel}
+        />
+        <BreakdownTable
+          title="By Prompt Version"
+          description="Codes chosen per drafting prompt version, newest first"
+          rows={rejections?.by_prompt_version ?? []}
+          columns={columns}
+          formatKey={(key) => (key === 'unversioned' ? 'Before versioning' : key)}
+        />
+      </div>
+
+      <RejectionCodeManager />
+    </div>
+  )
+}
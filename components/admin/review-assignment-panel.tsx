@@ -0,0 +1,203 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Loader2, Lock, Unlock, UserCheck } from 'lucide-react'
+import { getAdminCsrfToken } from '@/lib/admin/csrf-client'
+import { hasActiveReviewLock, type AttorneyWorkload, type ReviewAssignment } from '@/lib/admin/review-queue'
+
+// Renew well inside the server-side lock window so an open editor never lapses
+const LOCK_RENEW_INTERVAL_MS = 10 * 60 * 1000
+
+interface AssignmentState {
+  assignment: ReviewAssignment & {
+    status: string
+    governing_state: string | null
+    assignee: { full_name: string | null; email: string | null } | null
+    lock_holder: { full_name: string | null; email: string | null } | null
+  }
+  currentAdminId: string | null
+  canReassign: boolean
+  attorneys: AttorneyWorkload[]
+}
+
+/**
+ * Super admins may take any letter; attorneys need an active profile and a
+ * license in the letter's governing state
+ */
+function canTakeLetter(attorney: AttorneyWorkload, state: string | null): boolean {
+  if (attorney.admin_sub_role === 'super_admin') return true
+  return attorney.is_active && (!state || attorney.licensed_states.includes(state))
+}
+
+function displayName(profile: { full_name: string | null; email: string | null } | null): string {
+  return profile?.full_name || profile?.email || 'Unknown attorney'
+}
+
+/**
+ * Who a letter is assigned to and who holds its edit lock, with claim/release
+ * controls and, for super admins, reassignment to another attorney
+ */
+export function ReviewAssignmentPanel({ letterId }: { letterId: string }) {
+  const [state, setState] = useState<AssignmentState | null>(null)
+  const [pending, setPending] = useState<'claim' | 'release' | 'reassign' | null>(null)
+  const router = useRouter()
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/letters/${letterId}/assignment`)
+      if (!response.ok) return
+      setState(await response.json())
+    } catch (error) {
+      console.error('[ReviewAssignment] Failed to load assignment:', error)
+    }
+  }, [letterId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const runAction = useCallback(async (
+    action: 'claim' | 'release' | 'reassign',
+    attorneyId?: string,
+    quiet = false
+  ) => {
+    if (!quiet) setPending(action)
+    try {
+      const csrfToken = await getAdminCsrfToken()
+      const response = await fetch(`/api/admin/letters/${letterId}/assignment`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-csrf-token': csrfToken },
+        body: JSON.stringify({ action, attorneyId }),
+      })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update assignment')
+      }
+
+      if (!quiet) {
+        toast.success(
+          action === 'claim' ? 'Letter claimed for review'
+            : action === 'release' ? 'Letter released back to the queue'
+              : 'Letter reassigned'
+        )
+        router.refresh()
+      }
+      await load()
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update assignment')
+      await load()
+    } finally {
+      if (!quiet) setPending(null)
+    }
+  }, [letterId, load, router])
+
+  const assignment = state?.assignment
+  const lockActive = assignment ? hasActiveReviewLock(assignment) : false
+  const holdsLock = lockActive && assignment?.review_locked_by === state?.currentAdminId
+
+  // Keep the lock alive while this admin holds it and the page stays open
+  useEffect(() => {
+    if (!holdsLock) return
+    const timer = setInterval(() => runAction('claim', undefined, true), LOCK_RENEW_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [holdsLock, runAction])
+
+  if (!state || !assignment) {
+    return null
+  }
+
+  const reviewable = ['pending_review', 'revision_requested', 'under_review'].includes(assignment.status)
+  const isAssignee = assignment.assigned_to === state.currentAdminId
+  const canClaim = reviewable && !lockActive && (!assignment.assigned_to || isAssignee || state.canReassign)
+  const canRelease = reviewable && (holdsLock || isAssignee || (state.canReassign && lockActive))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserCheck className="h-5 w-5" />
+          Review Assignment
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <p className="text-sm text-muted-foreground">Assigned To</p>
+            <p className="font-medium">
+              {assignment.assigned_to
+                ? isAssignee ? 'You' : displayName(assignment.assignee)
+                : 'Unassigned'}
+            </p>
+            {assignment.governing_state && (
+              <p className="text-xs text-muted-foreground">
+                Requires a license in {assignment.governing_state}
+              </p>
+            )}
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Edit Lock</p>
+            {lockActive ? (
+              <Badge variant="outline" className="bg-blue-100 text-blue-800 gap-1">
+                <Lock className="h-3 w-3" />
+                {holdsLock ? 'Held by you' : `Held by ${displayName(assignment.lock_holder)}`}
+                {assignment.review_lock_expires_at && (
+                  <> until {new Date(assignment.review_lock_expires_at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}</>
+                )}
+              </Badge>
+            ) : (
+              <Badge variant="outline" className="gap-1">
+                <Unlock className="h-3 w-3" />
+                Not locked
+              </Badge>
+            )}
+          </div>
+        </div>
+
+        {reviewable && (
+          <div className="flex flex-wrap items-center gap-2">
+            {canClaim && (
+              <Button size="sm" onClick={() => runAction('claim')} disabled={pending !== null}>
+                {pending === 'claim' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Claim for Review
+              </Button>
+            )}
+            {canRelease && (
+              <Button size="sm" variant="outline" onClick={() => runAction('release')} disabled={pending !== null}>
+                {pending === 'release' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Release
+              </Button>
+            )}
+            {state.canReassign && state.attorneys.length > 0 && (
+              <Select
+                value=""
+                onValueChange={(attorneyId) => runAction('reassign', attorneyId)}
+                disabled={pending !== null}
+              >
+                <SelectTrigger className="w-64">
+                  <SelectValue placeholder="Reassign to..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {state.attorneys
+                    .filter(attorney => attorney.attorney_id !== assignment.assigned_to)
+                    .filter(attorney => canTakeLetter(attorney, assignment.governing_state))
+                    .map(attorney => (
+                      <SelectItem key={attorney.attorney_id} value={attorney.attorney_id}>
+                        {attorney.full_name || attorney.email} ({attorney.open_assignments} open)
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -11,6 +11,7 @@ import { Badge } from "@/components/ui/badge"
 import { Loader2, CheckCircle, XCircle, Edit3, Sparkles } from "lucide-react"
 import { toast } from "sonner"
 import { getAdminCsrfToken } from "@/lib/admin/csrf-client"
+import { RejectionCodePicker } from "@/components/admin/rejection-code-picker"
 
 interface ReviewLetterActionsProps {
   letter: {
@@ -27,6 +28,7 @@ export default function ReviewLetterActions({ letter }: ReviewLetterActionsProps
   const [action, setAction] = useState<"approve" | "reject" | null>(null)
   const [reviewNotes, setReviewNotes] = useState("")
   const [rejectionReason, setRejectionReason] = useState("")
+  const [rejectionCodes, setRejectionCodes] = useState<string[]>([])
   const [editedContent, setEditedContent] = useState(letter.final_content || letter.ai_draft_content || "")
 
   const handleApprove = async () => {
@@ -71,41 +73,38 @@ export default function ReviewLetterActions({ letter }: ReviewLetterActionsProps
   }
 
   const handleReject = async () => {
-    if (!rejectionReason.trim()) {
-      toast.error("Please provide a rejection reason")
+    if (rejectionCodes.length === 0) {
+      toast.error("Please select at least one rejection reason")
       return
     }
 
     setIsSubmitting(true)
     try {
-      // Update letter status
-      const { error } = await supabase
-        .from("letters")
-        .update({
-          status: "rejected",
-          rejection_reason: rejectionReason,
-          review_notes: reviewNotes,
-          reviewed_at: new Date().toISOString(),
-          reviewed_by: (await supabase.auth.getUser()).data.user?.id
+      // Goes through the API so the codes are validated and the user gets their guidance
+      const csrfToken = await getAdminCsrfToken()
+      const response = await fetch(`/api/letters/${letter.id}/reject`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": csrfToken
+        },
+        body: JSON.stringify({
+          rejectionCodes,
+          rejectionReason,
+          reviewNotes
         })
-        .eq("id", letter.id)
-
-      if (error) throw error
-
-      // Log audit trail
-      await supabase.rpc("log_letter_audit", {
-        p_letter_id: letter.id,
-        p_action: "rejected",
-        p_old_status: letter.status,
-        p_new_status: "rejected",
-        p_notes: `Rejected: ${rejectionReason}. ${reviewNotes}`
       })
 
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || "Failed to reject letter")
+      }
+
       toast.success("Letter rejected")
       window.location.href = "/admin/letters"
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error rejecting letter:", error)
-      toast.error("Failed to reject letter")
+      toast.error(error.message || "Failed to reject letter")
     } finally {
       setIsSubmitting(false)
     }
@@ -226,16 +225,28 @@ export default function ReviewLetterActions({ letter }: ReviewLetterActionsProps
 
         {/* Rejection Reason (shown only when reject is selected) */}
         {action === "reject" && (
-          <div>
-            <Label htmlFor="rejection">Rejection Reason</Label>
-            <Textarea
-              id="rejection"
-              value={rejectionReason}
-              onChange={(e) => setRejectionReason(e.target.value)}
-              className="mt-2"
-              placeholder="Please explain why this letter is being rejected..."
-              rows={2}
-            />
+          <div className="space-y-3">
+            <div>
+              <Label>Rejection Reasons</Label>
+              <div className="mt-2">
+                <RejectionCodePicker
+                  value={rejectionCodes}
+                  onChange={setRejectionCodes}
+                  disabled={isSubmitting}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="rejection">Notes for the user (optional)</Label>
+              <Textarea
+                id="rejection"
+                value={rejectionReason}
+                onChange={(e) => setRejectionReason(e.target.value)}
+                className="mt-2"
+                placeholder="Add specifics about what needs to change..."
+                rows={2}
+              />
+            </div>
           </div>
         )}
 
@@ -271,7 +282,7 @@ export default function ReviewLetterActions({ letter }: ReviewLetterActionsProps
             ) : (
               <Button
                 onClick={handleReject}
-                disabled={isSubmitting || !rejectionReason.trim()}
+                disabled={isSubmitting || rejectionCodes.length === 0}
                 variant="destructive"
                 className="flex-1"
               >
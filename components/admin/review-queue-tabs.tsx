@@ -0,0 +1,71 @@
+import Link from 'next/link'
+import { Lock, UserCheck } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+import {
+  REVIEW_QUEUE_VIEWS,
+  hasActiveReviewLock,
+  type ReviewAssignment,
+  type ReviewQueueView,
+} from '@/lib/admin/review-queue'
+
+interface ReviewQueueTabsProps {
+  basePath: string
+  current: ReviewQueueView
+  counts: Record<ReviewQueueView, number>
+}
+
+/**
+ * Assigned to me / Unassigned / All switcher for the review queues
+ */
+export function ReviewQueueTabs({ basePath, current, counts }: ReviewQueueTabsProps) {
+  return (
+    <div className="inline-flex rounded-lg border bg-muted/40 p-1 text-sm">
+      {REVIEW_QUEUE_VIEWS.map((view) => (
+        <Link
+          key={view.value}
+          href={`${basePath}?view=${view.value}`}
+          className={cn(
+            'rounded-md px-3 py-1.5 transition-colors',
+            current === view.value ? 'bg-background font-medium shadow-sm' : 'text-muted-foreground hover:text-foreground'
+          )}
+        >
+          {view.label} <span className="text-xs text-muted-foreground">({counts[view.value]})</span>
+        </Link>
+      ))}
+    </div>
+  )
+}
+
+interface ReviewAssignmentBadgeProps {
+  assignment: ReviewAssignment
+  currentAdminId: string | null
+  assigneeName: string | null
+  lockHolderName: string | null
+}
+
+/**
+ * Who a queued letter is assigned to and whether someone is editing it
+ */
+export function ReviewAssignmentBadge({ assignment, currentAdminId, assigneeName, lockHolderName }: ReviewAssignmentBadgeProps) {
+  if (hasActiveReviewLock(assignment)) {
+    const mine = assignment.review_locked_by === currentAdminId
+    return (
+      <Badge variant="outline" className={mine ? 'border-green-300 text-green-700' : 'border-red-300 text-red-700'}>
+        <Lock className="w-3 h-3 mr-1" />
+        {mine ? 'Claimed by you' : `Locked by ${lockHolderName || 'another attorney'}`}
+      </Badge>
+    )
+  }
+
+  if (!assignment.assigned_to) {
+    return <Badge variant="outline" className="text-muted-foreground">Unassigned</Badge>
+  }
+
+  return (
+    <Badge variant="outline">
+      <UserCheck className="w-3 h-3 mr-1" />
+      {assignment.assigned_to === currentAdminId ? 'Assigned to you' : `Assigned to ${assigneeName || 'another attorney'}`}
+    </Badge>
+  )
+}
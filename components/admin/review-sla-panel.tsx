@@ -0,0 +1,344 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { AlarmClock, AlertTriangle, CheckCircle, Target, Trash2 } from 'lucide-react'
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend
+} from 'recharts'
+import { getAdminCsrfToken } from '@/lib/admin/csrf-client'
+import { LETTER_TYPES, SUBSCRIPTION_PLANS } from '@/lib/constants'
+import type { ReviewSlaPolicy, ReviewSlaSummary } from '@/lib/services/review-sla-service'
+
+interface ReviewSlaPanelProps {
+  sla: ReviewSlaSummary | null
+  daysBack: string
+}
+
+// Select values cannot be empty strings
+const ANY = 'any'
+
+function letterTypeLabel(value: string | null) {
+  if (!value) return 'Any letter type'
+  return LETTER_TYPES.find(type => type.value === value)?.label || value
+}
+
+function planLabel(value: string | null) {
+  if (!value) return 'Any plan'
+  return SUBSCRIPTION_PLANS.find(plan => plan.planType === value)?.name || value
+}
+
+function SlaTargets() {
+  const [policies, setPolicies] = useState<ReviewSlaPolicy[]>([])
+  const [planType, setPlanType] = useState(ANY)
+  const [letterType, setLetterType] = useState(ANY)
+  const [targetHours, setTargetHours] = useState('48')
+  const [warningPercent, setWarningPercent] = useState('75')
+  const [saving, setSaving] = useState(false)
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/review-sla/policies')
+      if (!response.ok) return
+      const result = await response.json()
+      setPolicies(result.policies || [])
+    } catch (error) {
+      console.error('[ReviewSLA] Failed to load targets:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const savePolicy = async () => {
+    setSaving(true)
+    try {
+      const csrfToken = await getAdminCsrfToken()
+      const response = await fetch('/api/admin/review-sla/policies', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-csrf-token': csrfToken },
+        body: JSON.stringify({
+          planType: planType === ANY ? null : planType,
+          letterType: letterType === ANY ? null : letterType,
+          targetHours: Number(targetHours),
+          warningPercent: Number(warningPercent),
+        }),
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(result.error || 'Failed to save SLA target')
+
+      toast.success('SLA target saved')
+      await load()
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save SLA target')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deletePolicy = async (id: string) => {
+    try {
+      const csrfToken = await getAdminCsrfToken()
+      const response = await fetch(`/api/admin/review-sla/policies?id=${id}`, {
+        method: 'DELETE',
+        headers: { 'x-csrf-token': csrfToken },
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(result.error || 'Failed to remove SLA target')
+
+      toast.success('SLA target removed')
+      await load()
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to remove SLA target')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Target className="h-5 w-5" />
+          SLA Targets
+        </CardTitle>
+        <CardDescription>
+          The most specific target applies: plan and letter type, then letter type, then plan, then the default
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {policies.map(policy => (
+            <div key={policy.id} className="flex items-center justify-between gap-4 text-sm">
+              <div>
+                <p className="font-medium">
+                  {!policy.plan_type && !policy.letter_type
+                    ? 'Default'
+                    : `${planLabel(policy.plan_type)} · ${letterTypeLabel(policy.letter_type)}`}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Reminder at {policy.warning_percent}% of the target
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="font-semibold">{policy.target_hours}h</span>
+                {(policy.plan_type || policy.letter_type) && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deletePolicy(policy.id)}
+                    aria-label="Remove SLA target"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid gap-3 md:grid-cols-5 items-end border-t pt-4">
+          <div>
+            <Label>Plan</Label>
+            <Select value={planType} onValueChange={setPlanType}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any plan</SelectItem>
+                {SUBSCRIPTION_PLANS.map(plan => (
+                  <SelectItem key={plan.planType} value={plan.planType}>{plan.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Letter type</Label>
+            <Select value={letterType} onValueChange={setLetterType}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any letter type</SelectItem>
+                {LETTER_TYPES.map(type => (
+                  <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="sla-target-hours">Target (hours)</Label>
+            <Input
+              id="sla-target-hours"
+              type="number"
+              min={1}
+              value={targetHours}
+              onChange={(e) => setTargetHours(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="sla-warning-percent">Reminder at (%)</Label>
+            <Input
+              id="sla-warning-percent"
+              type="number"
+              min={1}
+              max={99}
+              value={warningPercent}
+              onChange={(e) => setWarningPercent(e.target.value)}
+            />
+          </div>
+          <Button onClick={savePolicy} disabled={saving}>
+            Save Target
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Review turnaround against SLA targets: compliance, weekly trend, open-queue risk
+ * and the editable targets themselves
+ */
+export function ReviewSlaPanel({ sla, daysBack }: ReviewSlaPanelProps) {
+  const weeklyData = sla?.by_week.map(row => ({
+    week: row.week,
+    met: row.met,
+    missed: row.missed,
+  })) ?? []
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">SLA Compliance</CardTitle>
+            <CheckCircle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {sla && sla.totals.resolved > 0 ? `${sla.totals.compliance_percent.toFixed(1)}%` : '—'}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              {sla?.totals.met ?? 0} of {sla?.totals.resolved ?? 0} reviews on time in the last {daysBack} days
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Avg Time in Review</CardTitle>
+            <AlarmClock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{(sla?.totals.avg_review_hours ?? 0).toFixed(1)}h</div>
+            <p className="text-xs text-muted-foreground mt-1">From submission for review to decision</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">At Risk</CardTitle>
+            <AlarmClock className="h-4 w-4 text-yellow-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{sla?.totals.at_risk ?? 0}</div>
+            <p className="text-xs text-muted-foreground mt-1">
+              Of {sla?.totals.open ?? 0} letters in review, past the reminder threshold
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Breached</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-red-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{sla?.totals.breached ?? 0}</div>
+            <p className="text-xs text-muted-foreground mt-1">Letters in review past their target</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CheckCircle className="h-5 w-5" />
+              Weekly SLA Compliance
+            </CardTitle>
+            <CardDescription>Reviews completed within and past their target, by week</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {weeklyData.length > 0 ? (
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={weeklyData}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                    <XAxis
+                      dataKey="week"
+                      tick={{ fontSize: 12 }}
+                      tickFormatter={(value) => new Date(`${value}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })}
+                    />
+                    <YAxis tick={{ fontSize: 12 }} allowDecimals={false} />
+                    <Tooltip />
+                    <Legend />
+                    <Bar dataKey="met" name="On time" stackId="sla" fill="#10b981" />
+                    <Bar dataKey="missed" name="Late" stackId="sla" fill="#ef4444" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            ) : (
+              <div className="h-64 flex items-center justify-center text-muted-foreground">
+                No completed reviews in this period
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Target className="h-5 w-5" />
+              Compliance by Letter Type
+            </CardTitle>
+            <CardDescription>Share of reviews completed within target</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {sla && sla.by_letter_type.length > 0 ? (
+              sla.by_letter_type.map(row => (
+                <div key={row.letter_type} className="flex items-center justify-between text-sm">
+                  <div>
+                    <p className="font-medium">{letterTypeLabel(row.letter_type)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {row.met} on time · {row.missed} late
+                    </p>
+                  </div>
+                  <span className="font-semibold">{row.compliance_percent.toFixed(1)}%</span>
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-muted-foreground">No completed reviews in this period</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <SlaTargets />
+    </div>
+  )
+}
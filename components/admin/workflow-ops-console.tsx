@@ -0,0 +1,364 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+import { format } from 'date-fns'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { Loader2, RefreshCw, RotateCcw, XCircle } from 'lucide-react'
+import { getAdminCsrfToken } from '@/lib/admin/csrf-client'
+import { RejectionCodePicker } from '@/components/admin/rejection-code-picker'
+import {
+  WORKFLOW_STATUS_LABELS,
+  getWorkflowActions,
+  getWorkflowElapsedMs,
+  getWorkflowStepLabel,
+  type WorkflowRunDetail,
+  type WorkflowRunStatus,
+  type WorkflowRunSummary,
+} from '@/lib/admin/workflow-ops'
+
+const STATUS_STYLES: Record<WorkflowRunStatus, string> = {
+  running: 'bg-blue-100 text-blue-800',
+  paused: 'bg-amber-100 text-amber-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-slate-100 text-slate-700',
+}
+
+const STEP_STATUS_STYLES: Record<string, string> = {
+  running: 'text-blue-700',
+  completed: 'text-green-700',
+  failed: 'text-red-700',
+}
+
+function formatElapsed(ms: number | null): string {
+  if (ms === null) return '—'
+  const minutes = Math.floor(ms / 60000)
+  if (minutes < 60) return `${minutes}m`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 48) return `${hours}h ${minutes % 60}m`
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`
+}
+
+function formatTimestamp(value: string | null): string {
+  return value ? format(new Date(value), 'MMM d, h:mm:ss a') : '—'
+}
+
+function WorkflowStatusBadge({ status }: { status: WorkflowRunStatus | null }) {
+  if (!status) return <span className="text-muted-foreground">—</span>
+  return (
+    <Badge variant="outline" className={STATUS_STYLES[status]}>
+      {WORKFLOW_STATUS_LABELS[status]}
+    </Badge>
+  )
+}
+
+/**
+ * Letter workflow runs with their step history, and the cancel, retry and
+ * manual resume actions for super admins
+ */
+export function WorkflowOpsConsole() {
+  const [runs, setRuns] = useState<WorkflowRunSummary[] | null>(null)
+  const [statusFilter, setStatusFilter] = useState<'all' | WorkflowRunStatus>('all')
+  const [selected, setSelected] = useState<WorkflowRunDetail | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [decisionNotes, setDecisionNotes] = useState('')
+  const [rejectionCodes, setRejectionCodes] = useState<string[]>([])
+
+  const loadRuns = useCallback(async () => {
+    try {
+      const query = statusFilter === 'all' ? '' : `?status=${statusFilter}`
+      const response = await fetch(`/api/admin/workflows${query}`)
+      if (!response.ok) throw new Error('Failed to load workflows')
+      const data = await response.json()
+      setRuns(data.runs)
+    } catch (error) {
+      console.error('[WorkflowOps] Failed to load workflows:', error)
+      toast.error('Failed to load workflows')
+      setRuns([])
+    }
+  }, [statusFilter])
+
+  useEffect(() => {
+    loadRuns()
+  }, [loadRuns])
+
+  const openRun = async (workflowId: string) => {
+    try {
+      const response = await fetch(`/api/admin/workflows/${encodeURIComponent(workflowId)}`)
+      if (!response.ok) throw new Error('Failed to load workflow')
+      const data = await response.json()
+      setSelected(data.run)
+      setDecisionNotes('')
+      setRejectionCodes([])
+    } catch (error) {
+      console.error('[WorkflowOps] Failed to load workflow:', error)
+      toast.error('Failed to load workflow')
+    }
+  }
+
+  const runAction = async (body: Record<string, unknown>, successMessage: string) => {
+    if (!selected) return
+    setSubmitting(true)
+    try {
+      const csrfToken = await getAdminCsrfToken()
+      const response = await fetch(`/api/admin/workflows/${encodeURIComponent(selected.workflow_id)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-csrf-token': csrfToken },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(data.error || 'Workflow action failed')
+
+      toast.success(successMessage)
+      if (data.run) setSelected(data.run)
+      setDecisionNotes('')
+      setRejectionCodes([])
+      await loadRuns()
+    } catch (error: any) {
+      toast.error(error.message || 'Workflow action failed')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const actions = selected ? getWorkflowActions(selected) : []
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4">
+          <CardTitle>Letter Workflows</CardTitle>
+          <div className="flex items-center gap-2">
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as 'all' | WorkflowRunStatus)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {(Object.keys(WORKFLOW_STATUS_LABELS) as WorkflowRunStatus[]).map(status => (
+                  <SelectItem key={status} value={status}>{WORKFLOW_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={loadRuns}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {runs === null ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No workflows match this filter.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Letter</th>
+                    <th className="py-2 pr-4 font-medium">Status</th>
+                    <th className="py-2 pr-4 font-medium">Current step</th>
+                    <th className="py-2 pr-4 font-medium">Started</th>
+                    <th className="py-2 pr-4 font-medium">Elapsed</th>
+                    <th className="py-2 font-medium">Error</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {runs.map(run => (
+                    <tr
+                      key={run.workflow_id}
+                      onClick={() => openRun(run.workflow_id)}
+                      className={`border-b last:border-0 cursor-pointer hover:bg-muted/50 ${
+                        selected?.workflow_id === run.workflow_id ? 'bg-muted/50' : ''
+                      }`}
+                    >
+                      <td className="py-2 pr-4">
+                        <div className="font-medium">{run.letter_title || 'Untitled Letter'}</div>
+                        <div className="text-xs text-muted-foreground">{run.user_email || run.letter_id}</div>
+                      </td>
+                      <td className="py-2 pr-4"><WorkflowStatusBadge status={run.workflow_status} /></td>
+                      <td className="py-2 pr-4">{getWorkflowStepLabel(run.current_step)}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap">{formatTimestamp(run.started_at)}</td>
+                      <td className="py-2 pr-4">{formatElapsed(getWorkflowElapsedMs(run))}</td>
+                      <td className="py-2 max-w-xs truncate text-red-700" title={run.error || undefined}>
+                        {run.error || ''}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4">
+            <div className="space-y-1">
+              <CardTitle>{selected.letter_title || 'Untitled Letter'}</CardTitle>
+              <p className="text-xs text-muted-foreground font-mono">{selected.workflow_id}</p>
+              <div className="flex items-center gap-2 text-sm">
+                <WorkflowStatusBadge status={selected.workflow_status} />
+                <span className="text-muted-foreground">Letter is {selected.letter_status.replace('_', ' ')}</span>
+                <Link
+                  href={`/secure-admin-gateway/review/${selected.letter_id}`}
+                  className="text-primary hover:underline"
+                >
+                  Open letter
+                </Link>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              {actions.includes('retry') && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={submitting}
+                  onClick={() => runAction({ action: 'retry' }, 'Step retry requested')}
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Retry {getWorkflowStepLabel(selected.current_step)}
+                </Button>
+              )}
+              {actions.includes('cancel') && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button size="sm" variant="destructive" disabled={submitting}>
+                      <XCircle className="h-4 w-4 mr-2" />
+                      Cancel Workflow
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Cancel this workflow?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        The workflow stops immediately and cannot be restarted. A letter that is
+                        still generating is marked failed; a letter in review stays in the review center.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Keep Running</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => runAction({ action: 'cancel' }, 'Workflow cancelled')}>
+                        Cancel Workflow
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {selected.error && (
+              <p className="rounded-md bg-red-50 p-3 text-sm text-red-800 whitespace-pre-wrap">{selected.error}</p>
+            )}
+
+            {selected.steps.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No steps recorded for this workflow.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Step</th>
+                    <th className="py-2 pr-4 font-medium">Attempt</th>
+                    <th className="py-2 pr-4 font-medium">Outcome</th>
+                    <th className="py-2 pr-4 font-medium">Started</th>
+                    <th className="py-2 pr-4 font-medium">Duration</th>
+                    <th className="py-2 font-medium">Error</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {selected.steps.map(step => (
+                    <tr key={step.id} className="border-b last:border-0 align-top">
+                      <td className="py-2 pr-4">{getWorkflowStepLabel(step.step)}</td>
+                      <td className="py-2 pr-4">{step.attempt}</td>
+                      <td className={`py-2 pr-4 capitalize ${STEP_STATUS_STYLES[step.status]}`}>{step.status}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap">{formatTimestamp(step.started_at)}</td>
+                      <td className="py-2 pr-4">
+                        {step.finished_at
+                          ? formatElapsed(new Date(step.finished_at).getTime() - new Date(step.started_at).getTime())
+                          : '—'}
+                      </td>
+                      <td className="py-2 text-red-700 whitespace-pre-wrap">{step.error || ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {actions.includes('resume') && (
+              <div className="space-y-3 rounded-md border p-4">
+                <div>
+                  <p className="font-medium">Resume with a decision</p>
+                  <p className="text-sm text-muted-foreground">
+                    Approving uses the letter as it currently reads. Rejecting needs at least one reason.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="workflow-decision-notes">Notes</Label>
+                  <Textarea
+                    id="workflow-decision-notes"
+                    value={decisionNotes}
+                    onChange={(e) => setDecisionNotes(e.target.value)}
+                    rows={3}
+                    disabled={submitting}
+                  />
+                </div>
+                <RejectionCodePicker value={rejectionCodes} onChange={setRejectionCodes} disabled={submitting} />
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="destructive"
+                    disabled={submitting || rejectionCodes.length === 0}
+                    onClick={() => runAction(
+                      { action: 'resume', approved: false, reason: decisionNotes, rejectionCodes },
+                      'Workflow resumed with rejection'
+                    )}
+                  >
+                    Reject
+                  </Button>
+                  <Button
+                    disabled={submitting}
+                    onClick={() => runAction(
+                      { action: 'resume', approved: true, notes: decisionNotes },
+                      'Workflow resumed with approval'
+                    )}
+                  >
+                    {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Approve
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
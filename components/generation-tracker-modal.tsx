@@ -1,11 +1,11 @@
 "use client"
 
-import { useEffect, useMemo, useState } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
 import { CheckCircle2, Circle, Loader2, XCircle } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { createClient } from "@/lib/supabase/client"
 import { Button } from "@/components/ui/button"
-import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js"
+import { REALTIME_SUBSCRIBE_STATES, type RealtimePostgresChangesPayload } from "@supabase/supabase-js"
 
 export type LetterStatus =
   | "draft"
@@ -23,19 +23,31 @@ interface GenerationTrackerModalProps {
   initialStatus?: LetterStatus
   showClose?: boolean
   onClose?: () => void
+  onStatusChange?: (status: LetterStatus) => void
 }
 
+type LetterProgressRow = { status: string; ai_draft_content: string | null }
+
 const FINAL_STATUSES: LetterStatus[] = ["approved", "rejected", "failed", "completed"]
 
+// Realtime pushes status and draft updates; polling is the fallback while the
+// channel is down, fast while the draft is streaming
+const GENERATING_POLL_MS = 2000
+const IDLE_POLL_MS = 12000
+
 export function GenerationTrackerModal({
   isOpen,
   letterId,
   initialStatus = "generating",
   showClose = true,
   onClose,
+  onStatusChange,
 }: GenerationTrackerModalProps) {
   const [open, setOpen] = useState(isOpen)
   const [status, setStatus] = useState<LetterStatus>(initialStatus)
+  const [draftPreview, setDraftPreview] = useState("")
+  const [realtimeConnected, setRealtimeConnected] = useState(false)
+  const previewRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
     setOpen(isOpen)
@@ -48,6 +60,16 @@ export function GenerationTrackerModal({
   }, [initialStatus])
 
   const isFinal = FINAL_STATUSES.includes(status)
+  const isGenerating = status === "generating"
+
+  useEffect(() => {
+    onStatusChange?.(status)
+  }, [status])
+
+  // Keep the newest streamed text in view
+  useEffect(() => {
+    previewRef.current?.scrollTo({ top: previewRef.current.scrollHeight })
+  }, [draftPreview])
 
   useEffect(() => {
     if (!open || !letterId) return
@@ -58,16 +80,20 @@ export function GenerationTrackerModal({
       .on(
         "postgres_changes",
         { event: "UPDATE", schema: "public", table: "letters", filter: `id=eq.${letterId}` },
-        (payload: RealtimePostgresChangesPayload<{ status: string }>) => {
+        (payload: RealtimePostgresChangesPayload<LetterProgressRow>) => {
           const nextStatus = 'status' in payload.new && payload.new.status as LetterStatus | undefined
           if (nextStatus) {
             setStatus(nextStatus)
           }
+          if ('ai_draft_content' in payload.new && payload.new.ai_draft_content) {
+            setDraftPreview(payload.new.ai_draft_content)
+          }
         },
       )
-      .subscribe()
+      .subscribe((state: REALTIME_SUBSCRIBE_STATES) => setRealtimeConnected(state === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED))
 
     return () => {
+      setRealtimeConnected(false)
       supabase.removeChannel(channel)
     }
   }, [open, letterId])
@@ -81,24 +107,27 @@ export function GenerationTrackerModal({
     const pollStatus = async () => {
       const { data } = await supabase
         .from("letters")
-        .select("status")
+        .select("status, ai_draft_content")
         .eq("id", letterId)
-        .single()
+        .maybeSingle()
 
       if (!isMounted) return
       if (data?.status) {
         setStatus(data.status as LetterStatus)
       }
+      if (data?.ai_draft_content) {
+        setDraftPreview(data.ai_draft_content)
+      }
     }
 
     pollStatus()
-    const interval = setInterval(pollStatus, 12000)
+    const interval = setInterval(pollStatus, isGenerating && !realtimeConnected ? GENERATING_POLL_MS : IDLE_POLL_MS)
 
     return () => {
       isMounted = false
       clearInterval(interval)
     }
-  }, [open, letterId, isFinal])
+  }, [open, letterId, isFinal, isGenerating, realtimeConnected])
 
   const { steps, currentStep, statusTitle, statusDescription } = useMemo(() => {
     const draftStepDescription =
@@ -242,6 +271,19 @@ export function GenerationTrackerModal({
           })}
         </div>
 
+        {isGenerating && draftPreview && (
+          <div className="mt-6">
+            <p className="mb-2 text-xs uppercase tracking-wide text-muted-foreground">Live draft preview</p>
+            <div
+              ref={previewRef}
+              className="max-h-48 overflow-y-auto whitespace-pre-wrap rounded-lg border bg-background p-3 font-mono text-xs text-foreground"
+              aria-live="off"
+            >
+              {draftPreview}
+            </div>
+          </div>
+        )}
+
         <div className="mt-6 rounded-lg border bg-muted/50 p-3 text-sm text-muted-foreground">
           Typical review time: under 24 hours. You will receive a notification when approval is complete.
         </div>
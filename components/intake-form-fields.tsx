@@ -0,0 +1,140 @@
+'use client'
+
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import type { IntakeFieldDefinition } from '@/lib/validation/intake-fields'
+
+interface IntakeFormFieldsProps {
+  fields: IntakeFieldDefinition[]
+  values: Record<string, string>
+  errors: Record<string, string>
+  onChange: (name: string, value: string) => void
+  disabled?: boolean
+}
+
+interface IntakeFieldInputProps {
+  field: IntakeFieldDefinition
+  value: string
+  error?: string
+  onChange: (name: string, value: string) => void
+  disabled?: boolean
+}
+
+function IntakeFieldInput({ field, value, error, onChange, disabled }: IntakeFieldInputProps) {
+  const describedBy = error ? `${field.name}-error` : field.helpText ? `${field.name}-help` : undefined
+  const common = {
+    id: field.name,
+    value,
+    disabled,
+    required: field.required,
+    'aria-invalid': error ? true : undefined,
+    'aria-describedby': describedBy,
+  }
+
+  let control: React.ReactNode
+  switch (field.type) {
+    case 'textarea':
+      control = (
+        <Textarea
+          {...common}
+          rows={field.rows ?? 3}
+          maxLength={field.maxLength}
+          placeholder={field.placeholder}
+          onChange={(e) => onChange(field.name, e.target.value)}
+        />
+      )
+      break
+
+    case 'state':
+    case 'select':
+      control = (
+        <Select
+          value={value}
+          onValueChange={(next) => onChange(field.name, next)}
+          disabled={disabled}
+          required={field.required}
+        >
+          <SelectTrigger id={field.name} aria-invalid={common['aria-invalid']} aria-describedby={describedBy}>
+            <SelectValue placeholder={field.placeholder ?? 'Select an option'} />
+          </SelectTrigger>
+          <SelectContent>
+            {field.options?.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )
+      break
+
+    default:
+      control = (
+        <Input
+          {...common}
+          type={field.type === 'currency' ? 'number' : field.type}
+          step={field.type === 'currency' ? '0.01' : undefined}
+          min={field.min}
+          max={field.max}
+          maxLength={field.maxLength}
+          placeholder={field.placeholder}
+          onChange={(e) => onChange(field.name, e.target.value)}
+        />
+      )
+  }
+
+  return (
+    <div>
+      <Label htmlFor={field.name}>{field.label}</Label>
+      {control}
+      {error ? (
+        <p id={`${field.name}-error`} className="text-xs text-destructive mt-1">{error}</p>
+      ) : field.helpText && (
+        <p id={`${field.name}-help`} className="text-xs text-muted-foreground mt-1">{field.helpText}</p>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Renders intake fields from their definitions; consecutive half-width fields share a row
+ * Attachment fields are skipped since uploads have their own component.
+ */
+export function IntakeFormFields({ fields, values, errors, onChange, disabled }: IntakeFormFieldsProps) {
+  const inputs = fields.filter(field => field.type !== 'attachments')
+  const rows: IntakeFieldDefinition[][] = []
+
+  for (let i = 0; i < inputs.length; i++) {
+    if (inputs[i].halfWidth && inputs[i + 1]?.halfWidth) {
+      rows.push([inputs[i], inputs[i + 1]])
+      i++
+    } else {
+      rows.push([inputs[i]])
+    }
+  }
+
+  return (
+    <>
+      {rows.map((row) => {
+        const rendered = row.map((field) => (
+          <IntakeFieldInput
+            key={field.name}
+            field={field}
+            value={values[field.name] ?? ''}
+            error={errors[field.name]}
+            onChange={onChange}
+            disabled={disabled}
+          />
+        ))
+
+        return row.length > 1 ? (
+          <div key={row[0].name} className="grid md:grid-cols-2 gap-4">{rendered}</div>
+        ) : (
+          rendered
+        )
+      })}
+    </>
+  )
+}
@@ -0,0 +1,308 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { toast } from 'sonner'
+import { formatDistanceToNow } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Textarea } from '@/components/ui/textarea'
+import { CheckCircle, Loader2, MessageSquare, RotateCcw } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { getAdminCsrfToken } from '@/lib/admin/csrf-client'
+import type { LetterCommentThread } from '@/lib/comments/types'
+
+interface LetterCommentsProps {
+  letterId: string
+  /** Letter text to render with highlights; null shows the threads only */
+  content: string | null
+  /** Send the admin CSRF token with mutations (attorney views) */
+  adminMode?: boolean
+}
+
+interface Segment {
+  text: string
+  threadIds: string[]
+}
+
+/**
+ * Split text at every anchor boundary so overlapping threads can share highlights
+ */
+function buildSegments(text: string, threads: LetterCommentThread[]): Segment[] {
+  const anchored = threads.filter(thread => thread.anchor_status === 'anchored' && thread.anchor.end <= text.length)
+  const boundaries = new Set([0, text.length])
+  for (const thread of anchored) {
+    boundaries.add(thread.anchor.start)
+    boundaries.add(thread.anchor.end)
+  }
+
+  const points = [...boundaries].sort((a, b) => a - b)
+  const segments: Segment[] = []
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i]
+    const end = points[i + 1]
+    segments.push({
+      text: text.slice(start, end),
+      threadIds: anchored
+        .filter(thread => thread.anchor.start <= start && thread.anchor.end >= end)
+        .map(thread => thread.id),
+    })
+  }
+  return segments
+}
+
+/**
+ * Character offsets of the current selection within the container's text
+ */
+function getSelectionOffsets(container: HTMLElement): { start: number; end: number } | null {
+  const selection = window.getSelection()
+  if (!selection || selection.rangeCount === 0 || selection.isCollapsed) return null
+
+  const range = selection.getRangeAt(0)
+  if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) return null
+
+  const before = document.createRange()
+  before.selectNodeContents(container)
+  before.setEnd(range.startContainer, range.startOffset)
+
+  const start = before.toString().length
+  const end = start + range.toString().length
+  return end > start ? { start, end } : null
+}
+
+/**
+ * Letter text with anchored comment threads: select a passage to comment, reply
+ * in a thread, resolve or reopen it
+ */
+export function LetterComments({ letterId, content, adminMode = false }: LetterCommentsProps) {
+  const [threads, setThreads] = useState<LetterCommentThread[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selection, setSelection] = useState<{ start: number; end: number } | null>(null)
+  const [newComment, setNewComment] = useState('')
+  const [replies, setReplies] = useState<Record<string, string>>({})
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState<string | null>(null)
+  const [showResolved, setShowResolved] = useState(false)
+  const textRef = useRef<HTMLDivElement>(null)
+
+  const getHeaders = async () => ({
+    'Content-Type': 'application/json',
+    ...(adminMode ? { 'x-csrf-token': await getAdminCsrfToken() } : {}),
+  })
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/letters/${letterId}/comments`)
+      if (!response.ok) return
+      const data = await response.json()
+      setThreads(data.threads || [])
+    } catch (error) {
+      console.error('[LetterComments] Failed to load comments:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [letterId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const segments = useMemo(
+    () => (content ? buildSegments(content, threads.filter(thread => thread.status === 'open')) : []),
+    [content, threads]
+  )
+
+  const handleMouseUp = () => {
+    if (!textRef.current) return
+    setSelection(getSelectionOffsets(textRef.current))
+  }
+
+  const submit = async (key: string, request: () => Promise<Response>, onDone: () => void) => {
+    setSubmitting(key)
+    try {
+      const response = await request()
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(data.error || 'Failed to save comment')
+      onDone()
+      await load()
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save comment')
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  const handleCreate = () => {
+    if (!selection || !newComment.trim()) return
+    submit('new', async () => fetch(`/api/letters/${letterId}/comments`, {
+      method: 'POST',
+      headers: await getHeaders(),
+      body: JSON.stringify({ ...selection, body: newComment }),
+    }), () => {
+      setNewComment('')
+      setSelection(null)
+      window.getSelection()?.removeAllRanges()
+      toast.success('Comment added')
+    })
+  }
+
+  const handleReply = (threadId: string) => {
+    const body = replies[threadId]
+    if (!body?.trim()) return
+    submit(threadId, async () => fetch(`/api/letters/${letterId}/comments/${threadId}`, {
+      method: 'POST',
+      headers: await getHeaders(),
+      body: JSON.stringify({ body }),
+    }), () => setReplies(prev => ({ ...prev, [threadId]: '' })))
+  }
+
+  const handleStatus = (threadId: string, status: 'open' | 'resolved') => {
+    submit(threadId, async () => fetch(`/api/letters/${letterId}/comments/${threadId}`, {
+      method: 'PATCH',
+      headers: await getHeaders(),
+      body: JSON.stringify({ status }),
+    }), () => undefined)
+  }
+
+  const visibleThreads = threads.filter(thread => showResolved || thread.status === 'open')
+  const resolvedCount = threads.filter(thread => thread.status === 'resolved').length
+
+  return (
+    <div className={cn('grid gap-4', content && 'lg:grid-cols-3')}>
+      {content && (
+        <div className="lg:col-span-2 space-y-2">
+          <p className="text-xs text-muted-foreground">Select a passage to comment on it.</p>
+          <div
+            ref={textRef}
+            onMouseUp={handleMouseUp}
+            className="bg-muted/40 border rounded-lg p-4 whitespace-pre-wrap text-sm leading-relaxed"
+          >
+            {segments.map((segment, index) => segment.threadIds.length > 0 ? (
+              <mark
+                key={index}
+                onClick={() => setActiveThreadId(segment.threadIds[0])}
+                className={cn(
+                  'cursor-pointer rounded-sm bg-yellow-100 text-inherit',
+                  segment.threadIds.includes(activeThreadId ?? '') && 'bg-yellow-300'
+                )}
+              >
+                {segment.text}
+              </mark>
+            ) : (
+              <span key={index}>{segment.text}</span>
+            ))}
+          </div>
+
+          {selection && (
+            <div className="border rounded-lg p-3 space-y-2">
+              <p className="text-xs text-muted-foreground line-clamp-2">
+                Commenting on: &ldquo;{content.slice(selection.start, selection.end)}&rdquo;
+              </p>
+              <Textarea
+                value={newComment}
+                onChange={(e) => setNewComment(e.target.value)}
+                placeholder="Add a comment..."
+                rows={3}
+                maxLength={2000}
+              />
+              <div className="flex gap-2">
+                <Button size="sm" onClick={handleCreate} disabled={submitting !== null || !newComment.trim()}>
+                  {submitting === 'new' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Comment
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setSelection(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <p className="flex items-center gap-2 text-sm font-medium">
+            <MessageSquare className="h-4 w-4" />
+            Comments ({threads.length - resolvedCount} open)
+          </p>
+          {resolvedCount > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setShowResolved(!showResolved)}>
+              {showResolved ? 'Hide resolved' : `Show resolved (${resolvedCount})`}
+            </Button>
+          )}
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading comments...</p>
+        ) : visibleThreads.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No comments yet.</p>
+        ) : (
+          visibleThreads.map(thread => (
+            <div
+              key={thread.id}
+              onClick={() => setActiveThreadId(thread.id)}
+              className={cn(
+                'border rounded-lg p-3 space-y-2 text-sm',
+                activeThreadId === thread.id && 'border-primary',
+                thread.status === 'resolved' && 'opacity-70'
+              )}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <p className="text-xs italic text-muted-foreground line-clamp-2">
+                  &ldquo;{thread.anchor.quoted_text}&rdquo;
+                </p>
+                {thread.anchor_status === 'orphaned' && (
+                  <Badge variant="outline" className="text-xs shrink-0">Passage changed</Badge>
+                )}
+              </div>
+
+              {thread.comments.map(comment => (
+                <div key={comment.id}>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{comment.author_name || 'Unknown'}</span>
+                    <Badge variant="secondary" className="text-xs">
+                      {comment.author_role === 'attorney' ? 'Attorney' : 'Client'}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                    </span>
+                  </div>
+                  <p className="whitespace-pre-wrap mt-1">{comment.body}</p>
+                </div>
+              ))}
+
+              <Textarea
+                value={replies[thread.id] || ''}
+                onChange={(e) => setReplies(prev => ({ ...prev, [thread.id]: e.target.value }))}
+                placeholder="Reply..."
+                rows={2}
+                maxLength={2000}
+              />
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleReply(thread.id)}
+                  disabled={submitting !== null || !replies[thread.id]?.trim()}
+                >
+                  {submitting === thread.id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Reply
+                </Button>
+                {thread.status === 'open' ? (
+                  <Button size="sm" variant="ghost" onClick={() => handleStatus(thread.id, 'resolved')} disabled={submitting !== null}>
+                    <CheckCircle className="h-4 w-4 mr-1" />
+                    Resolve
+                  </Button>
+                ) : (
+                  <Button size="sm" variant="ghost" onClick={() => handleStatus(thread.id, 'open')} disabled={submitting !== null}>
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Reopen
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Loader2, Star } from 'lucide-react'
+
+interface SavedRating {
+  rating: number
+  comment: string | null
+  updated_at: string
+}
+
+/**
+ * Lets the owner of an approved letter rate the attorney's work from 1 to 5
+ */
+export function LetterRating({ letterId }: { letterId: string }) {
+  const [saved, setSaved] = useState<SavedRating | null>(null)
+  const [rating, setRating] = useState(0)
+  const [hovered, setHovered] = useState(0)
+  const [comment, setComment] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/letters/${letterId}/rating`)
+      if (!response.ok) return
+      const result = await response.json()
+      if (result.rating) {
+        setSaved(result.rating)
+        setRating(result.rating.rating)
+        setComment(result.rating.comment || '')
+      }
+    } catch (error) {
+      console.error('[LetterRating] Failed to load rating:', error)
+    }
+  }, [letterId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const submit = async () => {
+    setSubmitting(true)
+    try {
+      const response = await fetch(`/api/letters/${letterId}/rating`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rating, comment }),
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(result.error || 'Failed to save your rating')
+
+      setSaved(result.rating)
+      toast.success('Thanks for your feedback')
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save your rating')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const unchanged = saved !== null && saved.rating === rating && (saved.comment || '') === comment
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-1" onMouseLeave={() => setHovered(0)}>
+        {[1, 2, 3, 4, 5].map(value => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setRating(value)}
+            onMouseEnter={() => setHovered(value)}
+            aria-label={`${value} star${value === 1 ? '' : 's'}`}
+            className="p-0.5"
+            disabled={submitting}
+          >
+            <Star
+              className={`h-6 w-6 ${
+                value <= (hovered || rating) ? 'fill-amber-400 text-amber-400' : 'text-muted-foreground'
+              }`}
+            />
+          </button>
+        ))}
+      </div>
+      <Textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder="Anything you'd like to tell us about the review? (optional)"
+        rows={2}
+        maxLength={1000}
+        disabled={submitting}
+      />
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          {saved ? 'You can update your rating at any time.' : 'Your rating helps us keep review quality high.'}
+        </p>
+        <Button size="sm" onClick={submit} disabled={submitting || rating === 0 || unchanged}>
+          {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {saved ? 'Update Rating' : 'Submit Rating'}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,144 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { format } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Textarea } from '@/components/ui/textarea'
+import { Loader2, PenLine } from 'lucide-react'
+import type { LetterRevisionRequest as RevisionRequest, RevisionAllowance } from '@/lib/services/letter-revision-service'
+
+interface LetterRevisionRequestProps {
+  letterId: string
+  status: string
+}
+
+const REQUEST_STATUS_LABELS: Record<RevisionRequest['status'], string> = {
+  open: 'With attorney',
+  completed: 'Revised',
+  declined: 'Declined',
+}
+
+/**
+ * Lets the owner of an approved letter ask the attorney for changes, within
+ * their plan's revision limit, and lists earlier requests
+ */
+export function LetterRevisionRequest({ letterId, status }: LetterRevisionRequestProps) {
+  const router = useRouter()
+  const [requests, setRequests] = useState<RevisionRequest[]>([])
+  const [allowance, setAllowance] = useState<RevisionAllowance | null>(null)
+  const [changes, setChanges] = useState('')
+  const [formOpen, setFormOpen] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/letters/${letterId}/revisions`)
+      if (!response.ok) return
+      const result = await response.json()
+      setRequests(result.requests || [])
+      setAllowance(result.allowance || null)
+    } catch (error) {
+      console.error('[LetterRevisions] Failed to load revision requests:', error)
+    }
+  }, [letterId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const submit = async () => {
+    setSubmitting(true)
+    try {
+      const response = await fetch(`/api/letters/${letterId}/revisions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ changes }),
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(result.error || 'Failed to request a revision')
+
+      toast.success('Revision requested. Your attorney has been notified.')
+      setChanges('')
+      setFormOpen(false)
+      await load()
+      router.refresh()
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to request a revision')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const openRequest = requests.find(request => request.status === 'open')
+  const canRequest = (status === 'approved' || status === 'completed') && !openRequest && (allowance?.remaining ?? 0) > 0
+
+  return (
+    <div className="space-y-4">
+      {openRequest && (
+        <div className="bg-primary/5 border border-primary/20 rounded-lg p-4 text-sm">
+          <p className="font-semibold text-primary">Revision in progress</p>
+          <p className="text-muted-foreground mt-1">
+            Your attorney is revising the letter. You&apos;ll get an email when the revised version is approved.
+          </p>
+          <p className="mt-2 whitespace-pre-wrap">{openRequest.requested_changes}</p>
+        </div>
+      )}
+
+      {allowance && (
+        <p className="text-sm text-muted-foreground">
+          {allowance.remaining} of {allowance.limit} revision{allowance.limit === 1 ? '' : 's'} left for this letter
+        </p>
+      )}
+
+      {canRequest && !formOpen && (
+        <Button variant="outline" onClick={() => setFormOpen(true)}>
+          <PenLine className="h-4 w-4 mr-2" />
+          Request a Revision
+        </Button>
+      )}
+
+      {canRequest && formOpen && (
+        <div className="space-y-2">
+          <Textarea
+            value={changes}
+            onChange={(e) => setChanges(e.target.value)}
+            placeholder="Describe what should change, e.g. correct the payment date to March 3 and soften the closing paragraph"
+            rows={5}
+            maxLength={4000}
+            disabled={submitting}
+          />
+          <div className="flex gap-2">
+            <Button onClick={submit} disabled={submitting || !changes.trim()}>
+              {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Send to Attorney
+            </Button>
+            <Button variant="ghost" onClick={() => setFormOpen(false)} disabled={submitting}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {requests.filter(request => request.status !== 'open').length > 0 && (
+        <div className="space-y-2 border-t pt-4">
+          <p className="text-xs font-medium uppercase text-muted-foreground">Earlier requests</p>
+          {requests.filter(request => request.status !== 'open').map(request => (
+            <div key={request.id} className="text-sm">
+              <div className="flex items-center gap-2">
+                <span className="text-muted-foreground">{format(new Date(request.created_at), 'MMM d, yyyy')}</span>
+                <Badge variant="outline" className="text-xs">{REQUEST_STATUS_LABELS[request.status]}</Badge>
+              </div>
+              <p className="mt-1 whitespace-pre-wrap line-clamp-3">{request.requested_changes}</p>
+              {request.decline_reason && (
+                <p className="mt-1 text-muted-foreground whitespace-pre-wrap">Attorney: {request.decline_reason}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
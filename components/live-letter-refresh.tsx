@@ -0,0 +1,65 @@
+'use client'
+
+import { useCallback, useEffect, useRef } from 'react'
+import { useRouter } from 'next/navigation'
+import { useLetterChanges, type LetterChange } from '@/hooks/use-letter-changes'
+
+type LetterSnapshot = { id: string } & Record<string, unknown>
+
+const REFRESH_DEBOUNCE_MS = 500
+const STATUS_FIELDS = ['status']
+
+function signature(row: Record<string, unknown>, fields: string[]): string {
+  return fields.map(field => String(row[field] ?? '')).join('|')
+}
+
+/**
+ * Re-renders the server page when a letter it cares about changes.
+ * Only changes to `fields` count, so drafts streaming into a letter do not
+ * refresh the page on every chunk. `letters` is what the page rendered;
+ * letters it has not seen refresh it once when they first change.
+ */
+export function LiveLetterRefresh({
+  channel,
+  letters,
+  fields = STATUS_FIELDS,
+  filter,
+}: {
+  channel: string
+  letters: LetterSnapshot[]
+  fields?: string[]
+  filter?: string
+}) {
+  const router = useRouter()
+  const seen = useRef(new Map<string, string>())
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  useEffect(() => {
+    seen.current = new Map(letters.map(letter => [letter.id, signature(letter, fields)]))
+  }, [letters, fields])
+
+  useEffect(() => () => {
+    if (timer.current) clearTimeout(timer.current)
+  }, [])
+
+  const onChange = useCallback((change: LetterChange) => {
+    let changed: boolean
+
+    if (change.eventType === 'DELETE') {
+      changed = seen.current.delete(String(change.old.id))
+    } else {
+      const id = String(change.new.id)
+      const next = signature(change.new, fields)
+      changed = seen.current.get(id) !== next
+      seen.current.set(id, next)
+    }
+
+    if (!changed) return
+    if (timer.current) clearTimeout(timer.current)
+    timer.current = setTimeout(() => router.refresh(), REFRESH_DEBOUNCE_MS)
+  }, [fields, router])
+
+  useLetterChanges(channel, onChange, filter)
+
+  return null
+}
@@ -11,15 +11,21 @@ import { RichTextEditor } from './ui/rich-text-editor'
 import type { Letter } from '@/lib/database.types'
 import { Wand2, Loader2 } from 'lucide-react'
 import { getAdminCsrfToken } from '@/lib/admin/csrf-client'
+import { RejectionCodePicker } from './admin/rejection-code-picker'
 
 export function ReviewLetterModal({ letter }: { letter: Letter & { profiles?: { full_name: string; email: string } } }) {
   const [isOpen, setIsOpen] = useState(false)
+  // A revision request starts from the letter the subscriber already approved
+  const initialContent = letter.final_content || letter.ai_draft_content
   const [finalContent, setFinalContent] = useState(
-    letter.ai_draft_content ? `<p>${letter.ai_draft_content.replace(/\n/g, '</p><p>')}</p>` : ''
+    initialContent ? `<p>${initialContent.replace(/\n/g, '</p><p>')}</p>` : ''
   )
   const [reviewNotes, setReviewNotes] = useState('')
   const [rejectionReason, setRejectionReason] = useState('')
-  const [action, setAction] = useState<'approve' | 'reject' | null>(null)
+  const [rejectionCodes, setRejectionCodes] = useState<string[]>([])
+  const [declineReason, setDeclineReason] = useState('')
+  const [hasOpenRevision, setHasOpenRevision] = useState(false)
+  const [action, setAction] = useState<'approve' | 'reject' | 'decline' | null>(null)
   const [loading, setLoading] = useState(false)
   const [aiImproving, setAiImproving] = useState(false)
   const [aiInstruction, setAiInstruction] = useState('')
@@ -42,21 +48,41 @@ export function ReviewLetterModal({ letter }: { letter: Letter & { profiles?: {
   }
 
   const handleOpen = async () => {
-    setIsOpen(true)
-    
-    // Transition letter to under_review status
-    if (letter.status === 'pending_review') {
+    // Claim the edit lock (moving the letter to under_review) before opening;
+    // another attorney's claim keeps the editor closed
+    if (['pending_review', 'revision_requested', 'under_review'].includes(letter.status)) {
       try {
         const headers = await getAdminHeaders(false)
-        await fetch(`/api/letters/${letter.id}/start-review`, {
+        const response = await fetch(`/api/letters/${letter.id}/start-review`, {
           method: 'POST',
           headers
         })
+
+        if (response.status === 409) {
+          const data = await response.json().catch(() => ({}))
+          toast.error(data.error || 'This letter is being reviewed by another attorney')
+          router.refresh()
+          return
+        }
+
         router.refresh()
       } catch (error) {
         console.error('[v0] Failed to start review:', error)
       }
+
+      // A revision request is declined rather than rejected
+      try {
+        const response = await fetch(`/api/letters/${letter.id}/revisions`)
+        if (response.ok) {
+          const { requests } = await response.json()
+          setHasOpenRevision(requests.some((request: { status: string }) => request.status === 'open'))
+        }
+      } catch (error) {
+        console.error('[v0] Failed to load revision requests:', error)
+      }
     }
+
+    setIsOpen(true)
   }
 
   const handleAiImprove = async () => {
@@ -105,8 +131,13 @@ export function ReviewLetterModal({ letter }: { letter: Letter & { profiles?: {
       return
     }
 
-    if (action === 'reject' && !rejectionReason.trim()) {
-      toast.error('Rejection reason is required')
+    if (action === 'reject' && rejectionCodes.length === 0) {
+      toast.error('Select at least one rejection reason')
+      return
+    }
+
+    if (action === 'decline' && !declineReason.trim()) {
+      toast.error('Explain why the revision is declined')
       return
     }
 
@@ -114,6 +145,24 @@ export function ReviewLetterModal({ letter }: { letter: Letter & { profiles?: {
     try {
       const headers = await getAdminHeaders()
 
+      if (action === 'decline') {
+        const response = await fetch(`/api/letters/${letter.id}/revisions/decline`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ reason: declineReason })
+        })
+
+        if (!response.ok) {
+          const data = await response.json()
+          throw new Error(data.error || 'Failed to decline revision')
+        }
+
+        toast.success('Revision declined; the approved letter was restored')
+        setIsOpen(false)
+        router.refresh()
+        return
+      }
+
       // Check if this letter uses the new workflow system
       const workflowId = (letter as any).workflow_id
 
@@ -124,7 +173,8 @@ export function ReviewLetterModal({ letter }: { letter: Letter & { profiles?: {
           approved: action === 'approve',
           editedContent: action === 'approve' ? htmlToPlainText(finalContent) : undefined,
           notes: reviewNotes || undefined,
-          reason: action === 'reject' ? rejectionReason : undefined,
+          reason: action === 'reject' ? rejectionReason || undefined : undefined,
+          rejectionCodes: action === 'reject' ? rejectionCodes : undefined,
         }
 
         const response = await fetch('/api/workflows/resume', {
@@ -147,7 +197,7 @@ export function ReviewLetterModal({ letter }: { letter: Letter & { profiles?: {
 
         const body = action === 'approve'
           ? { finalContent: htmlToPlainText(finalContent), reviewNotes }
-          : { rejectionReason, reviewNotes }
+          : { rejectionCodes, rejectionReason, reviewNotes }
 
         const response = await fetch(endpoint, {
           method: 'POST',
@@ -306,43 +356,76 @@ export function ReviewLetterModal({ letter }: { letter: Letter & { profiles?: {
             >
               Approve Letter
             </Button>
-            <Button
-              onClick={() => setAction('reject')}
-              variant={action === 'reject' ? 'destructive' : 'outline'}
-              className="flex-1"
-            >
-              Reject Letter
-            </Button>
+            {hasOpenRevision ? (
+              <Button
+                onClick={() => setAction('decline')}
+                variant={action === 'decline' ? 'destructive' : 'outline'}
+                className="flex-1"
+              >
+                Decline Revision
+              </Button>
+            ) : (
+              <Button
+                onClick={() => setAction('reject')}
+                variant={action === 'reject' ? 'destructive' : 'outline'}
+                className="flex-1"
+              >
+                Reject Letter
+              </Button>
+            )}
           </div>
 
-          {/* Rejection Reason */}
-          {action === 'reject' && (
+          {/* Decline Reason */}
+          {action === 'decline' && (
             <div>
-              <Label htmlFor="rejection" className="text-red-600">Rejection Reason (Client Will See This) *</Label>
+              <Label htmlFor="decline" className="text-red-600">Reason for the Client *</Label>
+              <p className="text-xs text-slate-500 mb-2">The subscriber keeps the letter as it was approved before their request</p>
               <Textarea
-                id="rejection"
-                value={rejectionReason}
-                onChange={(e) => setRejectionReason(e.target.value)}
-                placeholder="Explain why this letter is being rejected..."
+                id="decline"
+                value={declineReason}
+                onChange={(e) => setDeclineReason(e.target.value)}
+                placeholder="Explain why the requested changes will not be made..."
                 rows={3}
-                className="mt-2 border-red-300"
-                required
+                className="mt-2"
               />
             </div>
           )}
 
+          {/* Rejection Reason */}
+          {action === 'reject' && (
+            <div className="space-y-4">
+              <div>
+                <Label className="text-red-600">Rejection Reasons (Client Will See Guidance for Each) *</Label>
+                <div className="mt-2 rounded-md border border-red-300 p-3">
+                  <RejectionCodePicker value={rejectionCodes} onChange={setRejectionCodes} disabled={loading} />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="rejection">Notes for the Client</Label>
+                <Textarea
+                  id="rejection"
+                  value={rejectionReason}
+                  onChange={(e) => setRejectionReason(e.target.value)}
+                  placeholder="Add specifics about what needs to change..."
+                  rows={3}
+                  className="mt-2"
+                />
+              </div>
+            </div>
+          )}
+
           {/* Submit Button */}
           {action && (
             <div className="flex justify-end gap-4 pt-4 border-t">
-              <Button onClick={() => { setAction(null); setRejectionReason('') }} variant="ghost">
+              <Button onClick={() => { setAction(null); setRejectionReason(''); setRejectionCodes([]); setDeclineReason('') }} variant="ghost">
                 Cancel
               </Button>
               <Button
                 onClick={handleSubmit}
-                disabled={loading || (action === 'reject' && !rejectionReason.trim())}
+                disabled={loading || (action === 'reject' && rejectionCodes.length === 0) || (action === 'decline' && !declineReason.trim())}
                 className={action === 'approve' ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'}
               >
-                {loading ? 'Processing...' : `Confirm ${action === 'approve' ? 'Approval' : 'Rejection'}`}
+                {loading ? 'Processing...' : `Confirm ${action === 'approve' ? 'Approval' : action === 'decline' ? 'Decline' : 'Rejection'}`}
               </Button>
             </div>
           )}
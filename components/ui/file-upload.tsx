@@ -9,6 +9,7 @@ export interface UploadedFile {
   name: string
   size: number
   type: string
+  attachmentId?: string
   url?: string
   preview?: string
   status: "uploading" | "success" | "error"
@@ -24,6 +25,7 @@ interface FileUploadProps {
   acceptedTypes?: string[]
   disabled?: boolean
   className?: string
+  uploadUrl?: string
 }
 
 const DEFAULT_ACCEPTED_TYPES = [
@@ -50,6 +52,47 @@ function formatFileSize(bytes: number): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i]
 }
 
+/**
+ * Upload a single file as multipart/form-data, reporting progress
+ * Uses XHR because fetch does not expose upload progress
+ */
+function uploadFile(
+  uploadUrl: string,
+  file: File,
+  onProgress: (progress: number) => void
+): Promise<{ id: string }> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    const body = new FormData()
+    body.append("file", file)
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress(Math.round((event.loaded / event.total) * 100))
+      }
+    }
+
+    xhr.onload = () => {
+      let data: { id?: string; error?: string } = {}
+      try {
+        data = JSON.parse(xhr.responseText)
+      } catch {
+        // Non-JSON error page
+      }
+      if (xhr.status >= 200 && xhr.status < 300 && data.id) {
+        resolve({ id: data.id })
+      } else {
+        reject(new Error(data.error || "Upload failed"))
+      }
+    }
+
+    xhr.onerror = () => reject(new Error("Network error during upload"))
+
+    xhr.open("POST", uploadUrl)
+    xhr.send(body)
+  })
+}
+
 function getFileIcon(type: string): React.ReactNode {
   if (type.startsWith("image/")) {
     return (
@@ -94,6 +137,7 @@ export function FileUpload({
   acceptedTypes = DEFAULT_ACCEPTED_TYPES,
   disabled = false,
   className,
+  uploadUrl = "/api/attachments",
 }: FileUploadProps) {
   const [isDragOver, setIsDragOver] = useState(false)
   const fileInputRef = React.useRef<HTMLInputElement>(null)
@@ -119,6 +163,7 @@ export function FileUpload({
     }
     
     const filesToAdd = filesToProcess.slice(0, remainingSlots)
+    const pendingUploads: { id: string; file: File }[] = []
 
     for (const file of filesToAdd) {
       const validation = validateFile(file)
@@ -142,31 +187,42 @@ export function FileUpload({
       }
 
       newFiles.push(uploadedFile)
+      if (validation.valid) {
+        pendingUploads.push({ id, file })
+      }
     }
 
     // Add new files to the list
     const updatedFiles = [...files, ...newFiles]
     onFilesChange(updatedFiles)
 
-    // Simulate upload for valid files (in real implementation, upload to Supabase Storage)
-    for (const uploadedFile of newFiles) {
-      if (uploadedFile.status === "uploading") {
-        // Simulate upload progress
-        const fileIndex = updatedFiles.findIndex(f => f.id === uploadedFile.id)
-        if (fileIndex !== -1) {
-          // Simulate progress updates
-          for (let progress = 0; progress <= 100; progress += 20) {
-            await new Promise(resolve => setTimeout(resolve, 100))
-            updatedFiles[fileIndex] = { ...updatedFiles[fileIndex], progress }
-            onFilesChange([...updatedFiles])
-          }
-          // Mark as success
-          updatedFiles[fileIndex] = { ...updatedFiles[fileIndex], status: "success", progress: 100 }
-          onFilesChange([...updatedFiles])
-        }
+    const updateFile = (id: string, changes: Partial<UploadedFile>) => {
+      const fileIndex = updatedFiles.findIndex(f => f.id === id)
+      if (fileIndex === -1) return
+      updatedFiles[fileIndex] = { ...updatedFiles[fileIndex], ...changes }
+      onFilesChange([...updatedFiles])
+    }
+
+    // Upload valid files to private storage; the server extracts text for the AI
+    for (const { id, file } of pendingUploads) {
+      try {
+        const { id: attachmentId } = await uploadFile(uploadUrl, file, (progress) => {
+          updateFile(id, { progress })
+        })
+        updateFile(id, {
+          status: "success",
+          progress: 100,
+          attachmentId,
+          url: `${uploadUrl}/${attachmentId}`,
+        })
+      } catch (error) {
+        updateFile(id, {
+          status: "error",
+          error: error instanceof Error ? error.message : "Upload failed",
+        })
       }
     }
-  }, [files, maxFiles, validateFile, onFilesChange])
+  }, [files, maxFiles, validateFile, onFilesChange, uploadUrl])
 
   const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault()
@@ -211,8 +267,14 @@ export function FileUpload({
     if (fileToRemove?.preview) {
       URL.revokeObjectURL(fileToRemove.preview)
     }
+    // Remove the stored copy as well; it was never submitted with a letter
+    if (fileToRemove?.attachmentId) {
+      fetch(`${uploadUrl}/${fileToRemove.attachmentId}`, { method: "DELETE" }).catch(error => {
+        console.error("Failed to delete attachment:", error)
+      })
+    }
     onFilesChange(files.filter(f => f.id !== id))
-  }, [files, onFilesChange])
+  }, [files, onFilesChange, uploadUrl])
 
   const handleBrowseClick = () => {
     fileInputRef.current?.click()
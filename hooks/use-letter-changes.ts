@@ -0,0 +1,45 @@
+'use client'
+
+import * as React from 'react'
+import { REALTIME_SUBSCRIBE_STATES, type RealtimePostgresChangesPayload } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/client'
+
+export type LetterChange = RealtimePostgresChangesPayload<Record<string, any>>
+
+/**
+ * Subscribe to inserts, updates and deletes on letters the signed-in user can
+ * read (Realtime applies the letters RLS policies). `filter` narrows the
+ * stream further, e.g. `user_id=eq.<id>`. Returns whether the channel is
+ * connected, so callers can fall back to polling when it is not.
+ */
+export function useLetterChanges(
+  channelName: string,
+  onChange: (change: LetterChange) => void,
+  filter?: string
+) {
+  const [connected, setConnected] = React.useState(false)
+  const onChangeRef = React.useRef(onChange)
+
+  React.useEffect(() => {
+    onChangeRef.current = onChange
+  }, [onChange])
+
+  React.useEffect(() => {
+    const supabase = createClient()
+    const channel = supabase
+      .channel(channelName)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'letters', ...(filter ? { filter } : {}) },
+        (payload: LetterChange) => onChangeRef.current(payload)
+      )
+      .subscribe((status: REALTIME_SUBSCRIBE_STATES) => setConnected(status === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED))
+
+    return () => {
+      setConnected(false)
+      supabase.removeChannel(channel)
+    }
+  }, [channelName, filter])
+
+  return connected
+}
@@ -0,0 +1,148 @@
+/**
+ * Conflict-of-interest check types and helpers shared by the review interface
+ * and the server-side conflict check service
+ */
+
+export type ConflictKind = 'prior_representation' | 'recipient_is_subscriber' | 'client_was_adversary'
+
+export type ConflictConfidence = 'high' | 'medium' | 'low'
+
+/**
+ * Row returned by find_party_matches
+ */
+export interface PartyMatch {
+  party_role: 'client' | 'opposing'
+  party_name: string
+  match_source: 'letter' | 'profile'
+  matched_letter_id: string | null
+  matched_user_id: string
+  matched_name: string
+  matched_email: string | null
+  matched_reviewed_by: string | null
+  name_similarity: number
+  email_match: boolean
+}
+
+export interface PotentialConflict {
+  /** Stable across re-runs so acknowledgments can be matched to conflicts */
+  id: string
+  kind: ConflictKind
+  confidence: ConflictConfidence
+  /** Blocks approval outright; cannot be acknowledged */
+  hard: boolean
+  partyName: string
+  matchedName: string
+  matchedEmail: string | null
+  matchedLetterId: string | null
+  similarity: number
+  emailMatch: boolean
+}
+
+export interface ConflictAcknowledgment {
+  attorneyId: string
+  acknowledgedAt: string
+  notes: string
+  conflictIds: string[]
+}
+
+export interface ConflictCheckResult {
+  checkedAt: string
+  attorneyId: string
+  conflicts: PotentialConflict[]
+  acknowledgment: ConflictAcknowledgment | null
+}
+
+export const CONFLICT_KIND_LABELS: Record<ConflictKind, string> = {
+  prior_representation: 'You previously wrote on behalf of this recipient',
+  recipient_is_subscriber: 'Recipient is an existing subscriber',
+  client_was_adversary: 'You previously wrote against this client',
+}
+
+export function getMatchConfidence(match: Pick<PartyMatch, 'email_match' | 'name_similarity'>): ConflictConfidence {
+  if (match.email_match || match.name_similarity >= 0.9) return 'high'
+  if (match.name_similarity >= 0.75) return 'medium'
+  return 'low'
+}
+
+const CONFIDENCE_RANK: Record<ConflictConfidence, number> = { high: 0, medium: 1, low: 2 }
+
+/**
+ * Turn raw party matches into conflicts for the given attorney
+ *
+ * - The recipient matches the client on a letter this attorney reviewed:
+ *   prior representation, a hard conflict when the match is high confidence.
+ * - The recipient matches another subscriber (their profile or the client side
+ *   of their letters): potential conflict.
+ * - The client matches the recipient of a letter this attorney reviewed:
+ *   potential conflict.
+ *
+ * Matches are collapsed to one conflict per kind and matched subscriber
+ * (or letter, for prior representation), keeping the strongest.
+ */
+export function classifyPartyMatches(matches: PartyMatch[], attorneyId: string): PotentialConflict[] {
+  const conflicts = new Map<string, PotentialConflict>()
+
+  for (const match of matches) {
+    const reviewedByAttorney = match.match_source === 'letter' && match.matched_reviewed_by === attorneyId
+    let kind: ConflictKind | null = null
+
+    if (match.party_role === 'opposing') {
+      kind = reviewedByAttorney ? 'prior_representation' : 'recipient_is_subscriber'
+    } else if (reviewedByAttorney) {
+      kind = 'client_was_adversary'
+    }
+    if (!kind) continue
+
+    const confidence = getMatchConfidence(match)
+    const subject = kind === 'recipient_is_subscriber' ? match.matched_user_id : match.matched_letter_id
+    const id = `${kind}:${subject}`
+    const existing = conflicts.get(id)
+
+    if (existing && CONFIDENCE_RANK[existing.confidence] <= CONFIDENCE_RANK[confidence]) continue
+
+    conflicts.set(id, {
+      id,
+      kind,
+      confidence,
+      hard: kind === 'prior_representation' && confidence === 'high',
+      partyName: match.party_name,
+      matchedName: match.matched_name,
+      matchedEmail: match.matched_email,
+      matchedLetterId: match.matched_letter_id,
+      similarity: match.name_similarity,
+      emailMatch: match.email_match,
+    })
+  }
+
+  return [...conflicts.values()].sort((a, b) =>
+    Number(b.hard) - Number(a.hard) || CONFIDENCE_RANK[a.confidence] - CONFIDENCE_RANK[b.confidence]
+  )
+}
+
+/**
+ * Potential conflicts the attorney has not acknowledged in the given check
+ */
+export function getUnacknowledgedConflicts(check: ConflictCheckResult): PotentialConflict[] {
+  const acknowledged = check.acknowledgment?.attorneyId === check.attorneyId
+    ? new Set(check.acknowledgment.conflictIds)
+    : new Set<string>()
+
+  return check.conflicts.filter(conflict => !conflict.hard && !acknowledged.has(conflict.id))
+}
+
+/**
+ * Why the attorney may not approve the letter yet, or null if they may
+ */
+export function describeApprovalBlock(check: ConflictCheckResult): string | null {
+  const hardCount = check.conflicts.filter(conflict => conflict.hard).length
+  if (hardCount > 0) {
+    return `This letter has ${hardCount === 1 ? 'a conflict' : `${hardCount} conflicts`} of interest with a client you previously represented and cannot be approved by you. Ask a super admin to reassign it.`
+  }
+
+  const pending = getUnacknowledgedConflicts(check).length
+  if (pending > 0) {
+    return `Acknowledge ${pending === 1 ? 'the potential conflict' : `${pending} potential conflicts`} of interest before approving this letter.`
+  }
+
+  return null
+}
@@ -0,0 +1,66 @@
+/**
+ * Review queue assignment types and helpers shared by the queue pages, the
+ * assignment panel and the server-side assignment service
+ */
+
+export interface ReviewAssignment {
+  assigned_to: string | null
+  assigned_at: string | null
+  review_locked_by: string | null
+  review_lock_expires_at: string | null
+}
+
+export interface ReviewConflict {
+  reason: 'locked' | 'assigned'
+  holderId: string
+  holderName: string | null
+  lockExpiresAt: string | null
+}
+
+export interface AttorneyWorkload {
+  attorney_id: string
+  full_name: string | null
+  email: string | null
+  admin_sub_role: string
+  open_assignments: number
+  active_locks: number
+  is_active: boolean
+  licensed_states: string[]
+}
+
+export type ReviewQueueView = 'mine' | 'unassigned' | 'all'
+
+export const REVIEW_QUEUE_VIEWS: { value: ReviewQueueView; label: string }[] = [
+  { value: 'mine', label: 'Assigned to me' },
+  { value: 'unassigned', label: 'Unassigned' },
+  { value: 'all', label: 'All' },
+]
+
+export function parseReviewQueueView(value: string | undefined, fallback: ReviewQueueView): ReviewQueueView {
+  return REVIEW_QUEUE_VIEWS.some(view => view.value === value) ? value as ReviewQueueView : fallback
+}
+
+/**
+ * Whether an assignment currently has an unexpired edit lock
+ */
+export function hasActiveReviewLock(assignment: ReviewAssignment, now = Date.now()): boolean {
+  return !!assignment.review_locked_by
+    && !!assignment.review_lock_expires_at
+    && new Date(assignment.review_lock_expires_at).getTime() > now
+}
+
+/**
+ * Message shown to an admin whose save or claim was refused
+ */
+export function describeReviewConflict(conflict: ReviewConflict): string {
+  const holder = conflict.holderName || 'another attorney'
+
+  if (conflict.reason === 'locked') {
+    const until = conflict.lockExpiresAt
+      ? ` until ${new Date(conflict.lockExpiresAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`
+      : ''
+    return `This letter is being reviewed by ${holder}${until}. Your changes were not saved.`
+  }
+
+  return `This letter is assigned to ${holder}. Ask a super admin to reassign it before making changes.`
+}
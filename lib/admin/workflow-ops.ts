@@ -0,0 +1,99 @@
+/**
+ * Letter workflow run types and helpers shared by the workflow operations
+ * console and the server-side workflow ops service
+ */
+
+export type WorkflowRunStatus = 'running' | 'paused' | 'completed' | 'failed' | 'cancelled'
+
+export type WorkflowStepStatus = 'running' | 'completed' | 'failed'
+
+export type WorkflowOpsAction = 'cancel' | 'retry' | 'resume'
+
+/** Step the workflow sleeps in while it waits for the attorney's decision */
+export const APPROVAL_WAIT_STEP = 'attorney-approval'
+
+/** Hook a paused workflow waits on after a step fails */
+export const STEP_RECOVERY_EVENT = 'step-recovery'
+
+export interface StepRecovery {
+  retry: boolean
+  adminId: string
+}
+
+export interface WorkflowStepRecord {
+  id: string
+  step: string
+  attempt: number
+  status: WorkflowStepStatus
+  error: string | null
+  started_at: string
+  finished_at: string | null
+}
+
+export interface WorkflowRunSummary {
+  workflow_id: string
+  letter_id: string
+  letter_title: string | null
+  letter_status: string
+  user_email: string | null
+  workflow_status: WorkflowRunStatus | null
+  current_step: string | null
+  started_at: string | null
+  completed_at: string | null
+  error: string | null
+}
+
+export interface WorkflowRunDetail extends WorkflowRunSummary {
+  steps: WorkflowStepRecord[]
+}
+
+export const WORKFLOW_STEP_LABELS: Record<string, string> = {
+  'generate-draft': 'Generate draft',
+  'save-draft': 'Save draft for review',
+  'notify-attorneys': 'Notify attorneys',
+  [APPROVAL_WAIT_STEP]: 'Awaiting attorney decision',
+  'finalize-letter': 'Finalize letter',
+  'notify-user': 'Notify subscriber',
+}
+
+export const WORKFLOW_STATUS_LABELS: Record<WorkflowRunStatus, string> = {
+  running: 'Running',
+  paused: 'Paused',
+  completed: 'Completed',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+}
+
+export function getWorkflowStepLabel(step: string | null): string {
+  if (!step) return '—'
+  return WORKFLOW_STEP_LABELS[step] || step
+}
+
+function isAwaitingRecovery(run: WorkflowRunDetail): boolean {
+  const latest = run.steps[run.steps.length - 1]
+  return run.workflow_status === 'paused' && latest?.status === 'failed' && latest.step === run.current_step
+}
+
+/**
+ * Actions the console offers for a run
+ * - cancel: the run has not finished
+ * - retry: the run is paused on a failed step
+ * - resume: the run is waiting for an attorney decision
+ */
+export function getWorkflowActions(run: WorkflowRunDetail): WorkflowOpsAction[] {
+  if (run.workflow_status !== 'running' && run.workflow_status !== 'paused') return []
+
+  const actions: WorkflowOpsAction[] = ['cancel']
+  if (isAwaitingRecovery(run)) actions.push('retry')
+  if (run.workflow_status === 'paused' && run.current_step === APPROVAL_WAIT_STEP) actions.push('resume')
+  return actions
+}
+
+/**
+ * Run time so far, or total run time once finished
+ */
+export function getWorkflowElapsedMs(run: WorkflowRunSummary, now: number = Date.now()): number | null {
+  if (!run.started_at) return null
+  const end = run.completed_at ? new Date(run.completed_at).getTime() : now
+  return Math.max(end - new Date(run.started_at).getTime(), 0)
+}
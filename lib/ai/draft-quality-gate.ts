@@ -0,0 +1,90 @@
+/**
+ * Draft quality gate
+ * Validates a generated draft and regenerates it once when a hard check fails
+ */
+
+import { generateTextWithRetry, type GeneratedText } from './openai-retry'
+import {
+  checkDraftQuality,
+  buildQualityFeedback,
+  type DraftQualityReport,
+} from '@/lib/validation/draft-quality'
+import type { AIUsageContext } from '@/lib/services/ai-usage-service'
+import { redactText, rehydrateText, type PIIRedaction } from '@/lib/security/pii-redaction'
+
+export interface DraftQualityGateResult {
+  generation: GeneratedText
+  report: DraftQualityReport
+}
+
+/**
+ * Check the draft; on hard failures regenerate once with the failures fed back
+ * into the prompt. The better of the two drafts is kept, and a failed
+ * regeneration never fails the letter - the report tells the attorney what to fix.
+ */
+export async function enforceDraftQuality(params: {
+  generation: GeneratedText
+  intakeData: Record<string, unknown>
+  prompt: string
+  system: string
+  model?: string
+  temperature?: number
+  maxOutputTokens?: number
+  tracking?: AIUsageContext  // Usage context of the original draft; the regeneration is recorded separately
+  redaction?: PIIRedaction  // When the prompt was redacted: feedback is redacted and the retry rehydrated
+}): Promise<DraftQualityGateResult> {
+  const { generation, intakeData } = params
+  const report = checkDraftQuality(generation.text, intakeData)
+
+  if (report.passed) {
+    return { generation, report }
+  }
+
+  const failed = report.checks.filter(check => !check.passed).map(check => check.id)
+  console.warn('[DraftQuality] Draft failed quality checks, regenerating once:', failed)
+
+  // Failure details quote intake values, so they go through the same redaction as the prompt
+  const feedback = params.redaction
+    ? redactText(buildQualityFeedback(report), params.redaction)
+    : buildQualityFeedback(report)
+
+  try {
+    const redactedRetry = await generateTextWithRetry({
+      prompt: `${params.prompt}\n\n${feedback}`,
+      system: params.system,
+      temperature: params.temperature ?? 0.7,
+      maxOutputTokens: params.maxOutputTokens ?? 2048,
+      model: params.model,
+      tracking: params.tracking && { ...params.tracking, operation: 'draft_regeneration' },
+    })
+    const retry = params.redaction
+      ? { ...redactedRetry, text: rehydrateText(redactedRetry.text, params.redaction) }
+      : redactedRetry
+
+    const retryReport = checkDraftQuality(retry.text, intakeData)
+    const hardFailures = (r: DraftQualityReport) =>
+      r.checks.filter(check => !check.passed && check.severity === 'hard').length
+
+    if (hardFailures(retryReport) > hardFailures(report)) {
+      console.warn('[DraftQuality] Regenerated draft was worse; keeping the original')
+      return { generation, report: { ...report, regenerated: true, discardedAttempt: retryReport.checks } }
+    }
+
+    return {
+      generation: {
+        ...retry,
+        attempts: generation.attempts + retry.attempts,
+        duration: generation.duration + retry.duration,
+        usage: {
+          inputTokens: generation.usage.inputTokens + retry.usage.inputTokens,
+          outputTokens: generation.usage.outputTokens + retry.usage.outputTokens,
+        },
+        costUsd: generation.costUsd + retry.costUsd,
+      },
+      report: { ...retryReport, regenerated: true, discardedAttempt: report.checks },
+    }
+  } catch (error) {
+    console.error('[DraftQuality] Regeneration failed; keeping the original draft:', error)
+    return { generation, report }
+  }
+}
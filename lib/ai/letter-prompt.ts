@@ -0,0 +1,75 @@
+/**
+ * Draft prompt for letters generated through /api/generate-letter and
+ * regenerated by the stuck-letter recovery job
+ */
+
+import { formatLetterTypeDetails } from '@/lib/validation/intake-fields'
+import { formatAttachmentEvidence } from '@/lib/attachments/service'
+import type { AttachmentEvidence } from '@/lib/attachments/types'
+import { formatJurisdictionRulesForPrompt, type JurisdictionRuleSet } from '@/lib/jurisdiction'
+
+export const DRAFT_SYSTEM_PROMPT = "You are a professional legal attorney drafting formal legal letters. Always produce professional, legally sound content with proper formatting."
+
+/**
+ * Build AI prompt from letter type and intake data
+ */
+export function buildLetterPrompt(
+  letterType: string,
+  intakeData: Record<string, unknown>,
+  evidence: AttachmentEvidence[] = [],
+  jurisdiction: JurisdictionRuleSet | null = null,
+  redactionInstructions = ""
+) {
+  const fields = (key: string) => {
+    const value = intakeData[key]
+    if (value === undefined || value === null || value === '') return ''
+    const fieldName = key
+      .replace(/([A-Z])/g, ' $1')
+      .replace(/^./, str => str.toUpperCase())
+      .replace(/_/g, ' ')
+    return `${fieldName}: ${String(value)}`
+  }
+
+  const basePrompt = [
+    `Draft a professional ${letterType} letter with the following details:`,
+    "",
+    "Sender Information:",
+    fields("senderName"),
+    fields("senderAddress"),
+    fields("senderEmail"),
+    fields("senderPhone"),
+    "",
+    "Recipient Information:",
+    fields("recipientName"),
+    fields("recipientAddress"),
+    fields("recipientEmail"),
+    fields("recipientPhone"),
+    "",
+    "Case Details:",
+    fields("issueDescription"),
+    fields("desiredOutcome"),
+    ...formatLetterTypeDetails(letterType, intakeData),
+    fields("additionalDetails"),
+    "",
+    formatJurisdictionRulesForPrompt(jurisdiction),
+    "",
+    formatAttachmentEvidence(evidence),
+    "",
+    redactionInstructions,
+    "",
+    "Requirements:",
+    "- Write a professional, legally sound letter (300-500 words)",
+    "- Include proper date and formal letter format",
+    "- Present facts clearly and objectively",
+    "- State clear demands with specific deadlines (if applicable)",
+    "- Maintain professional legal tone throughout",
+    "- Include proper salutations and closing",
+    "- Format as a complete letter with all standard elements",
+    "- Avoid any legal advice beyond standard letter writing",
+    "- Where a governing jurisdiction is given, respect its notice periods and deadlines",
+    "",
+    "Important: Only return the letter content itself, no explanations or commentary."
+  ]
+
+  return basePrompt.filter(Boolean).join("\n")
+}
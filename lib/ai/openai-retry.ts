@@ -2,13 +2,23 @@
  * OpenAI Retry Logic with Exponential Backoff
  * Provides robust retry mechanism for OpenAI API calls with OpenTelemetry tracing
  *
- * Supports Vercel AI Gateway integration for improved observability and control
+ * Supports Vercel AI Gateway integration for improved observability and control.
+ * When OpenAI is unavailable, requests fail over to the secondary providers
+ * configured in ./providers (Gemini, local OpenAI-compatible endpoint).
  */
 
-import { generateText } from "ai"
 import { createHash, randomBytes } from "crypto"
 import { createAISpan, addSpanAttributes, recordSpanEvent } from '../monitoring/tracing'
-import { getOpenAIModel } from './openai-client'
+import {
+  getProviderOrder,
+  type AIProvider,
+  type AIProviderName,
+  type ProviderTextParams,
+  type ProviderTextResult,
+  type TokenUsage,
+} from './providers'
+import { estimateAICost } from './pricing'
+import { recordAIUsage, type AIUsageContext } from '@/lib/services/ai-usage-service'
 
 export interface RetryConfig {
   maxRetries: number
@@ -31,7 +41,11 @@ export interface RetryResult<T> {
     delay: number
     error?: string
     duration: number
+    provider?: AIProviderName
   }>
+  provider?: AIProviderName  // Provider that produced the result
+  model?: string
+  usage?: TokenUsage  // Tokens of the successful call
 }
 
 export interface CircuitBreakerState {
@@ -143,26 +157,90 @@ class CircuitBreaker {
   }
 }
 
+/**
+ * Text generation request accepted by the retry client
+ */
+export interface TextGenerationParams {
+  prompt: string
+  system?: string
+  temperature?: number
+  maxOutputTokens?: number
+  model?: string
+  abortSignal?: AbortSignal
+  providers?: AIProviderName[]  // Restrict failover to these providers
+  tracking?: AIUsageContext  // Record tokens and cost of the call against a letter/user
+}
+
+/**
+ * Provider availability as seen by the retry client
+ */
+export interface AIProviderStatus {
+  provider: AIProviderName
+  configured: boolean
+  model: string
+  circuit: CircuitBreakerState
+}
+
 export class OpenAIRetryClient {
-  private circuitBreaker: CircuitBreaker
+  private circuitBreakers = new Map<AIProviderName, CircuitBreaker>()
   private config: RetryConfig
 
   constructor(config: Partial<RetryConfig> = {}) {
     this.config = { ...DEFAULT_RETRY_CONFIG, ...config }
-    this.circuitBreaker = new CircuitBreaker()
+  }
+
+  private getCircuitBreaker(provider: AIProviderName): CircuitBreaker {
+    let breaker = this.circuitBreakers.get(provider)
+    if (!breaker) {
+      breaker = new CircuitBreaker()
+      this.circuitBreakers.set(provider, breaker)
+    }
+    return breaker
   }
 
   /**
-   * Generate text with retry logic and circuit breaker
+   * Generate text with retry logic, per-provider circuit breakers and failover
    */
-  async generateTextWithRetry(params: {
-    prompt: string
-    system?: string
-    temperature?: number
-    maxOutputTokens?: number
-    model?: string
-  }): Promise<RetryResult<string>> {
-    const span = createAISpan('generateTextWithRetry', {
+  async generateTextWithRetry(params: TextGenerationParams): Promise<RetryResult<string>> {
+    return this.runWithFailover('generateTextWithRetry', params, (provider, request) =>
+      provider.generate(request)
+    )
+  }
+
+  /**
+   * Stream text with the same retry and failover policy
+   * Retries and failover only happen before the first chunk is delivered; once
+   * text has been handed to onDelta a failure is returned so the caller can clean up
+   */
+  async streamTextWithRetry(
+    params: TextGenerationParams & { onDelta: (delta: string) => void | Promise<void> }
+  ): Promise<RetryResult<string>> {
+    let deliveredChars = 0
+
+    return this.runWithFailover(
+      'streamTextWithRetry',
+      params,
+      (provider, request) =>
+        provider.stream(request, (delta) => {
+          deliveredChars += delta.length
+          return params.onDelta(delta)
+        }),
+      () => deliveredChars === 0
+    )
+  }
+
+  /**
+   * Try each configured provider in order, retrying retryable errors with backoff.
+   * A provider is skipped while its circuit is open and abandoned on a
+   * non-retryable error or once its retries are exhausted.
+   */
+  private async runWithFailover(
+    spanName: string,
+    params: TextGenerationParams,
+    execute: (provider: AIProvider, request: ProviderTextParams) => Promise<ProviderTextResult>,
+    canContinue: () => boolean = () => true
+  ): Promise<RetryResult<string>> {
+    const span = createAISpan(spanName, {
       'ai.model': params.model || 'gpt-4-turbo',
       'ai.temperature': params.temperature || 0.7,
       'ai.max_output_tokens': params.maxOutputTokens || 2048,
@@ -172,154 +250,175 @@ export class OpenAIRetryClient {
 
     const startTime = Date.now()
     const retryHistory: RetryResult<string>['retryHistory'] = []
+    let lastError: Error | null = null
+
+    const request: ProviderTextParams = {
+      prompt: params.prompt,
+      system: params.system || "You are a professional legal assistant.",
+      temperature: params.temperature || 0.7,
+      maxOutputTokens: params.maxOutputTokens || 2048,
+      model: params.model,
+      abortSignal: params.abortSignal,
+    }
+
+    const fail = (error: Error): RetryResult<string> => {
+      addSpanAttributes({
+        'ai.success': false,
+        'ai.attempts': retryHistory.length,
+        'ai.total_duration_ms': Date.now() - startTime,
+        'ai.final_error': error.message,
+      })
+      span.recordException(error)
+      span.setStatus({
+        code: 2, // ERROR
+        message: error.message
+      })
+
+      return {
+        success: false,
+        error,
+        attempts: retryHistory.length,
+        totalDurationMs: Date.now() - startTime,
+        retryHistory
+      }
+    }
 
     try {
-      // Check circuit breaker
-      if (!this.circuitBreaker.canExecute()) {
-        recordSpanEvent('circuit_breaker_open')
-        span.setStatus({ 
-          code: 2, // ERROR
-          message: 'Circuit breaker is open'
-        })
-        
-        return {
-          success: false,
-          error: new Error('Circuit breaker is open - OpenAI service temporarily unavailable'),
-          attempts: 0,
-          totalDurationMs: 0,
-          retryHistory
-        }
+      const providers = getProviderOrder().filter(
+        provider => provider.isConfigured() && (!params.providers || params.providers.includes(provider.name))
+      )
+
+      if (providers.length === 0) {
+        return fail(new Error('No AI provider is configured'))
       }
 
-      let lastError: Error | null = null
-
-      for (let attempt = 0; attempt <= this.config.maxRetries; attempt++) {
-        const attemptStartTime = Date.now()
-        let delay = 0
-
-        try {
-          console.log(`[OpenAI] Attempt ${attempt + 1}/${this.config.maxRetries + 1}`)
-          
-          recordSpanEvent('ai_generation_attempt', {
-            attempt: attempt + 1,
-            max_retries: this.config.maxRetries + 1,
-          })
-
-          const { text } = await generateText({
-            model: getOpenAIModel(params.model || "gpt-4-turbo"),
-            system: params.system || "You are a professional legal assistant.",
-            prompt: params.prompt,
-            temperature: params.temperature || 0.7,
-            maxOutputTokens: params.maxOutputTokens || 2048,
-          })
-
-          if (!text) {
-            throw new Error("Empty response from OpenAI")
-          }
+      for (const provider of providers) {
+        const circuitBreaker = this.getCircuitBreaker(provider.name)
+        const model = provider.resolveModel(params.model)
 
-          // Success - update circuit breaker and return
-          this.circuitBreaker.onSuccess()
-
-          const duration = Date.now() - attemptStartTime
-          retryHistory.push({
-            attempt: attempt + 1,
-            delay,
-            duration
-          })
-
-          addSpanAttributes({
-            'ai.response_length': text.length,
-            'ai.attempts': attempt + 1,
-            'ai.total_duration_ms': Date.now() - startTime,
-            'ai.success': true,
-          })
-
-          recordSpanEvent('ai_generation_success', {
-            attempt: attempt + 1,
-            response_length: text.length,
-            duration_ms: duration,
-          })
-
-          span.setStatus({ code: 1 }) // SUCCESS
-
-          return {
-            success: true,
-            data: text,
-            attempts: attempt + 1,
-            totalDurationMs: Date.now() - startTime,
-            retryHistory
-          }
+        if (!circuitBreaker.canExecute()) {
+          recordSpanEvent('circuit_breaker_open', { provider: provider.name })
+          lastError = new Error(`Circuit breaker is open - ${provider.name} service temporarily unavailable`)
+          continue
+        }
 
-        } catch (error: any) {
-          lastError = error
-          const duration = Date.now() - attemptStartTime
-
-          retryHistory.push({
-            attempt: attempt + 1,
-            delay,
-            error: error.message,
-            duration
-          })
-
-          console.error(`[OpenAI] Attempt ${attempt + 1} failed:`, {
-            error: error.message,
-            status: error.status,
-            code: error.code,
-            duration
-          })
-
-          recordSpanEvent('ai_generation_error', {
-            attempt: attempt + 1,
-            error_message: error.message,
-            error_code: error.code || error.status || 'unknown',
-            duration_ms: duration,
-          })
-
-          // Check if error is retryable
-          if (!this.isRetryableError(error) || attempt === this.config.maxRetries) {
-            this.circuitBreaker.onFailure()
-            break
-          }
+        for (let attempt = 0; attempt <= this.config.maxRetries; attempt++) {
+          const attemptStartTime = Date.now()
+
+          try {
+            console.log(`[AI] ${provider.name} attempt ${attempt + 1}/${this.config.maxRetries + 1}`)
+
+            recordSpanEvent('ai_generation_attempt', {
+              provider: provider.name,
+              model,
+              attempt: attempt + 1,
+              max_retries: this.config.maxRetries + 1,
+            })
+
+            const { text, usage } = await execute(provider, request)
+
+            if (!text) {
+              throw new Error(`Empty response from ${provider.name}`)
+            }
+
+            // Success - update circuit breaker and return
+            circuitBreaker.onSuccess()
+
+            const duration = Date.now() - attemptStartTime
+            retryHistory.push({ attempt: attempt + 1, delay: 0, duration, provider: provider.name })
+
+            addSpanAttributes({
+              'ai.provider': provider.name,
+              'ai.model_used': model,
+              'ai.response_length': text.length,
+              'ai.input_tokens': usage.inputTokens,
+              'ai.output_tokens': usage.outputTokens,
+              'ai.attempts': retryHistory.length,
+              'ai.total_duration_ms': Date.now() - startTime,
+              'ai.success': true,
+            })
+
+            recordSpanEvent('ai_generation_success', {
+              provider: provider.name,
+              attempt: attempt + 1,
+              response_length: text.length,
+              duration_ms: duration,
+            })
+
+            span.setStatus({ code: 1 }) // SUCCESS
+
+            return {
+              success: true,
+              data: text,
+              attempts: retryHistory.length,
+              totalDurationMs: Date.now() - startTime,
+              retryHistory,
+              provider: provider.name,
+              model,
+              usage
+            }
+
+          } catch (error: any) {
+            lastError = error
+            const duration = Date.now() - attemptStartTime
+
+            retryHistory.push({
+              attempt: attempt + 1,
+              delay: 0,
+              error: error.message,
+              duration,
+              provider: provider.name
+            })
+
+            // A caller abort is not a provider failure
+            if (params.abortSignal?.aborted) {
+              return fail(error)
+            }
+
+            console.error(`[AI] ${provider.name} attempt ${attempt + 1} failed:`, {
+              error: error.message,
+              status: error.status,
+              code: error.code,
+              duration
+            })
+
+            recordSpanEvent('ai_generation_error', {
+              provider: provider.name,
+              attempt: attempt + 1,
+              error_message: error.message,
+              error_code: error.code || error.status || 'unknown',
+              duration_ms: duration,
+            })
+
+            // Partial output already reached the caller; neither retry nor fail over
+            if (!canContinue()) {
+              circuitBreaker.onFailure()
+              return fail(error)
+            }
+
+            if (!this.isRetryableError(error) || attempt === this.config.maxRetries) {
+              circuitBreaker.onFailure()
+              break
+            }
+
+            const delay = this.calculateBackoffDelay(attempt)
+            console.log(`[AI] Waiting ${delay}ms before retry...`)
 
-          // Calculate delay for next attempt
-          if (attempt < this.config.maxRetries) {
-            delay = this.calculateBackoffDelay(attempt)
-            console.log(`[OpenAI] Waiting ${delay}ms before retry...`)
-            
             recordSpanEvent('ai_retry_backoff', {
+              provider: provider.name,
               delay_ms: delay,
               next_attempt: attempt + 2,
             })
-            
+
             await this.sleep(delay)
           }
         }
-      }
 
-      // All retries failed
-      this.circuitBreaker.onFailure()
-
-      addSpanAttributes({
-        'ai.success': false,
-        'ai.attempts': this.config.maxRetries + 1,
-        'ai.total_duration_ms': Date.now() - startTime,
-        'ai.final_error': lastError?.message || 'Unknown error',
-      })
+        recordSpanEvent('ai_provider_failover', { from: provider.name })
+      }
 
-      span.recordException(lastError || new Error('Unknown error'))
-      span.setStatus({ 
-        code: 2, // ERROR
-        message: lastError?.message || 'All retries failed'
-      })
+      return fail(lastError || new Error('Unknown error'))
 
-      return {
-        success: false,
-        error: lastError || new Error('Unknown error'),
-        attempts: this.config.maxRetries + 1,
-        totalDurationMs: Date.now() - startTime,
-        retryHistory
-      }
-      
     } finally {
       span.end()
     }
@@ -383,33 +482,83 @@ export class OpenAIRetryClient {
   }
 
   /**
-   * Get current circuit breaker state
+   * Get current circuit breaker state for a provider
+   */
+  getCircuitBreakerState(provider: AIProviderName = 'openai') {
+    return this.getCircuitBreaker(provider).getState()
+  }
+
+  /**
+   * Reset circuit breakers manually (all providers when none is given)
    */
-  getCircuitBreakerState() {
-    return this.circuitBreaker.getState()
+  resetCircuitBreaker(provider?: AIProviderName) {
+    if (provider) {
+      this.circuitBreakers.delete(provider)
+    } else {
+      this.circuitBreakers.clear()
+    }
   }
 
   /**
-   * Reset circuit breaker manually
+   * Configuration and circuit state of every provider, in failover order
    */
-  resetCircuitBreaker() {
-    this.circuitBreaker = new CircuitBreaker()
+  getProviderStatus(): AIProviderStatus[] {
+    return getProviderOrder().map(provider => ({
+      provider: provider.name,
+      configured: provider.isConfigured(),
+      model: provider.resolveModel(),
+      circuit: this.getCircuitBreakerState(provider.name),
+    }))
   }
 }
 
 // Singleton instance
 export const openAIRetryClient = new OpenAIRetryClient()
 
+/**
+ * Successful generation with the provider and model that produced it
+ */
+export interface GeneratedText {
+  text: string
+  attempts: number
+  duration: number
+  provider: AIProviderName
+  model: string
+  usage: TokenUsage
+  costUsd: number  // Estimated from ./pricing
+}
+
+/**
+ * Shape a successful retry result and record its usage when the caller asked for it
+ */
+async function completeGeneration(
+  result: RetryResult<string>,
+  tracking?: AIUsageContext
+): Promise<GeneratedText> {
+  const usage = result.usage ?? { inputTokens: 0, outputTokens: 0 }
+  const generated: GeneratedText = {
+    text: result.data!,
+    attempts: result.attempts,
+    duration: result.totalDurationMs,
+    provider: result.provider!,
+    model: result.model!,
+    usage,
+    costUsd: estimateAICost(result.provider!, result.model!, usage)
+  }
+
+  if (tracking) {
+    await recordAIUsage(tracking, generated)
+  }
+
+  return generated
+}
+
 /**
  * Convenience function for generating text with retry
  */
-export async function generateTextWithRetry(params: {
-  prompt: string
-  system?: string
-  temperature?: number
-  maxOutputTokens?: number
-  model?: string
-}): Promise<{ text: string; attempts: number; duration: number }> {
+export async function generateTextWithRetry(
+  params: TextGenerationParams
+): Promise<GeneratedText> {
   const span = createAISpan('generateTextWithRetryWrapper', {
     'ai.model': params.model || 'gpt-4-turbo',
     'ai.prompt_length': params.prompt.length,
@@ -436,16 +585,53 @@ export async function generateTextWithRetry(params: {
 
     span.setStatus({ code: 1 }) // SUCCESS
 
-    return {
-      text: result.data,
-      attempts: result.attempts,
-      duration: result.totalDurationMs
-    }
+    return await completeGeneration(result, params.tracking)
   } finally {
     span.end()
   }
 }
 
+/**
+ * Convenience function for streaming text with retry
+ */
+export async function streamTextWithRetry(
+  params: TextGenerationParams & { onDelta: (delta: string) => void | Promise<void> }
+): Promise<GeneratedText> {
+  const result = await openAIRetryClient.streamTextWithRetry(params)
+
+  if (!result.success || !result.data) {
+    throw result.error || new Error('Failed to stream text after retries')
+  }
+
+  return completeGeneration(result, params.tracking)
+}
+
+/**
+ * Version of the letter drafting prompts, recorded with every draft so review
+ * outcomes can be compared across prompt changes. Bump it whenever the system
+ * prompt in the generate-letter route or the generate-draft workflow step changes.
+ */
+export const DRAFT_PROMPT_VERSION = '2026-02-01'
+
+/**
+ * Generation details stored on the letter under draft_metadata.ai
+ */
+export function buildDraftMetadata(result: GeneratedText): Record<string, unknown> {
+  return {
+    ai: {
+      provider: result.provider,
+      model: result.model,
+      prompt_version: DRAFT_PROMPT_VERSION,
+      attempts: result.attempts,
+      duration_ms: result.duration,
+      input_tokens: result.usage.inputTokens,
+      output_tokens: result.usage.outputTokens,
+      estimated_cost_usd: result.costUsd,
+      generated_at: new Date().toISOString(),
+    }
+  }
+}
+
 /**
  * Generate cache key for OpenAI requests
  */
@@ -490,7 +676,8 @@ export async function checkOpenAIHealth(): Promise<{
       system: "You are a health check service.",
       temperature: 0,
       maxOutputTokens: 16,
-      model: "gpt-4o-mini"
+      model: "gpt-4o-mini",
+      providers: ['openai']
     })
 
     const responseTime = Date.now() - startTime
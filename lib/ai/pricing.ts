@@ -0,0 +1,47 @@
+/**
+ * AI model pricing used to estimate the cost of each generation
+ * Prices are USD per million tokens, from the providers' public price lists.
+ * Costs are estimated when the call is made and stored with the usage event,
+ * so updating a price here only affects calls made afterwards.
+ */
+
+import type { AIProviderName, TokenUsage } from './providers'
+
+interface ModelPrice {
+  input: number   // USD per 1M input tokens
+  output: number  // USD per 1M output tokens
+}
+
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+}
+
+// Unknown hosted models are priced like the default OpenAI model so they are never free
+const FALLBACK_PRICE = MODEL_PRICES['gpt-4-turbo']
+
+function getModelPrice(provider: AIProviderName, model: string): ModelPrice {
+  // Self-hosted models have no per-token charge
+  if (provider === 'local') return { input: 0, output: 0 }
+
+  if (MODEL_PRICES[model]) return MODEL_PRICES[model]
+
+  // Dated snapshots ("gpt-4o-2024-08-06") use their family's price; longest prefix wins
+  const family = Object.keys(MODEL_PRICES)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0]
+
+  return family ? MODEL_PRICES[family] : FALLBACK_PRICE
+}
+
+/**
+ * Estimated cost in USD of one call
+ */
+export function estimateAICost(provider: AIProviderName, model: string, usage: TokenUsage): number {
+  const price = getModelPrice(provider, model)
+  const cost = (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000
+  return Math.round(cost * 1_000_000) / 1_000_000
+}
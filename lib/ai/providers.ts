@@ -0,0 +1,206 @@
+/**
+ * AI text generation providers
+ *
+ * OpenAI is the primary provider. Gemini and a local OpenAI-compatible endpoint
+ * (vLLM, Ollama, LM Studio...) are used as fallbacks by OpenAIRetryClient when
+ * they are configured.
+ *
+ * Environment:
+ * - AI_PROVIDER_ORDER: comma separated failover order (default "openai,gemini,local")
+ * - GEMINI_API_KEY, GEMINI_MODEL
+ * - LOCAL_AI_BASE_URL, LOCAL_AI_MODEL, LOCAL_AI_API_KEY
+ */
+
+import { generateText, streamText, type LanguageModel } from "ai"
+import { createOpenAI } from "@ai-sdk/openai"
+import { GoogleGenerativeAI } from "@google/generative-ai"
+import { getOpenAIModel } from "./openai-client"
+
+export type AIProviderName = 'openai' | 'gemini' | 'local'
+
+export interface ProviderTextParams {
+  prompt: string
+  system: string
+  temperature: number
+  maxOutputTokens: number
+  model?: string  // Requested model; only honored by the provider that owns it
+  abortSignal?: AbortSignal
+}
+
+/**
+ * Tokens reported by the provider for one call (0 when the provider omits them)
+ */
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface ProviderTextResult {
+  text: string
+  usage: TokenUsage
+}
+
+export interface AIProvider {
+  name: AIProviderName
+  isConfigured(): boolean
+  resolveModel(requested?: string): string
+  generate(params: ProviderTextParams): Promise<ProviderTextResult>
+  stream(params: ProviderTextParams, onDelta: (delta: string) => void | Promise<void>): Promise<ProviderTextResult>
+}
+
+const DEFAULT_PROVIDER_ORDER: AIProviderName[] = ['openai', 'gemini', 'local']
+const DEFAULT_OPENAI_MODEL = 'gpt-4-turbo'
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-pro'
+
+/**
+ * Shared AI SDK path for OpenAI and OpenAI-compatible endpoints
+ */
+async function generateWithModel(model: LanguageModel, params: ProviderTextParams): Promise<ProviderTextResult> {
+  const { text, usage } = await generateText({
+    model,
+    system: params.system,
+    prompt: params.prompt,
+    temperature: params.temperature,
+    maxOutputTokens: params.maxOutputTokens,
+    abortSignal: params.abortSignal,
+  })
+  return {
+    text,
+    usage: { inputTokens: usage.inputTokens ?? 0, outputTokens: usage.outputTokens ?? 0 },
+  }
+}
+
+async function streamWithModel(
+  model: LanguageModel,
+  params: ProviderTextParams,
+  onDelta: (delta: string) => void | Promise<void>
+): Promise<ProviderTextResult> {
+  const result = streamText({
+    model,
+    system: params.system,
+    prompt: params.prompt,
+    temperature: params.temperature,
+    maxOutputTokens: params.maxOutputTokens,
+    abortSignal: params.abortSignal,
+  })
+
+  let text = ''
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 }
+  for await (const part of result.fullStream) {
+    if (part.type === 'text-delta') {
+      text += part.text
+      await onDelta(part.text)
+    } else if (part.type === 'finish') {
+      usage.inputTokens = part.totalUsage.inputTokens ?? 0
+      usage.outputTokens = part.totalUsage.outputTokens ?? 0
+    } else if (part.type === 'error') {
+      throw part.error
+    } else if (part.type === 'abort') {
+      throw new Error('Stream aborted')
+    }
+  }
+  return { text, usage }
+}
+
+const openAIProvider: AIProvider = {
+  name: 'openai',
+  isConfigured: () => !!(process.env.OPENAI_API_KEY || process.env.AI_GATEWAY_API_KEY),
+  resolveModel: (requested) => requested || DEFAULT_OPENAI_MODEL,
+  generate: (params) => generateWithModel(getOpenAIModel(openAIProvider.resolveModel(params.model)), params),
+  stream: (params, onDelta) =>
+    streamWithModel(getOpenAIModel(openAIProvider.resolveModel(params.model)), params, onDelta),
+}
+
+function getGeminiModel(params: ProviderTextParams) {
+  const client = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!)
+  return client.getGenerativeModel({
+    model: geminiProvider.resolveModel(),
+    systemInstruction: params.system,
+    generationConfig: {
+      temperature: params.temperature,
+      maxOutputTokens: params.maxOutputTokens,
+    },
+  })
+}
+
+function geminiUsage(metadata?: { promptTokenCount?: number; candidatesTokenCount?: number }): TokenUsage {
+  return {
+    inputTokens: metadata?.promptTokenCount ?? 0,
+    outputTokens: metadata?.candidatesTokenCount ?? 0,
+  }
+}
+
+const geminiProvider: AIProvider = {
+  name: 'gemini',
+  isConfigured: () => !!process.env.GEMINI_API_KEY,
+  resolveModel: () => process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL,
+  async generate(params) {
+    const result = await getGeminiModel(params).generateContent(params.prompt, {
+      signal: params.abortSignal,
+    })
+    return { text: result.response.text(), usage: geminiUsage(result.response.usageMetadata) }
+  },
+  async stream(params, onDelta) {
+    const result = await getGeminiModel(params).generateContentStream(params.prompt, {
+      signal: params.abortSignal,
+    })
+
+    let text = ''
+    for await (const chunk of result.stream) {
+      const delta = chunk.text()
+      if (!delta) continue
+      text += delta
+      await onDelta(delta)
+    }
+
+    const response = await result.response
+    return { text, usage: geminiUsage(response.usageMetadata) }
+  },
+}
+
+function getLocalModel() {
+  const provider = createOpenAI({
+    baseURL: process.env.LOCAL_AI_BASE_URL,
+    apiKey: process.env.LOCAL_AI_API_KEY || 'local',
+  })
+  // Compatible servers implement chat completions, not the Responses API
+  return provider.chat(localProvider.resolveModel())
+}
+
+const localProvider: AIProvider = {
+  name: 'local',
+  isConfigured: () => !!(process.env.LOCAL_AI_BASE_URL && process.env.LOCAL_AI_MODEL),
+  resolveModel: () => process.env.LOCAL_AI_MODEL || '',
+  generate: (params) => generateWithModel(getLocalModel(), params),
+  stream: (params, onDelta) => streamWithModel(getLocalModel(), params, onDelta),
+}
+
+const PROVIDERS: Record<AIProviderName, AIProvider> = {
+  openai: openAIProvider,
+  gemini: geminiProvider,
+  local: localProvider,
+}
+
+/**
+ * All providers in failover order, configured or not
+ */
+export function getProviderOrder(): AIProvider[] {
+  const configuredOrder = process.env.AI_PROVIDER_ORDER
+    ?.split(',')
+    .map(name => name.trim())
+    .filter((name): name is AIProviderName => name in PROVIDERS)
+
+  const order = configuredOrder && configuredOrder.length > 0 ? configuredOrder : DEFAULT_PROVIDER_ORDER
+  return order.map(name => PROVIDERS[name])
+}
+
+export function getProvider(name: AIProviderName): AIProvider {
+  return PROVIDERS[name]
+}
+
+/**
+ * Whether any provider has credentials, i.e. generation can be attempted at all
+ */
+export function hasConfiguredAIProvider(): boolean {
+  return getProviderOrder().some(provider => provider.isConfigured())
+}
@@ -13,6 +13,18 @@ import {
   sanitizeReviewData,
 } from '@/lib/admin/letter-actions'
 import { successResponse, errorResponses, ValidationError } from '@/lib/api/api-error-handler'
+import { recordLetterVersion } from '@/lib/services/letter-version-service'
+import { getReviewConflict } from '@/lib/services/review-assignment-service'
+import { describeReviewConflict } from '@/lib/admin/review-queue'
+import { getApprovalBlock } from '@/lib/services/conflict-check-service'
+import { getLetterRevisionRequests } from '@/lib/services/letter-revision-service'
+import { getAdminSession } from '@/lib/auth/admin-session'
+import {
+  buildRejectionGuidance,
+  composeRejectionReason,
+  resolveRejectionCodes,
+  type RejectionCode,
+} from '@/lib/services/rejection-code-service'
 import type { LetterStatus } from '@/lib/types/letter.types'
 import type { EmailTemplate } from '@/lib/email/types'
 
@@ -44,7 +56,8 @@ export const letterActions: Record<string, LetterActionConfig> = {
   },
   reject: {
     status: 'rejected',
-    requiredFields: ['rejectionReason'],
+    // Rejections are validated by rejection code instead (see handleAdminLetterAction)
+    requiredFields: [],
     auditAction: 'rejected',
     successMessage: 'Letter rejected',
     templateName: 'letter-rejected',
@@ -108,7 +121,8 @@ export async function processLetterAction(
   request: NextRequest,
   letterId: string,
   actionName: string,
-  bodyData: Record<string, string>
+  bodyData: Record<string, string>,
+  rejectionCodes: RejectionCode[] = []
 ): Promise<NextResponse> {
   const actionConfig = letterActions[actionName]
   if (!actionConfig) {
@@ -138,6 +152,10 @@ export async function processLetterAction(
   // Add sanitized data to additional fields
   Object.assign(additionalFields, sanitizationResult.sanitized)
 
+  if (actionName === 'reject') {
+    additionalFields.rejection_codes = rejectionCodes.map(code => code.code)
+  }
+
   // 3. Build audit notes
   const auditNotes = buildAuditNotes(actionName, sanitizationResult.sanitized)
 
@@ -150,7 +168,13 @@ export async function processLetterAction(
     auditNotes,
   })
 
-  // 5. Send notification email (non-blocking)
+  // 5. Snapshot the approved text in version history
+  const finalContent = sanitizationResult.sanitized.finalContent
+  if (actionName === 'approve' && finalContent) {
+    await recordLetterVersion(letterId, 'final_approved', finalContent, { notes: auditNotes })
+  }
+
+  // 6. Send notification email (non-blocking)
   if (letter?.user_id) {
     await notifyLetterOwner({
       userId: letter.user_id,
@@ -159,6 +183,7 @@ export async function processLetterAction(
       templateData: {
         letterTitle: letter.title || 'Your letter',
         ...(bodyData.rejectionReason && { rejectionReason: bodyData.rejectionReason }),
+        ...(rejectionCodes.length > 0 && { rejectionGuidance: buildRejectionGuidance(rejectionCodes) }),
       },
     }).catch((error) => {
       console.error(`[Admin] Failed to send notification:`, error)
@@ -219,8 +244,39 @@ export async function handleAdminLetterAction(
     )
     if (parseError) return parseError
 
-    // 6. Process the action
-    return await processLetterAction(request, letterId, actionName, bodyData)
+    // Rejections need at least one managed code; notes are optional
+    let rejectionCodes: RejectionCode[] = []
+    if (actionName === 'reject') {
+      const resolved = await resolveRejectionCodes(body.rejectionCodes)
+      if (resolved.error !== undefined) return errorResponses.validation(resolved.error)
+      rejectionCodes = resolved.codes
+      bodyData.rejectionReason = composeRejectionReason(
+        rejectionCodes,
+        typeof body.rejectionReason === 'string' ? body.rejectionReason : null
+      )
+    }
+
+    // 6. Refuse saves from anyone but the lock holder / assignee
+    const adminSession = await getAdminSession()
+    const conflict = await getReviewConflict(letterId, adminSession?.userId)
+    if (conflict) return errorResponses.conflict(describeReviewConflict(conflict), conflict)
+
+    // 7. Approval needs a clear (or acknowledged) conflict-of-interest check
+    if (actionName === 'approve') {
+      const approvalBlock = await getApprovalBlock(letterId, adminSession?.userId)
+      if (approvalBlock) return errorResponses.conflict(approvalBlock)
+    }
+
+    // Rejecting a revised letter would withdraw the one already approved
+    if (actionName === 'reject') {
+      const revisionRequests = await getLetterRevisionRequests(letterId)
+      if (revisionRequests.some(revision => revision.status === 'open')) {
+        return errorResponses.conflict('This letter has an open revision request; decline the revision instead of rejecting the letter')
+      }
+    }
+
+    // 8. Process the action
+    return await processLetterAction(request, letterId, actionName, bodyData, rejectionCodes)
   } catch (error) {
     console.error(`[Admin] ${actionName} error:`, error)
     return errorResponses.serverError(`Failed to ${actionName} letter`)
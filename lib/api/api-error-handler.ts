@@ -184,6 +184,9 @@ export const errorResponses = {
   validation: (message: string, details?: unknown) =>
     NextResponse.json({ error: message, code: 'VALIDATION_ERROR', details }, { status: 400 }),
 
+  conflict: (message: string, details?: unknown) =>
+    NextResponse.json({ error: message, code: 'CONFLICT', details }, { status: 409 }),
+
   serverError: (message = 'Internal server error') =>
     NextResponse.json({ error: message, code: 'INTERNAL_ERROR' }, { status: 500 }),
 
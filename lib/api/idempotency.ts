@@ -0,0 +1,161 @@
+/**
+ * Idempotency-Key support for routes that must not run twice
+ * A request carrying an Idempotency-Key claims the key together with a
+ * fingerprint of the request. Repeating the request with the same key returns
+ * the stored response instead of running the route again; reusing the key for
+ * a different request is rejected. Requests without the header run as usual.
+ *
+ * Server errors, rate limiting and thrown errors release the key so the
+ * client can retry.
+ * Streamed responses cannot be replayed, so a repeat of one gets a conflict.
+ */
+
+import { createHash } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { errorResponses } from '@/lib/api/api-error-handler'
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key'
+
+const MAX_KEY_LENGTH = 255
+const KEY_TTL_HOURS = 24
+const STALE_PROCESSING_MINUTES = 5
+
+interface IdempotencyClaim {
+  should_process: boolean
+  fingerprint_matches: boolean
+  key_status: 'processing' | 'completed'
+  response_status: number | null
+  response_body: unknown
+}
+
+function fingerprintRequest(request: NextRequest, body: string): string {
+  return createHash('sha256')
+    .update(`${request.method} ${request.nextUrl.pathname}\n${body}`)
+    .digest('hex')
+}
+
+async function releaseKey(userId: string, endpoint: string, key: string) {
+  const supabase = createServiceClient()
+  const { error } = await supabase
+    .from('idempotency_keys')
+    .delete()
+    .eq('user_id', userId)
+    .eq('endpoint', endpoint)
+    .eq('idempotency_key', key)
+
+  if (error) {
+    console.error('[Idempotency] Failed to release key:', error)
+  }
+}
+
+async function storeResponse(userId: string, endpoint: string, key: string, response: Response) {
+  const isJson = response.headers.get('content-type')?.includes('application/json')
+  const body = isJson ? await response.clone().json().catch(() => null) : null
+
+  const supabase = createServiceClient()
+  const { error } = await supabase
+    .from('idempotency_keys')
+    .update({
+      status: 'completed',
+      response_status: response.status,
+      response_body: body,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('user_id', userId)
+    .eq('endpoint', endpoint)
+    .eq('idempotency_key', key)
+
+  if (error) {
+    console.error('[Idempotency] Failed to store response:', error)
+  }
+}
+
+function replayResponse(claim: IdempotencyClaim): Response {
+  if (!claim.fingerprint_matches) {
+    return NextResponse.json(
+      {
+        error: `This ${IDEMPOTENCY_KEY_HEADER} was already used for a different request`,
+        code: 'IDEMPOTENCY_KEY_REUSED',
+      },
+      { status: 422 }
+    )
+  }
+
+  if (claim.key_status === 'processing') {
+    const response = errorResponses.conflict('A request with this Idempotency-Key is still being processed')
+    response.headers.set('Retry-After', '5')
+    return response
+  }
+
+  if (claim.response_body === null || claim.response_status === null) {
+    return errorResponses.conflict('This request was already processed')
+  }
+
+  return NextResponse.json(claim.response_body, {
+    status: claim.response_status,
+    headers: { 'Idempotent-Replayed': 'true' },
+  })
+}
+
+/**
+ * Wrap a route handler so requests with an Idempotency-Key run at most once per
+ * signed-in user within the key's window. Unauthenticated requests go straight
+ * to the handler, which rejects them as it always has.
+ */
+export function withIdempotency(
+  handler: (request: NextRequest) => Promise<Response>
+): (request: NextRequest) => Promise<Response> {
+  return async (request: NextRequest) => {
+    const key = request.headers.get(IDEMPOTENCY_KEY_HEADER)?.trim()
+    if (!key) return handler(request)
+
+    if (key.length > MAX_KEY_LENGTH) {
+      return errorResponses.validation(`${IDEMPOTENCY_KEY_HEADER} must be at most ${MAX_KEY_LENGTH} characters`)
+    }
+
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) return handler(request)
+
+    const endpoint = request.nextUrl.pathname
+    const body = await request.clone().text()
+
+    const { data, error } = await createServiceClient().rpc('claim_idempotency_key', {
+      p_user_id: user.id,
+      p_endpoint: endpoint,
+      p_key: key,
+      p_fingerprint: fingerprintRequest(request, body),
+      p_ttl_hours: KEY_TTL_HOURS,
+      p_stale_minutes: STALE_PROCESSING_MINUTES,
+    })
+
+    if (error) {
+      // Continue without the guarantee rather than refuse the request
+      console.error('[Idempotency] Failed to claim key:', error)
+      return handler(request)
+    }
+
+    const claim = (Array.isArray(data) ? data[0] : data) as IdempotencyClaim | undefined
+    if (claim && !claim.should_process) {
+      return replayResponse(claim)
+    }
+
+    let response: Response
+    try {
+      response = await handler(request)
+    } catch (handlerError) {
+      await releaseKey(user.id, endpoint, key)
+      throw handlerError
+    }
+
+    if (response.status >= 500 || response.status === 429) {
+      await releaseKey(user.id, endpoint, key)
+    } else {
+      await storeResponse(user.id, endpoint, key, response)
+    }
+
+    return response
+  }
+}
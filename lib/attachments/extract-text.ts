@@ -0,0 +1,88 @@
+/**
+ * Text extraction for intake attachments
+ * Turns uploaded PDFs, Word documents and plain text files into prompt-ready evidence
+ */
+import type { AttachmentExtractionStatus } from './types'
+
+/**
+ * Hard cap on the text kept per attachment, before any prompt-level truncation
+ */
+export const MAX_EXTRACTED_CHARS = 50000
+
+const PLAIN_TEXT_TYPES = ['text/plain', 'text/csv']
+const PDF_TYPE = 'application/pdf'
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+
+export interface ExtractionResult {
+  status: AttachmentExtractionStatus
+  text: string | null
+  error?: string
+}
+
+/**
+ * Whether text can be extracted from this MIME type
+ */
+export function isExtractableType(mimeType: string): boolean {
+  return PLAIN_TEXT_TYPES.includes(mimeType) || mimeType === PDF_TYPE || mimeType === DOCX_TYPE
+}
+
+/**
+ * Collapse whitespace left behind by PDF/DOCX layout and enforce the length cap
+ */
+function normalizeExtractedText(text: string): string {
+  return text
+    .replace(/\r\n/g, '\n')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+    .substring(0, MAX_EXTRACTED_CHARS)
+}
+
+async function extractPdfText(buffer: Buffer): Promise<string> {
+  const { extractText, getDocumentProxy } = await import('unpdf')
+  const pdf = await getDocumentProxy(new Uint8Array(buffer))
+  const { text } = await extractText(pdf, { mergePages: true })
+  return text
+}
+
+async function extractDocxText(buffer: Buffer): Promise<string> {
+  const mammoth = await import('mammoth')
+  const { value } = await mammoth.extractRawText({ buffer })
+  return value
+}
+
+/**
+ * Extract plain text from an uploaded file
+ * Never throws - failures are reported through the returned status
+ */
+export async function extractAttachmentText(buffer: Buffer, mimeType: string): Promise<ExtractionResult> {
+  if (!isExtractableType(mimeType)) {
+    return { status: 'unsupported', text: null }
+  }
+
+  try {
+    let raw: string
+    if (mimeType === PDF_TYPE) {
+      raw = await extractPdfText(buffer)
+    } else if (mimeType === DOCX_TYPE) {
+      raw = await extractDocxText(buffer)
+    } else {
+      raw = buffer.toString('utf-8')
+    }
+
+    const text = normalizeExtractedText(raw)
+    if (!text) {
+      // Scanned PDFs without a text layer end up here
+      return { status: 'failed', text: null, error: 'No readable text found in document' }
+    }
+
+    return { status: 'extracted', text }
+  } catch (error) {
+    console.error('[Attachments] Text extraction failed:', { mimeType, error })
+    return {
+      status: 'failed',
+      text: null,
+      error: error instanceof Error ? error.message : 'Unknown extraction error',
+    }
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Type definitions for letter intake attachments
+ */
+
+export type AttachmentExtractionStatus = 'pending' | 'extracted' | 'unsupported' | 'failed'
+
+/**
+ * Database letter attachment entity
+ */
+export interface LetterAttachment {
+  id: string
+  user_id: string
+  letter_id: string | null
+  file_name: string
+  mime_type: string
+  size_bytes: number
+  storage_path: string
+  extraction_status: AttachmentExtractionStatus
+  extracted_text: string | null
+  extraction_error: string | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Attachment as returned to the client after upload
+ */
+export interface AttachmentUploadResponse {
+  id: string
+  name: string
+  type: string
+  size: number
+  extractionStatus: AttachmentExtractionStatus
+}
+
+/**
+ * Extracted document text that is fed into the generation prompt
+ */
+export interface AttachmentEvidence {
+  fileName: string
+  mimeType: string
+  text: string
+  truncated: boolean
+}
@@ -0,0 +1,51 @@
+/**
+ * Who may take part in a letter's comment threads
+ * Admins with an admin session comment as the attorney (mutations also need the
+ * admin CSRF token); otherwise only the letter owner may comment.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { authenticateUser } from '@/lib/auth/authenticate-user'
+import { getAdminSession } from '@/lib/auth/admin-session'
+import { validateAdminAction } from '@/lib/admin/letter-actions'
+import type { CommentAuthorRole } from './types'
+
+export type CommentAccessResult =
+  | { author: { id: string; role: CommentAuthorRole }; error?: undefined }
+  | { author?: undefined; error: NextResponse }
+
+export async function authorizeCommentAccess(
+  request: NextRequest,
+  letterId: string,
+  options: { mutation: boolean }
+): Promise<CommentAccessResult> {
+  const authResult = await authenticateUser()
+  if (!authResult.authenticated || !authResult.user) {
+    return { error: authResult.errorResponse! }
+  }
+  const user = authResult.user
+
+  const adminSession = await getAdminSession()
+  if (adminSession?.userId === user.id) {
+    if (options.mutation) {
+      const validationError = await validateAdminAction(request)
+      if (validationError) return { error: validationError }
+    }
+    return { author: { id: user.id, role: 'attorney' } }
+  }
+
+  const supabase = await createClient()
+  const { data: letter } = await supabase
+    .from('letters')
+    .select('id')
+    .eq('id', letterId)
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (!letter) {
+    return { error: NextResponse.json({ error: 'Letter not found' }, { status: 404 }) }
+  }
+
+  return { author: { id: user.id, role: 'subscriber' } }
+}
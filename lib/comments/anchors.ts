@@ -0,0 +1,89 @@
+/**
+ * Character-range anchors for letter comments
+ * Client-safe: used when a reviewer selects a passage and on the server when
+ * threads are loaded against text that may have been edited since.
+ */
+
+import type { CommentAnchor } from './types'
+
+export const ANCHOR_CONTEXT_LENGTH = 32
+
+/**
+ * Anchor for text.slice(start, end), with surrounding context
+ * Returns null for an empty or out-of-range selection.
+ */
+export function createAnchor(text: string, start: number, end: number): CommentAnchor | null {
+  if (start < 0 || end > text.length || end <= start) return null
+
+  return {
+    start,
+    end,
+    quoted_text: text.slice(start, end),
+    prefix: text.slice(Math.max(0, start - ANCHOR_CONTEXT_LENGTH), start),
+    suffix: text.slice(end, end + ANCHOR_CONTEXT_LENGTH),
+  }
+}
+
+function commonSuffixLength(a: string, b: string): number {
+  let length = 0
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) {
+    length++
+  }
+  return length
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let length = 0
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++
+  }
+  return length
+}
+
+/**
+ * Locate an anchor in the current text
+ *
+ * 1. The stored range still holds the quoted text.
+ * 2. Otherwise the occurrence of the quoted text whose surroundings best match
+ *    the stored context, preferring the one closest to the old position.
+ * 3. Otherwise, if the passage itself was reworded, the span between the
+ *    stored prefix and suffix.
+ *
+ * Returns null when the passage cannot be found, i.e. the thread is orphaned.
+ */
+export function resolveAnchor(text: string, anchor: CommentAnchor): CommentAnchor | null {
+  const { start, end, quoted_text: quoted, prefix, suffix } = anchor
+
+  if (text.slice(start, end) === quoted) {
+    return anchor
+  }
+
+  let best: { index: number; score: number } | null = null
+  for (let index = text.indexOf(quoted); index !== -1; index = text.indexOf(quoted, index + 1)) {
+    const context = commonSuffixLength(text.slice(Math.max(0, index - prefix.length), index), prefix)
+      + commonPrefixLength(text.slice(index + quoted.length, index + quoted.length + suffix.length), suffix)
+    // Context dominates; distance only breaks ties
+    const score = context - Math.abs(index - start) / (text.length + 1)
+    if (!best || score > best.score) {
+      best = { index, score }
+    }
+  }
+
+  if (best) {
+    return createAnchor(text, best.index, best.index + quoted.length)
+  }
+
+  // Reworded passage: both context strings must survive to be confident
+  if (prefix.length > 0 && suffix.length > 0) {
+    const prefixIndex = text.indexOf(prefix)
+    if (prefixIndex !== -1) {
+      const spanStart = prefixIndex + prefix.length
+      const suffixIndex = text.indexOf(suffix, spanStart)
+      if (suffixIndex > spanStart && suffixIndex - spanStart <= Math.max(quoted.length * 3, 200)) {
+        return createAnchor(text, spanStart, suffixIndex)
+      }
+    }
+  }
+
+  return null
+}
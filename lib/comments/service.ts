@@ -0,0 +1,307 @@
+/**
+ * Letter comment threads
+ * Threads are anchored to the letter's current text (final content once an
+ * attorney has edited it, otherwise the AI draft). Anchors are resolved again
+ * whenever threads are loaded so they follow the passage through edits.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { queueTemplateEmail } from '@/lib/email/service'
+import { resolveAnchor } from './anchors'
+import type {
+  CommentAnchor,
+  CommentAuthorRole,
+  CommentThreadStatus,
+  LetterComment,
+  LetterCommentThread,
+} from './types'
+
+export const MAX_COMMENT_LENGTH = 2000
+
+interface CommentAuthor {
+  id: string
+  role: CommentAuthorRole
+}
+
+interface ThreadRow {
+  id: string
+  letter_id: string
+  anchor_start: number
+  anchor_end: number
+  quoted_text: string
+  prefix: string
+  suffix: string
+  anchor_status: LetterCommentThread['anchor_status']
+  status: CommentThreadStatus
+  resolved_at: string | null
+  created_by: string | null
+  created_at: string
+  letter_comments: Array<{
+    id: string
+    thread_id: string
+    author_id: string | null
+    author_role: CommentAuthorRole
+    body: string
+    created_at: string
+    author: { full_name: string | null; email: string | null } | null
+  }>
+}
+
+/**
+ * The text comments are anchored to
+ */
+export function getCommentableText(letter: { final_content: string | null; ai_draft_content: string | null }): string {
+  return letter.final_content || letter.ai_draft_content || ''
+}
+
+/**
+ * Threads of a letter, oldest first, with anchors relocated in the current text
+ * Moved or orphaned anchors are written back so later reads start from them.
+ */
+export async function getLetterCommentThreads(letterId: string): Promise<LetterCommentThread[]> {
+  const supabase = await createClient()
+
+  const [{ data: letter }, { data: rows, error }] = await Promise.all([
+    supabase.from('letters').select('final_content, ai_draft_content').eq('id', letterId).single(),
+    supabase
+      .from('letter_comment_threads')
+      .select(`
+        *,
+        letter_comments (
+          id,
+          thread_id,
+          author_id,
+          author_role,
+          body,
+          created_at,
+          author:profiles!author_id (full_name, email)
+        )
+      `)
+      .eq('letter_id', letterId)
+      .order('created_at', { ascending: true }),
+  ])
+
+  if (error) {
+    console.error('[LetterComments] Failed to load threads:', error)
+    return []
+  }
+
+  const text = letter ? getCommentableText(letter) : ''
+  const threads: LetterCommentThread[] = []
+
+  for (const row of (rows || []) as ThreadRow[]) {
+    const stored: CommentAnchor = {
+      start: row.anchor_start,
+      end: row.anchor_end,
+      quoted_text: row.quoted_text,
+      prefix: row.prefix,
+      suffix: row.suffix,
+    }
+    const resolved = resolveAnchor(text, stored)
+    const anchor = resolved ?? stored
+    const anchorStatus = resolved ? 'anchored' : 'orphaned'
+
+    if (
+      anchorStatus !== row.anchor_status
+      || anchor.start !== stored.start
+      || anchor.end !== stored.end
+      || anchor.quoted_text !== stored.quoted_text
+    ) {
+      // Participants cannot move anchors themselves; the relocation is computed here
+      const { error: updateError } = await createServiceClient()
+        .from('letter_comment_threads')
+        .update({
+          anchor_start: anchor.start,
+          anchor_end: anchor.end,
+          quoted_text: anchor.quoted_text,
+          prefix: anchor.prefix,
+          suffix: anchor.suffix,
+          anchor_status: anchorStatus,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', row.id)
+
+      if (updateError) {
+        console.error('[LetterComments] Failed to relocate anchor:', updateError)
+      }
+    }
+
+    const comments: LetterComment[] = [...(row.letter_comments || [])]
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map(comment => ({
+        id: comment.id,
+        thread_id: comment.thread_id,
+        author_id: comment.author_id,
+        author_role: comment.author_role,
+        author_name: comment.author?.full_name || comment.author?.email || null,
+        body: comment.body,
+        created_at: comment.created_at,
+      }))
+
+    threads.push({
+      id: row.id,
+      letter_id: row.letter_id,
+      anchor,
+      anchor_status: anchorStatus,
+      status: row.status,
+      resolved_at: row.resolved_at,
+      created_by: row.created_by,
+      created_at: row.created_at,
+      comments,
+    })
+  }
+
+  return threads
+}
+
+/**
+ * Start a thread on a passage with its first comment
+ */
+export async function createCommentThread(
+  letterId: string,
+  anchor: CommentAnchor,
+  body: string,
+  author: CommentAuthor
+): Promise<string> {
+  const supabase = await createClient()
+
+  const { data: thread, error } = await supabase
+    .from('letter_comment_threads')
+    .insert({
+      letter_id: letterId,
+      anchor_start: anchor.start,
+      anchor_end: anchor.end,
+      quoted_text: anchor.quoted_text,
+      prefix: anchor.prefix,
+      suffix: anchor.suffix,
+      created_by: author.id,
+    })
+    .select('id')
+    .single()
+
+  if (error || !thread) throw error ?? new Error('Failed to create comment thread')
+
+  await addComment(letterId, thread.id, body, author)
+  return thread.id
+}
+
+/**
+ * Add a reply to a thread; replying to a resolved thread reopens it
+ */
+export async function addComment(
+  letterId: string,
+  threadId: string,
+  body: string,
+  author: CommentAuthor
+): Promise<void> {
+  const supabase = await createClient()
+
+  const { error } = await supabase
+    .from('letter_comments')
+    .insert({
+      thread_id: threadId,
+      letter_id: letterId,
+      author_id: author.id,
+      author_role: author.role,
+      body,
+    })
+
+  if (error) throw error
+
+  await supabase
+    .from('letter_comment_threads')
+    .update({ status: 'open', resolved_by: null, resolved_at: null, updated_at: new Date().toISOString() })
+    .eq('id', threadId)
+    .eq('status', 'resolved')
+}
+
+export async function setCommentThreadStatus(
+  threadId: string,
+  status: CommentThreadStatus,
+  userId: string
+): Promise<void> {
+  const supabase = await createClient()
+
+  const { error } = await supabase
+    .from('letter_comment_threads')
+    .update({
+      status,
+      resolved_by: status === 'resolved' ? userId : null,
+      resolved_at: status === 'resolved' ? new Date().toISOString() : null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', threadId)
+
+  if (error) throw error
+}
+
+/**
+ * Email the other side of the conversation about a new comment
+ * Attorney comments go to the letter owner; subscriber comments go to the
+ * assigned or reviewing attorney, or to every attorney admin if there is none.
+ * Runs with the service role because subscribers cannot read admin profiles.
+ */
+export async function notifyCommentRecipients(
+  letterId: string,
+  authorRole: CommentAuthorRole,
+  body: string,
+  quotedText: string
+): Promise<void> {
+  try {
+    const supabase = createServiceClient()
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+
+    const { data: letter } = await supabase
+      .from('letters')
+      .select('title, user_id, assigned_to, reviewed_by')
+      .eq('id', letterId)
+      .single()
+
+    if (!letter) return
+
+    let recipients: string[] = []
+    let userName = 'there'
+    let actionUrl = `${siteUrl}/dashboard/letters/${letterId}`
+
+    if (authorRole === 'attorney') {
+      const { data: owner } = await supabase
+        .from('profiles')
+        .select('email, full_name')
+        .eq('id', letter.user_id)
+        .single()
+
+      if (owner?.email) {
+        recipients = [owner.email]
+        userName = owner.full_name || 'there'
+      }
+    } else {
+      const reviewerId = letter.assigned_to || letter.reviewed_by
+      const query = supabase.from('profiles').select('email, full_name, admin_sub_role').eq('role', 'admin')
+      const { data: admins } = reviewerId
+        ? await query.eq('id', reviewerId)
+        : await query.eq('admin_sub_role', 'attorney_admin')
+
+      recipients = (admins || []).map(admin => admin.email).filter(Boolean) as string[]
+      if (reviewerId && admins?.[0]) {
+        userName = admins[0].full_name || 'there'
+      }
+      actionUrl = admins?.[0]?.admin_sub_role === 'super_admin'
+        ? `${siteUrl}/secure-admin-gateway/review/${letterId}`
+        : `${siteUrl}/attorney-portal/review/${letterId}`
+    }
+
+    if (recipients.length === 0) return
+
+    await queueTemplateEmail('letter-comment', recipients, {
+      userName,
+      letterTitle: letter.title,
+      commentAuthor: authorRole === 'attorney' ? 'Your attorney' : 'The letter owner',
+      commentBody: body,
+      quotedText,
+      actionUrl,
+    })
+  } catch (error) {
+    console.error('[LetterComments] Failed to send comment notification:', error)
+  }
+}
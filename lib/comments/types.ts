@@ -0,0 +1,45 @@
+/**
+ * Type definitions for anchored letter comment threads
+ */
+
+export type CommentAuthorRole = 'attorney' | 'subscriber'
+export type CommentThreadStatus = 'open' | 'resolved'
+export type CommentAnchorStatus = 'anchored' | 'orphaned'
+
+/**
+ * Character range of the letter text a thread is attached to, plus the context
+ * needed to find the passage again once the text has been edited
+ */
+export interface CommentAnchor {
+  start: number
+  end: number
+  quoted_text: string
+  prefix: string
+  suffix: string
+}
+
+export interface LetterComment {
+  id: string
+  thread_id: string
+  author_id: string | null
+  author_role: CommentAuthorRole
+  author_name: string | null
+  body: string
+  created_at: string
+}
+
+/**
+ * Thread as returned to the client, with its anchor resolved against the
+ * letter's current text
+ */
+export interface LetterCommentThread {
+  id: string
+  letter_id: string
+  anchor: CommentAnchor
+  anchor_status: CommentAnchorStatus
+  status: CommentThreadStatus
+  resolved_at: string | null
+  created_by: string | null
+  created_at: string
+  comments: LetterComment[]
+}
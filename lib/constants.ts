@@ -35,9 +35,19 @@ export const SUBSCRIPTION_PLANS = [
 
 /**
  * Plan configuration lookup by plan type
+ * Plans with a billing interval are Stripe subscriptions; each paid renewal
+ * resets the allowance to `letters`. Yearly plans also get `letters` every
+ * month from the monthly allowance reset. `revisionsPerLetter` is enforced by
+ * the request_letter_revision RPC, which keeps its own copy of the limits.
  */
-export const PLAN_CONFIG: Record<string, { price: number, letters: number, planType: string, name: string }> = {
-  'one_time': { price: 299, letters: 1, planType: 'one_time', name: 'Single Letter' },
-  'standard_4_month': { price: 299, letters: 4, planType: 'standard_4_month', name: 'Monthly Plan' },
-  'premium_8_month': { price: 599, letters: 8, planType: 'premium_8_month', name: 'Yearly Plan' }
+export const PLAN_CONFIG: Record<string, { price: number, letters: number, revisionsPerLetter: number, planType: string, name: string, billingInterval: 'month' | 'year' | null }> = {
+  'one_time': { price: 299, letters: 1, revisionsPerLetter: 1, planType: 'one_time', name: 'Single Letter', billingInterval: null },
+  'standard_4_month': { price: 299, letters: 4, revisionsPerLetter: 2, planType: 'standard_4_month', name: 'Monthly Plan', billingInterval: 'month' },
+  'premium_8_month': { price: 599, letters: 8, revisionsPerLetter: 3, planType: 'premium_8_month', name: 'Yearly Plan', billingInterval: 'year' }
 } as const
+
+/**
+ * Revision requests allowed per approved letter when the subscriber has no plan
+ * (e.g. a free trial letter)
+ */
+export const DEFAULT_REVISIONS_PER_LETTER = 1
@@ -8,6 +8,7 @@ export type LetterStatus =
   | 'under_review'
   | 'approved'
   | 'completed'
+  | 'revision_requested'
   | 'rejected'
   | 'failed'
 
@@ -43,9 +44,24 @@ export interface Letter {
   reviewed_at: string | null
   review_notes: string | null
   rejection_reason: string | null
+  rejection_codes: string[]
   approved_at: string | null
   draft_metadata: Record<string, any> | null
+  governing_state: string | null
+  jurisdiction_rules: Record<string, any> | null
+  quality_report: Record<string, any> | null
+  content_screening: Record<string, any> | null
+  conflict_check: Record<string, any> | null
+  redline_shared_at: string | null
+  redline_shared_by: string | null
+  content_flagged: boolean
   pdf_url: string | null
+  assigned_to: string | null
+  assigned_at: string | null
+  review_locked_by: string | null
+  review_lock_expires_at: string | null
+  intervention_required_at: string | null
+  intervention_reason: string | null
   created_at: string
   updated_at: string
 }
@@ -135,3 +151,22 @@ export interface Admin {
   created_at: string
   updated_at: string
 }
+
+export interface AttorneyProfile {
+  id: string
+  firm_name: string | null
+  practice_areas: string[]
+  signature_path: string | null
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface AttorneyBarAdmission {
+  id: string
+  attorney_id: string
+  state: string
+  bar_number: string
+  is_active: boolean
+  created_at: string
+}
@@ -198,8 +198,11 @@ Hello ${data.userName || 'there'},
 
 Your letter "${data.letterTitle || 'Legal Letter'}" requires some changes before it can be approved.
 
-Reason: ${data.alertMessage || 'Please review the feedback in your dashboard.'}
-
+Reason: ${data.rejectionReason || data.alertMessage || 'Please review the feedback in your dashboard.'}
+${data.rejectionGuidance?.length ? `
+What to do next:
+${data.rejectionGuidance.map(item => `- ${item.label}: ${item.guidance}`).join('\n')}
+` : ''}
 Please visit your dashboard to review the feedback and make necessary updates.
 
 View your letter: ${data.letterLink || data.actionUrl}
@@ -215,9 +218,16 @@ The Talk-To-My-Lawyer Team
 
       <div class="highlight">
         <strong>Feedback:</strong><br>
-        ${nl2br(data.alertMessage || 'Please review the feedback in your dashboard.')}
+        ${nl2br(data.rejectionReason || data.alertMessage || 'Please review the feedback in your dashboard.')}
       </div>
 
+      ${data.rejectionGuidance?.length ? `
+        <p><strong>What to do next:</strong></p>
+        <ul>
+          ${data.rejectionGuidance.map(item => `<li><strong>${escapeHtml(item.label)}:</strong> ${escapeHtml(item.guidance)}</li>`).join('')}
+        </ul>
+      ` : ''}
+
       <p style="text-align: center;">
         <a href="${escapeHtml(data.letterLink || data.actionUrl || '')}" class="button">Review Feedback</a>
       </p>
@@ -400,6 +410,40 @@ The Talk-To-My-Lawyer Team
     `),
   }),
 
+  'letter-generation-failed': (data) => ({
+    subject: `We Couldn't Generate Your Letter - ${escapeHtml(data.letterTitle || 'Legal Letter')}`,
+    text: `
+We Couldn't Generate Your Letter
+
+Hi ${data.userName || 'there'},
+
+We're sorry. Something went wrong while generating your letter "${data.letterTitle || 'Legal Letter'}", and we weren't able to finish it.
+
+${data.creditRefunded ? 'The letter credit you used has been returned to your account.' : 'No letter credit was used for this letter.'}
+
+You can start the letter again from your dashboard: ${data.actionUrl}
+
+Best regards,
+The Talk-To-My-Lawyer Team
+    `.trim(),
+    html: wrapHtml(`
+      <h2>We Couldn't Generate Your Letter</h2>
+      <p>Hi ${escapeHtml(data.userName || 'there')},</p>
+
+      <p>We're sorry. Something went wrong while generating your letter <strong>"${escapeHtml(data.letterTitle || 'Legal Letter')}"</strong>, and we weren't able to finish it.</p>
+
+      <div class="highlight">
+        ${data.creditRefunded ? 'The letter credit you used has been returned to your account.' : 'No letter credit was used for this letter.'}
+      </div>
+
+      <p style="text-align: center;">
+        <a href="${escapeHtml(data.actionUrl || '')}" class="button">Start a New Letter</a>
+      </p>
+
+      <p>Best regards,<br>The Talk-To-My-Lawyer Team</p>
+    `),
+  }),
+
   'letter-under-review': (data) => ({
     subject: `Your Letter is Under Review - ${escapeHtml(data.letterTitle || 'Legal Letter')}`,
     text: `
@@ -824,6 +868,134 @@ The Talk-To-My-Lawyer Team
       <p>- Talk-To-My-Lawyer System</p>
     `),
   }),
+
+  'review-sla-warning': (data) => ({
+    subject: `Review Due Soon - ${escapeHtml(data.letterTitle || 'Legal Letter')}`,
+    text: `
+      Review Due Soon
+
+      Hi ${data.userName || 'there'},
+
+      The letter "${data.letterTitle || 'Legal Letter'}" is approaching its ${data.slaTargetHours || ''}-hour review target.
+
+      Review due by: ${data.slaDueAt || 'soon'}
+
+      Review the letter: ${data.actionUrl || ''}
+
+      - Talk-To-My-Lawyer System
+    `.trim(),
+    html: wrapHtml(`
+      <h2>Review Due Soon</h2>
+      <p>Hi ${escapeHtml(data.userName || 'there')},</p>
+
+      <p>The letter <strong>"${escapeHtml(data.letterTitle || 'Legal Letter')}"</strong> is approaching its ${escapeHtml(data.slaTargetHours || '')}-hour review target.</p>
+
+      <div class="highlight">
+        <strong>Review due by:</strong> ${escapeHtml(data.slaDueAt || 'soon')}
+      </div>
+
+      ${data.actionUrl ? `<a href="${escapeHtml(data.actionUrl)}" class="button">Review Letter</a>` : ''}
+
+      <p>- Talk-To-My-Lawyer System</p>
+    `),
+  }),
+
+  'review-sla-breach': (data) => ({
+    subject: `SLA Breached: ${escapeHtml(data.letterTitle || 'Legal Letter')}`,
+    text: `
+      Review SLA Breached
+
+      The letter "${data.letterTitle || 'Legal Letter'}" missed its ${data.slaTargetHours || ''}-hour review target.
+
+      Review was due by: ${data.slaDueAt || 'unknown'}
+      ${data.alertMessage || ''}
+
+      ${data.actionUrl ? `Reassign or review: ${data.actionUrl}` : ''}
+
+      - Talk-To-My-Lawyer System
+    `.trim(),
+    html: wrapHtml(`
+      <h2>⚠️ Review SLA Breached</h2>
+
+      <p>The letter <strong>"${escapeHtml(data.letterTitle || 'Legal Letter')}"</strong> missed its ${escapeHtml(data.slaTargetHours || '')}-hour review target.</p>
+
+      <div class="highlight">
+        <strong>Review was due by:</strong> ${escapeHtml(data.slaDueAt || 'unknown')}
+        ${data.alertMessage ? `<br>${nl2br(data.alertMessage)}` : ''}
+      </div>
+
+      ${data.actionUrl ? `<a href="${escapeHtml(data.actionUrl)}" class="button">Reassign or Review</a>` : ''}
+
+      <p>- Talk-To-My-Lawyer System</p>
+    `),
+  }),
+
+  'letter-comment': (data) => ({
+    subject: `New Comment on ${escapeHtml(data.letterTitle || 'Your Letter')}`,
+    text: `
+New Comment on Your Letter
+
+Hi ${data.userName || 'there'},
+
+${data.commentAuthor || 'Someone'} commented on "${data.letterTitle || 'Legal Letter'}":
+
+${data.quotedText ? `On: "${data.quotedText}"\n\n` : ''}${data.commentBody || ''}
+
+Reply here: ${data.actionUrl || ''}
+
+Best regards,
+The Talk-To-My-Lawyer Team
+    `.trim(),
+    html: wrapHtml(`
+      <h2>New Comment on Your Letter</h2>
+      <p>Hi ${escapeHtml(data.userName || 'there')},</p>
+
+      <p>${escapeHtml(data.commentAuthor || 'Someone')} commented on <strong>"${escapeHtml(data.letterTitle || 'Legal Letter')}"</strong>:</p>
+
+      <div class="highlight">
+        ${data.quotedText ? `<p><em>"${escapeHtml(data.quotedText)}"</em></p>` : ''}
+        <p>${nl2br(data.commentBody || '')}</p>
+      </div>
+
+      ${data.actionUrl ? `<p style="text-align: center;"><a href="${escapeHtml(data.actionUrl)}" class="button">View and Reply</a></p>` : ''}
+
+      <p>Best regards,<br>The Talk-To-My-Lawyer Team</p>
+    `),
+  }),
+
+  'letter-revision-requested': (data) => ({
+    subject: `Revision Requested: ${escapeHtml(data.letterTitle || 'Legal Letter')}`,
+    text: `
+Revision Requested
+
+Hi ${data.userName || 'there'},
+
+The client has asked for changes to "${data.letterTitle || 'Legal Letter'}", which you previously approved. The letter is back in your review queue.
+
+Requested changes:
+${data.revisionChanges || ''}
+
+Review the letter: ${data.actionUrl || ''}
+
+Best regards,
+The Talk-To-My-Lawyer Team
+    `.trim(),
+    html: wrapHtml(`
+      <h2>Revision Requested</h2>
+      <p>Hi ${escapeHtml(data.userName || 'there')},</p>
+
+      <p>The client has asked for changes to <strong>"${escapeHtml(data.letterTitle || 'Legal Letter')}"</strong>, which you previously approved. The letter is back in your review queue.</p>
+
+      <div class="highlight">
+        <strong>Requested changes:</strong><br>
+        ${nl2br(data.revisionChanges || '')}
+      </div>
+
+      ${data.actionUrl ? `<p style="text-align: center;"><a href="${escapeHtml(data.actionUrl)}" class="button">Review Letter</a></p>` : ''}
+
+      <p>Best regards,<br>The Talk-To-My-Lawyer Team</p>
+    `),
+  }),
 }
 
 export function renderTemplate(template: EmailTemplate, data: TemplateData): TemplateOutput {
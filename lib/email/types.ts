@@ -51,6 +51,7 @@ export type EmailTemplate =
   | 'letter-approved'
   | 'letter-rejected'
   | 'letter-generated'
+  | 'letter-generation-failed'
   | 'letter-under-review'
   | 'commission-earned'
   | 'commission-paid'
@@ -62,6 +63,10 @@ export type EmailTemplate =
   | 'free-trial-ending'
   | 'onboarding-complete'
   | 'admin-alert'
+  | 'review-sla-warning'
+  | 'review-sla-breach'
+  | 'letter-comment'
+  | 'letter-revision-requested'
   | 'security-alert'
   | 'system-maintenance'
 
@@ -76,6 +81,7 @@ export interface TemplateData {
   loginUrl?: string
   resetUrl?: string
   rejectionReason?: string
+  rejectionGuidance?: Array<{ label: string; guidance: string }>
   reviewNotes?: string
   pendingReviews?: number
   daysUntilExpiry?: number
@@ -85,5 +91,12 @@ export interface TemplateData {
   trialDaysRemaining?: number
   completedSteps?: number
   totalSteps?: number
+  slaDueAt?: string
+  slaTargetHours?: number
+  commentAuthor?: string
+  commentBody?: string
+  quotedText?: string
+  revisionChanges?: string
+  creditRefunded?: boolean
   [key: string]: unknown
 }
@@ -0,0 +1,136 @@
+/**
+ * Jurisdiction rules lookup
+ * Resolves the statutory rules for a letter's governing state, formats them for
+ * the generation prompt and checks intake deadlines against them
+ */
+import { JURISDICTION_RULES_VERSION, STATE_RULES } from './state-rules'
+import { getStateName } from './states'
+import type { JurisdictionRuleSet, StatutoryRule } from './types'
+
+export * from './types'
+export { US_STATES, STATE_CODES, getStateName } from './states'
+export { JURISDICTION_RULES_VERSION } from './state-rules'
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Resolve the rule set for a state and letter type
+ * Returns null for an unknown state; a known state without specific rules
+ * still gets a rule set so the letter records which version was consulted
+ */
+export function getJurisdictionRules(state: string, letterType: string): JurisdictionRuleSet | null {
+  const stateCode = state.toUpperCase()
+  const stateName = getStateName(stateCode)
+  if (!stateName) return null
+
+  return {
+    version: JURISDICTION_RULES_VERSION,
+    state: stateCode,
+    stateName,
+    letterType,
+    rules: STATE_RULES[stateCode]?.[letterType] ?? [],
+    warnings: [],
+  }
+}
+
+/**
+ * Parse an intake date (YYYY-MM-DD or MM/DD/YYYY) as a local calendar date
+ */
+function parseIntakeDate(value: string): Date | null {
+  let match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  if (match) {
+    return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  }
+
+  match = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+  if (match) {
+    return new Date(Number(match[3]), Number(match[1]) - 1, Number(match[2]))
+  }
+
+  return null
+}
+
+/**
+ * Count days between two dates, optionally skipping weekends
+ */
+function countDaysBetween(from: Date, to: Date, businessDaysOnly: boolean): number {
+  const start = new Date(from.getFullYear(), from.getMonth(), from.getDate())
+  const end = new Date(to.getFullYear(), to.getMonth(), to.getDate())
+
+  if (!businessDaysOnly) {
+    return Math.round((end.getTime() - start.getTime()) / MS_PER_DAY)
+  }
+
+  let days = 0
+  const cursor = new Date(start)
+  while (cursor < end) {
+    cursor.setDate(cursor.getDate() + 1)
+    const day = cursor.getDay()
+    if (day !== 0 && day !== 6) days++
+  }
+  return days
+}
+
+/**
+ * Warn when the letter's deadline gives less notice than the state minimum
+ * Uses the shortest notice period for the letter type, since intake does not
+ * say which ground (e.g. nonpayment vs. termination) the letter relies on
+ */
+export function checkDeadlineAgainstRules(
+  ruleSet: JurisdictionRuleSet,
+  deadlineDate: string | undefined,
+  today: Date = new Date()
+): string[] {
+  if (!deadlineDate) return []
+
+  const deadline = parseIntakeDate(deadlineDate)
+  if (!deadline) return []
+
+  const noticeRules = ruleSet.rules.filter(
+    (rule): rule is StatutoryRule & { minNoticeDays: number } => rule.minNoticeDays !== undefined
+  )
+  if (noticeRules.length === 0) return []
+
+  const minimum = noticeRules.reduce((shortest, rule) =>
+    rule.minNoticeDays < shortest.minNoticeDays ? rule : shortest
+  )
+
+  const givenDays = countDaysBetween(today, deadline, minimum.businessDaysOnly === true)
+  if (givenDays >= minimum.minNoticeDays) return []
+
+  const unit = minimum.businessDaysOnly ? 'business days' : 'days'
+  return [
+    `Deadline gives ${Math.max(givenDays, 0)} ${unit} of notice; ${ruleSet.stateName} requires at least ${minimum.minNoticeDays} ${unit} for "${minimum.topic}" (${minimum.citation}).`,
+  ]
+}
+
+/**
+ * Render the rule set as a prompt section
+ */
+export function formatJurisdictionRulesForPrompt(ruleSet: JurisdictionRuleSet | null | undefined): string {
+  if (!ruleSet) return ''
+
+  const header = `Governing Jurisdiction: ${ruleSet.stateName} (${ruleSet.state})`
+  if (ruleSet.rules.length === 0) {
+    return [
+      header,
+      `No state-specific rules are on file for this letter type; do not cite ${ruleSet.stateName} statutes unless they are provided in the details above.`,
+    ].join('\n')
+  }
+
+  const rules = ruleSet.rules.map(rule => {
+    const details = [
+      rule.minNoticeDays !== undefined && `minimum notice ${rule.minNoticeDays} ${rule.businessDaysOnly ? 'business days' : 'days'}`,
+      rule.statutoryDeadlineDays !== undefined && `statutory deadline ${rule.statutoryDeadlineDays} days`,
+      rule.penaltyMultiplier !== undefined && `penalty up to ${rule.penaltyMultiplier}x`,
+    ].filter(Boolean).join('; ')
+
+    return `- ${rule.topic} (${rule.citation}): ${rule.description}${details ? ` [${details}]` : ''}`
+  })
+
+  return [
+    header,
+    'Applicable state rules (cite only where they fit the facts; never invent other statutes):',
+    ...rules,
+  ].join('\n')
+}
@@ -0,0 +1,228 @@
+/**
+ * Versioned statutory rules dataset
+ *
+ * Bump JURISDICTION_RULES_VERSION whenever a rule is added or changed so letters
+ * record exactly which rule set was applied. Rules are a drafting aid for the AI
+ * and a checklist for the reviewing attorney - not a substitute for their review.
+ */
+import type { StatutoryRule } from './types'
+
+export const JURISDICTION_RULES_VERSION = '2026.1'
+
+type LetterTypeRules = Partial<Record<string, StatutoryRule[]>>
+
+export const STATE_RULES: Partial<Record<string, LetterTypeRules>> = {
+  CA: {
+    eviction_notice: [
+      {
+        id: 'CA-eviction-nonpayment',
+        topic: 'Notice to pay rent or quit',
+        description: 'Tenant must be given 3 days, excluding weekends and judicial holidays, to pay rent or vacate.',
+        citation: 'Cal. Code Civ. Proc. § 1161(2)',
+        minNoticeDays: 3,
+        businessDaysOnly: true,
+      },
+      {
+        id: 'CA-eviction-termination',
+        topic: 'Termination of periodic tenancy',
+        description: '30 days notice if the tenant has occupied less than one year, 60 days if one year or more; just-cause requirements may apply.',
+        citation: 'Cal. Civ. Code §§ 1946.1, 1946.2',
+        minNoticeDays: 30,
+      },
+    ],
+    demand_letter: [
+      {
+        id: 'CA-security-deposit',
+        topic: 'Security deposit return',
+        description: 'Landlord must return the deposit or an itemized statement within 21 days after move-out; bad-faith retention exposes the landlord to up to twice the deposit in statutory damages.',
+        citation: 'Cal. Civ. Code § 1950.5(g), (l)',
+        statutoryDeadlineDays: 21,
+        penaltyMultiplier: 2,
+      },
+    ],
+    consumer_complaint: [
+      {
+        id: 'CA-clra-notice',
+        topic: 'Consumers Legal Remedies Act pre-suit notice',
+        description: 'Notice must be sent by certified or registered mail at least 30 days before filing an action for damages.',
+        citation: 'Cal. Civ. Code § 1782(a)',
+        minNoticeDays: 30,
+      },
+    ],
+    employment_dispute: [
+      {
+        id: 'CA-final-wages',
+        topic: 'Final wages',
+        description: 'Willful failure to pay final wages on time triggers waiting-time penalties of one day of wages per day, up to 30 days.',
+        citation: 'Cal. Lab. Code §§ 201-203',
+      },
+    ],
+  },
+  TX: {
+    eviction_notice: [
+      {
+        id: 'TX-eviction-notice-to-vacate',
+        topic: 'Notice to vacate',
+        description: 'Landlord must give at least 3 days written notice to vacate before filing a forcible detainer suit, unless the lease provides otherwise.',
+        citation: 'Tex. Prop. Code § 24.005',
+        minNoticeDays: 3,
+      },
+    ],
+    demand_letter: [
+      {
+        id: 'TX-security-deposit',
+        topic: 'Security deposit return',
+        description: 'Landlord must refund the deposit with an itemized list of deductions within 30 days after surrender; bad-faith retention is liable for $100 plus three times the amount wrongfully withheld and attorney fees.',
+        citation: 'Tex. Prop. Code §§ 92.103, 92.109',
+        statutoryDeadlineDays: 30,
+        penaltyMultiplier: 3,
+      },
+    ],
+    consumer_complaint: [
+      {
+        id: 'TX-dtpa-notice',
+        topic: 'Deceptive Trade Practices Act pre-suit notice',
+        description: 'Written notice stating the specific complaint and damages must be given at least 60 days before filing suit; knowing violations may support up to three times economic damages.',
+        citation: 'Tex. Bus. & Com. Code §§ 17.505, 17.50(b)',
+        minNoticeDays: 60,
+        penaltyMultiplier: 3,
+      },
+    ],
+  },
+  NY: {
+    eviction_notice: [
+      {
+        id: 'NY-rent-demand',
+        topic: 'Written rent demand',
+        description: 'A written demand giving at least 14 days to pay must precede a nonpayment proceeding.',
+        citation: 'N.Y. Real Prop. Acts. Law § 711(2)',
+        minNoticeDays: 14,
+      },
+      {
+        id: 'NY-termination',
+        topic: 'Notice of non-renewal or termination',
+        description: '30, 60 or 90 days notice depending on how long the tenant has occupied the unit.',
+        citation: 'N.Y. Real Prop. Law § 226-c',
+        minNoticeDays: 30,
+      },
+    ],
+    demand_letter: [
+      {
+        id: 'NY-security-deposit',
+        topic: 'Security deposit return',
+        description: 'Landlord must return the deposit with an itemized statement within 14 days after the tenant vacates or forfeits the right to retain any portion; willful violations may support punitive damages up to twice the deposit.',
+        citation: 'N.Y. Gen. Oblig. Law § 7-108(1-a)',
+        statutoryDeadlineDays: 14,
+        penaltyMultiplier: 2,
+      },
+    ],
+  },
+  FL: {
+    eviction_notice: [
+      {
+        id: 'FL-eviction-nonpayment',
+        topic: 'Three-day notice for nonpayment',
+        description: 'Tenant must be given 3 days, excluding weekends and legal holidays, to pay rent or deliver possession.',
+        citation: 'Fla. Stat. § 83.56(3)',
+        minNoticeDays: 3,
+        businessDaysOnly: true,
+      },
+      {
+        id: 'FL-eviction-noncompliance',
+        topic: 'Seven-day notice for noncompliance',
+        description: 'Curable lease violations require a 7-day notice to cure before termination.',
+        citation: 'Fla. Stat. § 83.56(2)',
+        minNoticeDays: 7,
+      },
+    ],
+    demand_letter: [
+      {
+        id: 'FL-security-deposit',
+        topic: 'Security deposit return',
+        description: 'Landlord must return the deposit within 15 days, or give written notice of intent to impose a claim within 30 days, after the tenant vacates.',
+        citation: 'Fla. Stat. § 83.49(3)',
+        statutoryDeadlineDays: 15,
+      },
+    ],
+  },
+  IL: {
+    eviction_notice: [
+      {
+        id: 'IL-eviction-nonpayment',
+        topic: 'Five-day notice for nonpayment',
+        description: 'Landlord must give at least 5 days written demand for rent before terminating the lease.',
+        citation: '735 ILCS 5/9-209',
+        minNoticeDays: 5,
+      },
+      {
+        id: 'IL-eviction-breach',
+        topic: 'Ten-day notice for lease violation',
+        description: 'Lease violations other than nonpayment require a 10-day notice.',
+        citation: '735 ILCS 5/9-210',
+        minNoticeDays: 10,
+      },
+    ],
+    demand_letter: [
+      {
+        id: 'IL-security-deposit',
+        topic: 'Security deposit return',
+        description: 'Landlords of 5 or more units must return the deposit within 45 days after move-out; failure to comply makes the landlord liable for twice the deposit plus court costs and attorney fees.',
+        citation: '765 ILCS 710/1',
+        statutoryDeadlineDays: 45,
+        penaltyMultiplier: 2,
+      },
+    ],
+  },
+  WA: {
+    eviction_notice: [
+      {
+        id: 'WA-eviction-nonpayment',
+        topic: 'Fourteen-day pay or vacate notice',
+        description: 'Tenant must be given 14 days to pay rent or vacate using the statutory form.',
+        citation: 'RCW 59.12.030(3)',
+        minNoticeDays: 14,
+      },
+    ],
+    demand_letter: [
+      {
+        id: 'WA-security-deposit',
+        topic: 'Security deposit return',
+        description: 'Landlord must return the deposit with a full and specific statement within 30 days after termination; intentional refusal may result in up to twice the deposit.',
+        citation: 'RCW 59.18.280',
+        statutoryDeadlineDays: 30,
+        penaltyMultiplier: 2,
+      },
+    ],
+  },
+  MA: {
+    eviction_notice: [
+      {
+        id: 'MA-eviction-nonpayment',
+        topic: 'Fourteen-day notice to quit',
+        description: 'Nonpayment of rent requires a 14-day notice to quit.',
+        citation: 'Mass. Gen. Laws ch. 186, § 11',
+        minNoticeDays: 14,
+      },
+    ],
+    demand_letter: [
+      {
+        id: 'MA-security-deposit',
+        topic: 'Security deposit return',
+        description: 'Landlord must return the deposit within 30 days after the tenancy ends; violations entitle the tenant to three times the deposit plus interest, costs and attorney fees.',
+        citation: 'Mass. Gen. Laws ch. 186, § 15B(6)-(7)',
+        statutoryDeadlineDays: 30,
+        penaltyMultiplier: 3,
+      },
+    ],
+    consumer_complaint: [
+      {
+        id: 'MA-93a-demand',
+        topic: 'Chapter 93A demand letter',
+        description: 'A written demand for relief must be sent at least 30 days before filing suit; willful or knowing violations may support up to three times actual damages.',
+        citation: 'Mass. Gen. Laws ch. 93A, § 9(3)',
+        minNoticeDays: 30,
+        penaltyMultiplier: 3,
+      },
+    ],
+  },
+}
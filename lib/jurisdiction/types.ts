@@ -0,0 +1,33 @@
+/**
+ * Type definitions for jurisdiction-specific letter rules
+ */
+
+/**
+ * A single statutory rule relevant to a letter type in one state
+ */
+export interface StatutoryRule {
+  id: string
+  topic: string
+  description: string
+  citation: string
+  /** Minimum days the recipient must be given before the letter's deadline */
+  minNoticeDays?: number
+  /** Days the recipient has under statute to act (e.g. return a deposit) */
+  statutoryDeadlineDays?: number
+  /** Multiplier applied to damages for a statutory violation (e.g. 2x deposit) */
+  penaltyMultiplier?: number
+  /** Notice periods counted in business days rather than calendar days */
+  businessDaysOnly?: boolean
+}
+
+/**
+ * Rules that apply to one letter type in one state, as recorded on the letter
+ */
+export interface JurisdictionRuleSet {
+  version: string
+  state: string
+  stateName: string
+  letterType: string
+  rules: StatutoryRule[]
+  warnings: string[]
+}
@@ -4,7 +4,7 @@
  */
 
 import { createClient } from '@/lib/supabase/server'
-import { checkOpenAIHealth } from '@/lib/ai/openai-retry'
+import { openAIRetryClient } from '@/lib/ai/openai-retry'
 
 export interface HealthCheckResult {
   status: 'healthy' | 'degraded' | 'unhealthy'
@@ -127,8 +127,9 @@ export class HealthChecker {
   }
 
   /**
-   * Check OpenAI service health
-   * Note: Only check if API key exists - don't make actual API calls in health check
+   * Check OpenAI service health, including fallback providers
+   * Note: Only checks configuration and circuit breaker state - no API calls in health check.
+   * Degraded when OpenAI is unavailable but generation can fail over to another provider.
    */
   private async checkOpenAIHealth(): Promise<ServiceHealth> {
     const startTime = Date.now()
@@ -138,23 +139,49 @@ export class HealthChecker {
       const hasOpenAIKey = !!process.env.OPENAI_API_KEY
       const hasGatewayKey = !!process.env.AI_GATEWAY_API_KEY
 
+      const providers = openAIRetryClient.getProviderStatus()
+      const available = providers.filter(p => p.configured && !p.circuit.isOpen)
+      const openaiAvailable = available.some(p => p.provider === 'openai')
+
       const responseTime = Date.now() - startTime
+      const details = {
+        hasOpenAIKey,
+        hasGatewayKey,
+        activeProvider: available[0]?.provider ?? null,
+        providers: providers.map(p => ({
+          provider: p.provider,
+          configured: p.configured,
+          model: p.model || null,
+          circuitOpen: p.circuit.isOpen,
+          failureCount: p.circuit.failureCount,
+          ...(p.circuit.isOpen && { retryAt: new Date(p.circuit.nextAttemptTime).toISOString() }),
+        })),
+      }
 
-      if (!hasOpenAIKey && !hasGatewayKey) {
+      if (available.length === 0) {
         return {
           status: 'unhealthy',
           responseTime,
-          error: 'OpenAI API key or AI Gateway key not configured'
+          error: providers.some(p => p.configured)
+            ? 'All AI provider circuits are open'
+            : 'OpenAI API key or AI Gateway key not configured',
+          details
+        }
+      }
+
+      if (!openaiAvailable) {
+        return {
+          status: 'degraded',
+          responseTime,
+          error: `OpenAI unavailable, failing over to ${available[0].provider}`,
+          details
         }
       }
 
       return {
         status: 'healthy',
         responseTime,
-        details: {
-          hasOpenAIKey,
-          hasGatewayKey
-        }
+        details
       }
 
     } catch (error: any) {
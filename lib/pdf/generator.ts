@@ -1,5 +1,6 @@
 import { jsPDF } from 'jspdf'
-import type { PdfLetterData, PdfConfig, PdfResult, PdfTemplate } from './types'
+import { diffWords, getDiffStats, type DiffSegment } from '@/lib/utils/text-diff'
+import type { PdfLetterData, PdfConfig, PdfResult, PdfTemplate, PdfRedlineData } from './types'
 
 const DEFAULT_MARGINS = {
   top: 25,
@@ -16,6 +17,8 @@ const COLORS = {
   lightText: '#666666',
   border: '#e0e0e0',
   watermark: '#f0f0f0',
+  inserted: '#1d4ed8',
+  deleted: '#b91c1c',
 }
 
 function formatDate(dateString: string): string {
@@ -100,6 +103,21 @@ function drawFooter(doc: jsPDF, pageNumber: number, totalPages: number, referenc
   )
 }
 
+const SIGNATURE_WIDTH = 45
+const SIGNATURE_HEIGHT = 15
+
+/**
+ * Draw a signature image; an unreadable image is skipped rather than failing the PDF
+ */
+function drawSignature(doc: jsPDF, dataUrl: string, x: number, y: number): void {
+  try {
+    const format = dataUrl.startsWith('data:image/png') ? 'PNG' : 'JPEG'
+    doc.addImage(dataUrl, format, x, y, SIGNATURE_WIDTH, SIGNATURE_HEIGHT)
+  } catch (error) {
+    console.error('[PdfGenerator] Could not draw signature:', error)
+  }
+}
+
 function addNewPage(doc: jsPDF, config: PdfConfig): number {
   doc.addPage()
 
@@ -220,7 +238,8 @@ export function generateLetterPdf(data: PdfLetterData, config: PdfConfig = {}):
 
     yPosition += 15
 
-    if (yPosition > maxY - 30) {
+    const closingHeight = data.parties.attorney?.signatureImage ? 30 + SIGNATURE_HEIGHT : 30
+    if (yPosition > maxY - closingHeight) {
       pageCount++
       yPosition = addNewPage(doc, { ...config, margins, showWatermark, showLetterhead })
     }
@@ -234,18 +253,27 @@ export function generateLetterPdf(data: PdfLetterData, config: PdfConfig = {}):
     doc.setFont('helvetica', 'normal')
 
     if (data.parties.attorney?.name) {
+      const attorney = data.parties.attorney
+      yPosition += 6
+
+      if (attorney.signatureImage) {
+        drawSignature(doc, attorney.signatureImage, margins.left, yPosition)
+        yPosition += SIGNATURE_HEIGHT + 2
+      }
+
       doc.setFontSize(9)
       doc.setTextColor(COLORS.secondary)
-      doc.text(`Prepared by: ${data.parties.attorney.name}`, margins.left, yPosition)
+      doc.text(`Prepared by: ${attorney.name}`, margins.left, yPosition)
       yPosition += 4
 
-      if (data.parties.attorney.firmName) {
-        doc.text(data.parties.attorney.firmName, margins.left, yPosition)
+      if (attorney.firmName) {
+        doc.text(attorney.firmName, margins.left, yPosition)
         yPosition += 4
       }
 
-      if (data.parties.attorney.barNumber) {
-        doc.text(`Bar No.: ${data.parties.attorney.barNumber}`, margins.left, yPosition)
+      if (attorney.barNumber) {
+        const barState = attorney.barState ? ` (${attorney.barState})` : ''
+        doc.text(`Bar No.: ${attorney.barNumber}${barState}`, margins.left, yPosition)
       }
     }
 
@@ -289,3 +317,253 @@ export function generateSimplePdf(title: string, content: string, isDraft: boole
     { showLetterhead: true, showWatermark: isDraft }
   )
 }
+
+// Changes listed on the redline summary page; the full redline follows regardless
+const MAX_SUMMARY_CHANGES = 40
+const MAX_SUMMARY_EXCERPT = 120
+
+interface RedlineChange {
+  deleted: string
+  inserted: string
+}
+
+function excerpt(text: string): string {
+  const collapsed = sanitizeText(text).replace(/\s+/g, ' ').trim()
+  return collapsed.length > MAX_SUMMARY_EXCERPT ? `${collapsed.slice(0, MAX_SUMMARY_EXCERPT - 1)}…` : collapsed
+}
+
+/**
+ * Group diff segments into changes; a deletion and insertion separated only by
+ * whitespace count as one replacement
+ */
+function collectRedlineChanges(segments: DiffSegment[]): RedlineChange[] {
+  const changes: RedlineChange[] = []
+  let current: RedlineChange | null = null
+
+  segments.forEach((segment, index) => {
+    if (segment.op === 'equal') {
+      const next = segments[index + 1]
+      if (current && !segment.text.trim() && next && next.op !== 'equal') return
+      current = null
+      return
+    }
+
+    if (!current) {
+      current = { deleted: '', inserted: '' }
+      changes.push(current)
+    }
+
+    if (segment.op === 'delete') current.deleted += `${current.deleted ? ' ' : ''}${segment.text}`
+    else current.inserted += `${current.inserted ? ' ' : ''}${segment.text}`
+  })
+
+  return changes.filter(change => change.deleted.trim() || change.inserted.trim())
+}
+
+function describeRedlineChange(change: RedlineChange): string {
+  const deleted = excerpt(change.deleted)
+  const inserted = excerpt(change.inserted)
+
+  if (deleted && inserted) return `Replaced "${deleted}" with "${inserted}"`
+  if (inserted) return `Added "${inserted}"`
+  return `Removed "${deleted}"`
+}
+
+/**
+ * Draw a word in the redline style for its diff operation: insertions
+ * underlined, deletions struck through
+ */
+function drawRedlineWord(doc: jsPDF, word: string, op: DiffSegment['op'], x: number, y: number, width: number): void {
+  const color = op === 'insert' ? COLORS.inserted : op === 'delete' ? COLORS.deleted : COLORS.text
+  doc.setTextColor(color)
+  doc.text(word, x, y)
+
+  if (op === 'equal') return
+
+  doc.setDrawColor(color)
+  doc.setLineWidth(0.25)
+  const lineY = op === 'insert' ? y + 0.8 : y - 1.2
+  doc.line(x, lineY, x + width, lineY)
+}
+
+/**
+ * Redline PDF: a summary page listing the attorney's changes, followed by the
+ * letter with insertions underlined and deletions struck through
+ */
+export function generateRedlinePdf(data: PdfRedlineData, config: PdfConfig = {}): PdfResult {
+  try {
+    const {
+      showLetterhead = true,
+      pageSize = 'letter',
+      margins = DEFAULT_MARGINS,
+    } = config
+
+    const doc = new jsPDF({
+      orientation: 'portrait',
+      unit: 'mm',
+      format: pageSize,
+    })
+
+    const pageWidth = doc.internal.pageSize.getWidth()
+    const pageHeight = doc.internal.pageSize.getHeight()
+    const contentWidth = pageWidth - margins.left - margins.right
+    const maxY = pageHeight - margins.bottom - 25
+    const lineHeight = 5
+    const pageConfig = { ...config, margins, showWatermark: false, showLetterhead }
+
+    const segments = diffWords(sanitizeText(data.originalContent), sanitizeText(data.revisedContent))
+    const stats = getDiffStats(segments)
+    const changes = collectRedlineChanges(segments)
+
+    // Summary page
+    let yPosition = showLetterhead ? drawLetterhead(doc, pageConfig) : margins.top
+
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(14)
+    doc.setTextColor(COLORS.primary)
+    doc.text('Attorney Changes to the AI Draft', margins.left, yPosition)
+    yPosition += 8
+
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(10)
+    doc.setTextColor(COLORS.text)
+    const details = [
+      `Re: ${data.title}`,
+      data.attorneyName ? `Reviewed by: ${data.attorneyName}` : null,
+      `Date: ${formatDate(data.approvedAt || data.createdAt)}`,
+    ].filter((line): line is string => !!line)
+    details.forEach(line => {
+      doc.text(doc.splitTextToSize(line, contentWidth)[0], margins.left, yPosition)
+      yPosition += lineHeight
+    })
+    yPosition += 4
+
+    doc.setFont('helvetica', 'bold')
+    doc.text('Summary', margins.left, yPosition)
+    yPosition += 6
+    doc.setFont('helvetica', 'normal')
+    const summary = [
+      `${changes.length} ${changes.length === 1 ? 'change' : 'changes'}`,
+      `${stats.insertedWords} words added, ${stats.deletedWords} words removed, ${stats.unchangedWords} words unchanged`,
+    ]
+    summary.forEach(line => {
+      doc.text(line, margins.left, yPosition)
+      yPosition += lineHeight
+    })
+    yPosition += 2
+
+    // Legend
+    doc.setFontSize(9)
+    let legendX = margins.left
+    const addedWidth = doc.getTextWidth('Added text')
+    drawRedlineWord(doc, 'Added text', 'insert', legendX, yPosition, addedWidth)
+    legendX += addedWidth + 8
+    drawRedlineWord(doc, 'Removed text', 'delete', legendX, yPosition, doc.getTextWidth('Removed text'))
+    doc.setTextColor(COLORS.text)
+    doc.setFontSize(10)
+    yPosition += 10
+
+    if (changes.length === 0) {
+      doc.text('The attorney approved the AI draft without changes.', margins.left, yPosition)
+    } else {
+      doc.setFont('helvetica', 'bold')
+      doc.text('Changes', margins.left, yPosition)
+      yPosition += 6
+      doc.setFont('helvetica', 'normal')
+      doc.setFontSize(9)
+
+      changes.slice(0, MAX_SUMMARY_CHANGES).forEach((change, index) => {
+        const lines: string[] = doc.splitTextToSize(`${index + 1}. ${describeRedlineChange(change)}`, contentWidth)
+        if (yPosition + lines.length * 4.5 > maxY) {
+          yPosition = addNewPage(doc, pageConfig)
+        }
+        doc.text(lines, margins.left, yPosition)
+        yPosition += lines.length * 4.5 + 1.5
+      })
+
+      if (changes.length > MAX_SUMMARY_CHANGES) {
+        if (yPosition > maxY) yPosition = addNewPage(doc, pageConfig)
+        doc.setTextColor(COLORS.lightText)
+        doc.text(`…and ${changes.length - MAX_SUMMARY_CHANGES} more, shown in the redline that follows.`, margins.left, yPosition)
+        doc.setTextColor(COLORS.text)
+      }
+      doc.setFontSize(10)
+    }
+
+    // Redline of the full letter
+    yPosition = addNewPage(doc, pageConfig)
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(10)
+
+    const right = margins.left + contentWidth
+    let x = margins.left
+    let pendingSpace: { width: number; op: DiffSegment['op'] } | null = null
+
+    for (const segment of segments) {
+      const tokens = segment.text.match(/\n|[^\S\n]+|\S+/g) ?? []
+
+      for (const token of tokens) {
+        if (token === '\n') {
+          yPosition += lineHeight
+          x = margins.left
+          pendingSpace = null
+          continue
+        }
+
+        if (!token.trim()) {
+          if (x > margins.left) pendingSpace = { width: doc.getTextWidth(' '), op: segment.op }
+          continue
+        }
+
+        const width = doc.getTextWidth(token)
+        if (x > margins.left && x + (pendingSpace?.width ?? 0) + width > right) {
+          yPosition += lineHeight
+          x = margins.left
+          pendingSpace = null
+        }
+
+        if (yPosition > maxY) {
+          yPosition = addNewPage(doc, pageConfig)
+          doc.setFont('helvetica', 'normal')
+          doc.setFontSize(10)
+          x = margins.left
+          pendingSpace = null
+        }
+
+        if (pendingSpace) {
+          // Keep the underline or strike continuous across spaces inside a change
+          if (pendingSpace.op === segment.op && segment.op !== 'equal') {
+            drawRedlineWord(doc, ' ', segment.op, x, yPosition, pendingSpace.width)
+          }
+          x += pendingSpace.width
+          pendingSpace = null
+        }
+
+        drawRedlineWord(doc, token, segment.op, x, yPosition, width)
+        x += width
+      }
+    }
+
+    doc.setTextColor(COLORS.text)
+
+    const totalPages = doc.getNumberOfPages()
+    for (let i = 1; i <= totalPages; i++) {
+      doc.setPage(i)
+      drawFooter(doc, i, totalPages, data.referenceNumber || `TTML-${data.id.substring(0, 8).toUpperCase()}`)
+    }
+
+    return {
+      success: true,
+      buffer: Buffer.from(doc.output('arraybuffer')),
+      pageCount: totalPages,
+    }
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown PDF generation error'
+    console.error('[PdfGenerator] Redline error:', errorMessage)
+
+    return {
+      success: false,
+      error: errorMessage,
+    }
+  }
+}
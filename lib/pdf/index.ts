@@ -1,2 +1,2 @@
 export * from './types'
-export { generateLetterPdf, generateSimplePdf } from './generator'
+export { generateLetterPdf, generateSimplePdf, generateRedlinePdf } from './generator'
@@ -16,6 +16,10 @@ export interface LetterParties {
     name?: string
     firmName?: string
     barNumber?: string
+    /** State the bar number was issued in */
+    barState?: string
+    /** PNG or JPEG data URL drawn above the attorney's name */
+    signatureImage?: string
   }
 }
 
@@ -31,6 +35,22 @@ export interface PdfLetterData {
   referenceNumber?: string
 }
 
+/**
+ * Attorney changes to the AI draft, rendered as a word-level redline
+ */
+export interface PdfRedlineData {
+  id: string
+  title: string
+  /** The AI draft */
+  originalContent: string
+  /** The attorney's final content */
+  revisedContent: string
+  attorneyName?: string
+  createdAt: string
+  approvedAt?: string
+  referenceNumber?: string
+}
+
 export interface PdfConfig {
   template?: PdfTemplate
   showWatermark?: boolean
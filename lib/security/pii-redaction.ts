@@ -0,0 +1,185 @@
+/**
+ * Reversible PII redaction for AI prompts
+ *
+ * Names, addresses, emails and phone numbers from intake are replaced with
+ * stable tokens such as {{SENDER_NAME}} before a prompt leaves our servers,
+ * and the tokens in the model's output are swapped back afterwards. The
+ * original values never leave the redaction object, which lives only for the
+ * duration of one generation.
+ */
+
+import type { AttachmentEvidence } from '@/lib/attachments/types'
+
+export interface PIIMaskedValue {
+  token: string
+  source: string  // Intake field name, or "<field>:email" / "<field>:phone" for values found in free text
+}
+
+export interface PIIRedaction {
+  intakeData: Record<string, unknown>  // Intake with PII replaced by tokens
+  values: Map<string, string>          // Token -> original value
+  masked: PIIMaskedValue[]
+}
+
+// Intake fields that are PII in their entirety, with the token that replaces them
+const PII_FIELDS: Record<string, string> = {
+  senderName: 'SENDER_NAME',
+  senderAddress: 'SENDER_ADDRESS',
+  senderEmail: 'SENDER_EMAIL',
+  senderPhone: 'SENDER_PHONE',
+  recipientName: 'RECIPIENT_NAME',
+  recipientAddress: 'RECIPIENT_ADDRESS',
+  recipientEmail: 'RECIPIENT_EMAIL',
+  recipientPhone: 'RECIPIENT_PHONE',
+}
+
+// Names also get a surname token so salutations ("Dear Mr. Smith") survive redaction
+const NAME_FIELDS: Record<string, string> = {
+  senderName: 'SENDER_LAST_NAME',
+  recipientName: 'RECIPIENT_LAST_NAME',
+}
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi
+const PHONE_PATTERN = /(?:\+?1[\s.-]?)?(?:\(\d{3}\)|\d{3})[\s.-]?\d{3}[\s.-]?\d{4}\b/g
+const TOKEN_PATTERN = /\{\{([A-Z0-9_]+)\}\}/g
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function addToken(redaction: PIIRedaction, token: string, value: string, source: string): string {
+  const placeholder = `{{${token}}}`
+  if (!redaction.values.has(placeholder)) {
+    redaction.values.set(placeholder, value)
+    redaction.masked.push({ token: placeholder, source })
+  }
+  return placeholder
+}
+
+/**
+ * Replace known values and any emails or phone numbers in free text
+ * Values detected by pattern get numbered tokens ({{EMAIL_1}}, {{PHONE_2}}) that are
+ * added to the redaction so they can be rehydrated too.
+ */
+export function redactText(text: string, redaction: PIIRedaction, source = 'text'): string {
+  if (!text) return text
+
+  // Longest values first so a full name is replaced before its surname
+  const known = [...redaction.values.entries()].sort((a, b) => b[1].length - a[1].length)
+
+  let result = text
+  for (const [placeholder, value] of known) {
+    result = result.replace(new RegExp(`(?<![\\w@.])${escapeRegExp(value)}(?![\\w@])`, 'gi'), placeholder)
+  }
+
+  result = result.replace(EMAIL_PATTERN, match => {
+    const existing = [...redaction.values.entries()].find(([, value]) => value.toLowerCase() === match.toLowerCase())
+    if (existing) return existing[0]
+    const count = redaction.masked.filter(entry => entry.token.startsWith('{{EMAIL_')).length
+    return addToken(redaction, `EMAIL_${count + 1}`, match, `${source}:email`)
+  })
+
+  result = result.replace(PHONE_PATTERN, match => {
+    const existing = [...redaction.values.entries()].find(([, value]) => value === match)
+    if (existing) return existing[0]
+    const count = redaction.masked.filter(entry => entry.token.startsWith('{{PHONE_')).length
+    return addToken(redaction, `PHONE_${count + 1}`, match, `${source}:phone`)
+  })
+
+  return result
+}
+
+/**
+ * Redact PII fields of the intake and scrub the remaining free-text fields
+ */
+export function redactIntakeData(intakeData: Record<string, unknown>): PIIRedaction {
+  const redaction: PIIRedaction = { intakeData: {}, values: new Map(), masked: [] }
+
+  for (const [field, token] of Object.entries(PII_FIELDS)) {
+    const value = intakeData[field]
+    if (typeof value !== 'string' || !value.trim()) continue
+
+    redaction.intakeData[field] = addToken(redaction, token, value.trim(), field)
+
+    const surnameToken = NAME_FIELDS[field]
+    const parts = value.trim().split(/\s+/)
+    if (surnameToken && parts.length > 1 && parts[parts.length - 1].length > 1) {
+      addToken(redaction, surnameToken, parts[parts.length - 1], field)
+    }
+  }
+
+  for (const [field, value] of Object.entries(intakeData)) {
+    if (field in PII_FIELDS) continue
+    redaction.intakeData[field] = typeof value === 'string' ? redactText(value, redaction, field) : value
+  }
+
+  return redaction
+}
+
+/**
+ * Redact the extracted text of uploaded documents against the same token set
+ */
+export function redactEvidence(evidence: AttachmentEvidence[], redaction: PIIRedaction): AttachmentEvidence[] {
+  return evidence.map(doc => ({
+    ...doc,
+    fileName: redactText(doc.fileName, redaction, 'attachment'),
+    text: redactText(doc.text, redaction, 'attachment'),
+  }))
+}
+
+/**
+ * Swap tokens back for the original values
+ * Unknown tokens are left in place so the quality gate flags them as placeholders.
+ */
+export function rehydrateText(text: string, redaction: PIIRedaction): string {
+  return text.replace(TOKEN_PATTERN, placeholder => redaction.values.get(placeholder) ?? placeholder)
+}
+
+/**
+ * Rehydrate a streamed draft chunk by chunk
+ * A token split across chunks is held back until it is complete.
+ */
+export function createStreamRehydrator(redaction: PIIRedaction) {
+  let pending = ''
+
+  return {
+    push(delta: string): string {
+      pending += delta
+      const open = pending.lastIndexOf('{{')
+      const held = open !== -1 && pending.indexOf('}}', open) === -1
+        ? pending.slice(open)
+        : pending.endsWith('{') ? '{' : ''
+      const ready = pending.slice(0, pending.length - held.length)
+      pending = held
+      return rehydrateText(ready, redaction)
+    },
+    flush(): string {
+      const rest = rehydrateText(pending, redaction)
+      pending = ''
+      return rest
+    },
+  }
+}
+
+/**
+ * Prompt instructions telling the model how to use the tokens
+ */
+export function formatRedactionInstructions(redaction: PIIRedaction): string {
+  if (redaction.masked.length === 0) return ''
+
+  return `
+Some personal details have been replaced with placeholders: ${redaction.masked.map(entry => entry.token).join(', ')}.
+Use these placeholders exactly as written (including the double braces) wherever the detail belongs, e.g. in the address block, salutation and signature.
+Do not invent names, addresses, emails or phone numbers.
+`.trim()
+}
+
+/**
+ * Audit note listing what was masked, without the values themselves
+ */
+export function describeRedaction(redaction: PIIRedaction): string | null {
+  if (redaction.masked.length === 0) return null
+
+  const fields = redaction.masked.map(entry => `${entry.token} (${entry.source})`)
+  return `Masked ${redaction.masked.length} PII value(s) before AI generation: ${fields.join(', ')}`
+}
@@ -0,0 +1,117 @@
+/**
+ * AI usage accounting
+ * Records tokens, latency and estimated cost of every AI call against the
+ * letter, its owner and whoever triggered the call, for cost and margin reporting
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import type { GeneratedText } from '@/lib/ai/openai-retry'
+
+export type AIUsageOperation = 'draft' | 'draft_regeneration' | 'resubmit' | 'improve'
+
+/**
+ * What an AI call is for; passed as `tracking` to generateTextWithRetry / streamTextWithRetry
+ */
+export interface AIUsageContext {
+  operation: AIUsageOperation
+  letterId?: string
+  userId?: string  // Owner to bill when there is no letter; otherwise the letter owner is used
+}
+
+export interface AICostTotals {
+  calls: number
+  letters: number
+  input_tokens: number
+  output_tokens: number
+  cost_usd: number
+  avg_cost_per_letter: number
+}
+
+export interface AICostByLetterType {
+  letter_type: string
+  letters: number
+  calls: number
+  tokens: number
+  cost_usd: number
+  avg_cost_per_letter: number
+}
+
+export interface AICostByMonth {
+  month: string  // YYYY-MM
+  calls: number
+  tokens: number
+  cost_usd: number
+}
+
+export interface AICostConsumer {
+  user_id: string
+  email: string | null
+  full_name: string | null
+  role: string | null
+  letters: number
+  calls: number
+  tokens: number
+  cost_usd: number
+}
+
+export interface AIPlanMargin {
+  plan_type: string
+  name: string
+  revenue_per_letter: number
+  ai_cost_per_letter: number
+  margin: number
+  margin_percent: number
+}
+
+export interface AICostSummary {
+  totals: AICostTotals
+  by_letter_type: AICostByLetterType[]
+  by_month: AICostByMonth[]
+  top_users: AICostConsumer[]     // Letter owners the cost is attributed to
+  top_triggers: AICostConsumer[]  // Users and admins who triggered the calls
+}
+
+/**
+ * Record one successful AI call
+ * Failures are logged and swallowed so accounting never blocks generation
+ */
+export async function recordAIUsage(context: AIUsageContext, generation: GeneratedText): Promise<void> {
+  try {
+    const supabase = await createClient()
+
+    const { error } = await supabase.rpc('record_ai_usage', {
+      p_operation: context.operation,
+      p_provider: generation.provider,
+      p_model: generation.model,
+      p_input_tokens: generation.usage.inputTokens,
+      p_output_tokens: generation.usage.outputTokens,
+      p_latency_ms: generation.duration,
+      p_estimated_cost_usd: generation.costUsd,
+      p_letter_id: context.letterId ?? null,
+      p_user_id: context.userId ?? null,
+      p_metadata: { attempts: generation.attempts },
+    })
+
+    if (error) {
+      console.error('[AIUsage] Failed to record usage:', error)
+    }
+  } catch (error) {
+    console.error('[AIUsage] Failed to record usage:', error)
+  }
+}
+
+/**
+ * Aggregated AI cost over the last `daysBack` days (admin only)
+ */
+export async function getAICostSummary(daysBack: number): Promise<AICostSummary | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.rpc('get_ai_cost_summary', { days_back: daysBack })
+
+  if (error) {
+    console.error('[AIUsage] Failed to load cost summary:', error)
+    return null
+  }
+
+  return data as AICostSummary
+}
@@ -0,0 +1,225 @@
+/**
+ * Per-attorney productivity and quality metrics
+ * Built from each attorney's approval and rejection decisions in a date range
+ * (see get_attorney_review_decisions): review timing, approval ratio, how much
+ * they edit the AI draft, revision requests their approvals drew, and the
+ * ratings subscribers gave them.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { LETTER_TYPES } from '@/lib/constants'
+import { diffWords, getDiffStats } from '@/lib/utils/text-diff'
+
+export const DEFAULT_METRICS_DAYS = 30
+const MAX_METRICS_DAYS = 366
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+export interface AttorneyMetricsFilters {
+  start: string
+  end: string
+  letterType: string | null
+}
+
+export interface AttorneyMetrics {
+  attorney_id: string
+  full_name: string | null
+  email: string | null
+  letters_reviewed: number
+  approved: number
+  rejected: number
+  approval_rate: number
+  median_first_action_hours: number | null
+  median_approval_hours: number | null
+  /** Words added plus words removed, per approved letter */
+  avg_words_changed: number | null
+  /** Words changed as a share of the AI draft's length, per approved letter */
+  avg_edit_percent: number | null
+  revision_requests: number
+  rating_count: number
+  avg_rating: number | null
+}
+
+interface ReviewDecisionRow {
+  letter_id: string
+  letter_type: string | null
+  attorney_id: string
+  decision: 'approved' | 'rejected'
+  decided_at: string
+  review_started_at: string | null
+  first_action_at: string | null
+  revision_requests: number
+  ai_draft_content: string | null
+  final_content: string | null
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+}
+
+function hoursBetween(from: string | null, to: string | null): number | null {
+  if (!from || !to) return null
+  return Math.max(new Date(to).getTime() - new Date(from).getTime(), 0) / HOUR_MS
+}
+
+/**
+ * Read the date range (YYYY-MM-DD, `to` inclusive) and letter type from the
+ * query string, defaulting to the last DEFAULT_METRICS_DAYS days
+ */
+export function resolveAttorneyMetricsFilters(
+  searchParams: URLSearchParams
+): { filters: AttorneyMetricsFilters } | { error: string } {
+  const from = searchParams.get('from')
+  const to = searchParams.get('to')
+  const letterType = searchParams.get('letterType') || null
+
+  const end = to ? new Date(`${to}T00:00:00.000Z`).getTime() + DAY_MS : Date.now()
+  const start = from ? new Date(`${from}T00:00:00.000Z`).getTime() : end - DEFAULT_METRICS_DAYS * DAY_MS
+
+  if (Number.isNaN(start) || Number.isNaN(end)) {
+    return { error: 'Dates must be in YYYY-MM-DD format' }
+  }
+  if (start >= end) {
+    return { error: 'The start date must be before the end date' }
+  }
+  if (end - start > MAX_METRICS_DAYS * DAY_MS) {
+    return { error: `The date range cannot exceed ${MAX_METRICS_DAYS} days` }
+  }
+  if (letterType && !LETTER_TYPES.some(type => type.value === letterType)) {
+    return { error: `Unknown letter type: ${letterType}` }
+  }
+
+  return {
+    filters: {
+      start: new Date(start).toISOString(),
+      end: new Date(end).toISOString(),
+      letterType,
+    },
+  }
+}
+
+/**
+ * Metrics for every attorney with a decision or rating in the range, busiest first
+ */
+export async function getAttorneyMetrics(filters: AttorneyMetricsFilters): Promise<AttorneyMetrics[]> {
+  const supabase = await createClient()
+
+  let ratingsQuery = supabase
+    .from('letter_ratings')
+    .select('attorney_id, rating, letters!inner(letter_type)')
+    .not('attorney_id', 'is', null)
+    .gte('created_at', filters.start)
+    .lt('created_at', filters.end)
+
+  if (filters.letterType) {
+    ratingsQuery = ratingsQuery.eq('letters.letter_type', filters.letterType)
+  }
+
+  const [{ data: decisions, error }, { data: ratings, error: ratingsError }] = await Promise.all([
+    supabase.rpc('get_attorney_review_decisions', {
+      p_start: filters.start,
+      p_end: filters.end,
+      p_letter_type: filters.letterType,
+    }),
+    ratingsQuery,
+  ])
+
+  if (error) throw error
+  if (ratingsError) {
+    console.error('[AttorneyMetrics] Failed to load ratings:', ratingsError)
+  }
+
+  const rows = (decisions || []) as ReviewDecisionRow[]
+  const ratingsByAttorney = new Map<string, number[]>()
+  for (const rating of ratings || []) {
+    ratingsByAttorney.set(rating.attorney_id!, [...(ratingsByAttorney.get(rating.attorney_id!) || []), rating.rating])
+  }
+
+  const attorneyIds = [...new Set([...rows.map(row => row.attorney_id), ...ratingsByAttorney.keys()])]
+  if (attorneyIds.length === 0) return []
+
+  const { data: profiles } = await supabase
+    .from('profiles')
+    .select('id, full_name, email')
+    .in('id', attorneyIds)
+
+  return attorneyIds
+    .map(attorneyId => {
+      const attorneyRows = rows.filter(row => row.attorney_id === attorneyId)
+      const approvals = attorneyRows.filter(row => row.decision === 'approved')
+      const profile = (profiles || []).find(row => row.id === attorneyId)
+      const attorneyRatings = ratingsByAttorney.get(attorneyId) || []
+
+      const edits = approvals
+        .filter(row => row.ai_draft_content && row.final_content)
+        .map(row => {
+          const stats = getDiffStats(diffWords(row.ai_draft_content!, row.final_content!))
+          const changed = stats.insertedWords + stats.deletedWords
+          const draftWords = stats.deletedWords + stats.unchangedWords
+          return { changed, percent: draftWords > 0 ? (changed / draftWords) * 100 : 0 }
+        })
+
+      return {
+        attorney_id: attorneyId,
+        full_name: profile?.full_name ?? null,
+        email: profile?.email ?? null,
+        letters_reviewed: new Set(attorneyRows.map(row => row.letter_id)).size,
+        approved: approvals.length,
+        rejected: attorneyRows.length - approvals.length,
+        approval_rate: attorneyRows.length > 0 ? (approvals.length / attorneyRows.length) * 100 : 0,
+        median_first_action_hours: median(
+          attorneyRows
+            .map(row => hoursBetween(row.review_started_at, row.first_action_at))
+            .filter((hours): hours is number => hours !== null)
+        ),
+        median_approval_hours: median(
+          approvals
+            .map(row => hoursBetween(row.review_started_at, row.decided_at))
+            .filter((hours): hours is number => hours !== null)
+        ),
+        avg_words_changed: average(edits.map(edit => edit.changed)),
+        avg_edit_percent: average(edits.map(edit => edit.percent)),
+        revision_requests: approvals.reduce((sum, row) => sum + Number(row.revision_requests || 0), 0),
+        rating_count: attorneyRatings.length,
+        avg_rating: average(attorneyRatings),
+      }
+    })
+    .sort((a, b) => b.letters_reviewed - a.letters_reviewed)
+}
+
+const CSV_COLUMNS: Array<{ header: string; value: (row: AttorneyMetrics) => string | number | null }> = [
+  { header: 'Attorney', value: row => row.full_name },
+  { header: 'Email', value: row => row.email },
+  { header: 'Letters reviewed', value: row => row.letters_reviewed },
+  { header: 'Approved', value: row => row.approved },
+  { header: 'Rejected', value: row => row.rejected },
+  { header: 'Approval rate (%)', value: row => row.approval_rate.toFixed(1) },
+  { header: 'Median hours to first action', value: row => row.median_first_action_hours?.toFixed(1) ?? null },
+  { header: 'Median hours to approval', value: row => row.median_approval_hours?.toFixed(1) ?? null },
+  { header: 'Avg words changed', value: row => row.avg_words_changed?.toFixed(0) ?? null },
+  { header: 'Avg draft edited (%)', value: row => row.avg_edit_percent?.toFixed(1) ?? null },
+  { header: 'Revision requests', value: row => row.revision_requests },
+  { header: 'Ratings', value: row => row.rating_count },
+  { header: 'Avg rating', value: row => row.avg_rating?.toFixed(2) ?? null },
+]
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return ''
+  // Keep spreadsheet apps from evaluating names as formulas
+  const text = typeof value === 'string' && /^[=+\-@]/.test(value) ? `'${value}` : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function attorneyMetricsToCsv(rows: AttorneyMetrics[]): string {
+  return [
+    CSV_COLUMNS.map(column => csvCell(column.header)).join(','),
+    ...rows.map(row => CSV_COLUMNS.map(column => csvCell(column.value(row))).join(',')),
+  ].join('\r\n')
+}
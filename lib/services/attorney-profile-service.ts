@@ -0,0 +1,243 @@
+/**
+ * Attorney licensing profiles
+ * Each attorney admin has a profile with their bar admissions per state,
+ * practice areas (letter types), signature and active status. Review routing
+ * only assigns letters to active attorneys admitted in the letter's governing
+ * state (see can_review_in_state), and approved letter PDFs carry the reviewing
+ * attorney's block.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { sanitizeString } from '@/lib/security/input-sanitizer'
+import { LETTER_TYPES } from '@/lib/constants'
+import { US_STATES } from '@/lib/jurisdiction/states'
+import type { AttorneyBarAdmission, AttorneyProfile } from '@/lib/database.types'
+import type { LetterParties } from '@/lib/pdf/types'
+
+export const SIGNATURES_BUCKET = 'attorney-signatures'
+export const MAX_SIGNATURE_SIZE = 1024 * 1024 // 1MB
+export const ALLOWED_SIGNATURE_TYPES = ['image/png', 'image/jpeg']
+
+export interface AttorneyDirectoryEntry {
+  id: string
+  full_name: string | null
+  email: string
+  profile: (AttorneyProfile & { admissions: AttorneyBarAdmission[] }) | null
+}
+
+export interface AttorneyProfileInput {
+  firmName: string | null
+  practiceAreas: string[]
+  isActive: boolean
+  admissions: { state: string; barNumber: string; isActive: boolean }[]
+}
+
+/**
+ * Every attorney admin with their profile and admissions, by name
+ */
+export async function listAttorneyProfiles(): Promise<AttorneyDirectoryEntry[]> {
+  const supabase = await createClient()
+
+  const { data: attorneys, error } = await supabase
+    .from('profiles')
+    .select('id, full_name, email')
+    .eq('role', 'admin')
+    .eq('admin_sub_role', 'attorney_admin')
+    .order('full_name', { ascending: true })
+
+  if (error) {
+    console.error('[AttorneyProfiles] Failed to load attorneys:', error)
+    return []
+  }
+
+  const ids = (attorneys || []).map(attorney => attorney.id)
+  if (ids.length === 0) return []
+
+  const [{ data: profiles }, { data: admissions }] = await Promise.all([
+    supabase.from('attorney_profiles').select('*').in('id', ids),
+    supabase.from('attorney_bar_admissions').select('*').in('attorney_id', ids).order('state', { ascending: true }),
+  ])
+
+  return (attorneys || []).map(attorney => {
+    const profile = (profiles || []).find(row => row.id === attorney.id) as AttorneyProfile | undefined
+    return {
+      ...attorney,
+      profile: profile
+        ? {
+          ...profile,
+          admissions: ((admissions || []) as AttorneyBarAdmission[]).filter(row => row.attorney_id === attorney.id),
+        }
+        : null,
+    }
+  })
+}
+
+/**
+ * Validate a profile update from the admin UI
+ */
+export function resolveAttorneyProfileInput(body: unknown): { input: AttorneyProfileInput } | { error: string } {
+  const raw = (body || {}) as Record<string, unknown>
+
+  const practiceAreas = Array.isArray(raw.practiceAreas) ? [...new Set(raw.practiceAreas)] : []
+  const invalidArea = practiceAreas.find(area => !LETTER_TYPES.some(type => type.value === area))
+  if (invalidArea !== undefined) {
+    return { error: `Unknown practice area: ${String(invalidArea)}` }
+  }
+
+  const rawAdmissions = Array.isArray(raw.admissions) ? raw.admissions : []
+  const admissions: AttorneyProfileInput['admissions'] = []
+
+  for (const entry of rawAdmissions as Record<string, unknown>[]) {
+    const state = typeof entry?.state === 'string' ? entry.state.toUpperCase() : ''
+    const barNumber = sanitizeString(entry?.barNumber, 50)
+
+    if (!US_STATES.some(usState => usState.code === state)) {
+      return { error: `Unknown state: ${state || 'blank'}` }
+    }
+    if (!barNumber) {
+      return { error: `A bar number is required for ${state}` }
+    }
+    if (admissions.some(admission => admission.state === state)) {
+      return { error: `${state} is listed more than once` }
+    }
+
+    admissions.push({ state, barNumber, isActive: entry.isActive !== false })
+  }
+
+  return {
+    input: {
+      firmName: raw.firmName ? sanitizeString(raw.firmName, 200) || null : null,
+      practiceAreas: practiceAreas as string[],
+      isActive: raw.isActive !== false,
+      admissions,
+    },
+  }
+}
+
+/**
+ * Save an attorney's profile and replace their admissions with the given list
+ */
+export async function saveAttorneyProfile(attorneyId: string, input: AttorneyProfileInput): Promise<void> {
+  const supabase = await createClient()
+
+  const { error: profileError } = await supabase
+    .from('attorney_profiles')
+    .upsert({
+      id: attorneyId,
+      firm_name: input.firmName,
+      practice_areas: input.practiceAreas,
+      is_active: input.isActive,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'id' })
+
+  if (profileError) throw profileError
+
+  const states = input.admissions.map(admission => admission.state)
+  let removal = supabase.from('attorney_bar_admissions').delete().eq('attorney_id', attorneyId)
+  if (states.length > 0) {
+    removal = removal.not('state', 'in', `(${states.join(',')})`)
+  }
+
+  const { error: removeError } = await removal
+  if (removeError) throw removeError
+
+  if (input.admissions.length === 0) return
+
+  const { error: admissionsError } = await supabase
+    .from('attorney_bar_admissions')
+    .upsert(input.admissions.map(admission => ({
+      attorney_id: attorneyId,
+      state: admission.state,
+      bar_number: admission.barNumber,
+      is_active: admission.isActive,
+    })), { onConflict: 'attorney_id,state' })
+
+  if (admissionsError) throw admissionsError
+}
+
+/**
+ * Store a new signature image for the attorney, replacing any previous one
+ * Returns null when the attorney has no profile yet.
+ */
+export async function uploadAttorneySignature(attorneyId: string, file: File): Promise<string | null> {
+  const supabase = await createClient()
+  const extension = file.type === 'image/png' ? 'png' : 'jpg'
+  const storagePath = `${attorneyId}/signature-${Date.now()}.${extension}`
+
+  const { data: existing } = await supabase
+    .from('attorney_profiles')
+    .select('signature_path')
+    .eq('id', attorneyId)
+    .maybeSingle()
+
+  if (!existing) return null
+
+  const { error: uploadError } = await supabase.storage
+    .from(SIGNATURES_BUCKET)
+    .upload(storagePath, Buffer.from(await file.arrayBuffer()), { contentType: file.type, upsert: false })
+
+  if (uploadError) throw uploadError
+
+  const { error: updateError } = await supabase
+    .from('attorney_profiles')
+    .update({ signature_path: storagePath, updated_at: new Date().toISOString() })
+    .eq('id', attorneyId)
+
+  if (updateError) {
+    await supabase.storage.from(SIGNATURES_BUCKET).remove([storagePath])
+    throw updateError
+  }
+
+  if (existing.signature_path) {
+    await supabase.storage.from(SIGNATURES_BUCKET).remove([existing.signature_path])
+  }
+
+  return storagePath
+}
+
+/**
+ * Attorney block for a letter PDF: name, firm, the bar number for the letter's
+ * governing state (or the first active admission) and the signature image.
+ * Uses the service role because subscribers download their own PDFs.
+ */
+export async function loadAttorneyParty(
+  attorneyId: string | null,
+  governingState: string | null
+): Promise<LetterParties['attorney'] | undefined> {
+  if (!attorneyId) return undefined
+
+  try {
+    const supabase = createServiceClient()
+
+    const [{ data: person }, { data: profile }, { data: admissions }] = await Promise.all([
+      supabase.from('profiles').select('full_name').eq('id', attorneyId).single(),
+      supabase.from('attorney_profiles').select('firm_name, signature_path').eq('id', attorneyId).maybeSingle(),
+      supabase.from('attorney_bar_admissions').select('state, bar_number').eq('attorney_id', attorneyId).eq('is_active', true).order('state'),
+    ])
+
+    if (!person?.full_name || !profile) return undefined
+
+    const admission = (admissions || []).find(row => row.state === governingState) || admissions?.[0]
+
+    let signatureImage: string | undefined
+    if (profile.signature_path) {
+      const { data: signature } = await supabase.storage.from(SIGNATURES_BUCKET).download(profile.signature_path)
+      if (signature) {
+        const base64 = Buffer.from(await signature.arrayBuffer()).toString('base64')
+        signatureImage = `data:${signature.type || 'image/png'};base64,${base64}`
+      }
+    }
+
+    return {
+      name: person.full_name,
+      firmName: profile.firm_name || undefined,
+      barNumber: admission?.bar_number,
+      barState: admission?.state,
+      signatureImage,
+    }
+  } catch (error) {
+    console.error('[AttorneyProfiles] Failed to load attorney block:', error)
+    return undefined
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Conflict-of-interest checks
+ * Party names and emails from every letter's intake (and subscriber profiles)
+ * are normalized into letter_parties by trigger. Before approving, the
+ * reviewing attorney's check is re-run: hard conflicts block approval, and
+ * potential conflicts must be acknowledged, which is recorded in the letter's
+ * audit trail. An acknowledgment stored on the letter only counts while the
+ * attorney's matching audit entry exists.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import {
+  classifyPartyMatches,
+  describeApprovalBlock,
+  type ConflictAcknowledgment,
+  type ConflictCheckResult,
+  type PartyMatch,
+} from '@/lib/admin/conflict-check'
+
+export const MIN_MATCH_SIMILARITY = 0.6
+export const MAX_ACKNOWLEDGMENT_NOTES_LENGTH = 2000
+
+/**
+ * The attorney's stored acknowledgment, if their latest conflict_acknowledged
+ * audit entry on the letter covers every conflict it lists
+ */
+async function getVerifiedAcknowledgment(
+  letterId: string,
+  attorneyId: string,
+  acknowledgment: ConflictAcknowledgment | null | undefined
+): Promise<ConflictAcknowledgment | null> {
+  if (!acknowledgment || acknowledgment.attorneyId !== attorneyId) return null
+
+  const supabase = await createClient()
+
+  const { data: entry } = await supabase
+    .from('letter_audit_trail')
+    .select('metadata')
+    .eq('letter_id', letterId)
+    .eq('action', 'conflict_acknowledged')
+    .eq('performed_by', attorneyId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const audited = new Set(
+    ((entry?.metadata as { conflicts?: { id: string }[] } | null)?.conflicts || []).map(conflict => conflict.id)
+  )
+
+  return acknowledgment.conflictIds.every(id => audited.has(id)) ? acknowledgment : null
+}
+
+/**
+ * Check the letter's parties for the given attorney and store the result on
+ * the letter, keeping the attorney's earlier acknowledgment
+ */
+export async function runConflictCheck(letterId: string, attorneyId: string): Promise<ConflictCheckResult> {
+  const supabase = await createClient()
+
+  const [{ data: matches, error }, { data: letter }] = await Promise.all([
+    supabase.rpc('find_party_matches', { p_letter_id: letterId, p_min_similarity: MIN_MATCH_SIMILARITY }),
+    supabase.from('letters').select('conflict_check').eq('id', letterId).single(),
+  ])
+
+  if (error) throw error
+
+  const previous = letter?.conflict_check as ConflictCheckResult | null
+  const result: ConflictCheckResult = {
+    checkedAt: new Date().toISOString(),
+    attorneyId,
+    conflicts: classifyPartyMatches((matches || []) as PartyMatch[], attorneyId),
+    acknowledgment: await getVerifiedAcknowledgment(letterId, attorneyId, previous?.acknowledgment),
+  }
+
+  const { error: updateError } = await supabase
+    .from('letters')
+    .update({ conflict_check: result })
+    .eq('id', letterId)
+
+  if (updateError) {
+    console.error('[ConflictCheck] Failed to store conflict check:', updateError)
+  }
+
+  return result
+}
+
+/**
+ * Record the attorney's acknowledgment of every potential conflict currently
+ * found on the letter. Refused (returns an error) while a hard conflict exists.
+ */
+export async function acknowledgeConflicts(
+  letterId: string,
+  attorneyId: string,
+  notes: string
+): Promise<{ check: ConflictCheckResult; error?: undefined } | { check?: undefined; error: string }> {
+  const check = await runConflictCheck(letterId, attorneyId)
+
+  if (check.conflicts.some(conflict => conflict.hard)) {
+    return { error: describeApprovalBlock(check)! }
+  }
+  if (check.conflicts.length === 0) {
+    return { error: 'There are no conflicts to acknowledge' }
+  }
+
+  const acknowledged: ConflictCheckResult = {
+    ...check,
+    acknowledgment: {
+      attorneyId,
+      acknowledgedAt: new Date().toISOString(),
+      notes,
+      conflictIds: check.conflicts.map(conflict => conflict.id),
+    },
+  }
+
+  const supabase = await createClient()
+
+  const { data: letter, error: letterError } = await supabase
+    .from('letters')
+    .select('status')
+    .eq('id', letterId)
+    .single()
+
+  if (letterError) throw letterError
+
+  // The audit entry is what makes the stored acknowledgment count, so write it first
+  const { error: auditError } = await supabase.rpc('log_letter_audit', {
+    p_letter_id: letterId,
+    p_action: 'conflict_acknowledged',
+    p_old_status: letter.status,
+    p_new_status: letter.status,
+    p_notes: notes,
+    p_metadata: {
+      conflicts: check.conflicts.map(conflict => ({
+        id: conflict.id,
+        kind: conflict.kind,
+        confidence: conflict.confidence,
+        party: conflict.partyName,
+        matched: conflict.matchedName,
+      })),
+    },
+  })
+
+  if (auditError) throw auditError
+
+  const { error } = await supabase
+    .from('letters')
+    .update({ conflict_check: acknowledged })
+    .eq('id', letterId)
+
+  if (error) throw error
+
+  return { check: acknowledged }
+}
+
+/**
+ * Why the attorney may not approve the letter, or null if they may
+ */
+export async function getApprovalBlock(letterId: string, attorneyId: string | undefined): Promise<string | null> {
+  if (!attorneyId) return null
+
+  const check = await runConflictCheck(letterId, attorneyId)
+  return describeApprovalBlock(check)
+}
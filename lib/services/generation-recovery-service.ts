@@ -0,0 +1,493 @@
+/**
+ * Stuck letter generation recovery
+ * /api/generate-letter inserts the letter as 'generating' and only updates it
+ * once the draft is saved, so a server that dies in between leaves the letter
+ * generating forever with the user's credit spent. The recovery job picks these
+ * letters up, regenerates the draft from the stored intake, and once its
+ * attempts are used up marks the letter failed and refunds the credit. Each run
+ * is recorded for the health dashboard.
+ *
+ * Letters owned by a live workflow run are left to the workflow, which pauses
+ * on failed steps for the workflow operations console.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { generateTextWithRetry, buildDraftMetadata } from '@/lib/ai/openai-retry'
+import { hasConfiguredAIProvider } from '@/lib/ai/providers'
+import { enforceDraftQuality, type DraftQualityGateResult } from '@/lib/ai/draft-quality-gate'
+import { DRAFT_SYSTEM_PROMPT, buildLetterPrompt } from '@/lib/ai/letter-prompt'
+import type { AIUsageContext } from '@/lib/services/ai-usage-service'
+import { refundLetterAllowance } from '@/lib/services/allowance-service'
+import { recordLetterVersion } from '@/lib/services/letter-version-service'
+import { getAttachmentEvidence } from '@/lib/attachments/service'
+import type { JurisdictionRuleSet } from '@/lib/jurisdiction'
+import { queueTemplateEmail } from '@/lib/email/service'
+import {
+  redactIntakeData,
+  redactEvidence,
+  rehydrateText,
+  formatRedactionInstructions,
+} from '@/lib/security/pii-redaction'
+
+export type RecoveryOutcome = 'regenerated' | 'retrying' | 'failed' | 'skipped'
+
+export interface RecoverySettings {
+  stuckMinutes: number  // Time in generating before a letter counts as stuck
+  maxAttempts: number  // Regenerations tried before the letter is failed
+  batchSize: number  // Letters handled per run, to stay within the cron time limit
+}
+
+export interface RecoveredLetter {
+  letter_id: string
+  outcome: RecoveryOutcome
+  attempt: number
+  refunded: boolean
+  notified: boolean
+  error: string | null
+}
+
+export interface GenerationRecoveryRun {
+  id: string | null
+  started_at: string
+  finished_at: string | null
+  stuck_found: number
+  regenerated: number
+  failed: number
+  refunded: number
+  notified: number
+  letters: RecoveredLetter[]
+  error: string | null
+}
+
+interface StuckLetter {
+  id: string
+  user_id: string
+  title: string | null
+  letter_type: string
+  intake_data: Record<string, unknown> | null
+  jurisdiction_rules: JurisdictionRuleSet | null
+  allowance_deducted: boolean | null
+  recovery_attempts: number
+  updated_at: string
+  profiles: { email: string | null; full_name: string | null } | null
+}
+
+const DEFAULT_SETTINGS: RecoverySettings = {
+  stuckMinutes: 15,
+  maxAttempts: 1,
+  batchSize: 3,
+}
+
+// Letters with no workflow run, or whose run has ended. Only letters the server
+// created (allowance_deducted set) are picked up at all.
+const UNMANAGED_BY_WORKFLOW = 'workflow_status.is.null,workflow_status.in.(completed,failed,cancelled)'
+
+function readPositiveInt(value: string | undefined, fallback: number, allowZero = false): number {
+  const parsed = Number.parseInt(value ?? '', 10)
+  if (!Number.isFinite(parsed) || parsed < (allowZero ? 0 : 1)) return fallback
+  return parsed
+}
+
+/**
+ * Recovery settings from GENERATION_STUCK_MINUTES, GENERATION_RECOVERY_MAX_ATTEMPTS
+ * and GENERATION_RECOVERY_BATCH_SIZE, falling back to the defaults when unset or invalid
+ */
+export function resolveRecoverySettings(env: Record<string, string | undefined> = process.env): RecoverySettings {
+  return {
+    stuckMinutes: readPositiveInt(env.GENERATION_STUCK_MINUTES, DEFAULT_SETTINGS.stuckMinutes),
+    maxAttempts: readPositiveInt(env.GENERATION_RECOVERY_MAX_ATTEMPTS, DEFAULT_SETTINGS.maxAttempts, true),
+    batchSize: readPositiveInt(env.GENERATION_RECOVERY_BATCH_SIZE, DEFAULT_SETTINGS.batchSize),
+  }
+}
+
+async function logRecoveryAudit(
+  supabase: SupabaseClient,
+  letterId: string,
+  action: string,
+  newStatus: string,
+  notes: string
+) {
+  const { error } = await supabase.rpc('log_letter_audit', {
+    p_letter_id: letterId,
+    p_action: action,
+    p_old_status: 'generating',
+    p_new_status: newStatus,
+    p_notes: notes,
+  })
+
+  if (error) {
+    console.error('[GenerationRecovery] Failed to log audit:', error)
+  }
+}
+
+/**
+ * Take the letter for this run. Bumping the attempt count only if it is
+ * unchanged keeps overlapping runs, or a request that finishes late, from
+ * handling the same letter twice.
+ */
+async function claimLetter(supabase: SupabaseClient, letter: StuckLetter): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('letters')
+    .update({
+      recovery_attempts: letter.recovery_attempts + 1,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', letter.id)
+    .eq('status', 'generating')
+    .eq('recovery_attempts', letter.recovery_attempts)
+    .select('id')
+
+  if (error) {
+    console.error(`[GenerationRecovery] Failed to claim letter ${letter.id}:`, error)
+    return false
+  }
+
+  return (data || []).length > 0
+}
+
+async function regenerateDraft(supabase: SupabaseClient, letter: StuckLetter): Promise<DraftQualityGateResult> {
+  if (!hasConfiguredAIProvider()) {
+    throw new Error('No AI provider is configured')
+  }
+
+  const intakeData = letter.intake_data || {}
+  const attachmentIds = Array.isArray(intakeData.attachments) ? (intakeData.attachments as string[]) : []
+  const evidence = await getAttachmentEvidence(letter.user_id, attachmentIds, supabase)
+
+  const redaction = redactIntakeData(intakeData)
+  const prompt = buildLetterPrompt(
+    letter.letter_type,
+    redaction.intakeData,
+    redactEvidence(evidence, redaction),
+    letter.jurisdiction_rules,
+    formatRedactionInstructions(redaction)
+  )
+  const tracking: AIUsageContext = { operation: 'draft', letterId: letter.id, userId: letter.user_id }
+
+  const redactedGeneration = await generateTextWithRetry({
+    prompt,
+    system: DRAFT_SYSTEM_PROMPT,
+    temperature: 0.7,
+    maxOutputTokens: 2048,
+    model: 'gpt-4-turbo',
+    tracking,
+  })
+  const generation = { ...redactedGeneration, text: rehydrateText(redactedGeneration.text, redaction) }
+
+  if (!generation.text.trim()) {
+    throw new Error('AI returned empty content')
+  }
+
+  return enforceDraftQuality({
+    generation,
+    intakeData,
+    prompt,
+    system: DRAFT_SYSTEM_PROMPT,
+    model: 'gpt-4-turbo',
+    tracking,
+    redaction,
+  })
+}
+
+/**
+ * Save the regenerated draft and hand the letter to review, unless the
+ * original request finished while the draft was being regenerated
+ */
+async function completeRecoveredLetter(
+  supabase: SupabaseClient,
+  letter: StuckLetter,
+  { generation, report }: DraftQualityGateResult,
+  attempt: number
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('letters')
+    .update({
+      ai_draft_content: generation.text,
+      draft_metadata: buildDraftMetadata(generation),
+      quality_report: report,
+      status: 'pending_review',
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', letter.id)
+    .eq('status', 'generating')
+    .select('id')
+
+  if (error) throw error
+  if ((data || []).length === 0) return false
+
+  await recordLetterVersion(letter.id, 'ai_draft', generation.text, {
+    metadata: { provider: generation.provider, model: generation.model, recovered: true },
+    client: supabase,
+  })
+
+  await logRecoveryAudit(
+    supabase,
+    letter.id,
+    'generation_recovered',
+    'pending_review',
+    `Letter was stuck generating; draft regenerated by the recovery job (attempt ${attempt})`
+  )
+
+  return true
+}
+
+/**
+ * Fail the letter and return its credit, unless it left generating meanwhile
+ */
+async function failStuckLetter(
+  supabase: SupabaseClient,
+  letter: StuckLetter,
+  reason: string
+): Promise<{ failed: boolean; refunded: boolean }> {
+  const { data, error } = await supabase
+    .from('letters')
+    .update({ status: 'failed', updated_at: new Date().toISOString() })
+    .eq('id', letter.id)
+    .eq('status', 'generating')
+    .select('id')
+
+  if (error) throw error
+  if ((data || []).length === 0) return { failed: false, refunded: false }
+
+  let refunded = false
+  if (letter.allowance_deducted) {
+    const refund = await refundLetterAllowance(letter.user_id, 1)
+    refunded = refund.success
+    if (!refund.success) {
+      console.error(`[GenerationRecovery] Refund failed for letter ${letter.id}:`, refund.error)
+    }
+  }
+
+  await logRecoveryAudit(
+    supabase,
+    letter.id,
+    'generation_failed',
+    'failed',
+    `Letter was stuck generating and could not be recovered: ${reason}.${refunded ? ' Letter credit refunded.' : ''}`
+  )
+
+  return { failed: true, refunded }
+}
+
+async function notifyUser(letter: StuckLetter, outcome: 'regenerated' | 'failed', refunded: boolean): Promise<boolean> {
+  const email = letter.profiles?.email
+  if (!email) return false
+
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+
+  try {
+    await queueTemplateEmail(outcome === 'regenerated' ? 'letter-generated' : 'letter-generation-failed', email, {
+      userName: letter.profiles?.full_name || undefined,
+      letterTitle: letter.title || 'Legal Letter',
+      creditRefunded: refunded,
+      actionUrl: outcome === 'regenerated'
+        ? `${siteUrl}/dashboard/letters/${letter.id}`
+        : `${siteUrl}/dashboard/letters/new`,
+    })
+    return true
+  } catch (error) {
+    console.error(`[GenerationRecovery] Failed to notify user of letter ${letter.id}:`, error)
+    return false
+  }
+}
+
+async function notifyAdmins(supabase: SupabaseClient, letter: StuckLetter) {
+  const { data: admins } = await supabase
+    .from('profiles')
+    .select('email')
+    .eq('role', 'admin')
+
+  const adminEmails = (admins || []).map(admin => admin.email).filter(Boolean) as string[]
+  if (adminEmails.length === 0) return
+
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+
+  queueTemplateEmail('admin-alert', adminEmails, {
+    alertMessage: `New letter "${letter.title}" requires review. Letter type: ${letter.letter_type}. The draft was regenerated by the recovery job after the original generation stalled.`,
+    actionUrl: `${siteUrl}/secure-admin-gateway/review/${letter.id}`,
+    pendingReviews: 1,
+  }).catch(error => {
+    console.error('[GenerationRecovery] Failed to queue admin notification:', error)
+  })
+}
+
+async function recoverLetter(
+  supabase: SupabaseClient,
+  letter: StuckLetter,
+  settings: RecoverySettings
+): Promise<RecoveredLetter> {
+  const attempt = letter.recovery_attempts + 1
+  const result: RecoveredLetter = {
+    letter_id: letter.id,
+    outcome: 'skipped',
+    attempt,
+    refunded: false,
+    notified: false,
+    error: null,
+  }
+
+  if (!(await claimLetter(supabase, letter))) {
+    return result
+  }
+
+  let failureReason = `${settings.maxAttempts} regeneration attempt(s) used up`
+
+  if (attempt <= settings.maxAttempts) {
+    try {
+      const draft = await regenerateDraft(supabase, letter)
+      if (await completeRecoveredLetter(supabase, letter, draft, attempt)) {
+        result.outcome = 'regenerated'
+        result.notified = await notifyUser(letter, 'regenerated', false)
+        await notifyAdmins(supabase, letter)
+      }
+      return result
+    } catch (error) {
+      failureReason = error instanceof Error ? error.message : 'Regeneration failed'
+      result.error = failureReason
+      console.error(`[GenerationRecovery] Regeneration failed for letter ${letter.id}:`, error)
+
+      // Leave the letter for the next run while attempts remain
+      if (attempt < settings.maxAttempts) {
+        result.outcome = 'retrying'
+        return result
+      }
+    }
+  }
+
+  const { failed, refunded } = await failStuckLetter(supabase, letter, failureReason)
+  if (failed) {
+    result.outcome = 'failed'
+    result.refunded = refunded
+    result.notified = await notifyUser(letter, 'failed', refunded)
+  }
+
+  return result
+}
+
+async function saveRecoveryRun(supabase: SupabaseClient, run: GenerationRecoveryRun): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('letter_recovery_runs')
+    .insert({
+      started_at: run.started_at,
+      finished_at: run.finished_at,
+      stuck_found: run.stuck_found,
+      regenerated: run.regenerated,
+      failed: run.failed,
+      refunded: run.refunded,
+      notified: run.notified,
+      letters: run.letters,
+      error: run.error,
+    })
+    .select('id')
+    .single()
+
+  if (error) {
+    console.error('[GenerationRecovery] Failed to record run:', error)
+    return null
+  }
+
+  return data.id
+}
+
+/**
+ * Regenerate or fail letters stuck in generating, and record what was done
+ */
+export async function runGenerationRecovery(
+  settings: RecoverySettings = resolveRecoverySettings()
+): Promise<GenerationRecoveryRun> {
+  const supabase = createServiceClient()
+  const run: GenerationRecoveryRun = {
+    id: null,
+    started_at: new Date().toISOString(),
+    finished_at: null,
+    stuck_found: 0,
+    regenerated: 0,
+    failed: 0,
+    refunded: 0,
+    notified: 0,
+    letters: [],
+    error: null,
+  }
+
+  try {
+    const cutoff = new Date(Date.now() - settings.stuckMinutes * 60 * 1000).toISOString()
+
+    const { data, error } = await supabase
+      .from('letters')
+      .select(`
+        id,
+        user_id,
+        title,
+        letter_type,
+        intake_data,
+        jurisdiction_rules,
+        allowance_deducted,
+        recovery_attempts,
+        updated_at,
+        profiles!user_id (email, full_name)
+      `)
+      .eq('status', 'generating')
+      .lt('updated_at', cutoff)
+      .not('allowance_deducted', 'is', null)
+      .or(UNMANAGED_BY_WORKFLOW)
+      .order('updated_at', { ascending: true })
+      .limit(settings.batchSize)
+
+    if (error) throw error
+
+    const letters = (data || []) as unknown as StuckLetter[]
+    run.stuck_found = letters.length
+
+    for (const letter of letters) {
+      const recovered = await recoverLetter(supabase, letter, settings)
+      run.letters.push(recovered)
+      if (recovered.outcome === 'regenerated') run.regenerated++
+      if (recovered.outcome === 'failed') run.failed++
+      if (recovered.refunded) run.refunded++
+      if (recovered.notified) run.notified++
+    }
+  } catch (error) {
+    run.error = error instanceof Error ? error.message : 'Recovery run failed'
+    console.error('[GenerationRecovery] Run failed:', error)
+  }
+
+  run.finished_at = new Date().toISOString()
+  run.id = await saveRecoveryRun(supabase, run)
+  return run
+}
+
+/**
+ * Recent recovery runs and the letters currently stuck, for the health dashboard
+ */
+export async function getGenerationRecoveryStatus(limit: number = 10): Promise<{
+  runs: GenerationRecoveryRun[]
+  stuck_now: number
+}> {
+  const supabase = await createClient()
+  const cutoff = new Date(Date.now() - resolveRecoverySettings().stuckMinutes * 60 * 1000).toISOString()
+
+  const [{ data: runs, error: runsError }, { count, error: countError }] = await Promise.all([
+    supabase
+      .from('letter_recovery_runs')
+      .select('id, started_at, finished_at, stuck_found, regenerated, failed, refunded, notified, letters, error')
+      .order('started_at', { ascending: false })
+      .limit(limit),
+    supabase
+      .from('letters')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'generating')
+      .lt('updated_at', cutoff)
+      .not('allowance_deducted', 'is', null)
+      .or(UNMANAGED_BY_WORKFLOW),
+  ])
+
+  if (runsError) throw runsError
+  if (countError) throw countError
+
+  return {
+    runs: (runs || []) as GenerationRecoveryRun[],
+    stuck_now: count || 0,
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Subscriber revision requests
+ * An approved or completed letter can be sent back for changes a limited number
+ * of times per plan. The letter moves to revision_requested and returns to its
+ * attorney's review queue; approving it again closes the request (see the
+ * letter_revision_requests trigger), and declining it restores the approved
+ * letter.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { queueTemplateEmail } from '@/lib/email/service'
+import { DEFAULT_REVISIONS_PER_LETTER, PLAN_CONFIG } from '@/lib/constants'
+
+export const MAX_REVISION_REQUEST_LENGTH = 4000
+
+export type RevisionRequestStatus = 'open' | 'completed' | 'declined'
+
+export interface LetterRevisionRequest {
+  id: string
+  letter_id: string
+  requested_changes: string
+  previous_status: 'approved' | 'completed'
+  status: RevisionRequestStatus
+  decline_reason: string | null
+  resolved_at: string | null
+  created_at: string
+}
+
+export interface RevisionDeclineResult {
+  declined: boolean
+  reason?: 'no_open_request'
+  revision_request_id?: string
+  status?: 'approved' | 'completed'
+}
+
+export interface RevisionAllowance {
+  limit: number
+  used: number
+  remaining: number
+}
+
+/**
+ * Revision requests on a letter, newest first
+ */
+export async function getLetterRevisionRequests(letterId: string): Promise<LetterRevisionRequest[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('letter_revision_requests')
+    .select('id, letter_id, requested_changes, previous_status, status, decline_reason, resolved_at, created_at')
+    .eq('letter_id', letterId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('[LetterRevisions] Failed to load revision requests:', error)
+    return []
+  }
+
+  return (data || []) as LetterRevisionRequest[]
+}
+
+/**
+ * How many revisions the owner may still request on a letter, based on their
+ * most recent plan
+ */
+export async function getRevisionAllowance(
+  userId: string,
+  requests: LetterRevisionRequest[]
+): Promise<RevisionAllowance> {
+  const supabase = await createClient()
+
+  const { data: subscription } = await supabase
+    .from('subscriptions')
+    .select('plan_type')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const limit = PLAN_CONFIG[subscription?.plan_type ?? '']?.revisionsPerLetter ?? DEFAULT_REVISIONS_PER_LETTER
+  const used = requests.length
+
+  return { limit, used, remaining: Math.max(limit - used, 0) }
+}
+
+/**
+ * Decline the letter's open revision request as the current admin, restoring
+ * the letter's approved status and text
+ */
+export async function declineLetterRevision(letterId: string, reason: string): Promise<RevisionDeclineResult> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.rpc('decline_letter_revision', {
+    p_letter_id: letterId,
+    p_reason: reason,
+  })
+
+  if (error) throw error
+  return data as RevisionDeclineResult
+}
+
+/**
+ * Email the attorney assigned to the letter, or every attorney admin if there
+ * is none. Uses the service role because subscribers cannot read admin profiles.
+ */
+export async function notifyRevisionRequested(letterId: string, changes: string): Promise<void> {
+  try {
+    const supabase = createServiceClient()
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+
+    const { data: letter } = await supabase
+      .from('letters')
+      .select('title, assigned_to')
+      .eq('id', letterId)
+      .single()
+
+    if (!letter) return
+
+    const query = supabase.from('profiles').select('email, full_name, admin_sub_role').eq('role', 'admin')
+    const { data: admins } = letter.assigned_to
+      ? await query.eq('id', letter.assigned_to)
+      : await query.eq('admin_sub_role', 'attorney_admin')
+
+    const recipients = (admins || []).map(admin => admin.email).filter(Boolean) as string[]
+    if (recipients.length === 0) return
+
+    await queueTemplateEmail('letter-revision-requested', recipients, {
+      userName: letter.assigned_to ? admins?.[0]?.full_name || 'there' : 'there',
+      letterTitle: letter.title,
+      revisionChanges: changes,
+      actionUrl: admins?.[0]?.admin_sub_role === 'super_admin'
+        ? `${siteUrl}/secure-admin-gateway/review/${letterId}`
+        : `${siteUrl}/attorney-portal/review/${letterId}`,
+    })
+  } catch (error) {
+    console.error('[LetterRevisions] Failed to send revision notification:', error)
+  }
+}
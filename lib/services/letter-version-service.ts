@@ -0,0 +1,89 @@
+/**
+ * Letter version history service
+ * Appends a snapshot every time letter content changes so reviewers can compare
+ * the AI draft, attorney edits and the approved text
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import type { LetterVersion, LetterVersionSource } from '@/lib/types/letter.types'
+
+export interface RecordLetterVersionOptions {
+  notes?: string
+  metadata?: Record<string, unknown>
+  client?: SupabaseClient  // Service client for jobs and subscriber-side drafts (only admins record with a session)
+}
+
+/**
+ * Record a new version of a letter's content
+ * Failures are logged and swallowed so history never blocks a save
+ */
+export async function recordLetterVersion(
+  letterId: string,
+  source: LetterVersionSource,
+  content: string,
+  options: RecordLetterVersionOptions = {}
+): Promise<LetterVersion | null> {
+  if (!content) return null
+
+  const supabase = options.client ?? await createClient()
+
+  const { data, error } = await supabase.rpc('record_letter_version', {
+    p_letter_id: letterId,
+    p_source: source,
+    p_content: content,
+    p_notes: options.notes ?? null,
+    p_metadata: options.metadata ?? null,
+  })
+
+  if (error) {
+    console.error('[LetterVersions] Failed to record version:', error)
+    return null
+  }
+
+  return data as LetterVersion
+}
+
+/**
+ * All versions of a letter, oldest first
+ */
+export async function getLetterVersions(letterId: string): Promise<LetterVersion[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('letter_versions')
+    .select('*')
+    .eq('letter_id', letterId)
+    .order('version_number', { ascending: true })
+
+  if (error) {
+    console.error('[LetterVersions] Failed to load versions:', error)
+    return []
+  }
+
+  return (data || []) as LetterVersion[]
+}
+
+/**
+ * Single version, scoped to its letter
+ */
+export async function getLetterVersion(
+  letterId: string,
+  versionId: string
+): Promise<LetterVersion | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('letter_versions')
+    .select('*')
+    .eq('id', versionId)
+    .eq('letter_id', letterId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('[LetterVersions] Failed to load version:', error)
+    return null
+  }
+
+  return data as LetterVersion | null
+}
@@ -0,0 +1,166 @@
+/**
+ * Structured rejection reasons
+ * Attorneys reject a letter with one or more managed codes plus optional notes.
+ * The codes' subscriber guidance goes into the rejection email, and every
+ * rejection is kept (see the letter_rejections trigger) so the analytics page
+ * can show why drafts fail per letter type and drafting prompt version.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { sanitizeString } from '@/lib/security/input-sanitizer'
+
+export type RejectionCodeCategory = 'rejection' | 'revision'
+
+export interface RejectionCode {
+  code: string
+  label: string
+  description: string | null
+  user_guidance: string
+  category: RejectionCodeCategory
+  is_active: boolean
+  sort_order: number
+}
+
+export interface RejectionCodeCount {
+  code: string
+  label: string
+  category: RejectionCodeCategory | null
+  count: number
+}
+
+export interface RejectionBreakdownRow {
+  key: string
+  total: number
+  codes: Record<string, number>
+}
+
+export interface RejectionCodeStats {
+  total_codes: number
+  by_code: RejectionCodeCount[]
+  by_letter_type: RejectionBreakdownRow[]
+  by_prompt_version: RejectionBreakdownRow[]
+}
+
+export const MAX_REJECTION_CODES = 8
+export const MAX_REJECTION_NOTES_LENGTH = 1000
+
+const CODE_COLUMNS = 'code, label, description, user_guidance, category, is_active, sort_order'
+
+export async function listRejectionCodes(options: { includeInactive?: boolean } = {}): Promise<RejectionCode[]> {
+  const supabase = await createClient()
+
+  let query = supabase
+    .from('rejection_codes')
+    .select(CODE_COLUMNS)
+    .order('sort_order', { ascending: true })
+    .order('label', { ascending: true })
+
+  if (!options.includeInactive) {
+    query = query.eq('is_active', true)
+  }
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data || []) as RejectionCode[]
+}
+
+/**
+ * Check a submitted list of codes against the active set
+ * Returns the matching codes in display order, or an error message for the client.
+ */
+export async function resolveRejectionCodes(
+  input: unknown
+): Promise<{ codes: RejectionCode[]; error?: undefined } | { codes?: undefined; error: string }> {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { error: 'Select at least one rejection reason' }
+  }
+  if (input.length > MAX_REJECTION_CODES) {
+    return { error: `Select at most ${MAX_REJECTION_CODES} rejection reasons` }
+  }
+  if (input.some(code => typeof code !== 'string')) {
+    return { error: 'Rejection reasons must be codes' }
+  }
+
+  const requested = new Set(input as string[])
+  const active = await listRejectionCodes()
+  const codes = active.filter(code => requested.has(code.code))
+
+  if (codes.length !== requested.size) {
+    const known = new Set(codes.map(code => code.code))
+    const unknown = [...requested].filter(code => !known.has(code))
+    return { error: `Unknown or retired rejection reason: ${unknown.join(', ')}` }
+  }
+
+  return { codes }
+}
+
+/**
+ * The free-text rejection_reason stored alongside the codes: the attorney's
+ * notes when given, otherwise the code labels
+ */
+export function composeRejectionReason(codes: RejectionCode[], notes?: string | null): string {
+  const cleanNotes = notes ? sanitizeString(notes, MAX_REJECTION_NOTES_LENGTH) : ''
+  return cleanNotes || codes.map(code => code.label).join('; ')
+}
+
+/**
+ * Label/guidance pairs for the letter-rejected email
+ */
+export function buildRejectionGuidance(codes: RejectionCode[]): Array<{ label: string; guidance: string }> {
+  return codes.map(code => ({ label: code.label, guidance: code.user_guidance }))
+}
+
+function addToBreakdown(rows: Map<string, RejectionBreakdownRow>, key: string, code: string, count: number) {
+  const row = rows.get(key) ?? { key, total: 0, codes: {} }
+  row.total += count
+  row.codes[code] = (row.codes[code] || 0) + count
+  rows.set(key, row)
+}
+
+/**
+ * Code counts over the last N days, overall and per letter type and prompt version
+ * Returns null if the stats cannot be loaded so the analytics page still renders.
+ */
+export async function getRejectionCodeStats(daysBack: number): Promise<RejectionCodeStats | null> {
+  try {
+    const supabase = await createClient()
+
+    const [{ data: rows, error }, codes] = await Promise.all([
+      supabase.rpc('get_rejection_code_stats', { p_days_back: daysBack }),
+      listRejectionCodes({ includeInactive: true }),
+    ])
+
+    if (error) throw error
+
+    const codeInfo = new Map(codes.map(code => [code.code, code]))
+    const byCode = new Map<string, number>()
+    const byLetterType = new Map<string, RejectionBreakdownRow>()
+    const byPromptVersion = new Map<string, RejectionBreakdownRow>()
+    let totalCodes = 0
+
+    for (const row of (rows || []) as Array<{ code: string; letter_type: string; prompt_version: string; rejection_count: number }>) {
+      const count = Number(row.rejection_count)
+      totalCodes += count
+      byCode.set(row.code, (byCode.get(row.code) || 0) + count)
+      addToBreakdown(byLetterType, row.letter_type, row.code, count)
+      addToBreakdown(byPromptVersion, row.prompt_version, row.code, count)
+    }
+
+    return {
+      total_codes: totalCodes,
+      by_code: [...byCode.entries()]
+        .map(([code, count]) => ({
+          code,
+          label: codeInfo.get(code)?.label ?? (code === 'uncoded' ? 'No code (free text)' : code),
+          category: codeInfo.get(code)?.category ?? null,
+          count,
+        }))
+        .sort((a, b) => b.count - a.count),
+      by_letter_type: [...byLetterType.values()].sort((a, b) => b.total - a.total),
+      by_prompt_version: [...byPromptVersion.values()].sort((a, b) => b.key.localeCompare(a.key)),
+    }
+  } catch (error) {
+    console.error('[RejectionCodes] Failed to load rejection stats:', error)
+    return null
+  }
+}
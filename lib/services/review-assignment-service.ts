@@ -0,0 +1,142 @@
+/**
+ * Attorney review assignment service
+ * Letters are auto-assigned to the least-loaded active attorney admin licensed
+ * in the letter's governing state when they enter the review queue. An admin
+ * claims a letter to take its edit lock, which lapses after REVIEW_LOCK_MINUTES
+ * unless renewed, and only the lock holder (or the assignee while nobody holds
+ * a lock) may save changes.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import {
+  hasActiveReviewLock,
+  type AttorneyWorkload,
+  type ReviewAssignment,
+  type ReviewConflict,
+} from '@/lib/admin/review-queue'
+
+export const REVIEW_LOCK_MINUTES = 30
+
+export type ReviewConflictReason = 'locked' | 'assigned' | 'not_reviewable' | 'not_owner' | 'not_licensed'
+
+export interface ReviewClaimResult {
+  claimed: boolean
+  renewed?: boolean
+  reason?: ReviewConflictReason
+  status?: string
+  locked_by?: string
+  assigned_to?: string
+  lock_expires_at?: string
+  /** Governing state the admin is not licensed in (not_licensed) */
+  state?: string | null
+}
+
+export interface ReviewReleaseResult {
+  released: boolean
+  reason?: ReviewConflictReason
+  assigned_to?: string | null
+}
+
+export interface ReviewReassignResult {
+  reassigned: boolean
+  reason?: ReviewConflictReason
+  status?: string
+  assigned_to?: string
+  state?: string | null
+}
+
+/**
+ * Claim the letter for the current admin, or renew a claim they already hold
+ */
+export async function claimLetterReview(letterId: string): Promise<ReviewClaimResult> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.rpc('claim_letter_review', {
+    p_letter_id: letterId,
+    p_lock_minutes: REVIEW_LOCK_MINUTES,
+  })
+
+  if (error) throw error
+  return data as ReviewClaimResult
+}
+
+/**
+ * Release the current admin's claim and hand the letter to the next attorney
+ */
+export async function releaseLetterReview(letterId: string): Promise<ReviewReleaseResult> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.rpc('release_letter_review', { p_letter_id: letterId })
+
+  if (error) throw error
+  return data as ReviewReleaseResult
+}
+
+/**
+ * Move a letter to another attorney (super admin only; enforced in the database too)
+ */
+export async function reassignLetterReview(letterId: string, attorneyId: string): Promise<ReviewReassignResult> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.rpc('reassign_letter_review', {
+    p_letter_id: letterId,
+    p_attorney_id: attorneyId,
+  })
+
+  if (error) throw error
+  return data as ReviewReassignResult
+}
+
+/**
+ * Admins with their open assignment counts, least loaded first
+ */
+export async function getReviewWorkload(): Promise<AttorneyWorkload[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.rpc('get_review_workload')
+
+  if (error) {
+    console.error('[ReviewAssignment] Failed to load workload:', error)
+    return []
+  }
+
+  return (data || []) as AttorneyWorkload[]
+}
+
+/**
+ * Why an admin may not save changes to a letter, or null if they may
+ * Unassigned, unlocked letters are open to any admin.
+ */
+export async function getReviewConflict(letterId: string, adminId: string | undefined): Promise<ReviewConflict | null> {
+  const supabase = await createClient()
+
+  const { data: letter } = await supabase
+    .from('letters')
+    .select('assigned_to, assigned_at, review_locked_by, review_lock_expires_at')
+    .eq('id', letterId)
+    .single()
+
+  if (!letter) return null
+
+  const assignment = letter as ReviewAssignment
+  let conflict: Omit<ReviewConflict, 'holderName'> | null = null
+
+  if (hasActiveReviewLock(assignment)) {
+    if (assignment.review_locked_by !== adminId) {
+      conflict = { reason: 'locked', holderId: assignment.review_locked_by!, lockExpiresAt: assignment.review_lock_expires_at }
+    }
+  } else if (assignment.assigned_to && assignment.assigned_to !== adminId) {
+    conflict = { reason: 'assigned', holderId: assignment.assigned_to, lockExpiresAt: null }
+  }
+
+  if (!conflict) return null
+
+  const { data: holder } = await supabase
+    .from('profiles')
+    .select('full_name, email')
+    .eq('id', conflict.holderId)
+    .single()
+
+  return { ...conflict, holderName: holder?.full_name || holder?.email || null }
+}
+
@@ -0,0 +1,250 @@
+/**
+ * Review SLA tracking
+ * Each letter's review clock runs from its transition into pending_review until
+ * it leaves the review statuses, measured against the turnaround target of its
+ * plan and letter type. The cron job reminds the reviewing attorney as the
+ * deadline approaches and escalates to super admins once it passes.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { queueTemplateEmail } from '@/lib/email/service'
+
+export type ReviewSlaState = 'on_track' | 'at_risk' | 'breached' | 'met' | 'missed'
+
+export interface ReviewSlaClock {
+  letter_id: string
+  title: string
+  letter_type: string | null
+  plan_type: string | null
+  status: string
+  assigned_to: string | null
+  review_started_at: string
+  resolved_at: string | null
+  target_hours: number
+  warning_percent: number
+  due_at: string
+  elapsed_hours: number
+  sla_state: ReviewSlaState
+}
+
+export interface ReviewSlaPolicy {
+  id: string
+  plan_type: string | null
+  letter_type: string | null
+  target_hours: number
+  warning_percent: number
+  updated_at: string
+}
+
+export interface ReviewSlaCompliance {
+  resolved: number
+  met: number
+  missed: number
+  compliance_percent: number
+}
+
+export interface ReviewSlaSummary {
+  totals: ReviewSlaCompliance & {
+    open: number
+    at_risk: number
+    breached: number
+    avg_review_hours: number
+  }
+  by_letter_type: Array<ReviewSlaCompliance & { letter_type: string }>
+  by_week: Array<ReviewSlaCompliance & { week: string }>  // Monday of the week, YYYY-MM-DD
+}
+
+export interface ReviewSlaAlertRun {
+  checked: number
+  warned: number
+  escalated: number
+}
+
+function compliance(clocks: ReviewSlaClock[]): ReviewSlaCompliance {
+  const met = clocks.filter(clock => clock.sla_state === 'met').length
+  const missed = clocks.filter(clock => clock.sla_state === 'missed').length
+  const resolved = met + missed
+  return {
+    resolved,
+    met,
+    missed,
+    compliance_percent: resolved > 0 ? (met / resolved) * 100 : 0,
+  }
+}
+
+function weekStart(timestamp: string): string {
+  const date = new Date(timestamp)
+  const offset = (date.getUTCDay() + 6) % 7
+  date.setUTCDate(date.getUTCDate() - offset)
+  return date.toISOString().slice(0, 10)
+}
+
+function formatDueAt(dueAt: string): string {
+  return new Date(dueAt).toLocaleString('en-US', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone: 'UTC',
+  }) + ' UTC'
+}
+
+/**
+ * SLA clocks of open letters and of letters that entered review in the last `daysBack` days
+ */
+export async function getReviewSlaClocks(daysBack: number, client?: SupabaseClient): Promise<ReviewSlaClock[]> {
+  const supabase = client ?? await createClient()
+
+  const { data, error } = await supabase.rpc('get_review_sla_clocks', { p_days_back: daysBack })
+
+  if (error) {
+    console.error('[ReviewSLA] Failed to load SLA clocks:', error)
+    return []
+  }
+
+  return ((data || []) as ReviewSlaClock[]).map(clock => ({
+    ...clock,
+    target_hours: Number(clock.target_hours),
+    elapsed_hours: Number(clock.elapsed_hours),
+  }))
+}
+
+/**
+ * Compliance of resolved reviews overall, per letter type and per week, plus open-queue risk
+ */
+export function summarizeReviewSla(clocks: ReviewSlaClock[]): ReviewSlaSummary {
+  const resolved = clocks.filter(clock => clock.resolved_at)
+  const open = clocks.filter(clock => !clock.resolved_at)
+
+  const byType = new Map<string, ReviewSlaClock[]>()
+  const byWeek = new Map<string, ReviewSlaClock[]>()
+  for (const clock of resolved) {
+    const type = clock.letter_type || 'unknown'
+    byType.set(type, [...(byType.get(type) || []), clock])
+    const week = weekStart(clock.resolved_at!)
+    byWeek.set(week, [...(byWeek.get(week) || []), clock])
+  }
+
+  return {
+    totals: {
+      ...compliance(resolved),
+      open: open.length,
+      at_risk: open.filter(clock => clock.sla_state === 'at_risk').length,
+      breached: open.filter(clock => clock.sla_state === 'breached').length,
+      avg_review_hours: resolved.length > 0
+        ? resolved.reduce((sum, clock) => sum + clock.elapsed_hours, 0) / resolved.length
+        : 0,
+    },
+    by_letter_type: [...byType.entries()]
+      .map(([letter_type, rows]) => ({ letter_type, ...compliance(rows) }))
+      .sort((a, b) => b.resolved - a.resolved),
+    by_week: [...byWeek.entries()]
+      .map(([week, rows]) => ({ week, ...compliance(rows) }))
+      .sort((a, b) => a.week.localeCompare(b.week)),
+  }
+}
+
+export async function getReviewSlaSummary(daysBack: number): Promise<ReviewSlaSummary | null> {
+  try {
+    return summarizeReviewSla(await getReviewSlaClocks(daysBack))
+  } catch (error) {
+    console.error('[ReviewSLA] Failed to summarize SLA compliance:', error)
+    return null
+  }
+}
+
+export async function listReviewSlaPolicies(): Promise<ReviewSlaPolicy[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('review_sla_policies')
+    .select('id, plan_type, letter_type, target_hours, warning_percent, updated_at')
+    .order('plan_type', { ascending: true, nullsFirst: true })
+    .order('letter_type', { ascending: true, nullsFirst: true })
+
+  if (error) throw error
+  return (data || []).map(policy => ({ ...policy, target_hours: Number(policy.target_hours) })) as ReviewSlaPolicy[]
+}
+
+/**
+ * Email the reviewing attorney when a letter is at risk and super admins when it
+ * breaches. Each alert is recorded before it is sent so overlapping runs cannot
+ * send it twice; a failed send is not retried for the same review cycle.
+ */
+export async function runReviewSlaAlerts(): Promise<ReviewSlaAlertRun> {
+  const supabase = createServiceClient()
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+
+  const clocks = (await getReviewSlaClocks(0, supabase))
+    .filter(clock => clock.sla_state === 'at_risk' || clock.sla_state === 'breached')
+
+  const result: ReviewSlaAlertRun = { checked: clocks.length, warned: 0, escalated: 0 }
+  if (clocks.length === 0) return result
+
+  const { data: admins } = await supabase
+    .from('profiles')
+    .select('id, email, full_name, admin_sub_role')
+    .eq('role', 'admin')
+
+  const adminList = (admins || []).filter(admin => admin.email) as Array<{
+    id: string
+    email: string
+    full_name: string | null
+    admin_sub_role: string | null
+  }>
+  const superAdminEmails = adminList.filter(admin => admin.admin_sub_role === 'super_admin').map(admin => admin.email)
+  const attorneyEmails = adminList.filter(admin => admin.admin_sub_role === 'attorney_admin').map(admin => admin.email)
+
+  for (const clock of clocks) {
+    const alertType = clock.sla_state === 'breached' ? 'breach' : 'warning'
+    const assignee = adminList.find(admin => admin.id === clock.assigned_to)
+    const recipients = alertType === 'breach'
+      ? superAdminEmails
+      : assignee ? [assignee.email] : attorneyEmails
+
+    if (recipients.length === 0) continue
+
+    const { error: claimError } = await supabase
+      .from('letter_sla_alerts')
+      .insert({
+        letter_id: clock.letter_id,
+        review_started_at: clock.review_started_at,
+        alert_type: alertType,
+        recipients,
+      })
+
+    // Unique violation: this alert already went out for the current review cycle
+    if (claimError) {
+      if (claimError.code !== '23505') {
+        console.error('[ReviewSLA] Failed to record alert:', claimError)
+      }
+      continue
+    }
+
+    const templateData = {
+      userName: assignee?.full_name || 'there',
+      letterTitle: clock.title,
+      slaDueAt: formatDueAt(clock.due_at),
+      slaTargetHours: clock.target_hours,
+      alertMessage: alertType === 'breach'
+        ? `Assigned to: ${assignee ? assignee.full_name || assignee.email : 'nobody'}. Waiting ${clock.elapsed_hours.toFixed(1)} hours.`
+        : undefined,
+      actionUrl: alertType === 'breach'
+        ? `${siteUrl}/secure-admin-gateway/review/${clock.letter_id}`
+        : `${siteUrl}/attorney-portal/review/${clock.letter_id}`,
+    }
+
+    try {
+      await queueTemplateEmail(alertType === 'breach' ? 'review-sla-breach' : 'review-sla-warning', recipients, templateData)
+      if (alertType === 'breach') {
+        result.escalated++
+      } else {
+        result.warned++
+      }
+    } catch (error) {
+      console.error(`[ReviewSLA] Failed to send ${alertType} for letter ${clock.letter_id}:`, error)
+    }
+  }
+
+  return result
+}
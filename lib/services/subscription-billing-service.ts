@@ -0,0 +1,261 @@
+/**
+ * Recurring subscription billing
+ * Keeps subscription rows in step with their Stripe subscriptions: billing
+ * periods, status, and the letter allowance, which each paid renewal invoice
+ * resets to the plan's letters. Called from the Stripe webhook with its
+ * service client.
+ *
+ * Rows are found by stripe_subscription_id, or before Stripe's subscription is
+ * linked by the row id the checkout put in the subscription metadata.
+ */
+
+import type Stripe from 'stripe'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { PLAN_CONFIG } from '@/lib/constants'
+import { queueTemplateEmail } from '@/lib/email/service'
+import type { EmailTemplate, TemplateData } from '@/lib/email/types'
+
+export type SubscriptionRowStatus = 'active' | 'canceled' | 'past_due' | 'pending'
+
+export interface SubscriptionRow {
+  id: string
+  user_id: string
+  plan_type: string | null
+  status: SubscriptionRowStatus
+}
+
+export interface PaidInvoiceResult {
+  subscription: SubscriptionRow
+  renewed: boolean  // The allowance was reset for a new billing period
+}
+
+interface BillingPeriod {
+  current_period_start: string
+  current_period_end: string
+}
+
+export function mapStripeSubscriptionStatus(status: Stripe.Subscription.Status): SubscriptionRowStatus {
+  switch (status) {
+    case 'active':
+    case 'trialing':
+      return 'active'
+    case 'past_due':
+    case 'unpaid':
+    case 'paused':
+      return 'past_due'
+    case 'canceled':
+    case 'incomplete_expired':
+      return 'canceled'
+    case 'incomplete':
+      return 'pending'
+  }
+}
+
+function toIsoString(unixSeconds: number): string {
+  return new Date(unixSeconds * 1000).toISOString()
+}
+
+function getSubscriptionPeriod(subscription: Stripe.Subscription): BillingPeriod | null {
+  const item = subscription.items.data[0]
+  if (!item) return null
+
+  return {
+    current_period_start: toIsoString(item.current_period_start),
+    current_period_end: toIsoString(item.current_period_end),
+  }
+}
+
+function getInvoicePeriod(invoice: Stripe.Invoice): BillingPeriod | null {
+  const line = invoice.lines.data[0]
+  if (!line) return null
+
+  return {
+    current_period_start: toIsoString(line.period.start),
+    current_period_end: toIsoString(line.period.end),
+  }
+}
+
+function getInvoiceSubscription(invoice: Stripe.Invoice): { stripeSubscriptionId: string; rowId: string | null } | null {
+  const details = invoice.parent?.subscription_details
+  if (!details) return null
+
+  return {
+    stripeSubscriptionId: typeof details.subscription === 'string' ? details.subscription : details.subscription.id,
+    rowId: details.metadata?.subscription_id || null,
+  }
+}
+
+async function findSubscriptionRow(
+  supabase: SupabaseClient,
+  stripeSubscriptionId: string,
+  rowId: string | null
+): Promise<SubscriptionRow | null> {
+  const { data: linked, error } = await supabase
+    .from('subscriptions')
+    .select('id, user_id, plan_type, status')
+    .eq('stripe_subscription_id', stripeSubscriptionId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (linked || !rowId) return linked as SubscriptionRow | null
+
+  const { data: pending, error: pendingError } = await supabase
+    .from('subscriptions')
+    .select('id, user_id, plan_type, status')
+    .eq('id', rowId)
+    .is('stripe_subscription_id', null)
+    .maybeSingle()
+
+  if (pendingError) throw pendingError
+  return pending as SubscriptionRow | null
+}
+
+/**
+ * Link the row created at checkout to its Stripe subscription once the first
+ * payment has gone through
+ */
+export async function linkCheckoutSubscription(
+  supabase: SupabaseClient,
+  stripe: Stripe,
+  session: Stripe.Checkout.Session
+): Promise<void> {
+  if (session.mode !== 'subscription' || !session.subscription) return
+
+  const subscription = typeof session.subscription === 'string'
+    ? await stripe.subscriptions.retrieve(session.subscription)
+    : session.subscription
+
+  const { error } = await supabase
+    .from('subscriptions')
+    .update({
+      stripe_subscription_id: subscription.id,
+      ...getSubscriptionPeriod(subscription),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', session.metadata?.subscription_id)
+
+  if (error) throw error
+}
+
+/**
+ * Record a paid invoice. A renewal resets the allowance to the plan's letters
+ * and reactivates a past-due subscription; the first invoice only records the
+ * period, as completing the checkout grants the allowance.
+ */
+export async function applyPaidInvoice(
+  supabase: SupabaseClient,
+  invoice: Stripe.Invoice
+): Promise<PaidInvoiceResult | null> {
+  const reference = getInvoiceSubscription(invoice)
+  if (!reference) return null
+
+  const row = await findSubscriptionRow(supabase, reference.stripeSubscriptionId, reference.rowId)
+  if (!row) {
+    console.error('[SubscriptionBilling] No subscription row for Stripe subscription:', reference.stripeSubscriptionId)
+    return null
+  }
+
+  const now = new Date().toISOString()
+  const plan = PLAN_CONFIG[row.plan_type ?? '']
+  const renewed = invoice.billing_reason === 'subscription_cycle' && Boolean(plan)
+
+  const { error } = await supabase
+    .from('subscriptions')
+    .update({
+      stripe_subscription_id: reference.stripeSubscriptionId,
+      ...getInvoicePeriod(invoice),
+      ...(renewed && {
+        status: 'active',
+        credits_remaining: plan.letters,
+        remaining_letters: plan.letters,
+        last_reset_at: now,
+      }),
+      updated_at: now,
+    })
+    .eq('id', row.id)
+
+  if (error) throw error
+
+  return { subscription: row, renewed }
+}
+
+/**
+ * Mark the subscription past due; Stripe keeps retrying the payment and a
+ * later paid invoice reactivates it
+ */
+export async function applyFailedInvoice(
+  supabase: SupabaseClient,
+  invoice: Stripe.Invoice
+): Promise<SubscriptionRow | null> {
+  const reference = getInvoiceSubscription(invoice)
+  if (!reference) return null
+
+  const row = await findSubscriptionRow(supabase, reference.stripeSubscriptionId, reference.rowId)
+  // A failed first payment leaves the checkout row pending; it expires with the session
+  if (!row || row.status === 'pending') return row
+
+  const { error } = await supabase
+    .from('subscriptions')
+    .update({ status: 'past_due', updated_at: new Date().toISOString() })
+    .eq('id', row.id)
+
+  if (error) throw error
+  return row
+}
+
+/**
+ * Sync status and billing period from Stripe. A row still pending is left for
+ * checkout completion to activate, since that is what grants its allowance.
+ */
+export async function syncStripeSubscription(
+  supabase: SupabaseClient,
+  subscription: Stripe.Subscription
+): Promise<SubscriptionRow | null> {
+  const row = await findSubscriptionRow(supabase, subscription.id, subscription.metadata?.subscription_id || null)
+  if (!row) {
+    console.error('[SubscriptionBilling] No subscription row for Stripe subscription:', subscription.id)
+    return null
+  }
+
+  const status = mapStripeSubscriptionStatus(subscription.status)
+
+  const { error } = await supabase
+    .from('subscriptions')
+    .update({
+      stripe_subscription_id: subscription.id,
+      ...getSubscriptionPeriod(subscription),
+      ...(row.status !== 'pending' && { status }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', row.id)
+
+  if (error) throw error
+  return { ...row, status: row.status === 'pending' ? row.status : status }
+}
+
+/**
+ * Email the subscriber about their subscription without holding up the webhook
+ */
+export async function notifySubscriber(
+  supabase: SupabaseClient,
+  subscription: SubscriptionRow,
+  template: EmailTemplate,
+  data: TemplateData = {}
+): Promise<void> {
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('email, full_name')
+    .eq('id', subscription.user_id)
+    .single()
+
+  if (!profile?.email) return
+
+  queueTemplateEmail(template, profile.email, {
+    userName: profile.full_name || 'there',
+    subscriptionPlan: PLAN_CONFIG[subscription.plan_type ?? '']?.name || 'subscription',
+    actionUrl: `${process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'}/dashboard/subscription`,
+    ...data,
+  }).catch(error => {
+    console.error(`[SubscriptionBilling] Failed to send ${template} email:`, error)
+  })
+}
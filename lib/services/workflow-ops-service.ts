@@ -0,0 +1,243 @@
+/**
+ * Letter workflow operations
+ * Lists letter workflow runs with the step history the workflow records, and
+ * lets super admins cancel a run, retry a failed step (the run pauses on
+ * failure waiting for this) or resume a run waiting for an attorney decision
+ * with a decision of their own. Every action is recorded in admin_audit_log.
+ */
+
+import { getRun } from 'workflow/api'
+import { resumeWorkflow } from 'workflow/next'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { refundLetterAllowance } from '@/lib/services/allowance-service'
+import {
+  APPROVAL_WAIT_STEP,
+  STEP_RECOVERY_EVENT,
+  getWorkflowActions,
+  type StepRecovery,
+  type WorkflowOpsAction,
+  type WorkflowRunDetail,
+  type WorkflowRunStatus,
+  type WorkflowRunSummary,
+  type WorkflowStepRecord,
+} from '@/lib/admin/workflow-ops'
+import type { AttorneyApproval } from '@/app/workflows/letter-generation.workflow'
+
+const MAX_WORKFLOW_RUNS = 100
+
+const RUN_COLUMNS = `
+  id,
+  title,
+  status,
+  workflow_id,
+  workflow_status,
+  workflow_current_step,
+  workflow_started_at,
+  workflow_completed_at,
+  workflow_error,
+  profiles!user_id (email)
+`
+
+interface WorkflowLetterRow {
+  id: string
+  title: string | null
+  status: string
+  workflow_id: string
+  workflow_status: WorkflowRunStatus | null
+  workflow_current_step: string | null
+  workflow_started_at: string | null
+  workflow_completed_at: string | null
+  workflow_error: string | null
+  profiles: { email: string | null } | null
+}
+
+function toRunSummary(row: WorkflowLetterRow): WorkflowRunSummary {
+  return {
+    workflow_id: row.workflow_id,
+    letter_id: row.id,
+    letter_title: row.title,
+    letter_status: row.status,
+    user_email: row.profiles?.email ?? null,
+    workflow_status: row.workflow_status,
+    current_step: row.workflow_current_step,
+    started_at: row.workflow_started_at,
+    completed_at: row.workflow_completed_at,
+    error: row.workflow_error,
+  }
+}
+
+/**
+ * Most recent runs first, optionally only those in one status
+ */
+export async function listWorkflowRuns(status?: WorkflowRunStatus | null): Promise<WorkflowRunSummary[]> {
+  const supabase = await createClient()
+
+  let query = supabase
+    .from('letters')
+    .select(RUN_COLUMNS)
+    .not('workflow_id', 'is', null)
+    .order('workflow_started_at', { ascending: false, nullsFirst: false })
+    .limit(MAX_WORKFLOW_RUNS)
+
+  if (status) {
+    query = query.eq('workflow_status', status)
+  }
+
+  const { data, error } = await query
+  if (error) throw error
+
+  return ((data || []) as unknown as WorkflowLetterRow[]).map(toRunSummary)
+}
+
+export async function getWorkflowRun(workflowId: string): Promise<WorkflowRunDetail | null> {
+  const supabase = await createClient()
+
+  const { data: letter, error } = await supabase
+    .from('letters')
+    .select(RUN_COLUMNS)
+    .eq('workflow_id', workflowId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!letter) return null
+
+  const { data: steps, error: stepsError } = await supabase
+    .from('letter_workflow_steps')
+    .select('id, step, attempt, status, error, started_at, finished_at')
+    .eq('workflow_id', workflowId)
+    .order('started_at', { ascending: true })
+
+  if (stepsError) throw stepsError
+
+  return {
+    ...toRunSummary(letter as unknown as WorkflowLetterRow),
+    steps: (steps || []) as WorkflowStepRecord[],
+  }
+}
+
+async function logWorkflowAction(
+  adminId: string,
+  action: WorkflowOpsAction,
+  run: WorkflowRunDetail,
+  changes: Record<string, unknown> = {}
+): Promise<void> {
+  const supabase = createServiceClient()
+
+  const { error } = await supabase.from('admin_audit_log').insert({
+    admin_id: adminId,
+    action: `workflow_${action}`,
+    resource_type: 'letter_workflow',
+    resource_id: run.workflow_id,
+    changes: {
+      letter_id: run.letter_id,
+      workflow_status: run.workflow_status,
+      current_step: run.current_step,
+      ...changes,
+    },
+  })
+
+  if (error) {
+    console.error('[WorkflowOps] Failed to record admin action:', error)
+  }
+}
+
+/**
+ * Why the action is not available for the run, or null if it is
+ */
+export function describeUnavailableAction(run: WorkflowRunDetail, action: WorkflowOpsAction): string | null {
+  if (getWorkflowActions(run).includes(action)) return null
+
+  switch (action) {
+    case 'cancel':
+      return 'Only running or paused workflows can be cancelled'
+    case 'retry':
+      return 'Only a workflow paused on a failed step can be retried'
+    case 'resume':
+      return 'Only a workflow waiting for an attorney decision can be resumed'
+  }
+}
+
+/**
+ * Stop the run. A letter still generating cannot progress without it, so it
+ * is marked failed and its credit returned, as the run's own failure handling
+ * never runs; letters already in review stay reviewable from the review
+ * center.
+ */
+export async function cancelWorkflowRun(run: WorkflowRunDetail, adminId: string): Promise<void> {
+  await getRun(run.workflow_id).cancel()
+
+  const supabase = createServiceClient()
+  const now = new Date().toISOString()
+  const wasGenerating = run.letter_status === 'generating'
+
+  const { data: letter, error } = await supabase
+    .from('letters')
+    .update({
+      workflow_status: 'cancelled',
+      workflow_completed_at: now,
+      ...(wasGenerating && { status: 'failed', updated_at: now }),
+    })
+    .eq('id', run.letter_id)
+    .select('user_id, allowance_deducted')
+    .single()
+
+  if (error) throw error
+
+  let refunded = false
+  if (wasGenerating) {
+    if (letter.allowance_deducted) {
+      const refund = await refundLetterAllowance(letter.user_id, 1)
+      refunded = refund.success
+      if (!refund.success) {
+        console.error(`[WorkflowOps] Refund failed for letter ${run.letter_id}:`, refund.error)
+      }
+    }
+
+    // The admin's own session so the entry records who cancelled
+    const adminClient = await createClient()
+    const { error: auditError } = await adminClient.rpc('log_letter_audit', {
+      p_letter_id: run.letter_id,
+      p_action: 'workflow_cancelled',
+      p_old_status: 'generating',
+      p_new_status: 'failed',
+      p_notes: `Workflow cancelled by a super admin during generation.${refunded ? ' Letter credit refunded.' : ''}`,
+    })
+
+    if (auditError) {
+      console.error('[WorkflowOps] Failed to log audit:', auditError)
+    }
+  }
+
+  await logWorkflowAction(adminId, 'cancel', run, {
+    letter_status: wasGenerating ? 'failed' : run.letter_status,
+    credit_refunded: refunded,
+  })
+}
+
+export async function retryWorkflowStep(run: WorkflowRunDetail, adminId: string): Promise<void> {
+  const recovery: StepRecovery = { retry: true, adminId }
+  await resumeWorkflow(run.workflow_id, STEP_RECOVERY_EVENT, recovery)
+
+  await logWorkflowAction(adminId, 'retry', run, { step: run.current_step })
+}
+
+/**
+ * Resume a run waiting for an attorney decision with the super admin's decision
+ */
+export async function resumeWorkflowRun(
+  run: WorkflowRunDetail,
+  adminId: string,
+  decision: Omit<AttorneyApproval, 'attorneyId'>
+): Promise<void> {
+  const approval: AttorneyApproval = { ...decision, attorneyId: adminId }
+  await resumeWorkflow(run.workflow_id, APPROVAL_WAIT_STEP, approval)
+
+  await logWorkflowAction(adminId, 'resume', run, {
+    approved: decision.approved,
+    notes: decision.notes ?? null,
+    reason: decision.reason ?? null,
+    rejection_codes: decision.rejectionCodes ?? [],
+    edited_content: Boolean(decision.editedContent),
+  })
+}
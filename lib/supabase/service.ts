@@ -0,0 +1,22 @@
+import { createClient } from '@supabase/supabase-js'
+import { getSupabaseServiceKey, getSupabaseUrl } from './keys'
+
+/**
+ * Service role client for server code that runs without a user session (cron
+ * jobs) or must read across users, e.g. to look up who to notify. Bypasses RLS.
+ */
+export function createServiceClient() {
+  const supabaseUrl = getSupabaseUrl()
+  const serviceKey = getSupabaseServiceKey()
+
+  if (!supabaseUrl || !serviceKey) {
+    throw new Error('Missing Supabase service configuration')
+  }
+
+  return createClient(supabaseUrl, serviceKey.key, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  })
+}
@@ -40,6 +40,7 @@ export const LETTER_STATUSES = [
   'under_review',
   'approved',
   'completed',
+  'revision_requested',
   'rejected',
   'failed'
 ] as const satisfies readonly LetterStatus[]
@@ -2,6 +2,10 @@
  * Type definitions for Letter-related entities
  * Centralized types reduce duplication and improve type safety across the app
  */
+import type { JurisdictionRuleSet } from '@/lib/jurisdiction/types'
+import type { DraftQualityReport } from '@/lib/validation/draft-quality'
+import type { ContentScreeningResult } from '@/lib/validation/content-screening'
+import type { ConflictCheckResult } from '@/lib/admin/conflict-check'
 
 /**
  * Letter status enum - represents all possible states of a letter
@@ -13,6 +17,7 @@ export type LetterStatus =
   | 'under_review'
   | 'approved'
   | 'completed'
+  | 'revision_requested'
   | 'rejected'
   | 'failed'
 
@@ -43,8 +48,23 @@ export interface Letter {
   final_content: string | null
   review_notes: string | null
   rejection_reason: string | null
+  rejection_codes: string[]
   draft_metadata: Record<string, unknown> | null
+  governing_state: string | null
+  jurisdiction_rules: JurisdictionRuleSet | null
+  quality_report: DraftQualityReport | null
+  content_screening: ContentScreeningResult | null
+  conflict_check: ConflictCheckResult | null
+  redline_shared_at: string | null
+  redline_shared_by: string | null
+  content_flagged: boolean
   pdf_url: string | null
+  assigned_to: string | null
+  assigned_at: string | null
+  review_locked_by: string | null
+  review_lock_expires_at: string | null
+  intervention_required_at: string | null
+  intervention_reason: string | null
   reviewed_by: string | null
   reviewed_at: string | null
   approved_at: string | null
@@ -78,6 +98,31 @@ export interface LetterAuditTrail {
   created_at: string
 }
 
+/**
+ * Origin of a stored letter version
+ */
+export type LetterVersionSource =
+  | 'ai_draft'
+  | 'attorney_edit'
+  | 'ai_improve'
+  | 'final_approved'
+  | 'restored'
+
+/**
+ * Snapshot of letter content kept in letter_versions
+ */
+export interface LetterVersion {
+  id: string
+  letter_id: string
+  version_number: number
+  source: LetterVersionSource
+  content: string
+  created_by: string | null
+  notes: string | null
+  metadata: Record<string, any> | null
+  created_at: string
+}
+
 /**
  * Letter generation request payload
  */
@@ -95,6 +140,8 @@ export interface LetterGenerationResponse {
   status: LetterStatus
   isFreeTrial?: boolean
   aiDraft?: string
+  warnings?: string[]
+  qualityReport?: DraftQualityReport
 }
 
 /**
@@ -0,0 +1,110 @@
+/**
+ * Word-level text diff
+ * Longest-common-subsequence over word and whitespace tokens, merged into runs
+ */
+
+export type DiffOperation = 'equal' | 'insert' | 'delete'
+
+export interface DiffSegment {
+  op: DiffOperation
+  text: string
+}
+
+export interface DiffStats {
+  insertedWords: number
+  deletedWords: number
+  unchangedWords: number
+}
+
+// Above this many token pairs the LCS table gets too large; fall back to a whole-text replace
+const MAX_DIFF_CELLS = 4_000_000
+
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? []
+}
+
+function pushSegment(segments: DiffSegment[], op: DiffOperation, text: string) {
+  const last = segments[segments.length - 1]
+  if (last && last.op === op) {
+    last.text += text
+  } else {
+    segments.push({ op, text })
+  }
+}
+
+/**
+ * Diff two texts word by word
+ */
+export function diffWords(oldText: string, newText: string): DiffSegment[] {
+  const a = tokenize(oldText)
+  const b = tokenize(newText)
+
+  // Trim the shared prefix and suffix so the table only covers the changed middle
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const segments: DiffSegment[] = []
+  if (start > 0) pushSegment(segments, 'equal', a.slice(0, start).join(''))
+
+  const midA = a.slice(start, endA)
+  const midB = b.slice(start, endB)
+
+  if ((midA.length + 1) * (midB.length + 1) > MAX_DIFF_CELLS) {
+    if (midA.length) pushSegment(segments, 'delete', midA.join(''))
+    if (midB.length) pushSegment(segments, 'insert', midB.join(''))
+  } else {
+    const cols = midB.length + 1
+    const table = new Uint32Array((midA.length + 1) * cols)
+
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        table[i * cols + j] = midA[i] === midB[j]
+          ? table[(i + 1) * cols + j + 1] + 1
+          : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1])
+      }
+    }
+
+    let i = 0
+    let j = 0
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        pushSegment(segments, 'equal', midA[i])
+        i++
+        j++
+      } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+        pushSegment(segments, 'delete', midA[i++])
+      } else {
+        pushSegment(segments, 'insert', midB[j++])
+      }
+    }
+    while (i < midA.length) pushSegment(segments, 'delete', midA[i++])
+    while (j < midB.length) pushSegment(segments, 'insert', midB[j++])
+  }
+
+  if (endA < a.length) pushSegment(segments, 'equal', a.slice(endA).join(''))
+
+  return segments
+}
+
+/**
+ * Count changed words in a diff (whitespace tokens are ignored)
+ */
+export function getDiffStats(segments: DiffSegment[]): DiffStats {
+  const stats: DiffStats = { insertedWords: 0, deletedWords: 0, unchangedWords: 0 }
+
+  for (const segment of segments) {
+    const words = segment.text.split(/\s+/).filter(Boolean).length
+    if (segment.op === 'insert') stats.insertedWords += words
+    else if (segment.op === 'delete') stats.deletedWords += words
+    else stats.unchangedWords += words
+  }
+
+  return stats
+}
@@ -0,0 +1,152 @@
+/**
+ * Intake content screening
+ *
+ * Scores free-text intake for injection payloads instead of rejecting on single
+ * words. Legal prose routinely contains "delete", "select", "&", ";" or "--",
+ * so only structural payloads count: markup that would execute in a browser is
+ * blocked outright, while prompt-injection phrases and query/shell fragments add
+ * to a risk score. Intakes above the review threshold are accepted but flagged
+ * for an admin to look at.
+ */
+
+export type ScreeningCategory = 'markup' | 'prompt_injection' | 'sql' | 'shell' | 'path_traversal' | 'abuse'
+
+export type ScreeningLevel = 'low' | 'review' | 'blocked'
+
+export interface ScreeningReason {
+  field: string
+  rule: string
+  category: ScreeningCategory
+  label: string
+  weight: number
+  excerpt: string
+}
+
+export interface ContentScreeningResult {
+  score: number  // 0-100
+  level: ScreeningLevel
+  flagged: boolean  // Needs admin review; true for 'review' level
+  reasons: ScreeningReason[]
+  screenedAt: string
+  review?: {  // Set when an admin clears the flag
+    clearedBy: string | null
+    clearedAt: string
+    notes: string | null
+  }
+}
+
+interface ScreeningRule {
+  id: string
+  category: ScreeningCategory
+  label: string
+  pattern: RegExp
+  weight: number
+  block?: boolean  // Never legitimate in intake text; fails validation
+}
+
+// Scores at or above this are flagged for review
+export const REVIEW_THRESHOLD = 30
+
+const MAX_SCORE = 100
+
+const SCREENING_RULES: ScreeningRule[] = [
+  // Executable markup
+  { id: 'script_tag', category: 'markup', label: 'Script tag', pattern: /<\s*script\b/i, weight: 100, block: true },
+  { id: 'script_uri', category: 'markup', label: 'Script URI', pattern: /\b(?:javascript|vbscript)\s*:/i, weight: 100, block: true },
+  { id: 'event_handler', category: 'markup', label: 'Inline event handler', pattern: /<[^>]*\bon[a-z]+\s*=/i, weight: 100, block: true },
+  { id: 'embedded_frame', category: 'markup', label: 'Embedded frame or object', pattern: /<\s*(?:iframe|object|embed)\b/i, weight: 100, block: true },
+
+  // Attempts to steer the model
+  { id: 'ignore_instructions', category: 'prompt_injection', label: 'Asks the AI to ignore its instructions', pattern: /\b(?:ignore|disregard|forget)\s+(?:all\s+|any\s+)?(?:the\s+)?(?:previous|prior|above|earlier|your)\s+(?:instructions|prompts?|rules)\b/i, weight: 50 },
+  { id: 'role_marker', category: 'prompt_injection', label: 'Chat role marker', pattern: /(?:^|\n)\s*(?:system|assistant|developer)\s*:/i, weight: 35 },
+  { id: 'bracket_marker', category: 'prompt_injection', label: 'Bracketed system/admin marker', pattern: /\[(?:SYSTEM|ADMIN|INST)\]|<\|im_start\|>/i, weight: 35 },
+  { id: 'persona_override', category: 'prompt_injection', label: 'Tries to redefine the AI role', pattern: /\byou\s+are\s+now\s+(?:a|an|in)\b|\bact\s+as\s+(?:a|an)\s+(?:different|unrestricted)\b/i, weight: 30 },
+  { id: 'prompt_exfiltration', category: 'prompt_injection', label: 'Asks for the system prompt', pattern: /\b(?:reveal|print|show|repeat)\s+(?:your|the)\s+(?:system\s+)?prompt\b/i, weight: 40 },
+
+  // Query fragments; keywords alone are ordinary English
+  { id: 'sql_union', category: 'sql', label: 'UNION SELECT query', pattern: /\bunion\s+(?:all\s+)?select\b/i, weight: 30 },
+  { id: 'sql_ddl', category: 'sql', label: 'DROP/ALTER/TRUNCATE TABLE statement', pattern: /\b(?:drop|alter|truncate)\s+table\b/i, weight: 30 },
+  { id: 'sql_tautology', category: 'sql', label: 'Quoted OR/AND tautology', pattern: /['"]\s*(?:or|and)\s+['"]?(\w+)['"]?\s*=\s*['"]?\1\b/i, weight: 30 },
+  { id: 'sql_terminator', category: 'sql', label: 'Quote followed by statement terminator or comment', pattern: /['"]\s*(?:;|--|\/\*)/, weight: 20 },
+
+  // Shell fragments
+  { id: 'shell_substitution', category: 'shell', label: 'Shell command substitution', pattern: /\$\([^)]*\)|`[^`]*\b(?:rm|curl|wget|cat|sh|bash)\b[^`]*`/, weight: 25 },
+  { id: 'shell_chain', category: 'shell', label: 'Chained shell command', pattern: /(?:;|&&|\|\|?)\s*(?:rm\s+-|curl\s|wget\s|chmod\s|bash\s|sh\s+-c)/i, weight: 25 },
+
+  { id: 'path_traversal', category: 'path_traversal', label: 'Directory traversal sequence', pattern: /(?:\.\.[\\/]){2,}/, weight: 20 },
+
+  // Padding used to push instructions out of view
+  { id: 'excessive_whitespace', category: 'abuse', label: 'Excessive whitespace', pattern: / {40,}|\t{20,}|\n{15,}/, weight: 10 },
+]
+
+function excerptAround(value: string, index: number): string {
+  const start = Math.max(0, index - 20)
+  const end = Math.min(value.length, index + 40)
+  return `${start > 0 ? '…' : ''}${value.slice(start, end).replace(/\s+/g, ' ').trim()}${end < value.length ? '…' : ''}`
+}
+
+/**
+ * Screen one string; each rule counts at most once per field
+ */
+export function screenText(field: string, value: string): ScreeningReason[] {
+  const reasons: ScreeningReason[] = []
+
+  for (const rule of SCREENING_RULES) {
+    const match = rule.pattern.exec(value)
+    if (!match) continue
+
+    reasons.push({
+      field,
+      rule: rule.id,
+      category: rule.category,
+      label: rule.label,
+      weight: rule.weight,
+      excerpt: excerptAround(value, match.index),
+    })
+  }
+
+  return reasons
+}
+
+/**
+ * Screen every string field of the intake and score the result
+ */
+export function screenIntakeContent(data: Record<string, unknown>): ContentScreeningResult {
+  const reasons = Object.entries(data).flatMap(([field, value]) =>
+    typeof value === 'string' ? screenText(field, value) : []
+  )
+
+  const blocked = reasons.some(reason => SCREENING_RULES.find(rule => rule.id === reason.rule)?.block)
+  const score = Math.min(MAX_SCORE, reasons.reduce((sum, reason) => sum + reason.weight, 0))
+  const level: ScreeningLevel = blocked ? 'blocked' : score >= REVIEW_THRESHOLD ? 'review' : 'low'
+
+  return {
+    score,
+    level,
+    flagged: level === 'review',
+    reasons,
+    screenedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * One-line summary for the audit trail
+ */
+export function describeScreening(result: ContentScreeningResult): string {
+  const reasons = result.reasons.map(reason => `${reason.label} in ${reason.field}`)
+  return `Intake flagged for review (risk score ${result.score}): ${reasons.join('; ')}`
+}
+
+/**
+ * Validation errors for the blocked fields, one per field
+ */
+export function getBlockedFieldErrors(result: ContentScreeningResult): string[] {
+  if (result.level !== 'blocked') return []
+
+  const fields = new Set(
+    result.reasons
+      .filter(reason => SCREENING_RULES.find(rule => rule.id === reason.rule)?.block)
+      .map(reason => reason.field)
+  )
+  return [...fields].map(field => `${field} contains disallowed content`)
+}
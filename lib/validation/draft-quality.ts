@@ -0,0 +1,240 @@
+/**
+ * Post-generation quality gate for AI drafts
+ * Checks a draft against the intake it was generated from before it is queued
+ * for attorney review. Hard failures trigger one automatic regeneration.
+ */
+
+export type DraftQualityCheckId =
+  | 'placeholders'
+  | 'amount_demanded'
+  | 'deadline_date'
+  | 'sender_name'
+  | 'recipient_name'
+  | 'signature_block'
+  | 'length'
+
+export interface DraftQualityCheck {
+  id: DraftQualityCheckId
+  label: string
+  passed: boolean
+  severity: 'hard' | 'soft'
+  details?: string
+}
+
+export interface DraftQualityReport {
+  passed: boolean  // No hard check failed
+  checks: DraftQualityCheck[]
+  wordCount: number
+  regenerated: boolean
+  discardedAttempt?: DraftQualityCheck[]  // Checks of the draft not kept, when regenerated
+  checkedAt: string
+}
+
+const MIN_WORDS = 150
+const MAX_WORDS = 1000
+
+// Bracketed or templated slots the model left for the user to fill in
+const PLACEHOLDER_PATTERNS = [
+  /\[[^\]\n]{2,60}\]/g,
+  /\{\{[^}\n]{1,60}\}\}/g,
+  /<(?:insert|your|recipient|sender|date|name|address)[^>\n]{0,50}>/gi,
+  /\bX{3,}\b/g,
+]
+
+const CLOSING_PATTERN = /\b(sincerely|respectfully(?: yours| submitted)?|regards|very truly yours|yours (?:truly|faithfully))\b/gi
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+]
+
+function findPlaceholders(content: string): string[] {
+  const found = new Set<string>()
+  for (const pattern of PLACEHOLDER_PATTERNS) {
+    for (const match of content.matchAll(pattern)) {
+      found.add(match[0])
+    }
+  }
+  return [...found]
+}
+
+function mentionsAmount(content: string, amount: number): boolean {
+  const normalized = content.replace(/,/g, '')
+  const whole = Math.round(amount * 100) % 100 === 0
+  const candidates = whole
+    ? [String(Math.round(amount)), amount.toFixed(2)]
+    : [amount.toFixed(2)]
+  return candidates.some(value => new RegExp(`(^|[^\\d.])${value.replace('.', '\\.')}(?!\\d)`).test(normalized))
+}
+
+function parseIntakeDate(value: string): Date | null {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  if (iso) return new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]))
+
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+  if (us) return new Date(Number(us[3]), Number(us[1]) - 1, Number(us[2]))
+
+  return null
+}
+
+function mentionsDate(content: string, value: string): boolean {
+  if (content.includes(value)) return true
+
+  const date = parseIntakeDate(value)
+  if (!date) return false
+
+  const day = date.getDate()
+  const month = date.getMonth() + 1
+  const year = date.getFullYear()
+  const monthName = MONTHS[date.getMonth()]
+  const pad = (n: number) => String(n).padStart(2, '0')
+
+  const formats = [
+    `${year}-${pad(month)}-${pad(day)}`,
+    `${month}/${day}/${year}`,
+    `${pad(month)}/${pad(day)}/${year}`,
+    `${monthName} ${day}, ${year}`,
+    `${monthName} ${day} ${year}`,
+    `${day} ${monthName} ${year}`,
+    `${monthName.slice(0, 3)}. ${day}, ${year}`,
+    `${monthName.slice(0, 3)} ${day}, ${year}`,
+  ]
+
+  const lower = content.toLowerCase()
+  return formats.some(format => lower.includes(format.toLowerCase()))
+}
+
+function mentionsName(content: string, name: string): boolean {
+  const lower = content.toLowerCase()
+  const trimmed = name.trim().toLowerCase()
+  if (!trimmed) return true
+  if (lower.includes(trimmed)) return true
+
+  // Accept the surname alone ("Dear Mr. Smith")
+  const parts = trimmed.split(/\s+/)
+  return parts.length > 1 && lower.includes(parts[parts.length - 1])
+}
+
+function hasSignatureBlock(content: string, senderName: string): boolean {
+  const closings = [...content.matchAll(CLOSING_PATTERN)]
+  if (closings.length === 0) return false
+
+  const lastClosing = closings[closings.length - 1]
+  const tail = content.slice(lastClosing.index ?? 0)
+  return !senderName.trim() || mentionsName(tail, senderName)
+}
+
+function stringField(intakeData: Record<string, unknown>, key: string): string {
+  const value = intakeData[key]
+  return typeof value === 'string' ? value : ''
+}
+
+/**
+ * Run every check against a draft
+ */
+export function checkDraftQuality(
+  content: string,
+  intakeData: Record<string, unknown>
+): DraftQualityReport {
+  const checks: DraftQualityCheck[] = []
+  const senderName = stringField(intakeData, 'senderName')
+  const recipientName = stringField(intakeData, 'recipientName')
+  const deadlineDate = stringField(intakeData, 'deadlineDate')
+  const amountDemanded = intakeData.amountDemanded
+  const wordCount = content.split(/\s+/).filter(Boolean).length
+
+  const placeholders = findPlaceholders(content)
+  checks.push({
+    id: 'placeholders',
+    label: 'No unfilled placeholders',
+    passed: placeholders.length === 0,
+    severity: 'hard',
+    details: placeholders.length > 0 ? `Found: ${placeholders.slice(0, 5).join(', ')}` : undefined,
+  })
+
+  if (typeof amountDemanded === 'number' && amountDemanded > 0) {
+    const passed = mentionsAmount(content, amountDemanded)
+    checks.push({
+      id: 'amount_demanded',
+      label: 'States the amount demanded',
+      passed,
+      severity: 'hard',
+      details: passed ? undefined : `$${amountDemanded.toLocaleString()} from intake is not mentioned`,
+    })
+  }
+
+  if (deadlineDate) {
+    const passed = mentionsDate(content, deadlineDate)
+    checks.push({
+      id: 'deadline_date',
+      label: 'States the response deadline',
+      passed,
+      severity: 'hard',
+      details: passed ? undefined : `Deadline ${deadlineDate} from intake is not mentioned`,
+    })
+  }
+
+  if (senderName) {
+    const passed = mentionsName(content, senderName)
+    checks.push({
+      id: 'sender_name',
+      label: 'Names the sender',
+      passed,
+      severity: 'hard',
+      details: passed ? undefined : `"${senderName}" does not appear in the letter`,
+    })
+  }
+
+  if (recipientName) {
+    const passed = mentionsName(content, recipientName)
+    checks.push({
+      id: 'recipient_name',
+      label: 'Names the recipient',
+      passed,
+      severity: 'hard',
+      details: passed ? undefined : `"${recipientName}" does not appear in the letter`,
+    })
+  }
+
+  const signed = hasSignatureBlock(content, senderName)
+  checks.push({
+    id: 'signature_block',
+    label: 'Ends with a signature block',
+    passed: signed,
+    severity: 'hard',
+    details: signed ? undefined : 'No closing followed by the sender name',
+  })
+
+  const lengthOk = wordCount >= MIN_WORDS && wordCount <= MAX_WORDS
+  checks.push({
+    id: 'length',
+    label: `Length between ${MIN_WORDS} and ${MAX_WORDS} words`,
+    passed: lengthOk,
+    severity: 'soft',
+    details: lengthOk ? undefined : `${wordCount} words`,
+  })
+
+  return {
+    passed: checks.every(check => check.passed || check.severity === 'soft'),
+    checks,
+    wordCount,
+    regenerated: false,
+    checkedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Prompt addendum telling the model what the previous draft got wrong
+ */
+export function buildQualityFeedback(report: DraftQualityReport): string {
+  const failed = report.checks.filter(check => !check.passed)
+  if (failed.length === 0) return ''
+
+  return `
+A previous draft of this letter failed these checks. Fix every one of them:
+${failed.map(check => `- ${check.label}${check.details ? ` (${check.details})` : ''}`).join('\n')}
+
+Do not leave any bracketed placeholders; use the details provided above.
+End with a closing (e.g. "Sincerely,") followed by the sender's name.
+`.trim()
+}
@@ -0,0 +1,438 @@
+/**
+ * Letter intake field definitions
+ * One definition per letter type drives both the intake form in
+ * app/dashboard/letters/new and server-side validateIntakeData, so the fields a
+ * user is asked for and the rules they are checked against cannot drift apart.
+ */
+
+import { US_STATES, STATE_CODES } from '@/lib/jurisdiction'
+
+export type IntakeFieldType =
+  | 'text'
+  | 'textarea'
+  | 'email'
+  | 'tel'
+  | 'number'
+  | 'currency'
+  | 'date'
+  | 'state'
+  | 'select'
+  | 'attachments'
+
+// Where the field is rendered on the intake form
+export type IntakeFieldSection = 'parties' | 'case' | 'documents'
+
+export interface IntakeFieldOption {
+  value: string
+  label: string
+}
+
+/**
+ * Show a field only when another field has one of the given values
+ */
+export interface IntakeFieldCondition {
+  field: string
+  equals: string[]
+}
+
+export interface IntakeFieldDefinition {
+  name: string
+  type: IntakeFieldType
+  label: string
+  section: IntakeFieldSection
+  helpText?: string
+  placeholder?: string
+  required?: boolean  // Only enforced while the field is visible
+  minLength?: number
+  maxLength?: number
+  min?: number
+  max?: number
+  rows?: number  // Textarea height
+  halfWidth?: boolean  // Shares a row with the neighbouring half-width field
+  options?: IntakeFieldOption[]
+  visibleWhen?: IntakeFieldCondition
+}
+
+export interface IntakeFieldError {
+  field: string
+  message: string
+}
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const PHONE_REGEX = /^[\d\s\-+()]{10,20}$/
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$|^\d{1,2}\/\d{1,2}\/\d{4}$/
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export const MAX_INTAKE_ATTACHMENTS = 5
+
+const STATE_OPTIONS: IntakeFieldOption[] = US_STATES.map(state => ({ value: state.code, label: state.name }))
+
+const YES_NO_OPTIONS: IntakeFieldOption[] = [
+  { value: 'yes', label: 'Yes' },
+  { value: 'no', label: 'No' },
+]
+
+const PARTY_FIELDS: IntakeFieldDefinition[] = [
+  { name: 'senderName', type: 'text', label: 'Your Full Name', section: 'parties', required: true, maxLength: 100, halfWidth: true },
+  { name: 'recipientName', type: 'text', label: 'Recipient Name', section: 'parties', required: true, maxLength: 100, halfWidth: true },
+  { name: 'senderAddress', type: 'textarea', label: 'Your Address', section: 'parties', required: true, maxLength: 500, rows: 3 },
+  { name: 'recipientAddress', type: 'textarea', label: 'Recipient Address', section: 'parties', required: true, maxLength: 500, rows: 3 },
+  { name: 'senderEmail', type: 'email', label: 'Your Email', section: 'parties', halfWidth: true },
+  { name: 'senderPhone', type: 'tel', label: 'Your Phone', section: 'parties', maxLength: 20, halfWidth: true },
+  { name: 'recipientEmail', type: 'email', label: 'Recipient Email', section: 'parties', halfWidth: true },
+  { name: 'recipientPhone', type: 'tel', label: 'Recipient Phone', section: 'parties', maxLength: 20, halfWidth: true },
+]
+
+const GOVERNING_STATE_FIELD: IntakeFieldDefinition = {
+  name: 'governingState',
+  type: 'state',
+  label: 'Governing State',
+  section: 'case',
+  required: true,
+  placeholder: 'Select the state whose law applies',
+  helpText: 'Usually where the property is located, the contract was performed, or the recipient does business',
+  options: STATE_OPTIONS,
+}
+
+const ISSUE_DESCRIPTION_FIELD: IntakeFieldDefinition = {
+  name: 'issueDescription',
+  type: 'textarea',
+  label: 'Issue Description',
+  section: 'case',
+  required: true,
+  minLength: 20,
+  maxLength: 2000,
+  rows: 6,
+  placeholder: 'Describe the issue in detail. Include relevant dates, events, and any supporting information...',
+}
+
+const DESIRED_OUTCOME_FIELD: IntakeFieldDefinition = {
+  name: 'desiredOutcome',
+  type: 'textarea',
+  label: 'Desired Outcome',
+  section: 'case',
+  required: true,
+  minLength: 10,
+  maxLength: 1000,
+  rows: 3,
+  placeholder: 'What resolution are you seeking?',
+}
+
+const DOCUMENT_FIELDS: IntakeFieldDefinition[] = [
+  { name: 'attachments', type: 'attachments', label: 'Supporting Documents', section: 'documents', max: MAX_INTAKE_ATTACHMENTS },
+  {
+    name: 'additionalDetails',
+    type: 'textarea',
+    label: 'Additional notes about your documents',
+    section: 'documents',
+    maxLength: 3000,
+    rows: 2,
+    placeholder: 'Describe any additional context about your documents...',
+  },
+]
+
+// Fields that only some letter types ask for, in form order
+const LETTER_TYPE_DETAIL_FIELDS: Record<string, IntakeFieldDefinition[]> = {
+  demand_letter: [
+    { name: 'amountDemanded', type: 'currency', label: 'Amount Demanded ($)', section: 'case', min: 0, max: 10000000, placeholder: '0.00', halfWidth: true },
+    { name: 'deadlineDate', type: 'date', label: 'Deadline for Response', section: 'case', halfWidth: true },
+    { name: 'incidentDate', type: 'date', label: 'Date the Debt or Damage Arose', section: 'case' },
+  ],
+  cease_desist: [
+    {
+      name: 'conductType',
+      type: 'select',
+      label: 'Type of Conduct',
+      section: 'case',
+      required: true,
+      options: [
+        { value: 'harassment', label: 'Harassment' },
+        { value: 'defamation', label: 'Defamation' },
+        { value: 'intellectual_property', label: 'Copyright or trademark use' },
+        { value: 'contract_interference', label: 'Interference with a contract or business' },
+        { value: 'other', label: 'Other' },
+      ],
+    },
+    {
+      name: 'workInfringed',
+      type: 'text',
+      label: 'Work or Mark Being Used',
+      section: 'case',
+      maxLength: 200,
+      helpText: 'Title, registration number or description of what is being copied',
+      visibleWhen: { field: 'conductType', equals: ['intellectual_property'] },
+    },
+    {
+      name: 'deadlineDate',
+      type: 'date',
+      label: 'Deadline to Cease Activity',
+      section: 'case',
+      helpText: 'Specify by when the activity must stop',
+    },
+  ],
+  contract_breach: [
+    { name: 'contractDate', type: 'date', label: 'Contract Date', section: 'case', halfWidth: true },
+    { name: 'incidentDate', type: 'date', label: 'Date of Breach', section: 'case', halfWidth: true, helpText: 'When did the breach occur?' },
+    { name: 'contractValue', type: 'currency', label: 'Contract Value ($)', section: 'case', min: 0, max: 10000000, placeholder: '0.00', halfWidth: true },
+    { name: 'deadlineDate', type: 'date', label: 'Deadline to Cure', section: 'case', halfWidth: true },
+  ],
+  eviction_notice: [
+    {
+      name: 'evictionReason',
+      type: 'select',
+      label: 'Reason for Notice',
+      section: 'case',
+      required: true,
+      options: [
+        { value: 'nonpayment', label: 'Unpaid rent' },
+        { value: 'lease_violation', label: 'Lease violation' },
+        { value: 'end_of_tenancy', label: 'End of tenancy' },
+      ],
+    },
+    {
+      name: 'rentOwed',
+      type: 'currency',
+      label: 'Rent Owed ($)',
+      section: 'case',
+      required: true,
+      min: 0,
+      max: 1000000,
+      placeholder: '0.00',
+      halfWidth: true,
+      visibleWhen: { field: 'evictionReason', equals: ['nonpayment'] },
+    },
+    {
+      name: 'monthlyRent',
+      type: 'currency',
+      label: 'Monthly Rent ($)',
+      section: 'case',
+      min: 0,
+      max: 1000000,
+      placeholder: '0.00',
+      halfWidth: true,
+      visibleWhen: { field: 'evictionReason', equals: ['nonpayment'] },
+    },
+    {
+      name: 'leaseViolation',
+      type: 'textarea',
+      label: 'Lease Term Violated',
+      section: 'case',
+      required: true,
+      maxLength: 1000,
+      rows: 3,
+      placeholder: 'Quote or describe the lease clause and how it was violated',
+      visibleWhen: { field: 'evictionReason', equals: ['lease_violation'] },
+    },
+    { name: 'leaseStartDate', type: 'date', label: 'Lease Start Date', section: 'case', halfWidth: true },
+    { name: 'deadlineDate', type: 'date', label: 'Notice to Vacate By', section: 'case', halfWidth: true },
+  ],
+  employment_dispute: [
+    {
+      name: 'employmentStatus',
+      type: 'select',
+      label: 'Employment Status',
+      section: 'case',
+      required: true,
+      options: [
+        { value: 'current', label: 'Currently employed' },
+        { value: 'former', label: 'Former employee' },
+      ],
+      halfWidth: true,
+    },
+    { name: 'jobTitle', type: 'text', label: 'Job Title', section: 'case', maxLength: 100, halfWidth: true },
+    {
+      name: 'separationDate',
+      type: 'date',
+      label: 'Last Day of Employment',
+      section: 'case',
+      visibleWhen: { field: 'employmentStatus', equals: ['former'] },
+    },
+    { name: 'incidentDate', type: 'date', label: 'Date of Incident', section: 'case', helpText: 'When did the incident occur?' },
+  ],
+  consumer_complaint: [
+    { name: 'merchantName', type: 'text', label: 'Merchant or Company', section: 'case', required: true, maxLength: 200, halfWidth: true },
+    { name: 'orderNumber', type: 'text', label: 'Order or Account Number', section: 'case', maxLength: 100, halfWidth: true },
+    { name: 'incidentDate', type: 'date', label: 'Date of Purchase or Incident', section: 'case', halfWidth: true, helpText: 'When did you purchase the product or when did the issue occur?' },
+    { name: 'purchaseAmount', type: 'currency', label: 'Amount Paid ($)', section: 'case', min: 0, max: 10000000, placeholder: '0.00', halfWidth: true },
+    {
+      name: 'contactedMerchant',
+      type: 'select',
+      label: 'Have you already contacted the merchant?',
+      section: 'case',
+      options: YES_NO_OPTIONS,
+    },
+    {
+      name: 'priorContact',
+      type: 'textarea',
+      label: 'Previous Contact',
+      section: 'case',
+      maxLength: 1000,
+      rows: 3,
+      placeholder: 'When and how you contacted them, and what they said',
+      visibleWhen: { field: 'contactedMerchant', equals: ['yes'] },
+    },
+  ],
+}
+
+export const INTAKE_LETTER_TYPES = Object.keys(LETTER_TYPE_DETAIL_FIELDS)
+
+/**
+ * All fields of a letter type in form order; empty for an unknown type
+ */
+export function getIntakeFields(letterType: string): IntakeFieldDefinition[] {
+  const detailFields = LETTER_TYPE_DETAIL_FIELDS[letterType]
+  if (!detailFields) return []
+
+  return [
+    ...PARTY_FIELDS,
+    GOVERNING_STATE_FIELD,
+    ISSUE_DESCRIPTION_FIELD,
+    ...detailFields,
+    DESIRED_OUTCOME_FIELD,
+    ...DOCUMENT_FIELDS,
+  ]
+}
+
+/**
+ * Fields specific to a letter type, i.e. not asked on every intake
+ */
+export function getLetterTypeDetailFields(letterType: string): IntakeFieldDefinition[] {
+  return LETTER_TYPE_DETAIL_FIELDS[letterType] ?? []
+}
+
+export function isIntakeFieldVisible(field: IntakeFieldDefinition, values: Record<string, unknown>): boolean {
+  if (!field.visibleWhen) return true
+  return field.visibleWhen.equals.includes(String(values[field.visibleWhen.field] ?? ''))
+}
+
+export function getVisibleIntakeFields(letterType: string, values: Record<string, unknown>): IntakeFieldDefinition[] {
+  return getIntakeFields(letterType).filter(field => isIntakeFieldVisible(field, values))
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)
+}
+
+function formatDollars(value: number): string {
+  return `$${value.toLocaleString('en-US')}`
+}
+
+/**
+ * Check one non-empty value against its field definition
+ */
+export function validateIntakeFieldValue(field: IntakeFieldDefinition, value: unknown): string | null {
+  switch (field.type) {
+    case 'email':
+      return typeof value === 'string' && EMAIL_REGEX.test(value) ? null : `${field.label} must be a valid email address`
+
+    case 'tel':
+      return typeof value === 'string' && PHONE_REGEX.test(value) ? null : `${field.label} must be a valid phone number`
+
+    case 'date':
+      return typeof value === 'string' && DATE_REGEX.test(value)
+        ? null
+        : `${field.label} must be a date in YYYY-MM-DD or MM/DD/YYYY format`
+
+    case 'number':
+    case 'currency': {
+      const amount = typeof value === 'number' ? value : Number(value)
+      if (!Number.isFinite(amount)) return `${field.label} must be a number`
+      if ((field.min !== undefined && amount < field.min) || (field.max !== undefined && amount > field.max)) {
+        const format = field.type === 'currency' ? formatDollars : String
+        return `${field.label} must be between ${format(field.min ?? 0)} and ${format(field.max ?? Infinity)}`
+      }
+      return null
+    }
+
+    case 'state':
+      return STATE_CODES.includes(String(value).toUpperCase()) ? null : `${field.label} must be a two-letter US state code`
+
+    case 'select':
+      return field.options?.some(option => option.value === value) ? null : `${field.label} has an invalid selection`
+
+    case 'attachments':
+      if (!Array.isArray(value)) return `${field.label} must be a list`
+      if (field.max !== undefined && value.length > field.max) return `No more than ${field.max} attachments are allowed`
+      return value.every(id => typeof id === 'string' && UUID_REGEX.test(id)) ? null : 'Invalid attachment reference'
+
+    case 'text':
+    case 'textarea': {
+      const text = String(value)
+      if (field.minLength !== undefined && text.trim().length < field.minLength) {
+        return `${field.label} must be at least ${field.minLength} characters long`
+      }
+      if (field.maxLength !== undefined && text.length > field.maxLength) {
+        return `${field.label} must be at most ${field.maxLength} characters long`
+      }
+      return null
+    }
+  }
+}
+
+/**
+ * Validate intake values against the letter type's definition
+ * Hidden fields are skipped, so a field that is only required in one branch of
+ * a condition is not demanded in the others.
+ */
+export function validateIntakeFields(letterType: string, values: Record<string, unknown>): IntakeFieldError[] {
+  const errors: IntakeFieldError[] = []
+
+  for (const field of getVisibleIntakeFields(letterType, values)) {
+    const value = values[field.name]
+
+    if (isEmpty(value)) {
+      if (field.required) errors.push({ field: field.name, message: `${field.label} is required` })
+      continue
+    }
+
+    const message = validateIntakeFieldValue(field, value)
+    if (message) errors.push({ field: field.name, message })
+  }
+
+  return errors
+}
+
+/**
+ * Convert form input (all strings) into the intake payload sent to the API
+ * Empty and hidden fields are dropped and numeric fields become numbers.
+ */
+export function buildIntakePayload(
+  letterType: string,
+  formValues: Record<string, string>
+): Record<string, unknown> {
+  const payload: Record<string, unknown> = {}
+
+  for (const field of getVisibleIntakeFields(letterType, formValues)) {
+    const value = formValues[field.name]
+    if (field.type === 'attachments' || value === undefined || value.trim() === '') continue
+
+    payload[field.name] = field.type === 'number' || field.type === 'currency' ? Number(value) : value
+  }
+
+  return payload
+}
+
+/**
+ * Human-readable value for prompts and review screens
+ */
+export function formatIntakeFieldValue(field: IntakeFieldDefinition, value: unknown): string {
+  if (field.type === 'currency') {
+    const amount = Number(value)
+    return Number.isFinite(amount) ? formatDollars(amount) : String(value)
+  }
+
+  if (field.options) {
+    return field.options.find(option => option.value === value)?.label ?? String(value)
+  }
+
+  return String(value)
+}
+
+/**
+ * "Label: value" lines for the letter-type-specific fields that were filled in
+ */
+export function formatLetterTypeDetails(letterType: string, values: Record<string, unknown>): string[] {
+  return getLetterTypeDetailFields(letterType)
+    .filter(field => isIntakeFieldVisible(field, values) && !isEmpty(values[field.name]))
+    .map(field => `${field.label.replace(/\s*\(\$\)$/, '')}: ${formatIntakeFieldValue(field, values[field.name])}`)
+}
@@ -4,125 +4,58 @@
  */
 
 import { validateInput, ValidationResult } from '@/lib/security/input-sanitizer'
-
-// Define the letter intake data schema
-export interface LetterIntakeSchema {
-  senderName: { type: 'string'; required: true; maxLength: 100 }
-  senderAddress: { type: 'string'; required: true; maxLength: 500 }
-  senderEmail?: { type: 'email'; required: false }
-  senderPhone?: { type: 'string'; required: false; maxLength: 20 }
-  recipientName: { type: 'string'; required: true; maxLength: 100 }
-  recipientAddress: { type: 'string'; required: true; maxLength: 500 }
-  recipientEmail?: { type: 'email'; required: false }
-  recipientPhone?: { type: 'string'; required: false; maxLength: 20 }
-  issueDescription: { type: 'string'; required: true; maxLength: 2000 }
-  desiredOutcome: { type: 'string'; required: true; maxLength: 1000 }
-  amountDemanded?: { type: 'number'; required: false; min: 0; max: 10000000 }
-  deadlineDate?: { type: 'string'; required: false; maxLength: 50 }
-  incidentDate?: { type: 'string'; required: false; maxLength: 50 }
-  additionalDetails?: { type: 'string'; required: false; maxLength: 3000 }
-  attachments?: { type: 'array'; required: false }
-}
-
-/**
- * Base schema shared by all letter types
- * Reduces duplication by defining common fields once
- */
-const baseLetterSchema = {
-  senderName: { type: 'string', required: true, maxLength: 100 },
-  senderAddress: { type: 'string', required: true, maxLength: 500 },
-  senderEmail: { type: 'email', required: false },
-  senderPhone: { type: 'string', required: false, maxLength: 20 },
-  recipientName: { type: 'string', required: true, maxLength: 100 },
-  recipientAddress: { type: 'string', required: true, maxLength: 500 },
-  recipientEmail: { type: 'email', required: false },
-  recipientPhone: { type: 'string', required: false, maxLength: 20 },
-  issueDescription: { type: 'string', required: true, maxLength: 2000 },
-  desiredOutcome: { type: 'string', required: true, maxLength: 1000 },
-  additionalDetails: { type: 'string', required: false, maxLength: 3000 },
-  attachments: { type: 'array', required: false }
-} as const
+import {
+  getJurisdictionRules,
+  checkDeadlineAgainstRules,
+  type JurisdictionRuleSet,
+} from '@/lib/jurisdiction'
+import {
+  screenIntakeContent,
+  getBlockedFieldErrors,
+  type ContentScreeningResult,
+} from './content-screening'
+import {
+  INTAKE_LETTER_TYPES,
+  getIntakeFields,
+  getVisibleIntakeFields,
+  validateIntakeFields,
+  type IntakeFieldDefinition,
+  type IntakeFieldType,
+} from './intake-fields'
 
 /**
- * Create letter type schema by extending base schema with specific fields
+ * Sanitizer schema derived from the intake field definitions
+ * Requiredness is left to validateIntakeFields, which knows which fields are visible
  */
-function createLetterSchema(additionalFields: Record<string, any> = {}): LetterIntakeSchema {
-  return { ...baseLetterSchema, ...additionalFields } as LetterIntakeSchema
+type IntakeSanitizerSchema = Record<string, { type: string; required?: boolean; maxLength?: number }>
+
+const SANITIZER_TYPES: Record<IntakeFieldType, string> = {
+  text: 'string',
+  textarea: 'string',
+  email: 'email',
+  tel: 'string',
+  number: 'number',
+  currency: 'number',
+  date: 'string',
+  state: 'string',
+  select: 'string',
+  attachments: 'array',
 }
 
-// Define letter type schemas with variations from base
-export const LETTER_TYPE_SCHEMAS: Record<string, LetterIntakeSchema> = {
-  'demand_letter': createLetterSchema({
-    amountDemanded: { type: 'number', required: false, min: 0, max: 10000000 },
-    deadlineDate: { type: 'string', required: false, maxLength: 50 },
-    incidentDate: { type: 'string', required: false, maxLength: 50 },
-  }),
-  'cease_desist': createLetterSchema({
-    deadlineDate: { type: 'string', required: false, maxLength: 50 },
-  }),
-  'contract_breach': createLetterSchema({
-    incidentDate: { type: 'string', required: false, maxLength: 50 },
-  }),
-  'eviction_notice': createLetterSchema({
-    deadlineDate: { type: 'string', required: false, maxLength: 50 },
-  }),
-  'employment_dispute': createLetterSchema({
-    incidentDate: { type: 'string', required: false, maxLength: 50 },
-  }),
-  'consumer_complaint': createLetterSchema({
-    incidentDate: { type: 'string', required: false, maxLength: 50 },
-  })
+function toSanitizerSchema(fields: IntakeFieldDefinition[]): IntakeSanitizerSchema {
+  return Object.fromEntries(
+    fields.map(field => [field.name, { type: SANITIZER_TYPES[field.type], maxLength: field.maxLength }])
+  )
 }
 
+// Sanitizer schemas per letter type, built from the shared field definitions
+export const LETTER_TYPE_SCHEMAS: Record<string, IntakeSanitizerSchema> = Object.fromEntries(
+  INTAKE_LETTER_TYPES.map(letterType => [letterType, toSanitizerSchema(getIntakeFields(letterType))])
+)
+
 // List of allowed letter types
 export const ALLOWED_LETTER_TYPES = Object.keys(LETTER_TYPE_SCHEMAS)
 
-// Forbidden patterns to prevent injection attacks
-export const FORBIDDEN_PATTERNS = [
-  // Script injections
-  /<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi,
-  /javascript:/gi,
-  /vbscript:/gi,
-  /onload\s*=/gi,
-  /onerror\s*=/gi,
-  /onclick\s*=/gi,
-
-  // SQL injection patterns
-  /(\b(UNION|SELECT|INSERT|UPDATE|DELETE|DROP|CREATE|ALTER|EXEC|EXECUTE)\b)/gi,
-  /(--|\/\*|\*\/)/g,
-  /(\bor\s+1\s*=\s*1\b)/gi,
-  /(\band\s+1\s*=\s*1\b)/gi,
-
-  // Path traversal
-  /\.\.\//g,
-  /\.\.\\/g,
-
-  // Command injection
-  /(;|\||&|\$\(|`)/g,
-
-  // XSS patterns
-  /<iframe\b[^>]*>/gi,
-  /<object\b[^>]*>/gi,
-  /<embed\b[^>]*>/gi,
-
-  // Excessive whitespace (potential DoS)
-  / {20,}/g,
-  /\t{10,}/g,
-  /\n{10,}/g,
-
-  // Potential prompt injection for AI
-  /ignore\s+previous\s+instructions/gi,
-  /system\s*:/gi,
-  /assistant\s*:/gi,
-  /\[SYSTEM\]/gi,
-  /\[ADMIN\]/gi
-]
-
-// Advanced validation functions
-export function containsForbiddenPatterns(input: string): boolean {
-  return FORBIDDEN_PATTERNS.some(pattern => pattern.test(input))
-}
-
 export function validateLetterType(letterType: string): { valid: boolean; error?: string } {
   if (!letterType || typeof letterType !== 'string') {
     return { valid: false, error: 'Letter type is required' }
@@ -138,91 +71,61 @@ export function validateLetterType(letterType: string): { valid: boolean; error?
   return { valid: true }
 }
 
-export function validateIntakeData(letterType: string, intakeData: unknown): ValidationResult {
+/**
+ * Intake validation result with the content screening of the raw input
+ */
+export interface IntakeValidationResult extends ValidationResult {
+  screening: ContentScreeningResult | null
+}
+
+export function validateIntakeData(letterType: string, intakeData: unknown): IntakeValidationResult {
   const letterTypeValidation = validateLetterType(letterType)
   if (!letterTypeValidation.valid) {
     return {
       valid: false,
-      errors: [letterTypeValidation.error!]
+      errors: [letterTypeValidation.error!],
+      screening: null
     }
   }
 
   if (!intakeData || typeof intakeData !== 'object') {
     return {
       valid: false,
-      errors: ['Intake data must be a valid object']
+      errors: ['Intake data must be a valid object'],
+      screening: null
     }
   }
 
-  const schema = LETTER_TYPE_SCHEMAS[letterType]
-  const result = validateInput(intakeData as Record<string, unknown>, schema as any)
+  const input = intakeData as Record<string, unknown>
 
-  // Additional custom validations
+  // Hidden conditional fields are dropped rather than validated
+  const result = validateInput(input, toSanitizerSchema(getVisibleIntakeFields(letterType, input)))
   const errors = [...result.errors]
   const data = (result.data || {}) as Record<string, unknown>
 
-  // Check for forbidden patterns in string fields
-  for (const [key, value] of Object.entries(data)) {
-    if (typeof value === 'string' && containsForbiddenPatterns(value)) {
-      errors.push(`${key} contains forbidden content`)
-      delete data[key]
-    }
-  }
-
-  // Helper function to validate field with regex
-  const validateFieldWithRegex = (
-    fieldName: keyof typeof data, 
-    regex: RegExp, 
-    errorMessage: string
-  ) => {
-    const value = data[fieldName]
-    if (typeof value === 'string' && !regex.test(value)) {
-      errors.push(errorMessage)
-      delete data[fieldName]
-    }
-  }
-
-  // Validate email format consistency
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
-  validateFieldWithRegex('senderEmail', emailRegex, 'Invalid sender email format')
-  validateFieldWithRegex('recipientEmail', emailRegex, 'Invalid recipient email format')
-
-  // Validate phone number format
-  const phoneRegex = /^[\d\s\-\+\(\)]{10,20}$/
-  validateFieldWithRegex('senderPhone', phoneRegex, 'Invalid sender phone number format')
-  validateFieldWithRegex('recipientPhone', phoneRegex, 'Invalid recipient phone number format')
-
-  // Validate date format
-  const dateRegex = /^\d{4}-\d{2}-\d{2}$|^\d{1,2}\/\d{1,2}\/\d{4}$/
-  if (data.deadlineDate) {
-    validateFieldWithRegex('deadlineDate', dateRegex, 'Invalid deadline date format. Use YYYY-MM-DD or MM/DD/YYYY')
-  }
-  if (data.incidentDate) {
-    validateFieldWithRegex('incidentDate', dateRegex, 'Invalid incident date format. Use YYYY-MM-DD or MM/DD/YYYY')
-  }
-
-  // Validate reasonable amount ranges
-  if (data.amountDemanded !== undefined) {
-    const amount = data.amountDemanded as number
-    if (amount < 0 || amount > 10000000) {
-      errors.push('Amount must be between $0 and $10,000,000')
-      delete data.amountDemanded
-    }
-  }
-
-  // Check for minimum content requirements
-  if (data.issueDescription && (data.issueDescription as string).length < 20) {
-    errors.push('Issue description must be at least 20 characters long')
+  // Screen the raw text (sanitization strips markup); only executable markup is rejected,
+  // borderline input passes and is flagged for admin review
+  const schema = LETTER_TYPE_SCHEMAS[letterType]
+  const rawFields = Object.fromEntries(
+    Object.entries(input).filter(([key]) => key in schema)
+  )
+  const screening = screenIntakeContent(rawFields)
+  errors.push(...getBlockedFieldErrors(screening))
+
+  // Same field rules the intake form applies before submitting
+  if (result.valid) {
+    errors.push(...validateIntakeFields(letterType, data).map(error => error.message))
   }
 
-  if (data.desiredOutcome && (data.desiredOutcome as string).length < 10) {
-    errors.push('Desired outcome must be at least 10 characters long')
+  if (typeof data.governingState === 'string') {
+    data.governingState = data.governingState.toUpperCase()
   }
 
   return {
     valid: errors.length === 0,
     errors,
-    data: errors.length === 0 ? data : undefined
+    data: errors.length === 0 ? data : undefined,
+    screening
   }
 }
 
@@ -241,23 +144,50 @@ export function sanitizePromptInput(text: string): string {
     .substring(0, 5000)
 }
 
+/**
+ * Validation result for generation requests
+ * Warnings never block generation; they are recorded with the jurisdiction rules
+ * so the reviewing attorney sees them
+ */
+export interface LetterGenerationValidationResult extends IntakeValidationResult {
+  warnings: string[]
+  jurisdiction: JurisdictionRuleSet | null
+}
+
 // Main validation function for letter generation requests
 export function validateLetterGenerationRequest(
   letterType: unknown,
   intakeData: unknown
-): ValidationResult {
+): LetterGenerationValidationResult {
   // Validate letter type
   if (!letterType || typeof letterType !== 'string') {
     return {
       valid: false,
-      errors: ['Letter type is required and must be a string']
+      errors: ['Letter type is required and must be a string'],
+      screening: null,
+      warnings: [],
+      jurisdiction: null
     }
   }
 
   // Validate and sanitize intake data
   const intakeValidation = validateIntakeData(letterType, intakeData)
+  if (!intakeValidation.valid || !intakeValidation.data?.governingState) {
+    return { ...intakeValidation, warnings: [], jurisdiction: null }
+  }
+
+  // Resolve state rules and check the requested deadline against them
+  const data = intakeValidation.data
+  const jurisdiction = getJurisdictionRules(data.governingState as string, letterType)
+  const warnings = jurisdiction
+    ? checkDeadlineAgainstRules(jurisdiction, data.deadlineDate as string | undefined)
+    : []
 
-  return intakeValidation
+  return {
+    ...intakeValidation,
+    warnings,
+    jurisdiction: jurisdiction ? { ...jurisdiction, warnings } : null
+  }
 }
 
 // Export for use in API routes
@@ -0,0 +1,103 @@
+-- Letter attachments: private storage bucket and extracted evidence text
+-- Migration: 20260201000000_letter_attachments.sql
+-- Purpose: Store intake uploads (contracts, invoices, emails) and the text extracted
+--          from them so the AI draft can quote the actual documents
+
+BEGIN;
+
+-- Private bucket; objects are stored under "<user_id>/<attachment_id>-<file name>"
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('letter-attachments', 'letter-attachments', false, 10485760)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.letter_attachments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    letter_id UUID REFERENCES public.letters(id) ON DELETE SET NULL,
+    file_name TEXT NOT NULL,
+    mime_type TEXT NOT NULL,
+    size_bytes INTEGER NOT NULL CHECK (size_bytes >= 0),
+    storage_path TEXT NOT NULL UNIQUE,
+    extraction_status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (extraction_status IN ('pending', 'extracted', 'unsupported', 'failed')),
+    extracted_text TEXT,
+    extraction_error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_letter_attachments_user_id ON public.letter_attachments(user_id);
+CREATE INDEX IF NOT EXISTS idx_letter_attachments_letter_id ON public.letter_attachments(letter_id) WHERE letter_id IS NOT NULL;
+
+ALTER TABLE public.letter_attachments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users view own attachments" ON public.letter_attachments;
+CREATE POLICY "Users view own attachments"
+    ON public.letter_attachments
+    FOR SELECT
+    USING (user_id = (SELECT auth.uid()));
+
+-- No INSERT or UPDATE policy: rows are recorded and linked to letters by the
+-- server with the service role, after it has extracted the text that feeds the
+-- drafting prompt
+DROP POLICY IF EXISTS "Users insert own attachments" ON public.letter_attachments;
+DROP POLICY IF EXISTS "Users update own attachments" ON public.letter_attachments;
+
+DROP POLICY IF EXISTS "Users delete own unlinked attachments" ON public.letter_attachments;
+CREATE POLICY "Users delete own unlinked attachments"
+    ON public.letter_attachments
+    FOR DELETE
+    USING (user_id = (SELECT auth.uid()) AND letter_id IS NULL);
+
+DROP POLICY IF EXISTS "Admins view all attachments" ON public.letter_attachments;
+CREATE POLICY "Admins view all attachments"
+    ON public.letter_attachments
+    FOR SELECT
+    USING (public.get_user_role() = 'admin');
+
+-- Storage object policies: the first path segment is the owner's user id
+DROP POLICY IF EXISTS "Users upload own letter attachments" ON storage.objects;
+CREATE POLICY "Users upload own letter attachments"
+    ON storage.objects
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        bucket_id = 'letter-attachments'
+        AND (storage.foldername(name))[1] = (SELECT auth.uid())::text
+    );
+
+DROP POLICY IF EXISTS "Users read own letter attachments" ON storage.objects;
+CREATE POLICY "Users read own letter attachments"
+    ON storage.objects
+    FOR SELECT
+    TO authenticated
+    USING (
+        bucket_id = 'letter-attachments'
+        AND (storage.foldername(name))[1] = (SELECT auth.uid())::text
+    );
+
+DROP POLICY IF EXISTS "Users delete own letter attachments" ON storage.objects;
+CREATE POLICY "Users delete own letter attachments"
+    ON storage.objects
+    FOR DELETE
+    TO authenticated
+    USING (
+        bucket_id = 'letter-attachments'
+        AND (storage.foldername(name))[1] = (SELECT auth.uid())::text
+    );
+
+DROP POLICY IF EXISTS "Admins read letter attachments" ON storage.objects;
+CREATE POLICY "Admins read letter attachments"
+    ON storage.objects
+    FOR SELECT
+    TO authenticated
+    USING (
+        bucket_id = 'letter-attachments'
+        AND public.get_user_role() = 'admin'
+    );
+
+COMMENT ON TABLE public.letter_attachments IS 'Supporting documents uploaded during letter intake, with text extracted for the AI prompt';
+COMMENT ON COLUMN public.letter_attachments.letter_id IS 'Letter the attachment was submitted with; NULL until the letter is created';
+COMMENT ON COLUMN public.letter_attachments.extracted_text IS 'Plain text extracted from PDF, DOCX or text uploads; NULL for images and spreadsheets';
+
+COMMIT;
@@ -0,0 +1,23 @@
+-- Record the governing jurisdiction and the rule set applied to each letter
+-- Migration: 20260202000000_letter_jurisdiction.sql
+-- Purpose: Let attorneys see which versioned state rules were injected into the
+--          generation prompt and any deadline warnings raised at intake
+
+BEGIN;
+
+ALTER TABLE letters
+  ADD COLUMN IF NOT EXISTS governing_state TEXT,
+  ADD COLUMN IF NOT EXISTS jurisdiction_rules JSONB;
+
+ALTER TABLE letters
+  DROP CONSTRAINT IF EXISTS check_governing_state;
+ALTER TABLE letters
+  ADD CONSTRAINT check_governing_state
+  CHECK (governing_state IS NULL OR governing_state ~ '^[A-Z]{2}$');
+
+CREATE INDEX IF NOT EXISTS idx_letters_governing_state ON letters(governing_state) WHERE governing_state IS NOT NULL;
+
+COMMENT ON COLUMN letters.governing_state IS 'Two-letter US state code whose law governs the letter';
+COMMENT ON COLUMN letters.jurisdiction_rules IS 'Snapshot of the versioned state rule set (and intake warnings) applied when the letter was generated';
+
+COMMIT;
@@ -0,0 +1,101 @@
+-- Letter version history
+-- Migration: 20260203000000_letter_versions.sql
+-- Purpose: Keep every AI draft, attorney edit, AI improve pass and final approved
+--          text instead of overwriting ai_draft_content / final_content in place
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.letter_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    letter_id UUID NOT NULL REFERENCES public.letters(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL,
+    source TEXT NOT NULL
+        CHECK (source IN ('ai_draft', 'attorney_edit', 'ai_improve', 'final_approved', 'restored')),
+    content TEXT NOT NULL,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    notes TEXT,
+    metadata JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (letter_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_letter_versions_letter_id ON public.letter_versions(letter_id, version_number DESC);
+
+ALTER TABLE public.letter_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions are written only through record_letter_version(); reads are admin-only
+DROP POLICY IF EXISTS "Admins view letter versions" ON public.letter_versions;
+CREATE POLICY "Admins view letter versions"
+    ON public.letter_versions
+    FOR SELECT
+    USING (public.get_user_role() = 'admin');
+
+/*
+  Append a version with the next version number for the letter.
+  Only admins and the service role may record versions; drafts generated for a
+  subscriber are recorded by the server so owners cannot rewrite their history.
+  The row lock on the letter serializes concurrent saves so numbers never collide.
+*/
+CREATE OR REPLACE FUNCTION public.record_letter_version(
+    p_letter_id UUID,
+    p_source TEXT,
+    p_content TEXT,
+    p_notes TEXT DEFAULT NULL,
+    p_metadata JSONB DEFAULT NULL
+)
+RETURNS public.letter_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_next INTEGER;
+    v_version public.letter_versions;
+BEGIN
+    IF auth.role() IS DISTINCT FROM 'service_role'
+       AND public.get_user_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Not allowed to record versions for letter %', p_letter_id;
+    END IF;
+
+    PERFORM 1
+    FROM letters
+    WHERE id = p_letter_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Letter % not found', p_letter_id;
+    END IF;
+
+    SELECT COALESCE(MAX(version_number), 0) + 1 INTO v_next
+    FROM letter_versions
+    WHERE letter_id = p_letter_id;
+
+    INSERT INTO letter_versions (letter_id, version_number, source, content, created_by, notes, metadata)
+    VALUES (p_letter_id, v_next, p_source, p_content, auth.uid(), p_notes, p_metadata)
+    RETURNING * INTO v_version;
+
+    RETURN v_version;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_letter_version TO authenticated, service_role;
+
+-- Backfill existing letters so their history starts with what is stored today
+INSERT INTO public.letter_versions (letter_id, version_number, source, content, created_at)
+SELECT id, 1, 'ai_draft', ai_draft_content, created_at
+FROM public.letters
+WHERE ai_draft_content IS NOT NULL
+ON CONFLICT (letter_id, version_number) DO NOTHING;
+
+INSERT INTO public.letter_versions (letter_id, version_number, source, content, created_by, created_at)
+SELECT id, 2, 'final_approved', final_content, reviewed_by, COALESCE(approved_at, reviewed_at, updated_at)
+FROM public.letters
+WHERE final_content IS NOT NULL
+  AND ai_draft_content IS NOT NULL
+  AND final_content IS DISTINCT FROM ai_draft_content
+ON CONFLICT (letter_id, version_number) DO NOTHING;
+
+COMMENT ON TABLE public.letter_versions IS 'Append-only history of letter content: AI drafts, attorney edits, AI improve passes, restores and final approved text';
+COMMENT ON FUNCTION public.record_letter_version IS 'Appends a letter version with the next version number; caller must be an admin or the service role.';
+
+COMMIT;
@@ -0,0 +1,18 @@
+-- Draft quality report
+-- Migration: 20260204000000_letter_quality_report.sql
+-- Purpose: Store the automated quality gate result (placeholders, amounts, deadlines,
+--          party names, signature block, length) run on each AI draft before review
+
+BEGIN;
+
+ALTER TABLE letters
+  ADD COLUMN IF NOT EXISTS quality_report JSONB;
+
+-- Lets the review queue surface drafts that still failed after auto-regeneration
+CREATE INDEX IF NOT EXISTS idx_letters_quality_failed
+  ON letters(created_at DESC)
+  WHERE (quality_report->>'passed')::boolean IS FALSE;
+
+COMMENT ON COLUMN letters.quality_report IS 'Structured result of the post-generation draft quality checks, including whether the draft was regenerated';
+
+COMMIT;
@@ -0,0 +1,210 @@
+-- AI usage and cost accounting
+-- Migration: 20260205000000_ai_usage_events.sql
+-- Purpose: Record tokens, latency and estimated cost of every AI call, attributed to
+--          the letter, its owner and the user or admin who triggered it, and
+--          aggregate them for the admin analytics cost panel
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.ai_usage_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    letter_id UUID REFERENCES public.letters(id) ON DELETE SET NULL,
+    user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    triggered_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    operation TEXT NOT NULL
+        CHECK (operation IN ('draft', 'draft_regeneration', 'resubmit', 'improve')),
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    input_tokens INTEGER NOT NULL DEFAULT 0 CHECK (input_tokens >= 0),
+    output_tokens INTEGER NOT NULL DEFAULT 0 CHECK (output_tokens >= 0),
+    latency_ms INTEGER NOT NULL DEFAULT 0,
+    estimated_cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+    metadata JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_created_at ON public.ai_usage_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_letter_id ON public.ai_usage_events(letter_id);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_user_id ON public.ai_usage_events(user_id, created_at DESC);
+
+ALTER TABLE public.ai_usage_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are written only through record_ai_usage(); reads are admin-only
+DROP POLICY IF EXISTS "Admins view AI usage" ON public.ai_usage_events;
+CREATE POLICY "Admins view AI usage"
+    ON public.ai_usage_events
+    FOR SELECT
+    USING (public.get_user_role() = 'admin');
+
+/*
+  Record one AI call. Cost is attributed to the letter owner when a letter is given,
+  otherwise to p_user_id; triggered_by is the caller. Subscribers may only record
+  calls for their own letters.
+*/
+CREATE OR REPLACE FUNCTION public.record_ai_usage(
+    p_operation TEXT,
+    p_provider TEXT,
+    p_model TEXT,
+    p_input_tokens INTEGER,
+    p_output_tokens INTEGER,
+    p_latency_ms INTEGER,
+    p_estimated_cost_usd NUMERIC,
+    p_letter_id UUID DEFAULT NULL,
+    p_user_id UUID DEFAULT NULL,
+    p_metadata JSONB DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := COALESCE(p_user_id, auth.uid());
+    v_id UUID;
+BEGIN
+    IF p_letter_id IS NOT NULL THEN
+        SELECT user_id INTO v_user_id FROM letters WHERE id = p_letter_id;
+
+        IF v_user_id IS NULL THEN
+            RAISE EXCEPTION 'Letter % not found', p_letter_id;
+        END IF;
+    END IF;
+
+    IF auth.role() IS DISTINCT FROM 'service_role'
+       AND v_user_id IS DISTINCT FROM auth.uid()
+       AND public.get_user_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Not allowed to record AI usage for user %', v_user_id;
+    END IF;
+
+    INSERT INTO ai_usage_events (
+        letter_id, user_id, triggered_by, operation, provider, model,
+        input_tokens, output_tokens, latency_ms, estimated_cost_usd, metadata
+    )
+    VALUES (
+        p_letter_id, v_user_id, COALESCE(auth.uid(), v_user_id), p_operation, p_provider, p_model,
+        GREATEST(COALESCE(p_input_tokens, 0), 0), GREATEST(COALESCE(p_output_tokens, 0), 0),
+        COALESCE(p_latency_ms, 0), COALESCE(p_estimated_cost_usd, 0), p_metadata
+    )
+    RETURNING id INTO v_id;
+
+    RETURN v_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_ai_usage TO authenticated, service_role;
+
+/*
+  Cost summary for the analytics dashboard: totals, per letter type, per month
+  and the top consumers over the last days_back days.
+*/
+CREATE OR REPLACE FUNCTION public.get_ai_cost_summary(days_back INTEGER DEFAULT 30)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_since TIMESTAMPTZ := NOW() - (days_back || ' days')::INTERVAL;
+    v_result JSONB;
+BEGIN
+    IF auth.role() IS DISTINCT FROM 'service_role' AND public.get_user_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Admin access required';
+    END IF;
+
+    WITH events AS (
+        SELECT e.*, l.letter_type
+        FROM ai_usage_events e
+        LEFT JOIN letters l ON l.id = e.letter_id
+        WHERE e.created_at >= v_since
+    )
+    SELECT jsonb_build_object(
+        'totals', (
+            SELECT jsonb_build_object(
+                'calls', COUNT(*),
+                'letters', COUNT(DISTINCT letter_id),
+                'input_tokens', COALESCE(SUM(input_tokens), 0),
+                'output_tokens', COALESCE(SUM(output_tokens), 0),
+                'cost_usd', COALESCE(SUM(estimated_cost_usd), 0),
+                'avg_cost_per_letter', COALESCE(
+                    SUM(estimated_cost_usd) FILTER (WHERE letter_id IS NOT NULL)
+                    / NULLIF(COUNT(DISTINCT letter_id), 0), 0)
+            )
+            FROM events
+        ),
+        'by_letter_type', COALESCE((
+            SELECT jsonb_agg(t ORDER BY t.cost_usd DESC)
+            FROM (
+                SELECT
+                    letter_type,
+                    COUNT(DISTINCT letter_id) AS letters,
+                    COUNT(*) AS calls,
+                    SUM(input_tokens + output_tokens) AS tokens,
+                    SUM(estimated_cost_usd) AS cost_usd,
+                    SUM(estimated_cost_usd) / NULLIF(COUNT(DISTINCT letter_id), 0) AS avg_cost_per_letter
+                FROM events
+                WHERE letter_type IS NOT NULL
+                GROUP BY letter_type
+            ) t
+        ), '[]'::jsonb),
+        'by_month', COALESCE((
+            SELECT jsonb_agg(m ORDER BY m.month)
+            FROM (
+                SELECT
+                    TO_CHAR(DATE_TRUNC('month', created_at), 'YYYY-MM') AS month,
+                    COUNT(*) AS calls,
+                    SUM(input_tokens + output_tokens) AS tokens,
+                    SUM(estimated_cost_usd) AS cost_usd
+                FROM events
+                GROUP BY DATE_TRUNC('month', created_at)
+            ) m
+        ), '[]'::jsonb),
+        'top_users', COALESCE((
+            SELECT jsonb_agg(u ORDER BY u.cost_usd DESC)
+            FROM (
+                SELECT
+                    e.user_id, p.email, p.full_name, p.role::TEXT AS role,
+                    COUNT(DISTINCT e.letter_id) AS letters,
+                    COUNT(*) AS calls,
+                    SUM(e.input_tokens + e.output_tokens) AS tokens,
+                    SUM(e.estimated_cost_usd) AS cost_usd
+                FROM events e
+                LEFT JOIN profiles p ON p.id = e.user_id
+                WHERE e.user_id IS NOT NULL
+                GROUP BY e.user_id, p.email, p.full_name, p.role
+                ORDER BY cost_usd DESC
+                LIMIT 10
+            ) u
+        ), '[]'::jsonb),
+        'top_triggers', COALESCE((
+            SELECT jsonb_agg(u ORDER BY u.cost_usd DESC)
+            FROM (
+                SELECT
+                    e.triggered_by AS user_id, p.email, p.full_name, p.role::TEXT AS role,
+                    COUNT(DISTINCT e.letter_id) AS letters,
+                    COUNT(*) AS calls,
+                    SUM(e.input_tokens + e.output_tokens) AS tokens,
+                    SUM(e.estimated_cost_usd) AS cost_usd
+                FROM events e
+                LEFT JOIN profiles p ON p.id = e.triggered_by
+                WHERE e.triggered_by IS NOT NULL
+                GROUP BY e.triggered_by, p.email, p.full_name, p.role
+                ORDER BY cost_usd DESC
+                LIMIT 10
+            ) u
+        ), '[]'::jsonb)
+    ) INTO v_result;
+
+    RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_ai_cost_summary TO authenticated, service_role;
+
+COMMENT ON TABLE public.ai_usage_events IS 'One row per successful AI call: tokens, latency and estimated cost, attributed to letter, owner and trigger';
+COMMENT ON COLUMN public.ai_usage_events.user_id IS 'Letter owner the cost is attributed to';
+COMMENT ON COLUMN public.ai_usage_events.triggered_by IS 'User or admin whose request made the call';
+COMMENT ON COLUMN public.ai_usage_events.estimated_cost_usd IS 'Cost estimated from lib/ai/pricing.ts at the time of the call';
+COMMENT ON FUNCTION public.record_ai_usage IS 'Records an AI call; caller must own the letter or be an admin.';
+COMMENT ON FUNCTION public.get_ai_cost_summary IS 'Admin-only AI cost aggregates for the analytics dashboard.';
+
+COMMIT;
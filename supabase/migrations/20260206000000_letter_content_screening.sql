@@ -0,0 +1,20 @@
+-- Intake content screening
+-- Migration: 20260206000000_letter_content_screening.sql
+-- Purpose: Store the risk score and matched reasons from intake screening, and flag
+--          borderline intakes for admin review instead of rejecting them
+
+BEGIN;
+
+ALTER TABLE public.letters
+    ADD COLUMN IF NOT EXISTS content_screening JSONB,
+    ADD COLUMN IF NOT EXISTS content_flagged BOOLEAN NOT NULL DEFAULT false;
+
+-- The all-letters dashboard filters on open flags
+CREATE INDEX IF NOT EXISTS idx_letters_content_flagged
+    ON public.letters(created_at DESC)
+    WHERE content_flagged = true;
+
+COMMENT ON COLUMN public.letters.content_screening IS 'Intake screening result: score (0-100), level, matched reasons, and who cleared the flag';
+COMMENT ON COLUMN public.letters.content_flagged IS 'Intake scored above the review threshold and has not yet been cleared by an admin';
+
+COMMIT;
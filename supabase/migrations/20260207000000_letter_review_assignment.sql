@@ -0,0 +1,362 @@
+-- Attorney review assignment and edit locks
+-- Migration: 20260207000000_letter_review_assignment.sql
+-- Purpose: Assign letters awaiting review to attorney admins, balancing open work
+--          across them, and let one attorney at a time claim a letter with an
+--          expiring lock so two reviewers cannot edit the same letter
+
+BEGIN;
+
+ALTER TABLE public.letters
+    ADD COLUMN IF NOT EXISTS assigned_to UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS review_locked_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS review_lock_expires_at TIMESTAMPTZ;
+
+-- Open workload per attorney, and the "assigned to me" queue
+CREATE INDEX IF NOT EXISTS idx_letters_assigned_open
+    ON public.letters(assigned_to, created_at)
+    WHERE status IN ('pending_review', 'under_review');
+
+/*
+  Attorney admin with the fewest open (pending or under review) assignments.
+  Ties go to whoever was assigned a letter least recently. p_exclude skips an
+  attorney, e.g. the one releasing the letter.
+*/
+CREATE OR REPLACE FUNCTION public.pick_review_assignee(p_exclude UUID DEFAULT NULL)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT p.id
+    FROM profiles p
+    LEFT JOIN letters l
+        ON l.assigned_to = p.id
+       AND l.status IN ('pending_review', 'under_review')
+    WHERE p.role = 'admin'
+      AND p.admin_sub_role = 'attorney_admin'
+      AND p.id IS DISTINCT FROM p_exclude
+    GROUP BY p.id
+    ORDER BY
+        COUNT(l.id) ASC,
+        (SELECT MAX(assigned_at) FROM letters WHERE assigned_to = p.id) ASC NULLS FIRST,
+        p.id
+    LIMIT 1;
+$$;
+
+/*
+  Auto-assign letters as they enter the review queue and drop edit locks once
+  a letter leaves it. Letters coming back for review (resubmissions) keep their
+  previous attorney.
+*/
+CREATE OR REPLACE FUNCTION public.assign_letter_for_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status = 'pending_review' AND NEW.assigned_to IS NULL THEN
+        NEW.assigned_to := public.pick_review_assignee();
+        NEW.assigned_at := CASE WHEN NEW.assigned_to IS NOT NULL THEN NOW() END;
+    END IF;
+
+    IF NEW.status NOT IN ('pending_review', 'under_review') THEN
+        NEW.review_locked_by := NULL;
+        NEW.review_lock_expires_at := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_assign_letter_for_review ON public.letters;
+CREATE TRIGGER trg_assign_letter_for_review
+    BEFORE INSERT OR UPDATE OF status ON public.letters
+    FOR EACH ROW
+    EXECUTE FUNCTION public.assign_letter_for_review();
+
+/*
+  Claim a letter for review, or renew a claim already held. Fails without
+  changes when another admin holds an unexpired lock or the letter is assigned
+  to someone else. Claiming a pending letter moves it to under_review.
+*/
+CREATE OR REPLACE FUNCTION public.claim_letter_review(
+    p_letter_id UUID,
+    p_lock_minutes INTEGER DEFAULT 30
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_admin UUID := auth.uid();
+    v_letter RECORD;
+    v_new_status TEXT;
+    v_expires_at TIMESTAMPTZ := NOW() + (GREATEST(p_lock_minutes, 1) || ' minutes')::INTERVAL;
+    v_renewal BOOLEAN;
+BEGIN
+    IF public.get_user_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Admin access required';
+    END IF;
+
+    SELECT status::TEXT AS status, assigned_to, review_locked_by, review_lock_expires_at
+    INTO v_letter
+    FROM letters
+    WHERE id = p_letter_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Letter % not found', p_letter_id;
+    END IF;
+
+    IF v_letter.status NOT IN ('pending_review', 'under_review') THEN
+        RETURN jsonb_build_object('claimed', false, 'reason', 'not_reviewable', 'status', v_letter.status);
+    END IF;
+
+    IF v_letter.review_locked_by IS DISTINCT FROM v_admin
+       AND v_letter.review_locked_by IS NOT NULL
+       AND v_letter.review_lock_expires_at > NOW() THEN
+        RETURN jsonb_build_object(
+            'claimed', false,
+            'reason', 'locked',
+            'locked_by', v_letter.review_locked_by,
+            'lock_expires_at', v_letter.review_lock_expires_at
+        );
+    END IF;
+
+    IF v_letter.assigned_to IS DISTINCT FROM v_admin AND v_letter.assigned_to IS NOT NULL THEN
+        RETURN jsonb_build_object('claimed', false, 'reason', 'assigned', 'assigned_to', v_letter.assigned_to);
+    END IF;
+
+    v_renewal := v_letter.review_locked_by = v_admin AND v_letter.review_lock_expires_at > NOW();
+    v_new_status := CASE WHEN v_letter.status = 'pending_review' THEN 'under_review' ELSE v_letter.status END;
+
+    UPDATE letters
+    SET assigned_to = v_admin,
+        assigned_at = CASE WHEN assigned_to IS DISTINCT FROM v_admin THEN NOW() ELSE assigned_at END,
+        review_locked_by = v_admin,
+        review_lock_expires_at = v_expires_at,
+        status = v_new_status::letter_status,
+        reviewed_by = v_admin,
+        updated_at = NOW()
+    WHERE id = p_letter_id;
+
+    IF NOT v_renewal THEN
+        PERFORM public.log_letter_audit(
+            p_letter_id,
+            'review_claimed',
+            v_letter.status,
+            v_new_status,
+            'Admin claimed the letter for review',
+            jsonb_build_object('lock_expires_at', v_expires_at)
+        );
+    END IF;
+
+    RETURN jsonb_build_object(
+        'claimed', true,
+        'renewed', v_renewal,
+        'status', v_new_status,
+        'lock_expires_at', v_expires_at
+    );
+END;
+$$;
+
+/*
+  Give a claimed letter back to the queue. Only the lock holder, the assignee
+  or a super admin may release; the letter is handed to the next least-loaded
+  attorney.
+*/
+CREATE OR REPLACE FUNCTION public.release_letter_review(p_letter_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_admin UUID := auth.uid();
+    v_letter RECORD;
+    v_next_assignee UUID;
+BEGIN
+    IF public.get_user_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Admin access required';
+    END IF;
+
+    SELECT status::TEXT AS status, assigned_to, review_locked_by, review_lock_expires_at
+    INTO v_letter
+    FROM letters
+    WHERE id = p_letter_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Letter % not found', p_letter_id;
+    END IF;
+
+    IF v_letter.review_locked_by IS DISTINCT FROM v_admin
+       AND v_letter.assigned_to IS DISTINCT FROM v_admin
+       AND public.get_admin_sub_role()::TEXT NOT IN ('super_admin', 'system_admin') THEN
+        RETURN jsonb_build_object('released', false, 'reason', 'not_owner');
+    END IF;
+
+    v_next_assignee := public.pick_review_assignee(v_letter.assigned_to);
+
+    UPDATE letters
+    SET assigned_to = v_next_assignee,
+        assigned_at = CASE WHEN v_next_assignee IS NOT NULL THEN NOW() END,
+        review_locked_by = NULL,
+        review_lock_expires_at = NULL,
+        status = CASE WHEN status = 'under_review' THEN 'pending_review'::letter_status ELSE status END,
+        updated_at = NOW()
+    WHERE id = p_letter_id;
+
+    PERFORM public.log_letter_audit(
+        p_letter_id,
+        'review_released',
+        v_letter.status,
+        CASE WHEN v_letter.status = 'under_review' THEN 'pending_review' ELSE v_letter.status END,
+        'Admin released the letter back to the review queue',
+        jsonb_build_object('previous_assignee', v_letter.assigned_to, 'next_assignee', v_next_assignee)
+    );
+
+    RETURN jsonb_build_object('released', true, 'assigned_to', v_next_assignee);
+END;
+$$;
+
+/*
+  Super admin reassignment. Drops any lock so the new attorney can claim the
+  letter straight away.
+*/
+CREATE OR REPLACE FUNCTION public.reassign_letter_review(
+    p_letter_id UUID,
+    p_attorney_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_letter RECORD;
+BEGIN
+    IF public.get_user_role() IS DISTINCT FROM 'admin'
+       OR public.get_admin_sub_role()::TEXT NOT IN ('super_admin', 'system_admin') THEN
+        RAISE EXCEPTION 'Super admin access required';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = p_attorney_id AND role = 'admin') THEN
+        RAISE EXCEPTION 'Assignee % is not an admin', p_attorney_id;
+    END IF;
+
+    SELECT status::TEXT AS status, assigned_to
+    INTO v_letter
+    FROM letters
+    WHERE id = p_letter_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Letter % not found', p_letter_id;
+    END IF;
+
+    IF v_letter.status NOT IN ('pending_review', 'under_review') THEN
+        RETURN jsonb_build_object('reassigned', false, 'reason', 'not_reviewable', 'status', v_letter.status);
+    END IF;
+
+    UPDATE letters
+    SET assigned_to = p_attorney_id,
+        assigned_at = NOW(),
+        review_locked_by = NULL,
+        review_lock_expires_at = NULL,
+        updated_at = NOW()
+    WHERE id = p_letter_id;
+
+    PERFORM public.log_letter_audit(
+        p_letter_id,
+        'review_reassigned',
+        v_letter.status,
+        v_letter.status,
+        'Super admin reassigned the letter',
+        jsonb_build_object('previous_assignee', v_letter.assigned_to, 'assigned_to', p_attorney_id)
+    );
+
+    RETURN jsonb_build_object('reassigned', true, 'assigned_to', p_attorney_id);
+END;
+$$;
+
+/*
+  Admins that can receive review assignments, with their open workload
+*/
+CREATE OR REPLACE FUNCTION public.get_review_workload()
+RETURNS TABLE (
+    attorney_id UUID,
+    full_name TEXT,
+    email TEXT,
+    admin_sub_role TEXT,
+    open_assignments BIGINT,
+    active_locks BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF public.get_user_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Admin access required';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        p.id,
+        p.full_name,
+        p.email,
+        COALESCE(p.admin_sub_role::TEXT, 'super_admin'),
+        COUNT(l.id) FILTER (WHERE l.assigned_to = p.id),
+        COUNT(l.id) FILTER (WHERE l.review_locked_by = p.id AND l.review_lock_expires_at > NOW())
+    FROM profiles p
+    LEFT JOIN letters l
+        ON (l.assigned_to = p.id OR l.review_locked_by = p.id)
+       AND l.status IN ('pending_review', 'under_review')
+    WHERE p.role = 'admin'
+    GROUP BY p.id, p.full_name, p.email, p.admin_sub_role
+    ORDER BY COUNT(l.id) FILTER (WHERE l.assigned_to = p.id) ASC, p.full_name;
+END;
+$$;
+
+-- Spread the letters already waiting for review, oldest first; letters under
+-- review stay with the admin who started reviewing them
+DO $$
+DECLARE
+    v_letter_id UUID;
+BEGIN
+    FOR v_letter_id IN
+        SELECT id FROM letters
+        WHERE status IN ('pending_review', 'under_review') AND assigned_to IS NULL
+        ORDER BY created_at
+    LOOP
+        UPDATE letters
+        SET assigned_to = CASE
+                WHEN status = 'under_review' AND reviewed_by IS NOT NULL THEN reviewed_by
+                ELSE public.pick_review_assignee()
+            END,
+            assigned_at = NOW()
+        WHERE id = v_letter_id;
+    END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.claim_letter_review TO authenticated;
+GRANT EXECUTE ON FUNCTION public.release_letter_review TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reassign_letter_review TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_review_workload TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.pick_review_assignee FROM PUBLIC;
+
+COMMENT ON COLUMN public.letters.assigned_to IS 'Attorney admin responsible for reviewing the letter; set automatically when it enters pending_review';
+COMMENT ON COLUMN public.letters.review_locked_by IS 'Admin currently holding the edit lock; only they may save changes until it expires';
+COMMENT ON COLUMN public.letters.review_lock_expires_at IS 'When the edit lock lapses unless renewed by claim_letter_review';
+COMMENT ON FUNCTION public.claim_letter_review IS 'Claims or renews the review lock on a letter; returns claimed=false with a reason on conflict.';
+COMMENT ON FUNCTION public.release_letter_review IS 'Releases a review claim and hands the letter to the next least-loaded attorney.';
+COMMENT ON FUNCTION public.reassign_letter_review IS 'Super-admin-only reassignment of a letter awaiting review.';
+
+COMMIT;
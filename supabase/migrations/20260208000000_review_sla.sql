@@ -0,0 +1,191 @@
+-- Review SLA tracking
+-- Migration: 20260208000000_review_sla.sql
+-- Purpose: Measure how long each letter waits in pending_review / under_review
+--          against turnaround targets configured per plan or letter type, and
+--          record which reminder and escalation emails have already gone out
+
+BEGIN;
+
+-- ============================================================================
+-- SLA targets
+-- The most specific policy wins: plan + letter type, then letter type, then
+-- plan, then the default row with both left NULL.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.review_sla_policies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    plan_type TEXT,
+    letter_type TEXT,
+    target_hours NUMERIC(6, 2) NOT NULL CHECK (target_hours > 0),
+    warning_percent INTEGER NOT NULL DEFAULT 75 CHECK (warning_percent BETWEEN 1 AND 99),
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_review_sla_policies_scope
+    ON public.review_sla_policies (COALESCE(plan_type, ''), COALESCE(letter_type, ''));
+
+ALTER TABLE public.review_sla_policies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins view review SLA policies" ON public.review_sla_policies;
+CREATE POLICY "Admins view review SLA policies"
+    ON public.review_sla_policies
+    FOR SELECT
+    USING (public.get_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Super admins manage review SLA policies" ON public.review_sla_policies;
+CREATE POLICY "Super admins manage review SLA policies"
+    ON public.review_sla_policies
+    FOR ALL
+    USING (public.is_super_admin())
+    WITH CHECK (public.is_super_admin());
+
+INSERT INTO public.review_sla_policies (plan_type, letter_type, target_hours, warning_percent)
+SELECT NULL, NULL, 48, 75
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.review_sla_policies WHERE plan_type IS NULL AND letter_type IS NULL
+);
+
+-- ============================================================================
+-- Alerts already sent, one per letter, review cycle and alert type
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.letter_sla_alerts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    letter_id UUID NOT NULL REFERENCES public.letters(id) ON DELETE CASCADE,
+    review_started_at TIMESTAMPTZ NOT NULL,
+    alert_type TEXT NOT NULL CHECK (alert_type IN ('warning', 'breach')),
+    recipients TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (letter_id, review_started_at, alert_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_letter_sla_alerts_letter_id ON public.letter_sla_alerts(letter_id);
+
+ALTER TABLE public.letter_sla_alerts ENABLE ROW LEVEL SECURITY;
+
+-- Written by the SLA cron job with the service role; reads are admin-only
+DROP POLICY IF EXISTS "Admins view SLA alerts" ON public.letter_sla_alerts;
+CREATE POLICY "Admins view SLA alerts"
+    ON public.letter_sla_alerts
+    FOR SELECT
+    USING (public.get_user_role() = 'admin');
+
+-- ============================================================================
+-- Per-letter SLA clocks
+-- A review cycle starts at the latest audit transition into pending_review from
+-- outside the review statuses (so claim/release does not restart it) and ends
+-- at the first later transition out of them. Letters still in review with no
+-- such audit entry fall back to their creation time.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_review_sla_clocks(p_days_back INTEGER DEFAULT 30)
+RETURNS TABLE(
+    letter_id UUID,
+    title TEXT,
+    letter_type TEXT,
+    plan_type TEXT,
+    status TEXT,
+    assigned_to UUID,
+    review_started_at TIMESTAMPTZ,
+    resolved_at TIMESTAMPTZ,
+    target_hours NUMERIC,
+    warning_percent INTEGER,
+    due_at TIMESTAMPTZ,
+    elapsed_hours NUMERIC,
+    sla_state TEXT
+) AS $$
+BEGIN
+    IF auth.role() IS DISTINCT FROM 'service_role'
+       AND NOT (public.is_super_admin() OR public.is_attorney_admin()) THEN
+        RAISE EXCEPTION 'Access denied: admin privileges required';
+    END IF;
+
+    RETURN QUERY
+    WITH starts AS (
+        SELECT DISTINCT ON (a.letter_id) a.letter_id, a.created_at AS started_at
+        FROM public.letter_audit_trail a
+        WHERE a.new_status = 'pending_review'
+          AND a.old_status IS DISTINCT FROM 'pending_review'
+          AND a.old_status IS DISTINCT FROM 'under_review'
+        ORDER BY a.letter_id, a.created_at DESC
+    ),
+    cycles AS (
+        SELECT
+            l.id,
+            l.title,
+            l.letter_type,
+            l.status::TEXT AS status,
+            l.assigned_to,
+            l.user_id,
+            COALESCE(s.started_at, l.created_at) AS started_at
+        FROM public.letters l
+        LEFT JOIN starts s ON s.letter_id = l.id
+        WHERE l.status IN ('pending_review', 'under_review')
+           OR s.started_at > NOW() - make_interval(days => p_days_back)
+    ),
+    clocks AS (
+        SELECT
+            c.*,
+            sub.plan_type,
+            (
+                SELECT MIN(a.created_at)
+                FROM public.letter_audit_trail a
+                WHERE a.letter_id = c.id
+                  AND a.created_at > c.started_at
+                  AND a.new_status IS NOT NULL
+                  AND a.new_status NOT IN ('pending_review', 'under_review')
+            ) AS resolved_at,
+            COALESCE(pol.target_hours, 48) AS target_hours,
+            COALESCE(pol.warning_percent, 75) AS warning_percent
+        FROM cycles c
+        LEFT JOIN LATERAL (
+            SELECT s.plan_type
+            FROM public.subscriptions s
+            WHERE s.user_id = c.user_id
+            ORDER BY s.created_at DESC
+            LIMIT 1
+        ) sub ON TRUE
+        LEFT JOIN LATERAL (
+            SELECT p.target_hours, p.warning_percent
+            FROM public.review_sla_policies p
+            WHERE (p.plan_type IS NULL OR p.plan_type = sub.plan_type)
+              AND (p.letter_type IS NULL OR p.letter_type = c.letter_type)
+            ORDER BY (p.letter_type IS NOT NULL) DESC, (p.plan_type IS NOT NULL) DESC
+            LIMIT 1
+        ) pol ON TRUE
+    )
+    SELECT
+        k.id,
+        k.title,
+        k.letter_type,
+        k.plan_type,
+        k.status,
+        k.assigned_to,
+        k.started_at,
+        k.resolved_at,
+        k.target_hours,
+        k.warning_percent,
+        k.started_at + make_interval(secs => k.target_hours * 3600),
+        ROUND((EXTRACT(EPOCH FROM (COALESCE(k.resolved_at, NOW()) - k.started_at)) / 3600)::NUMERIC, 2),
+        CASE
+            WHEN k.resolved_at IS NOT NULL THEN
+                CASE WHEN k.resolved_at <= k.started_at + make_interval(secs => k.target_hours * 3600)
+                     THEN 'met' ELSE 'missed' END
+            WHEN NOW() > k.started_at + make_interval(secs => k.target_hours * 3600) THEN 'breached'
+            WHEN NOW() >= k.started_at + make_interval(secs => k.target_hours * 36 * k.warning_percent) THEN 'at_risk'
+            ELSE 'on_track'
+        END
+    FROM clocks k
+    ORDER BY k.started_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_review_sla_clocks(INTEGER) TO authenticated, service_role;
+
+COMMENT ON TABLE public.review_sla_policies IS 'Review turnaround targets per plan and/or letter type; the most specific match applies';
+COMMENT ON TABLE public.letter_sla_alerts IS 'SLA reminder and escalation emails already sent for a letter review cycle';
+COMMENT ON FUNCTION public.get_review_sla_clocks IS 'Returns the review SLA clock of every open letter and of letters that entered review in the last N days';
+
+COMMIT;
@@ -0,0 +1,144 @@
+-- Letter comment threads
+-- Migration: 20260209000000_letter_comments.sql
+-- Purpose: Anchored comment threads on passages of a letter, shared between the
+--          reviewing attorneys and the letter's owner. Anchors keep the quoted
+--          text and its surrounding context so they can be relocated after edits.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.letter_comment_threads (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    letter_id UUID NOT NULL REFERENCES public.letters(id) ON DELETE CASCADE,
+    anchor_start INTEGER NOT NULL CHECK (anchor_start >= 0),
+    anchor_end INTEGER NOT NULL CHECK (anchor_end > anchor_start),
+    quoted_text TEXT NOT NULL CHECK (char_length(quoted_text) BETWEEN 1 AND 2000),
+    prefix TEXT NOT NULL DEFAULT '',
+    suffix TEXT NOT NULL DEFAULT '',
+    anchor_status TEXT NOT NULL DEFAULT 'anchored'
+        CHECK (anchor_status IN ('anchored', 'orphaned')),
+    status TEXT NOT NULL DEFAULT 'open'
+        CHECK (status IN ('open', 'resolved')),
+    resolved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    resolved_at TIMESTAMPTZ,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_letter_comment_threads_letter_id
+    ON public.letter_comment_threads(letter_id, anchor_start);
+
+CREATE TABLE IF NOT EXISTS public.letter_comments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    thread_id UUID NOT NULL REFERENCES public.letter_comment_threads(id) ON DELETE CASCADE,
+    letter_id UUID NOT NULL REFERENCES public.letters(id) ON DELETE CASCADE,
+    author_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    author_role TEXT NOT NULL CHECK (author_role IN ('attorney', 'subscriber')),
+    body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 2000),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_letter_comments_thread_id ON public.letter_comments(thread_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_letter_comments_letter_id ON public.letter_comments(letter_id);
+
+ALTER TABLE public.letter_comment_threads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.letter_comments ENABLE ROW LEVEL SECURITY;
+
+-- The letter owner and admins take part in a letter's threads
+CREATE OR REPLACE FUNCTION public.can_access_letter_comments(p_letter_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT public.get_user_role() = 'admin'
+        OR EXISTS (
+            SELECT 1 FROM public.letters
+            WHERE id = p_letter_id AND user_id = auth.uid()
+        );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Participants view comment threads" ON public.letter_comment_threads;
+CREATE POLICY "Participants view comment threads"
+    ON public.letter_comment_threads
+    FOR SELECT
+    USING (public.can_access_letter_comments(letter_id));
+
+DROP POLICY IF EXISTS "Participants create comment threads" ON public.letter_comment_threads;
+CREATE POLICY "Participants create comment threads"
+    ON public.letter_comment_threads
+    FOR INSERT
+    WITH CHECK (created_by = auth.uid() AND public.can_access_letter_comments(letter_id));
+
+-- Resolving and reopening threads; the trigger below keeps everything else fixed
+DROP POLICY IF EXISTS "Participants update comment threads" ON public.letter_comment_threads;
+CREATE POLICY "Participants update comment threads"
+    ON public.letter_comment_threads
+    FOR UPDATE
+    USING (public.can_access_letter_comments(letter_id))
+    WITH CHECK (public.can_access_letter_comments(letter_id));
+
+-- Participants may only change a thread's status. Anchors are relocated by the
+-- server with the service role, which is exempt.
+CREATE OR REPLACE FUNCTION public.guard_comment_thread_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.role() = 'service_role' THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.letter_id IS DISTINCT FROM OLD.letter_id
+        OR NEW.anchor_start IS DISTINCT FROM OLD.anchor_start
+        OR NEW.anchor_end IS DISTINCT FROM OLD.anchor_end
+        OR NEW.quoted_text IS DISTINCT FROM OLD.quoted_text
+        OR NEW.prefix IS DISTINCT FROM OLD.prefix
+        OR NEW.suffix IS DISTINCT FROM OLD.suffix
+        OR NEW.anchor_status IS DISTINCT FROM OLD.anchor_status
+        OR NEW.created_by IS DISTINCT FROM OLD.created_by
+        OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+        RAISE EXCEPTION 'Only the status of a comment thread can be changed'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF NEW.resolved_by IS DISTINCT FROM OLD.resolved_by
+        AND NEW.resolved_by IS NOT NULL
+        AND NEW.resolved_by <> auth.uid() THEN
+        RAISE EXCEPTION 'A thread can only be resolved in your own name'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_comment_thread_update ON public.letter_comment_threads;
+CREATE TRIGGER guard_comment_thread_update
+    BEFORE UPDATE ON public.letter_comment_threads
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_comment_thread_update();
+
+DROP POLICY IF EXISTS "Participants view comments" ON public.letter_comments;
+CREATE POLICY "Participants view comments"
+    ON public.letter_comments
+    FOR SELECT
+    USING (public.can_access_letter_comments(letter_id));
+
+DROP POLICY IF EXISTS "Participants add comments" ON public.letter_comments;
+CREATE POLICY "Participants add comments"
+    ON public.letter_comments
+    FOR INSERT
+    WITH CHECK (
+        author_id = auth.uid()
+        AND author_role = CASE WHEN public.get_user_role() = 'admin' THEN 'attorney' ELSE 'subscriber' END
+        AND public.can_access_letter_comments(letter_id)
+        AND EXISTS (
+            SELECT 1 FROM public.letter_comment_threads t
+            WHERE t.id = thread_id AND t.letter_id = letter_comments.letter_id
+        )
+    );
+
+GRANT EXECUTE ON FUNCTION public.can_access_letter_comments(UUID) TO authenticated;
+
+COMMENT ON TABLE public.letter_comment_threads IS 'Comment threads anchored to a character range of a letter''s current text';
+COMMENT ON COLUMN public.letter_comment_threads.prefix IS 'Text just before the anchored passage, used to relocate the anchor after edits';
+COMMENT ON COLUMN public.letter_comment_threads.suffix IS 'Text just after the anchored passage, used to relocate the anchor after edits';
+COMMENT ON COLUMN public.letter_comment_threads.anchor_status IS 'orphaned once the quoted passage can no longer be found in the letter';
+COMMENT ON TABLE public.letter_comments IS 'Comments and replies in a letter comment thread';
+
+COMMIT;
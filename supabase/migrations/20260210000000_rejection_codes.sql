@@ -0,0 +1,185 @@
+-- Structured rejection reasons
+-- Migration: 20260210000000_rejection_codes.sql
+-- Purpose: Replace free-text rejection reasons with a managed set of codes that
+--          attorneys pick when sending a letter back, keep one row per
+--          rejection for analytics, and count codes by letter type and prompt
+--          version
+
+BEGIN;
+
+-- ============================================================================
+-- Managed codes
+-- 'revision' codes describe a draft the subscriber can fix and resubmit;
+-- 'rejection' codes describe a request that cannot go ahead as asked.
+-- user_guidance is shown to the subscriber in the rejection email.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.rejection_codes (
+    code TEXT PRIMARY KEY CHECK (code ~ '^[a-z][a-z0-9_]{1,49}$'),
+    label TEXT NOT NULL,
+    description TEXT,
+    user_guidance TEXT NOT NULL,
+    category TEXT NOT NULL DEFAULT 'revision' CHECK (category IN ('rejection', 'revision')),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    sort_order INTEGER NOT NULL DEFAULT 100,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.rejection_codes ENABLE ROW LEVEL SECURITY;
+
+-- Subscribers read codes to show the guidance on their rejected letters
+DROP POLICY IF EXISTS "Authenticated users view rejection codes" ON public.rejection_codes;
+CREATE POLICY "Authenticated users view rejection codes"
+    ON public.rejection_codes
+    FOR SELECT
+    USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Super admins manage rejection codes" ON public.rejection_codes;
+CREATE POLICY "Super admins manage rejection codes"
+    ON public.rejection_codes
+    FOR ALL
+    USING (public.is_super_admin())
+    WITH CHECK (public.is_super_admin());
+
+INSERT INTO public.rejection_codes (code, label, description, user_guidance, category, sort_order) VALUES
+    ('insufficient_facts', 'Insufficient facts',
+     'Key facts (dates, amounts, parties, what was agreed) are missing from the request.',
+     'Add the missing details: who is involved, what happened and when, the amounts at stake, and any agreement or document the letter relies on.',
+     'revision', 10),
+    ('wrong_jurisdiction', 'Wrong jurisdiction',
+     'The letter cites or assumes the law of the wrong state or country.',
+     'Confirm the state or country where the dispute arose and where the recipient is located so the letter can cite the correct law.',
+     'revision', 20),
+    ('factual_error', 'Factual error',
+     'The draft states facts that contradict the intake details or are internally inconsistent.',
+     'Check the names, dates and amounts you provided; correct anything inaccurate and note which details are uncertain.',
+     'revision', 30),
+    ('tone', 'Tone',
+     'The draft is too aggressive, threatening or informal for the situation.',
+     'Tell us the outcome you want and the relationship you hope to keep with the recipient so the tone can be adjusted.',
+     'revision', 40),
+    ('unsupported_demand', 'Unsupported demand',
+     'The demand or deadline has no legal or factual basis in the information provided.',
+     'Explain how the amount or remedy you are asking for was calculated and what it is based on, such as a contract term, invoice or receipt.',
+     'revision', 50),
+    ('missing_documents', 'Missing documents',
+     'The claim depends on documents that were not described or referenced.',
+     'Describe the contracts, invoices, notices or correspondence that support your claim, including their dates.',
+     'revision', 60),
+    ('wrong_letter_type', 'Wrong letter type',
+     'The situation calls for a different kind of letter than the one requested.',
+     'Start a new letter of the type that matches your goal; our letter type descriptions explain when each one applies.',
+     'rejection', 70),
+    ('unethical_request', 'Unethical request',
+     'The request asks for threats, misrepresentations or demands an attorney cannot ethically send.',
+     'We cannot send a letter that makes threats or claims that are not supported. Revise the request to focus on the facts and the remedy you are entitled to.',
+     'rejection', 80),
+    ('outside_scope', 'Outside scope',
+     'The matter needs representation or advice beyond a demand letter (litigation, criminal matters, emergencies).',
+     'This matter needs more than a letter. Please consult a licensed attorney in your area about your options.',
+     'rejection', 90),
+    ('other', 'Other',
+     'Anything not covered by another code; explain in the notes.',
+     'See the attorney''s notes below for what needs to change.',
+     'revision', 1000)
+ON CONFLICT (code) DO NOTHING;
+
+-- ============================================================================
+-- Codes on the letter (the latest rejection) and the rejection history
+-- ============================================================================
+
+ALTER TABLE public.letters
+    ADD COLUMN IF NOT EXISTS rejection_codes TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE TABLE IF NOT EXISTS public.letter_rejections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    letter_id UUID NOT NULL REFERENCES public.letters(id) ON DELETE CASCADE,
+    codes TEXT[] NOT NULL DEFAULT '{}',
+    notes TEXT,
+    letter_type TEXT,
+    prompt_version TEXT,
+    rejected_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_letter_rejections_letter_id ON public.letter_rejections(letter_id);
+CREATE INDEX IF NOT EXISTS idx_letter_rejections_created_at ON public.letter_rejections(created_at DESC);
+
+ALTER TABLE public.letter_rejections ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the trigger below; reads are admin-only
+DROP POLICY IF EXISTS "Admins view letter rejections" ON public.letter_rejections;
+CREATE POLICY "Admins view letter rejections"
+    ON public.letter_rejections
+    FOR SELECT
+    USING (public.get_user_role() = 'admin');
+
+-- Every path that rejects a letter (admin API, workflow resume, review screens)
+-- ends in the same status update, so the history is recorded here
+CREATE OR REPLACE FUNCTION public.record_letter_rejection()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'rejected' AND OLD.status IS DISTINCT FROM 'rejected' THEN
+        INSERT INTO public.letter_rejections (letter_id, codes, notes, letter_type, prompt_version, rejected_by)
+        VALUES (
+            NEW.id,
+            COALESCE(NEW.rejection_codes, '{}'),
+            NEW.rejection_reason,
+            NEW.letter_type,
+            NEW.draft_metadata -> 'ai' ->> 'prompt_version',
+            COALESCE(NEW.reviewed_by, auth.uid())
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trg_record_letter_rejection ON public.letters;
+CREATE TRIGGER trg_record_letter_rejection
+    AFTER UPDATE OF status ON public.letters
+    FOR EACH ROW
+    EXECUTE FUNCTION public.record_letter_rejection();
+
+-- ============================================================================
+-- Analytics: one row per code, letter type and prompt version
+-- Rejections recorded without codes are counted under 'uncoded'.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_rejection_code_stats(p_days_back INTEGER DEFAULT 30)
+RETURNS TABLE(
+    code TEXT,
+    letter_type TEXT,
+    prompt_version TEXT,
+    rejection_count BIGINT
+) AS $$
+BEGIN
+    IF NOT (public.is_super_admin() OR public.is_attorney_admin()) THEN
+        RAISE EXCEPTION 'Access denied: admin privileges required';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        c.code,
+        COALESCE(r.letter_type, 'unknown'),
+        COALESCE(r.prompt_version, 'unversioned'),
+        COUNT(*)
+    FROM public.letter_rejections r
+    CROSS JOIN LATERAL unnest(
+        CASE WHEN cardinality(r.codes) > 0 THEN r.codes ELSE ARRAY['uncoded'] END
+    ) AS c(code)
+    WHERE r.created_at >= NOW() - make_interval(days => p_days_back)
+    GROUP BY 1, 2, 3
+    ORDER BY 4 DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_rejection_code_stats(INTEGER) TO authenticated;
+
+COMMENT ON TABLE public.rejection_codes IS 'Managed rejection and revision codes attorneys choose when sending a letter back';
+COMMENT ON COLUMN public.rejection_codes.user_guidance IS 'Subscriber-facing advice included in the rejection email';
+COMMENT ON COLUMN public.letters.rejection_codes IS 'Codes chosen at the most recent rejection';
+COMMENT ON TABLE public.letter_rejections IS 'One row per rejection with its codes, letter type and drafting prompt version';
+COMMENT ON FUNCTION public.get_rejection_code_stats IS 'Counts rejection codes by letter type and prompt version over the last N days';
+
+COMMIT;
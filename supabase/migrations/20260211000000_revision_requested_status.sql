@@ -0,0 +1,7 @@
+-- Revision requested letter status
+-- Migration: 20260211000000_revision_requested_status.sql
+-- Purpose: Add the status for approved or completed letters the subscriber has
+--          sent back for changes. Kept in its own migration because a new enum
+--          value cannot be used in the transaction that adds it.
+
+ALTER TYPE public.letter_status ADD VALUE IF NOT EXISTS 'revision_requested' AFTER 'completed';
@@ -0,0 +1,689 @@
+-- Subscriber revision requests
+-- Migration: 20260211000100_letter_revision_requests.sql
+-- Purpose: Let subscribers ask for changes to an approved or completed letter.
+--          The letter moves to revision_requested, goes back to its attorney's
+--          review queue, and the request is closed when the letter is approved
+--          again, or declined, which restores the approved letter.
+
+BEGIN;
+
+-- ============================================================================
+-- Requests
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.letter_revision_requests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    letter_id UUID NOT NULL REFERENCES public.letters(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    requested_changes TEXT NOT NULL CHECK (char_length(requested_changes) BETWEEN 1 AND 4000),
+    previous_status TEXT NOT NULL CHECK (previous_status IN ('approved', 'completed')),
+    previous_final_content TEXT,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'completed', 'declined')),
+    decline_reason TEXT,
+    resolved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    resolved_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_letter_revision_requests_letter_id
+    ON public.letter_revision_requests(letter_id, created_at);
+
+-- At most one open request per letter
+CREATE UNIQUE INDEX IF NOT EXISTS idx_letter_revision_requests_open
+    ON public.letter_revision_requests(letter_id)
+    WHERE status = 'open';
+
+ALTER TABLE public.letter_revision_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Owners view revision requests" ON public.letter_revision_requests;
+CREATE POLICY "Owners view revision requests"
+    ON public.letter_revision_requests
+    FOR SELECT
+    USING (user_id = auth.uid() OR public.get_user_role() = 'admin');
+
+-- Subscribers open requests through request_letter_revision, which also
+-- enforces the plan's revision limit
+DROP POLICY IF EXISTS "Owners create revision requests" ON public.letter_revision_requests;
+
+DROP POLICY IF EXISTS "Admins manage revision requests" ON public.letter_revision_requests;
+CREATE POLICY "Admins manage revision requests"
+    ON public.letter_revision_requests
+    FOR UPDATE
+    USING (public.get_user_role() = 'admin')
+    WITH CHECK (public.get_user_role() = 'admin');
+
+-- Complete the open request when the revised letter is approved
+CREATE OR REPLACE FUNCTION public.close_letter_revision_request()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'approved' AND OLD.status IS DISTINCT FROM NEW.status THEN
+        UPDATE public.letter_revision_requests
+        SET status = 'completed',
+            resolved_by = COALESCE(NEW.reviewed_by, auth.uid()),
+            resolved_at = NOW(),
+            updated_at = NOW()
+        WHERE letter_id = NEW.id
+          AND status = 'open';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trg_close_letter_revision_request ON public.letters;
+CREATE TRIGGER trg_close_letter_revision_request
+    AFTER UPDATE OF status ON public.letters
+    FOR EACH ROW
+    EXECUTE FUNCTION public.close_letter_revision_request();
+
+-- Rejecting would leave the subscriber's approved letter unusable; an open
+-- request is declined instead, which restores it
+CREATE OR REPLACE FUNCTION public.prevent_rejecting_revised_letter()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'rejected' AND OLD.status IS DISTINCT FROM NEW.status
+       AND EXISTS (
+           SELECT 1 FROM public.letter_revision_requests
+           WHERE letter_id = NEW.id AND status = 'open'
+       ) THEN
+        RAISE EXCEPTION 'Letter % has an open revision request; decline the request instead of rejecting the letter', NEW.id
+            USING ERRCODE = '23514';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trg_prevent_rejecting_revised_letter ON public.letters;
+CREATE TRIGGER trg_prevent_rejecting_revised_letter
+    BEFORE UPDATE OF status ON public.letters
+    FOR EACH ROW
+    EXECUTE FUNCTION public.prevent_rejecting_revised_letter();
+
+-- Open a revision request on the caller's approved or completed letter and send
+-- the letter back to the attorney who approved it. The per-letter limit mirrors
+-- PLAN_CONFIG.revisionsPerLetter for the caller's most recent plan.
+CREATE OR REPLACE FUNCTION public.request_letter_revision(
+    p_letter_id UUID,
+    p_requested_changes TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user UUID := auth.uid();
+    v_letter RECORD;
+    v_plan_type TEXT;
+    v_limit INTEGER;
+    v_used INTEGER;
+    v_request_id UUID;
+BEGIN
+    SELECT status::TEXT AS status, final_content, assigned_to, reviewed_by
+    INTO v_letter
+    FROM letters
+    WHERE id = p_letter_id
+      AND user_id = v_user
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('requested', false, 'reason', 'not_found');
+    END IF;
+
+    IF v_letter.status NOT IN ('approved', 'completed') THEN
+        RETURN jsonb_build_object('requested', false, 'reason', 'not_revisable', 'status', v_letter.status);
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM letter_revision_requests
+        WHERE letter_id = p_letter_id AND status = 'open'
+    ) THEN
+        RETURN jsonb_build_object('requested', false, 'reason', 'already_open');
+    END IF;
+
+    SELECT plan_type INTO v_plan_type
+    FROM subscriptions
+    WHERE user_id = v_user
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    v_limit := CASE v_plan_type
+        WHEN 'standard_4_month' THEN 2
+        WHEN 'premium_8_month' THEN 3
+        ELSE 1
+    END;
+
+    SELECT COUNT(*) INTO v_used
+    FROM letter_revision_requests
+    WHERE letter_id = p_letter_id;
+
+    IF v_used >= v_limit THEN
+        RETURN jsonb_build_object('requested', false, 'reason', 'limit_reached', 'limit', v_limit, 'used', v_used);
+    END IF;
+
+    INSERT INTO letter_revision_requests (letter_id, user_id, requested_changes, previous_status, previous_final_content)
+    VALUES (p_letter_id, v_user, p_requested_changes, v_letter.status, v_letter.final_content)
+    RETURNING id INTO v_request_id;
+
+    UPDATE letters
+    SET status = 'revision_requested',
+        assigned_to = COALESCE(v_letter.assigned_to, v_letter.reviewed_by),
+        updated_at = NOW()
+    WHERE id = p_letter_id;
+
+    PERFORM public.log_letter_audit(
+        p_letter_id,
+        'revision_requested',
+        v_letter.status,
+        'revision_requested',
+        'Subscriber requested changes: ' || LEFT(p_requested_changes, 500),
+        jsonb_build_object('revision_request_id', v_request_id, 'revision_number', v_used + 1)
+    );
+
+    RETURN jsonb_build_object(
+        'requested', true,
+        'revision_request_id', v_request_id,
+        'limit', v_limit,
+        'used', v_used + 1
+    );
+END;
+$$;
+
+-- Decline the open revision request: the letter goes back to the status and
+-- approved text it had when the subscriber asked for changes
+CREATE OR REPLACE FUNCTION public.decline_letter_revision(
+    p_letter_id UUID,
+    p_reason TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_admin UUID := auth.uid();
+    v_letter RECORD;
+    v_request RECORD;
+BEGIN
+    IF public.get_user_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Admin access required';
+    END IF;
+
+    SELECT status::TEXT AS status
+    INTO v_letter
+    FROM letters
+    WHERE id = p_letter_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Letter % not found', p_letter_id;
+    END IF;
+
+    SELECT id, previous_status, previous_final_content
+    INTO v_request
+    FROM letter_revision_requests
+    WHERE letter_id = p_letter_id
+      AND status = 'open'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('declined', false, 'reason', 'no_open_request');
+    END IF;
+
+    UPDATE letter_revision_requests
+    SET status = 'declined',
+        decline_reason = p_reason,
+        resolved_by = v_admin,
+        resolved_at = NOW(),
+        updated_at = NOW()
+    WHERE id = v_request.id;
+
+    UPDATE letters
+    SET status = v_request.previous_status::letter_status,
+        final_content = COALESCE(v_request.previous_final_content, final_content),
+        updated_at = NOW()
+    WHERE id = p_letter_id;
+
+    PERFORM public.log_letter_audit(
+        p_letter_id,
+        'revision_declined',
+        v_letter.status,
+        v_request.previous_status,
+        'Revision request declined: ' || LEFT(p_reason, 500),
+        jsonb_build_object('revision_request_id', v_request.id)
+    );
+
+    RETURN jsonb_build_object(
+        'declined', true,
+        'revision_request_id', v_request.id,
+        'status', v_request.previous_status
+    );
+END;
+$$;
+
+-- ============================================================================
+-- Review queue: revision_requested letters wait for review like pending_review
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.is_review_queue_status(p_status TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT p_status IN ('pending_review', 'revision_requested', 'under_review');
+$$;
+
+DROP INDEX IF EXISTS public.idx_letters_assigned_open;
+CREATE INDEX IF NOT EXISTS idx_letters_assigned_open
+    ON public.letters(assigned_to, created_at)
+    WHERE status IN ('pending_review', 'revision_requested', 'under_review');
+
+CREATE OR REPLACE FUNCTION public.pick_review_assignee(p_exclude UUID DEFAULT NULL)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT p.id
+    FROM profiles p
+    LEFT JOIN letters l
+        ON l.assigned_to = p.id
+       AND public.is_review_queue_status(l.status::TEXT)
+    WHERE p.role = 'admin'
+      AND p.admin_sub_role = 'attorney_admin'
+      AND p.id IS DISTINCT FROM p_exclude
+    GROUP BY p.id
+    ORDER BY
+        COUNT(l.id) ASC,
+        (SELECT MAX(assigned_at) FROM letters WHERE assigned_to = p.id) ASC NULLS FIRST,
+        p.id
+    LIMIT 1;
+$$;
+
+/*
+  Revision requests keep the attorney who approved the letter; they are only
+  balanced onto someone else when that attorney is gone.
+*/
+CREATE OR REPLACE FUNCTION public.assign_letter_for_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status IN ('pending_review', 'revision_requested') AND NEW.assigned_to IS NULL THEN
+        NEW.assigned_to := public.pick_review_assignee();
+        NEW.assigned_at := CASE WHEN NEW.assigned_to IS NOT NULL THEN NOW() END;
+    END IF;
+
+    IF NOT public.is_review_queue_status(NEW.status::TEXT) THEN
+        NEW.review_locked_by := NULL;
+        NEW.review_lock_expires_at := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.claim_letter_review(
+    p_letter_id UUID,
+    p_lock_minutes INTEGER DEFAULT 30
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_admin UUID := auth.uid();
+    v_letter RECORD;
+    v_new_status TEXT;
+    v_expires_at TIMESTAMPTZ := NOW() + (GREATEST(p_lock_minutes, 1) || ' minutes')::INTERVAL;
+    v_renewal BOOLEAN;
+BEGIN
+    IF public.get_user_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Admin access required';
+    END IF;
+
+    SELECT status::TEXT AS status, assigned_to, review_locked_by, review_lock_expires_at
+    INTO v_letter
+    FROM letters
+    WHERE id = p_letter_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Letter % not found', p_letter_id;
+    END IF;
+
+    IF NOT public.is_review_queue_status(v_letter.status) THEN
+        RETURN jsonb_build_object('claimed', false, 'reason', 'not_reviewable', 'status', v_letter.status);
+    END IF;
+
+    IF v_letter.review_locked_by IS DISTINCT FROM v_admin
+       AND v_letter.review_locked_by IS NOT NULL
+       AND v_letter.review_lock_expires_at > NOW() THEN
+        RETURN jsonb_build_object(
+            'claimed', false,
+            'reason', 'locked',
+            'locked_by', v_letter.review_locked_by,
+            'lock_expires_at', v_letter.review_lock_expires_at
+        );
+    END IF;
+
+    IF v_letter.assigned_to IS DISTINCT FROM v_admin AND v_letter.assigned_to IS NOT NULL THEN
+        RETURN jsonb_build_object('claimed', false, 'reason', 'assigned', 'assigned_to', v_letter.assigned_to);
+    END IF;
+
+    v_renewal := v_letter.review_locked_by = v_admin AND v_letter.review_lock_expires_at > NOW();
+    v_new_status := CASE
+        WHEN v_letter.status IN ('pending_review', 'revision_requested') THEN 'under_review'
+        ELSE v_letter.status
+    END;
+
+    UPDATE letters
+    SET assigned_to = v_admin,
+        assigned_at = CASE WHEN assigned_to IS DISTINCT FROM v_admin THEN NOW() ELSE assigned_at END,
+        review_locked_by = v_admin,
+        review_lock_expires_at = v_expires_at,
+        status = v_new_status::letter_status,
+        reviewed_by = v_admin,
+        updated_at = NOW()
+    WHERE id = p_letter_id;
+
+    IF NOT v_renewal THEN
+        PERFORM public.log_letter_audit(
+            p_letter_id,
+            'review_claimed',
+            v_letter.status,
+            v_new_status,
+            'Admin claimed the letter for review',
+            jsonb_build_object('lock_expires_at', v_expires_at)
+        );
+    END IF;
+
+    RETURN jsonb_build_object(
+        'claimed', true,
+        'renewed', v_renewal,
+        'status', v_new_status,
+        'lock_expires_at', v_expires_at
+    );
+END;
+$$;
+
+/*
+  Released letters go back to pending_review, or to revision_requested while
+  the letter has an open revision request.
+*/
+CREATE OR REPLACE FUNCTION public.release_letter_review(p_letter_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_admin UUID := auth.uid();
+    v_letter RECORD;
+    v_next_assignee UUID;
+    v_new_status TEXT;
+BEGIN
+    IF public.get_user_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Admin access required';
+    END IF;
+
+    SELECT status::TEXT AS status, assigned_to, review_locked_by, review_lock_expires_at
+    INTO v_letter
+    FROM letters
+    WHERE id = p_letter_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Letter % not found', p_letter_id;
+    END IF;
+
+    IF v_letter.review_locked_by IS DISTINCT FROM v_admin
+       AND v_letter.assigned_to IS DISTINCT FROM v_admin
+       AND public.get_admin_sub_role()::TEXT NOT IN ('super_admin', 'system_admin') THEN
+        RETURN jsonb_build_object('released', false, 'reason', 'not_owner');
+    END IF;
+
+    v_next_assignee := public.pick_review_assignee(v_letter.assigned_to);
+    v_new_status := CASE
+        WHEN v_letter.status <> 'under_review' THEN v_letter.status
+        WHEN EXISTS (
+            SELECT 1 FROM letter_revision_requests
+            WHERE letter_id = p_letter_id AND status = 'open'
+        ) THEN 'revision_requested'
+        ELSE 'pending_review'
+    END;
+
+    UPDATE letters
+    SET assigned_to = v_next_assignee,
+        assigned_at = CASE WHEN v_next_assignee IS NOT NULL THEN NOW() END,
+        review_locked_by = NULL,
+        review_lock_expires_at = NULL,
+        status = v_new_status::letter_status,
+        updated_at = NOW()
+    WHERE id = p_letter_id;
+
+    PERFORM public.log_letter_audit(
+        p_letter_id,
+        'review_released',
+        v_letter.status,
+        v_new_status,
+        'Admin released the letter back to the review queue',
+        jsonb_build_object('previous_assignee', v_letter.assigned_to, 'next_assignee', v_next_assignee)
+    );
+
+    RETURN jsonb_build_object('released', true, 'assigned_to', v_next_assignee);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reassign_letter_review(
+    p_letter_id UUID,
+    p_attorney_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_letter RECORD;
+BEGIN
+    IF public.get_user_role() IS DISTINCT FROM 'admin'
+       OR public.get_admin_sub_role()::TEXT NOT IN ('super_admin', 'system_admin') THEN
+        RAISE EXCEPTION 'Super admin access required';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = p_attorney_id AND role = 'admin') THEN
+        RAISE EXCEPTION 'Assignee % is not an admin', p_attorney_id;
+    END IF;
+
+    SELECT status::TEXT AS status, assigned_to
+    INTO v_letter
+    FROM letters
+    WHERE id = p_letter_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Letter % not found', p_letter_id;
+    END IF;
+
+    IF NOT public.is_review_queue_status(v_letter.status) THEN
+        RETURN jsonb_build_object('reassigned', false, 'reason', 'not_reviewable', 'status', v_letter.status);
+    END IF;
+
+    UPDATE letters
+    SET assigned_to = p_attorney_id,
+        assigned_at = NOW(),
+        review_locked_by = NULL,
+        review_lock_expires_at = NULL,
+        updated_at = NOW()
+    WHERE id = p_letter_id;
+
+    PERFORM public.log_letter_audit(
+        p_letter_id,
+        'review_reassigned',
+        v_letter.status,
+        v_letter.status,
+        'Super admin reassigned the letter',
+        jsonb_build_object('previous_assignee', v_letter.assigned_to, 'assigned_to', p_attorney_id)
+    );
+
+    RETURN jsonb_build_object('reassigned', true, 'assigned_to', p_attorney_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_review_workload()
+RETURNS TABLE (
+    attorney_id UUID,
+    full_name TEXT,
+    email TEXT,
+    admin_sub_role TEXT,
+    open_assignments BIGINT,
+    active_locks BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF public.get_user_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Admin access required';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        p.id,
+        p.full_name,
+        p.email,
+        COALESCE(p.admin_sub_role::TEXT, 'super_admin'),
+        COUNT(l.id) FILTER (WHERE l.assigned_to = p.id),
+        COUNT(l.id) FILTER (WHERE l.review_locked_by = p.id AND l.review_lock_expires_at > NOW())
+    FROM profiles p
+    LEFT JOIN letters l
+        ON (l.assigned_to = p.id OR l.review_locked_by = p.id)
+       AND public.is_review_queue_status(l.status::TEXT)
+    WHERE p.role = 'admin'
+    GROUP BY p.id, p.full_name, p.email, p.admin_sub_role
+    ORDER BY COUNT(l.id) FILTER (WHERE l.assigned_to = p.id) ASC, p.full_name;
+END;
+$$;
+
+-- Revision cycles get an SLA clock like first reviews: a cycle starts when the
+-- letter enters the review queue and ends when it leaves it
+CREATE OR REPLACE FUNCTION public.get_review_sla_clocks(p_days_back INTEGER DEFAULT 30)
+RETURNS TABLE(
+    letter_id UUID,
+    title TEXT,
+    letter_type TEXT,
+    plan_type TEXT,
+    status TEXT,
+    assigned_to UUID,
+    review_started_at TIMESTAMPTZ,
+    resolved_at TIMESTAMPTZ,
+    target_hours NUMERIC,
+    warning_percent INTEGER,
+    due_at TIMESTAMPTZ,
+    elapsed_hours NUMERIC,
+    sla_state TEXT
+) AS $$
+BEGIN
+    IF auth.role() IS DISTINCT FROM 'service_role'
+       AND NOT (public.is_super_admin() OR public.is_attorney_admin()) THEN
+        RAISE EXCEPTION 'Access denied: admin privileges required';
+    END IF;
+
+    RETURN QUERY
+    WITH starts AS (
+        SELECT DISTINCT ON (a.letter_id) a.letter_id, a.created_at AS started_at
+        FROM public.letter_audit_trail a
+        WHERE a.new_status IN ('pending_review', 'revision_requested')
+          AND NOT public.is_review_queue_status(COALESCE(a.old_status, ''))
+        ORDER BY a.letter_id, a.created_at DESC
+    ),
+    cycles AS (
+        SELECT
+            l.id,
+            l.title,
+            l.letter_type,
+            l.status::TEXT AS status,
+            l.assigned_to,
+            l.user_id,
+            COALESCE(s.started_at, l.created_at) AS started_at
+        FROM public.letters l
+        LEFT JOIN starts s ON s.letter_id = l.id
+        WHERE public.is_review_queue_status(l.status::TEXT)
+           OR s.started_at > NOW() - make_interval(days => p_days_back)
+    ),
+    clocks AS (
+        SELECT
+            c.*,
+            sub.plan_type,
+            (
+                SELECT MIN(a.created_at)
+                FROM public.letter_audit_trail a
+                WHERE a.letter_id = c.id
+                  AND a.created_at > c.started_at
+                  AND a.new_status IS NOT NULL
+                  AND NOT public.is_review_queue_status(a.new_status)
+            ) AS resolved_at,
+            COALESCE(pol.target_hours, 48) AS target_hours,
+            COALESCE(pol.warning_percent, 75) AS warning_percent
+        FROM cycles c
+        LEFT JOIN LATERAL (
+            SELECT s.plan_type
+            FROM public.subscriptions s
+            WHERE s.user_id = c.user_id
+            ORDER BY s.created_at DESC
+            LIMIT 1
+        ) sub ON TRUE
+        LEFT JOIN LATERAL (
+            SELECT p.target_hours, p.warning_percent
+            FROM public.review_sla_policies p
+            WHERE (p.plan_type IS NULL OR p.plan_type = sub.plan_type)
+              AND (p.letter_type IS NULL OR p.letter_type = c.letter_type)
+            ORDER BY (p.letter_type IS NOT NULL) DESC, (p.plan_type IS NOT NULL) DESC
+            LIMIT 1
+        ) pol ON TRUE
+    )
+    SELECT
+        k.id,
+        k.title,
+        k.letter_type,
+        k.plan_type,
+        k.status,
+        k.assigned_to,
+        k.started_at,
+        k.resolved_at,
+        k.target_hours,
+        k.warning_percent,
+        k.started_at + make_interval(secs => k.target_hours * 3600),
+        ROUND((EXTRACT(EPOCH FROM (COALESCE(k.resolved_at, NOW()) - k.started_at)) / 3600)::NUMERIC, 2),
+        CASE
+            WHEN k.resolved_at IS NOT NULL THEN
+                CASE WHEN k.resolved_at <= k.started_at + make_interval(secs => k.target_hours * 3600)
+                     THEN 'met' ELSE 'missed' END
+            WHEN NOW() > k.started_at + make_interval(secs => k.target_hours * 3600) THEN 'breached'
+            WHEN NOW() >= k.started_at + make_interval(secs => k.target_hours * 36 * k.warning_percent) THEN 'at_risk'
+            ELSE 'on_track'
+        END
+    FROM clocks k
+    ORDER BY k.started_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.is_review_queue_status TO authenticated;
+GRANT EXECUTE ON FUNCTION public.request_letter_revision(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.decline_letter_revision(UUID, TEXT) TO authenticated;
+
+COMMENT ON TABLE public.letter_revision_requests IS 'Changes subscribers asked for on approved or completed letters; completed when the letter is approved again or declined by an attorney';
+COMMENT ON COLUMN public.letter_revision_requests.previous_status IS 'Letter status when the revision was requested';
+COMMENT ON COLUMN public.letter_revision_requests.previous_final_content IS 'Approved letter text when the revision was requested; restored if the request is declined';
+COMMENT ON FUNCTION public.request_letter_revision IS 'Opens a revision request on the caller''s letter within their plan''s revision limit and returns the letter to review';
+COMMENT ON FUNCTION public.decline_letter_revision IS 'Declines the letter''s open revision request and restores its previously approved status and text';
+COMMENT ON FUNCTION public.is_review_queue_status IS 'True for statuses that sit in the attorney review queue';
+
+COMMIT;
@@ -0,0 +1,480 @@
+-- Attorney licensing profiles and jurisdiction-based routing
+-- Migration: 20260212000000_attorney_profiles.sql
+-- Purpose: Record each attorney's bar admissions, practice areas, signature and
+--          active status, and only route letters to attorneys licensed in the
+--          letter's governing state
+
+BEGIN;
+
+-- Private bucket; signatures are stored under "<attorney_id>/<file name>"
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('attorney-signatures', 'attorney-signatures', false, 1048576)
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================================================
+-- Profiles and bar admissions
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.attorney_profiles (
+    id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+    firm_name TEXT,
+    practice_areas TEXT[] NOT NULL DEFAULT '{}',
+    signature_path TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.attorney_bar_admissions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    attorney_id UUID NOT NULL REFERENCES public.attorney_profiles(id) ON DELETE CASCADE,
+    state TEXT NOT NULL CHECK (state ~ '^[A-Z]{2}$'),
+    bar_number TEXT NOT NULL CHECK (char_length(bar_number) BETWEEN 1 AND 50),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (attorney_id, state)
+);
+
+CREATE INDEX IF NOT EXISTS idx_attorney_bar_admissions_state
+    ON public.attorney_bar_admissions(state)
+    WHERE is_active;
+
+ALTER TABLE public.attorney_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.attorney_bar_admissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins view attorney profiles" ON public.attorney_profiles;
+CREATE POLICY "Admins view attorney profiles"
+    ON public.attorney_profiles
+    FOR SELECT
+    USING (public.get_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Super admins manage attorney profiles" ON public.attorney_profiles;
+CREATE POLICY "Super admins manage attorney profiles"
+    ON public.attorney_profiles
+    FOR ALL
+    USING (public.is_super_admin())
+    WITH CHECK (public.is_super_admin());
+
+DROP POLICY IF EXISTS "Admins view bar admissions" ON public.attorney_bar_admissions;
+CREATE POLICY "Admins view bar admissions"
+    ON public.attorney_bar_admissions
+    FOR SELECT
+    USING (public.get_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Super admins manage bar admissions" ON public.attorney_bar_admissions;
+CREATE POLICY "Super admins manage bar admissions"
+    ON public.attorney_bar_admissions
+    FOR ALL
+    USING (public.is_super_admin())
+    WITH CHECK (public.is_super_admin());
+
+DROP POLICY IF EXISTS "Super admins manage attorney signatures" ON storage.objects;
+CREATE POLICY "Super admins manage attorney signatures"
+    ON storage.objects
+    FOR ALL
+    TO authenticated
+    USING (bucket_id = 'attorney-signatures' AND public.is_super_admin())
+    WITH CHECK (bucket_id = 'attorney-signatures' AND public.is_super_admin());
+
+DROP POLICY IF EXISTS "Admins read attorney signatures" ON storage.objects;
+CREATE POLICY "Admins read attorney signatures"
+    ON storage.objects
+    FOR SELECT
+    TO authenticated
+    USING (
+        bucket_id = 'attorney-signatures'
+        AND public.get_user_role() = 'admin'
+    );
+
+-- ============================================================================
+-- Eligibility
+-- ============================================================================
+
+/*
+  Attorney admins may review a letter when their profile is active and, if the
+  letter has a governing state, they hold an active admission there. Super
+  admins are not routed letters but may still step in on any of them.
+*/
+CREATE OR REPLACE FUNCTION public.can_review_in_state(p_admin_id UUID, p_state TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE id = p_admin_id
+          AND role = 'admin'
+          AND admin_sub_role::TEXT IN ('super_admin', 'system_admin')
+    )
+    OR EXISTS (
+        SELECT 1
+        FROM attorney_profiles ap
+        WHERE ap.id = p_admin_id
+          AND ap.is_active
+          AND (
+              p_state IS NULL
+              OR EXISTS (
+                  SELECT 1 FROM attorney_bar_admissions ba
+                  WHERE ba.attorney_id = ap.id
+                    AND ba.state = p_state
+                    AND ba.is_active
+              )
+          )
+    );
+$$;
+
+-- ============================================================================
+-- Routing
+-- ============================================================================
+
+-- The state and letter type are new arguments, so replace rather than overload
+DROP FUNCTION IF EXISTS public.pick_review_assignee(UUID);
+
+/*
+  Least-loaded active attorney licensed in the letter's state, preferring those
+  who list the letter type among their practice areas
+*/
+CREATE OR REPLACE FUNCTION public.pick_review_assignee(
+    p_exclude UUID DEFAULT NULL,
+    p_state TEXT DEFAULT NULL,
+    p_letter_type TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT p.id
+    FROM profiles p
+    JOIN attorney_profiles ap ON ap.id = p.id AND ap.is_active
+    LEFT JOIN letters l
+        ON l.assigned_to = p.id
+       AND public.is_review_queue_status(l.status::TEXT)
+    WHERE p.role = 'admin'
+      AND p.admin_sub_role = 'attorney_admin'
+      AND p.id IS DISTINCT FROM p_exclude
+      AND public.can_review_in_state(p.id, p_state)
+    GROUP BY p.id, ap.practice_areas
+    ORDER BY
+        (p_letter_type IS NOT NULL AND p_letter_type = ANY(ap.practice_areas)) DESC,
+        COUNT(l.id) ASC,
+        (SELECT MAX(assigned_at) FROM letters WHERE assigned_to = p.id) ASC NULLS FIRST,
+        p.id
+    LIMIT 1;
+$$;
+
+/*
+  Also re-routes a letter whose current assignee can no longer take it, e.g. a
+  revision request on a letter approved by an attorney who has since left
+*/
+CREATE OR REPLACE FUNCTION public.assign_letter_for_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status IN ('pending_review', 'revision_requested')
+       AND (
+           NEW.assigned_to IS NULL
+           OR NOT public.can_review_in_state(NEW.assigned_to, NEW.governing_state)
+       ) THEN
+        NEW.assigned_to := public.pick_review_assignee(NULL, NEW.governing_state, NEW.letter_type);
+        NEW.assigned_at := CASE WHEN NEW.assigned_to IS NOT NULL THEN NOW() END;
+    END IF;
+
+    IF NOT public.is_review_queue_status(NEW.status::TEXT) THEN
+        NEW.review_locked_by := NULL;
+        NEW.review_lock_expires_at := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.claim_letter_review(
+    p_letter_id UUID,
+    p_lock_minutes INTEGER DEFAULT 30
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_admin UUID := auth.uid();
+    v_letter RECORD;
+    v_new_status TEXT;
+    v_expires_at TIMESTAMPTZ := NOW() + (GREATEST(p_lock_minutes, 1) || ' minutes')::INTERVAL;
+    v_renewal BOOLEAN;
+BEGIN
+    IF public.get_user_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Admin access required';
+    END IF;
+
+    SELECT status::TEXT AS status, assigned_to, review_locked_by, review_lock_expires_at, governing_state
+    INTO v_letter
+    FROM letters
+    WHERE id = p_letter_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Letter % not found', p_letter_id;
+    END IF;
+
+    IF NOT public.is_review_queue_status(v_letter.status) THEN
+        RETURN jsonb_build_object('claimed', false, 'reason', 'not_reviewable', 'status', v_letter.status);
+    END IF;
+
+    IF NOT public.can_review_in_state(v_admin, v_letter.governing_state) THEN
+        RETURN jsonb_build_object('claimed', false, 'reason', 'not_licensed', 'state', v_letter.governing_state);
+    END IF;
+
+    IF v_letter.review_locked_by IS DISTINCT FROM v_admin
+       AND v_letter.review_locked_by IS NOT NULL
+       AND v_letter.review_lock_expires_at > NOW() THEN
+        RETURN jsonb_build_object(
+            'claimed', false,
+            'reason', 'locked',
+            'locked_by', v_letter.review_locked_by,
+            'lock_expires_at', v_letter.review_lock_expires_at
+        );
+    END IF;
+
+    IF v_letter.assigned_to IS DISTINCT FROM v_admin AND v_letter.assigned_to IS NOT NULL THEN
+        RETURN jsonb_build_object('claimed', false, 'reason', 'assigned', 'assigned_to', v_letter.assigned_to);
+    END IF;
+
+    v_renewal := v_letter.review_locked_by = v_admin AND v_letter.review_lock_expires_at > NOW();
+    v_new_status := CASE
+        WHEN v_letter.status IN ('pending_review', 'revision_requested') THEN 'under_review'
+        ELSE v_letter.status
+    END;
+
+    UPDATE letters
+    SET assigned_to = v_admin,
+        assigned_at = CASE WHEN assigned_to IS DISTINCT FROM v_admin THEN NOW() ELSE assigned_at END,
+        review_locked_by = v_admin,
+        review_lock_expires_at = v_expires_at,
+        status = v_new_status::letter_status,
+        reviewed_by = v_admin,
+        updated_at = NOW()
+    WHERE id = p_letter_id;
+
+    IF NOT v_renewal THEN
+        PERFORM public.log_letter_audit(
+            p_letter_id,
+            'review_claimed',
+            v_letter.status,
+            v_new_status,
+            'Admin claimed the letter for review',
+            jsonb_build_object('lock_expires_at', v_expires_at)
+        );
+    END IF;
+
+    RETURN jsonb_build_object(
+        'claimed', true,
+        'renewed', v_renewal,
+        'status', v_new_status,
+        'lock_expires_at', v_expires_at
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_letter_review(p_letter_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_admin UUID := auth.uid();
+    v_letter RECORD;
+    v_next_assignee UUID;
+    v_new_status TEXT;
+BEGIN
+    IF public.get_user_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Admin access required';
+    END IF;
+
+    SELECT status::TEXT AS status, assigned_to, review_locked_by, review_lock_expires_at,
+           governing_state, letter_type
+    INTO v_letter
+    FROM letters
+    WHERE id = p_letter_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Letter % not found', p_letter_id;
+    END IF;
+
+    IF v_letter.review_locked_by IS DISTINCT FROM v_admin
+       AND v_letter.assigned_to IS DISTINCT FROM v_admin
+       AND public.get_admin_sub_role()::TEXT NOT IN ('super_admin', 'system_admin') THEN
+        RETURN jsonb_build_object('released', false, 'reason', 'not_owner');
+    END IF;
+
+    v_next_assignee := public.pick_review_assignee(v_letter.assigned_to, v_letter.governing_state, v_letter.letter_type);
+    v_new_status := CASE
+        WHEN v_letter.status <> 'under_review' THEN v_letter.status
+        WHEN EXISTS (
+            SELECT 1 FROM letter_revision_requests
+            WHERE letter_id = p_letter_id AND status = 'open'
+        ) THEN 'revision_requested'
+        ELSE 'pending_review'
+    END;
+
+    UPDATE letters
+    SET assigned_to = v_next_assignee,
+        assigned_at = CASE WHEN v_next_assignee IS NOT NULL THEN NOW() END,
+        review_locked_by = NULL,
+        review_lock_expires_at = NULL,
+        status = v_new_status::letter_status,
+        updated_at = NOW()
+    WHERE id = p_letter_id;
+
+    PERFORM public.log_letter_audit(
+        p_letter_id,
+        'review_released',
+        v_letter.status,
+        v_new_status,
+        'Admin released the letter back to the review queue',
+        jsonb_build_object('previous_assignee', v_letter.assigned_to, 'next_assignee', v_next_assignee)
+    );
+
+    RETURN jsonb_build_object('released', true, 'assigned_to', v_next_assignee);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reassign_letter_review(
+    p_letter_id UUID,
+    p_attorney_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_letter RECORD;
+BEGIN
+    IF public.get_user_role() IS DISTINCT FROM 'admin'
+       OR public.get_admin_sub_role()::TEXT NOT IN ('super_admin', 'system_admin') THEN
+        RAISE EXCEPTION 'Super admin access required';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = p_attorney_id AND role = 'admin') THEN
+        RAISE EXCEPTION 'Assignee % is not an admin', p_attorney_id;
+    END IF;
+
+    SELECT status::TEXT AS status, assigned_to, governing_state
+    INTO v_letter
+    FROM letters
+    WHERE id = p_letter_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Letter % not found', p_letter_id;
+    END IF;
+
+    IF NOT public.is_review_queue_status(v_letter.status) THEN
+        RETURN jsonb_build_object('reassigned', false, 'reason', 'not_reviewable', 'status', v_letter.status);
+    END IF;
+
+    IF NOT public.can_review_in_state(p_attorney_id, v_letter.governing_state) THEN
+        RETURN jsonb_build_object('reassigned', false, 'reason', 'not_licensed', 'state', v_letter.governing_state);
+    END IF;
+
+    UPDATE letters
+    SET assigned_to = p_attorney_id,
+        assigned_at = NOW(),
+        review_locked_by = NULL,
+        review_lock_expires_at = NULL,
+        updated_at = NOW()
+    WHERE id = p_letter_id;
+
+    PERFORM public.log_letter_audit(
+        p_letter_id,
+        'review_reassigned',
+        v_letter.status,
+        v_letter.status,
+        'Super admin reassigned the letter',
+        jsonb_build_object('previous_assignee', v_letter.assigned_to, 'assigned_to', p_attorney_id)
+    );
+
+    RETURN jsonb_build_object('reassigned', true, 'assigned_to', p_attorney_id);
+END;
+$$;
+
+-- Return type gains the licensing columns
+DROP FUNCTION IF EXISTS public.get_review_workload();
+
+CREATE OR REPLACE FUNCTION public.get_review_workload()
+RETURNS TABLE (
+    attorney_id UUID,
+    full_name TEXT,
+    email TEXT,
+    admin_sub_role TEXT,
+    open_assignments BIGINT,
+    active_locks BIGINT,
+    is_active BOOLEAN,
+    licensed_states TEXT[]
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF public.get_user_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Admin access required';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        p.id,
+        p.full_name,
+        p.email,
+        COALESCE(p.admin_sub_role::TEXT, 'super_admin'),
+        COUNT(l.id) FILTER (WHERE l.assigned_to = p.id),
+        COUNT(l.id) FILTER (WHERE l.review_locked_by = p.id AND l.review_lock_expires_at > NOW()),
+        COALESCE(ap.is_active, false),
+        COALESCE(
+            (SELECT array_agg(ba.state ORDER BY ba.state)
+             FROM attorney_bar_admissions ba
+             WHERE ba.attorney_id = p.id AND ba.is_active),
+            '{}'
+        )
+    FROM profiles p
+    LEFT JOIN attorney_profiles ap ON ap.id = p.id
+    LEFT JOIN letters l
+        ON (l.assigned_to = p.id OR l.review_locked_by = p.id)
+       AND public.is_review_queue_status(l.status::TEXT)
+    WHERE p.role = 'admin'
+    GROUP BY p.id, p.full_name, p.email, p.admin_sub_role, ap.is_active
+    ORDER BY COUNT(l.id) FILTER (WHERE l.assigned_to = p.id) ASC, p.full_name;
+END;
+$$;
+
+-- Attorney admins start with an active profile and no admissions; letters with
+-- a governing state wait unassigned until a super admin records their licenses
+INSERT INTO public.attorney_profiles (id, firm_name)
+SELECT id, company_name
+FROM public.profiles
+WHERE role = 'admin'
+  AND admin_sub_role = 'attorney_admin'
+ON CONFLICT (id) DO NOTHING;
+
+GRANT SELECT ON public.attorney_profiles TO authenticated;
+GRANT SELECT ON public.attorney_bar_admissions TO authenticated;
+GRANT EXECUTE ON FUNCTION public.can_review_in_state TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_review_workload TO authenticated;
+
+COMMENT ON TABLE public.attorney_profiles IS 'Licensing profile of an attorney admin: firm, practice areas (letter types), signature and whether they take new letters';
+COMMENT ON TABLE public.attorney_bar_admissions IS 'States an attorney is admitted in, with bar numbers; letters are only routed to attorneys admitted in their governing state';
+COMMENT ON COLUMN public.attorney_profiles.signature_path IS 'Object path in the attorney-signatures bucket, drawn in the attorney block of letter PDFs';
+
+COMMIT;
@@ -0,0 +1,262 @@
+-- Conflict-of-interest checks
+-- Migration: 20260213000000_conflict_checks.sql
+-- Purpose: Keep a normalized index of the parties on every letter (the
+--          subscriber's side and the recipient's side) so a reviewing attorney
+--          can see when a recipient is an existing subscriber or someone they
+--          have previously written for, before approving the letter
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- ============================================================================
+-- Name normalization
+-- ============================================================================
+
+/*
+  Lowercase, strip punctuation, and drop honorifics and company suffixes so
+  "Acme, Inc." and "ACME Incorporated" compare equal
+*/
+CREATE OR REPLACE FUNCTION public.normalize_party_name(p_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT NULLIF(btrim(regexp_replace(
+        regexp_replace(
+            regexp_replace(lower(COALESCE(p_name, '')), '[^a-z0-9]+', ' ', 'g'),
+            '\m(the|inc|incorporated|llc|ltd|limited|corp|corporation|co|company|lp|llp|pllc|pc|plc|mr|mrs|ms|miss|dr|jr|sr|esq)\M',
+            ' ',
+            'g'
+        ),
+        '\s+', ' ', 'g'
+    )), '');
+$$;
+
+CREATE OR REPLACE FUNCTION public.normalize_party_email(p_email TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT NULLIF(lower(btrim(COALESCE(p_email, ''))), '');
+$$;
+
+-- ============================================================================
+-- Party index
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.letter_parties (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    letter_id UUID NOT NULL REFERENCES public.letters(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    party_role TEXT NOT NULL CHECK (party_role IN ('client', 'opposing')),
+    display_name TEXT NOT NULL,
+    name_key TEXT,
+    email TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_letter_parties_letter_id ON public.letter_parties(letter_id);
+CREATE INDEX IF NOT EXISTS idx_letter_parties_email ON public.letter_parties(email) WHERE email IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_letter_parties_name_key
+    ON public.letter_parties USING gin (name_key gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_profiles_party_name
+    ON public.profiles USING gin (public.normalize_party_name(full_name) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_profiles_party_company
+    ON public.profiles USING gin (public.normalize_party_name(company_name) gin_trgm_ops);
+
+ALTER TABLE public.letter_parties ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins view letter parties" ON public.letter_parties;
+CREATE POLICY "Admins view letter parties"
+    ON public.letter_parties
+    FOR SELECT
+    USING (public.get_user_role() = 'admin');
+
+/*
+  Rebuild a letter's party rows from its intake and its owner's profile.
+  Client side: sender name/email (falling back to the profile) and the owner's
+  company. Opposing side: recipient name/email, recipient company and merchant.
+*/
+CREATE OR REPLACE FUNCTION public.sync_letter_parties()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_owner RECORD;
+    v_intake JSONB := COALESCE(NEW.intake_data, '{}'::JSONB);
+BEGIN
+    DELETE FROM letter_parties WHERE letter_id = NEW.id;
+
+    SELECT full_name, email, company_name INTO v_owner FROM profiles WHERE id = NEW.user_id;
+
+    INSERT INTO letter_parties (letter_id, user_id, party_role, display_name, name_key, email)
+    SELECT NEW.id, NEW.user_id, party.role, party.display_name,
+           public.normalize_party_name(party.display_name),
+           public.normalize_party_email(party.email)
+    FROM (VALUES
+        ('client', COALESCE(NULLIF(v_intake->>'senderName', ''), v_owner.full_name),
+                   COALESCE(NULLIF(v_intake->>'senderEmail', ''), v_owner.email)),
+        ('client', v_owner.company_name, NULL),
+        ('opposing', v_intake->>'recipientName', v_intake->>'recipientEmail'),
+        ('opposing', v_intake->>'recipientCompany', NULL),
+        ('opposing', v_intake->>'merchantName', NULL)
+    ) AS party(role, display_name, email)
+    WHERE public.normalize_party_name(party.display_name) IS NOT NULL
+       OR public.normalize_party_email(party.email) IS NOT NULL;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sync_letter_parties ON public.letters;
+CREATE TRIGGER trg_sync_letter_parties
+    AFTER INSERT OR UPDATE OF intake_data, user_id ON public.letters
+    FOR EACH ROW
+    EXECUTE FUNCTION public.sync_letter_parties();
+
+-- Backfill existing letters
+UPDATE public.letters SET intake_data = intake_data WHERE intake_data IS NOT NULL;
+
+-- ============================================================================
+-- Matching
+-- ============================================================================
+
+/*
+  Parties elsewhere that look like a party on this letter, from the other
+  side: this letter's recipient against other subscribers' own names (on
+  their letters and profiles), and this letter's client against recipients of
+  other letters. The subscriber's own letters are ignored.
+*/
+CREATE OR REPLACE FUNCTION public.find_party_matches(
+    p_letter_id UUID,
+    p_min_similarity REAL DEFAULT 0.6
+)
+RETURNS TABLE (
+    party_role TEXT,
+    party_name TEXT,
+    match_source TEXT,
+    matched_letter_id UUID,
+    matched_user_id UUID,
+    matched_name TEXT,
+    matched_email TEXT,
+    matched_reviewed_by UUID,
+    name_similarity REAL,
+    email_match BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_owner UUID;
+BEGIN
+    IF public.get_user_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Admin access required';
+    END IF;
+
+    SELECT user_id INTO v_owner FROM letters WHERE id = p_letter_id;
+
+    RETURN QUERY
+    WITH ours AS (
+        SELECT lp.party_role, lp.display_name, lp.name_key, lp.email
+        FROM letter_parties lp
+        WHERE lp.letter_id = p_letter_id
+    ),
+    letter_matches AS (
+        SELECT
+            o.party_role,
+            o.display_name AS party_name,
+            'letter'::TEXT AS match_source,
+            other.letter_id AS matched_letter_id,
+            other.user_id AS matched_user_id,
+            other.display_name AS matched_name,
+            other.email AS matched_email,
+            l.reviewed_by AS matched_reviewed_by,
+            COALESCE(similarity(o.name_key, other.name_key), 0)::REAL AS name_similarity,
+            COALESCE(o.email = other.email, false) AS email_match
+        FROM ours o
+        JOIN letter_parties other
+            ON other.party_role <> o.party_role
+           AND other.user_id IS DISTINCT FROM v_owner
+           AND (other.name_key % o.name_key OR other.email = o.email)
+        JOIN letters l ON l.id = other.letter_id
+    ),
+    profile_matches AS (
+        SELECT
+            o.party_role,
+            o.display_name AS party_name,
+            'profile'::TEXT AS match_source,
+            NULL::UUID AS matched_letter_id,
+            p.id AS matched_user_id,
+            COALESCE(p.full_name, p.company_name, p.email) AS matched_name,
+            p.email AS matched_email,
+            NULL::UUID AS matched_reviewed_by,
+            GREATEST(
+                COALESCE(similarity(o.name_key, public.normalize_party_name(p.full_name)), 0),
+                COALESCE(similarity(o.name_key, public.normalize_party_name(p.company_name)), 0)
+            )::REAL AS name_similarity,
+            COALESCE(o.email = public.normalize_party_email(p.email), false) AS email_match
+        FROM ours o
+        JOIN profiles p
+            ON o.party_role = 'opposing'
+           AND p.role = 'subscriber'
+           AND p.id IS DISTINCT FROM v_owner
+           AND (
+               public.normalize_party_name(p.full_name) % o.name_key
+               OR public.normalize_party_name(p.company_name) % o.name_key
+               OR public.normalize_party_email(p.email) = o.email
+           )
+    )
+    SELECT m.*
+    FROM (SELECT * FROM letter_matches UNION ALL SELECT * FROM profile_matches) m
+    WHERE m.email_match OR m.name_similarity >= p_min_similarity
+    ORDER BY m.email_match DESC, m.name_similarity DESC
+    LIMIT 100;
+END;
+$$;
+
+-- ============================================================================
+-- Check results on the letter
+-- ============================================================================
+
+ALTER TABLE public.letters
+    ADD COLUMN IF NOT EXISTS conflict_check JSONB;
+
+-- The check (and the acknowledgment stored with it) is written by reviewing
+-- admins and the server only; the letter's owner can otherwise update the row
+CREATE OR REPLACE FUNCTION public.guard_letter_conflict_check()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user NOT IN ('authenticated', 'anon')
+       OR public.get_user_role() = 'admin' THEN
+        RETURN NEW;
+    END IF;
+
+    IF (TG_OP = 'INSERT' AND NEW.conflict_check IS NOT NULL)
+       OR (TG_OP = 'UPDATE' AND NEW.conflict_check IS DISTINCT FROM OLD.conflict_check) THEN
+        RAISE EXCEPTION 'Conflict checks are recorded by reviewing attorneys'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_letter_conflict_check ON public.letters;
+CREATE TRIGGER guard_letter_conflict_check
+    BEFORE INSERT OR UPDATE ON public.letters
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_letter_conflict_check();
+
+GRANT SELECT ON public.letter_parties TO authenticated;
+GRANT EXECUTE ON FUNCTION public.find_party_matches TO authenticated;
+
+COMMENT ON TABLE public.letter_parties IS 'Normalized names and emails of both sides of every letter, maintained by trigger for conflict checks';
+COMMENT ON COLUMN public.letters.conflict_check IS 'Latest conflict-of-interest check for the reviewing attorney, with their acknowledgment of potential conflicts; written by admins only, and an acknowledgment counts only with its conflict_acknowledged audit entry';
+
+COMMIT;
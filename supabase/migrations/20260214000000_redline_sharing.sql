@@ -0,0 +1,15 @@
+-- Redline sharing
+-- Migration: 20260214000000_redline_sharing.sql
+-- Purpose: Let a super admin share the redline PDF (attorney changes to the AI
+--          draft) with the subscriber who owns the letter
+
+BEGIN;
+
+ALTER TABLE public.letters
+    ADD COLUMN IF NOT EXISTS redline_shared_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS redline_shared_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.letters.redline_shared_at IS 'When a super admin made the redline PDF downloadable by the subscriber; NULL when not shared';
+COMMENT ON COLUMN public.letters.redline_shared_by IS 'Super admin who shared the redline PDF';
+
+COMMIT;
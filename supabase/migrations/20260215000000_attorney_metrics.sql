@@ -0,0 +1,192 @@
+-- Attorney productivity and quality metrics
+-- Migration: 20260215000000_attorney_metrics.sql
+-- Purpose: Let subscribers rate the attorney who approved their letter, and
+--          expose each attorney's review decisions (with review start, first
+--          action and follow-up revision requests) for per-attorney analytics
+
+BEGIN;
+
+-- ============================================================================
+-- Subscriber ratings
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.letter_ratings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    letter_id UUID NOT NULL UNIQUE REFERENCES public.letters(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    attorney_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+    comment TEXT CHECK (comment IS NULL OR char_length(comment) <= 1000),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_letter_ratings_attorney
+    ON public.letter_ratings(attorney_id, created_at);
+
+ALTER TABLE public.letter_ratings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Owners view letter ratings" ON public.letter_ratings;
+CREATE POLICY "Owners view letter ratings"
+    ON public.letter_ratings
+    FOR SELECT
+    USING (user_id = auth.uid() OR public.get_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Owners rate approved letters" ON public.letter_ratings;
+CREATE POLICY "Owners rate approved letters"
+    ON public.letter_ratings
+    FOR INSERT
+    WITH CHECK (
+        user_id = auth.uid()
+        AND EXISTS (
+            SELECT 1 FROM public.letters l
+            WHERE l.id = letter_id
+              AND l.user_id = auth.uid()
+              AND l.status IN ('approved', 'completed')
+        )
+    );
+
+DROP POLICY IF EXISTS "Owners update letter ratings" ON public.letter_ratings;
+CREATE POLICY "Owners update letter ratings"
+    ON public.letter_ratings
+    FOR UPDATE
+    USING (user_id = auth.uid())
+    WITH CHECK (
+        user_id = auth.uid()
+        AND EXISTS (
+            SELECT 1 FROM public.letters l
+            WHERE l.id = letter_id
+              AND l.user_id = auth.uid()
+              AND l.status IN ('approved', 'completed')
+        )
+    );
+
+-- The rated attorney is whoever approved the letter, never the subscriber's
+-- choice, and a rating stays with the letter it was given for
+CREATE OR REPLACE FUNCTION public.set_letter_rating_attorney()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.letter_id IS DISTINCT FROM OLD.letter_id THEN
+        RAISE EXCEPTION 'The rated letter cannot be changed'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT reviewed_by INTO NEW.attorney_id FROM public.letters WHERE id = NEW.letter_id;
+    NEW.updated_at := NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trg_set_letter_rating_attorney ON public.letter_ratings;
+CREATE TRIGGER trg_set_letter_rating_attorney
+    BEFORE INSERT OR UPDATE ON public.letter_ratings
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_letter_rating_attorney();
+
+-- ============================================================================
+-- Review decisions
+-- ============================================================================
+
+/*
+  Every approval or rejection decided in [p_start, p_end), optionally for one
+  letter type, with:
+  - review_started_at: when the letter last entered the queue before the decision
+  - first_action_at: the attorney's first audited action on it since then
+  - revision_requests: requests the subscriber made after this approval and
+    before the letter was decided again
+  - the draft and final text of approvals, for edit distance
+*/
+CREATE OR REPLACE FUNCTION public.get_attorney_review_decisions(
+    p_start TIMESTAMPTZ,
+    p_end TIMESTAMPTZ,
+    p_letter_type TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    letter_id UUID,
+    letter_type TEXT,
+    attorney_id UUID,
+    decision TEXT,
+    decided_at TIMESTAMPTZ,
+    review_started_at TIMESTAMPTZ,
+    first_action_at TIMESTAMPTZ,
+    revision_requests INTEGER,
+    ai_draft_content TEXT,
+    final_content TEXT
+) AS $$
+BEGIN
+    IF NOT public.is_super_admin() THEN
+        RAISE EXCEPTION 'Access denied: super admin privileges required';
+    END IF;
+
+    RETURN QUERY
+    WITH decisions AS (
+        SELECT
+            a.letter_id,
+            COALESCE(a.performed_by, l.reviewed_by) AS attorney_id,
+            a.new_status AS decision,
+            a.created_at AS decided_at
+        FROM public.letter_audit_trail a
+        JOIN public.letters l ON l.id = a.letter_id
+        WHERE a.new_status IN ('approved', 'rejected')
+          AND a.old_status IS DISTINCT FROM a.new_status
+          AND a.created_at >= p_start
+          AND a.created_at < p_end
+          AND (p_letter_type IS NULL OR l.letter_type = p_letter_type)
+    )
+    SELECT
+        d.letter_id,
+        l.letter_type,
+        d.attorney_id,
+        d.decision,
+        d.decided_at,
+        started.started_at,
+        first_action.acted_at,
+        COALESCE(revisions.count, 0)::INTEGER,
+        CASE WHEN d.decision = 'approved' THEN l.ai_draft_content END,
+        CASE WHEN d.decision = 'approved' THEN l.final_content END
+    FROM decisions d
+    JOIN public.letters l ON l.id = d.letter_id
+    JOIN public.profiles p ON p.id = d.attorney_id AND p.role = 'admin'
+    LEFT JOIN LATERAL (
+        SELECT MAX(a.created_at) AS started_at
+        FROM public.letter_audit_trail a
+        WHERE a.letter_id = d.letter_id
+          AND a.new_status IN ('pending_review', 'revision_requested')
+          AND a.old_status IS DISTINCT FROM a.new_status
+          AND a.created_at <= d.decided_at
+    ) started ON true
+    LEFT JOIN LATERAL (
+        SELECT MIN(a.created_at) AS acted_at
+        FROM public.letter_audit_trail a
+        WHERE a.letter_id = d.letter_id
+          AND a.performed_by = d.attorney_id
+          AND a.created_at >= COALESCE(started.started_at, l.created_at)
+          AND a.created_at <= d.decided_at
+    ) first_action ON true
+    LEFT JOIN LATERAL (
+        SELECT COUNT(*) AS count
+        FROM public.letter_revision_requests r
+        WHERE d.decision = 'approved'
+          AND r.letter_id = d.letter_id
+          AND r.created_at > d.decided_at
+          AND NOT EXISTS (
+              SELECT 1
+              FROM public.letter_audit_trail n
+              WHERE n.letter_id = d.letter_id
+                AND n.new_status IN ('approved', 'rejected')
+                AND n.old_status IS DISTINCT FROM n.new_status
+                AND n.created_at > d.decided_at
+                AND n.created_at < r.created_at
+          )
+    ) revisions ON true
+    ORDER BY d.decided_at;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT SELECT, INSERT, UPDATE ON public.letter_ratings TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_attorney_review_decisions(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) TO authenticated;
+
+COMMENT ON TABLE public.letter_ratings IS 'Subscriber rating (1-5) of the attorney who approved their letter';
+COMMENT ON FUNCTION public.get_attorney_review_decisions IS 'Returns every approval or rejection in a date range with review timing and follow-up revision requests, for per-attorney metrics';
+
+COMMIT;
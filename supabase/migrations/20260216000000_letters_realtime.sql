@@ -0,0 +1,26 @@
+-- Letter status realtime
+-- Migration: 20260216000000_letters_realtime.sql
+-- Purpose: Broadcast letter changes over Supabase Realtime so the attorney
+--          review queue and the subscriber's letters update without a reload.
+--          Realtime checks each change against the letters SELECT policies,
+--          so subscribers only receive their own letters and admins the rest.
+
+BEGIN;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        CREATE PUBLICATION supabase_realtime;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime'
+          AND schemaname = 'public'
+          AND tablename = 'letters'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.letters;
+    END IF;
+END $$;
+
+COMMIT;
@@ -0,0 +1,112 @@
+-- Attorney approval timeouts
+-- Migration: 20260217000000_approval_timeouts.sql
+-- Purpose: Support the letter workflow's approval deadlines: hand a stalled
+--          letter to another attorney, and flag letters nobody decided by the
+--          final cutoff for super-admin intervention
+
+BEGIN;
+
+ALTER TABLE public.letters
+    ADD COLUMN IF NOT EXISTS intervention_required_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS intervention_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_letters_intervention_required
+    ON public.letters(intervention_required_at)
+    WHERE intervention_required_at IS NOT NULL;
+
+-- The flag only matters while the letter waits for a decision
+CREATE OR REPLACE FUNCTION public.clear_letter_intervention()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.intervention_required_at IS NOT NULL
+       AND NOT public.is_review_queue_status(NEW.status::TEXT) THEN
+        NEW.intervention_required_at := NULL;
+        NEW.intervention_reason := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_clear_letter_intervention ON public.letters;
+CREATE TRIGGER trg_clear_letter_intervention
+    BEFORE UPDATE ON public.letters
+    FOR EACH ROW
+    EXECUTE FUNCTION public.clear_letter_intervention();
+
+/*
+  Move a letter the workflow has waited on too long to the next least-loaded
+  attorney, dropping any claim on it. A letter under review goes back to the
+  queue status it came from. Auditing is left to the workflow.
+*/
+CREATE OR REPLACE FUNCTION public.reassign_stalled_review(p_letter_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_letter RECORD;
+    v_next_assignee UUID;
+    v_new_status TEXT;
+BEGIN
+    SELECT status::TEXT AS status, assigned_to, governing_state, letter_type
+    INTO v_letter
+    FROM letters
+    WHERE id = p_letter_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Letter % not found', p_letter_id;
+    END IF;
+
+    IF NOT public.is_review_queue_status(v_letter.status) THEN
+        RETURN jsonb_build_object('reassigned', false, 'reason', 'not_reviewable', 'status', v_letter.status);
+    END IF;
+
+    v_next_assignee := public.pick_review_assignee(v_letter.assigned_to, v_letter.governing_state, v_letter.letter_type);
+    IF v_next_assignee IS NULL THEN
+        RETURN jsonb_build_object(
+            'reassigned', false,
+            'status', v_letter.status,
+            'previous_assignee', v_letter.assigned_to
+        );
+    END IF;
+
+    v_new_status := CASE
+        WHEN v_letter.status <> 'under_review' THEN v_letter.status
+        WHEN EXISTS (
+            SELECT 1 FROM letter_revision_requests
+            WHERE letter_id = p_letter_id AND status = 'open'
+        ) THEN 'revision_requested'
+        ELSE 'pending_review'
+    END;
+
+    UPDATE letters
+    SET assigned_to = v_next_assignee,
+        assigned_at = NOW(),
+        review_locked_by = NULL,
+        review_lock_expires_at = NULL,
+        status = v_new_status::letter_status,
+        updated_at = NOW()
+    WHERE id = p_letter_id;
+
+    RETURN jsonb_build_object(
+        'reassigned', true,
+        'status', v_new_status,
+        'previous_assignee', v_letter.assigned_to,
+        'assigned_to', v_next_assignee
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reassign_stalled_review FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.reassign_stalled_review TO service_role;
+
+COMMENT ON COLUMN public.letters.intervention_required_at IS 'When the letter workflow gave up waiting for an attorney decision and asked a super admin to step in; cleared once the letter leaves the review queue';
+COMMENT ON COLUMN public.letters.intervention_reason IS 'Why the letter needs super-admin intervention';
+COMMENT ON FUNCTION public.reassign_stalled_review IS 'Service-role-only: hands a letter that timed out awaiting approval to the next least-loaded attorney.';
+
+COMMIT;
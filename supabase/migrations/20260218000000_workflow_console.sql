@@ -0,0 +1,50 @@
+-- Workflow operations console
+-- Migration: 20260218000000_workflow_console.sql
+-- Purpose: Record each letter workflow's step history and current step so
+--          super admins can inspect runs and cancel, retry or resume them
+
+BEGIN;
+
+ALTER TABLE public.letters
+    ADD COLUMN IF NOT EXISTS workflow_current_step TEXT;
+
+-- Runs can now be cancelled from the console
+ALTER TABLE public.letters DROP CONSTRAINT IF EXISTS check_workflow_status;
+ALTER TABLE public.letters
+    ADD CONSTRAINT check_workflow_status
+    CHECK (workflow_status IS NULL OR workflow_status IN ('running', 'completed', 'failed', 'paused', 'cancelled'));
+
+CREATE INDEX IF NOT EXISTS idx_letters_workflow_started
+    ON public.letters(workflow_started_at DESC)
+    WHERE workflow_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.letter_workflow_steps (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    letter_id UUID NOT NULL REFERENCES public.letters(id) ON DELETE CASCADE,
+    workflow_id TEXT NOT NULL,
+    step TEXT NOT NULL,
+    attempt INTEGER NOT NULL DEFAULT 1,
+    status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+    error TEXT,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_letter_workflow_steps_workflow
+    ON public.letter_workflow_steps(workflow_id, started_at);
+
+ALTER TABLE public.letter_workflow_steps ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Super admins view workflow steps" ON public.letter_workflow_steps;
+CREATE POLICY "Super admins view workflow steps"
+    ON public.letter_workflow_steps
+    FOR SELECT
+    USING (public.is_super_admin());
+
+GRANT SELECT ON public.letter_workflow_steps TO authenticated;
+GRANT ALL ON public.letter_workflow_steps TO service_role;
+
+COMMENT ON COLUMN public.letters.workflow_current_step IS 'Step the letter workflow is running or waiting in';
+COMMENT ON TABLE public.letter_workflow_steps IS 'Attempts of each letter workflow step with their outcome, written by the workflow';
+
+COMMIT;
@@ -0,0 +1,107 @@
+-- Stuck letter generation recovery
+-- Migration: 20260219000000_generation_recovery.sql
+-- Purpose: Let the recovery job regenerate or fail letters left in 'generating'
+--          when /api/generate-letter dies mid-request, refund only letters that
+--          actually used a credit, and keep a history of its runs for the
+--          health dashboard
+
+BEGIN;
+
+-- Set by the server when it creates a letter; the recovery job only picks up
+-- letters that have it
+ALTER TABLE public.letters
+    ADD COLUMN IF NOT EXISTS allowance_deducted BOOLEAN,
+    ADD COLUMN IF NOT EXISTS recovery_attempts INTEGER NOT NULL DEFAULT 0;
+
+-- Letters already stuck were created before the column and are assumed to have
+-- used a credit; the refund RPC declines it when the user has no active
+-- subscription (e.g. a free trial letter)
+UPDATE public.letters
+SET allowance_deducted = TRUE
+WHERE status = 'generating'
+  AND allowance_deducted IS NULL;
+
+-- Clients may not set the columns the recovery job and workflow console act on,
+-- nor move a letter back into 'generating'. Server code writes them with the
+-- service role; SECURITY DEFINER functions run as their owner and are exempt too.
+CREATE OR REPLACE FUNCTION public.guard_letter_server_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user NOT IN ('authenticated', 'anon') THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.allowance_deducted IS NOT NULL
+            OR NEW.recovery_attempts <> 0
+            OR NEW.workflow_id IS NOT NULL
+            OR NEW.workflow_status IS NOT NULL
+            OR NEW.workflow_current_step IS NOT NULL
+            OR NEW.workflow_started_at IS NOT NULL
+            OR NEW.workflow_completed_at IS NOT NULL
+            OR NEW.workflow_error IS NOT NULL THEN
+            RAISE EXCEPTION 'Generation and workflow columns are set by the server'
+                USING ERRCODE = '42501';
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF NEW.allowance_deducted IS DISTINCT FROM OLD.allowance_deducted
+        OR NEW.recovery_attempts IS DISTINCT FROM OLD.recovery_attempts
+        OR NEW.workflow_id IS DISTINCT FROM OLD.workflow_id
+        OR NEW.workflow_status IS DISTINCT FROM OLD.workflow_status
+        OR NEW.workflow_current_step IS DISTINCT FROM OLD.workflow_current_step
+        OR NEW.workflow_started_at IS DISTINCT FROM OLD.workflow_started_at
+        OR NEW.workflow_completed_at IS DISTINCT FROM OLD.workflow_completed_at
+        OR NEW.workflow_error IS DISTINCT FROM OLD.workflow_error
+        OR (NEW.status = 'generating' AND OLD.status IS DISTINCT FROM 'generating') THEN
+        RAISE EXCEPTION 'Generation and workflow columns are set by the server'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_letter_server_columns ON public.letters;
+CREATE TRIGGER guard_letter_server_columns
+    BEFORE INSERT OR UPDATE ON public.letters
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_letter_server_columns();
+
+CREATE INDEX IF NOT EXISTS idx_letters_generating_updated
+    ON public.letters(updated_at)
+    WHERE status = 'generating';
+
+CREATE TABLE IF NOT EXISTS public.letter_recovery_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    finished_at TIMESTAMPTZ,
+    stuck_found INTEGER NOT NULL DEFAULT 0,
+    regenerated INTEGER NOT NULL DEFAULT 0,
+    failed INTEGER NOT NULL DEFAULT 0,
+    refunded INTEGER NOT NULL DEFAULT 0,
+    notified INTEGER NOT NULL DEFAULT 0,
+    letters JSONB NOT NULL DEFAULT '[]'::JSONB,
+    error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_letter_recovery_runs_started
+    ON public.letter_recovery_runs(started_at DESC);
+
+ALTER TABLE public.letter_recovery_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Super admins view recovery runs" ON public.letter_recovery_runs;
+CREATE POLICY "Super admins view recovery runs"
+    ON public.letter_recovery_runs
+    FOR SELECT
+    USING (public.is_super_admin());
+
+GRANT SELECT ON public.letter_recovery_runs TO authenticated;
+GRANT ALL ON public.letter_recovery_runs TO service_role;
+
+COMMENT ON COLUMN public.letters.allowance_deducted IS 'Whether creating the letter used a credit, so a failed generation knows to refund it. Server-set; NULL on letters the recovery job ignores';
+COMMENT ON COLUMN public.letters.recovery_attempts IS 'Times the recovery job has picked the letter up while stuck in generating';
+COMMENT ON TABLE public.letter_recovery_runs IS 'Runs of the stuck-letter recovery job and what each did per letter';
+
+COMMIT;
@@ -0,0 +1,133 @@
+-- Request idempotency keys
+-- Migration: 20260220000000_idempotency_keys.sql
+-- Purpose: Let clients send an Idempotency-Key with letter generation and
+--          checkout requests so a double-click or retry returns the original
+--          response instead of creating a second letter or checkout session.
+--          Follows check_and_record_webhook: a unique key claimed atomically,
+--          with the outcome stored alongside it.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.idempotency_keys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    endpoint TEXT NOT NULL,
+    idempotency_key TEXT NOT NULL,
+    request_fingerprint TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed')),
+    response_status INTEGER,
+    response_body JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ NOT NULL,
+    UNIQUE (user_id, endpoint, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at
+    ON public.idempotency_keys(expires_at);
+
+-- Only the server touches this table, through the service role
+ALTER TABLE public.idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS idempotency_keys_service_all ON public.idempotency_keys;
+CREATE POLICY idempotency_keys_service_all
+    ON public.idempotency_keys
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+GRANT ALL ON public.idempotency_keys TO service_role;
+
+/*
+  Claim a key for a request, or report what the earlier request with the same
+  key did. An expired key is claimed afresh. A key still 'processing' after
+  p_stale_minutes belongs to a request that died, so it is handed to the retry.
+*/
+CREATE OR REPLACE FUNCTION public.claim_idempotency_key(
+    p_user_id UUID,
+    p_endpoint TEXT,
+    p_key TEXT,
+    p_fingerprint TEXT,
+    p_ttl_hours INTEGER DEFAULT 24,
+    p_stale_minutes INTEGER DEFAULT 5
+)
+RETURNS TABLE(
+    should_process BOOLEAN,
+    fingerprint_matches BOOLEAN,
+    key_status TEXT,
+    response_status INTEGER,
+    response_body JSONB
+) AS $$
+DECLARE
+    v_existing public.idempotency_keys;
+BEGIN
+    DELETE FROM public.idempotency_keys k
+    WHERE k.user_id = p_user_id
+      AND k.endpoint = p_endpoint
+      AND k.idempotency_key = p_key
+      AND (
+          k.expires_at < NOW()
+          OR (k.status = 'processing' AND k.created_at < NOW() - (p_stale_minutes || ' minutes')::INTERVAL)
+      );
+
+    BEGIN
+        INSERT INTO public.idempotency_keys(
+            user_id,
+            endpoint,
+            idempotency_key,
+            request_fingerprint,
+            expires_at
+        ) VALUES (
+            p_user_id,
+            p_endpoint,
+            p_key,
+            p_fingerprint,
+            NOW() + (p_ttl_hours || ' hours')::INTERVAL
+        );
+
+        RETURN QUERY SELECT TRUE, TRUE, 'processing'::TEXT, NULL::INTEGER, NULL::JSONB;
+        RETURN;
+    EXCEPTION
+        WHEN unique_violation THEN
+            SELECT * INTO v_existing
+            FROM public.idempotency_keys k
+            WHERE k.user_id = p_user_id
+              AND k.endpoint = p_endpoint
+              AND k.idempotency_key = p_key;
+    END;
+
+    RETURN QUERY SELECT
+        FALSE,
+        v_existing.request_fingerprint = p_fingerprint,
+        v_existing.status,
+        v_existing.response_status,
+        v_existing.response_body;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.claim_idempotency_key(UUID, TEXT, TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.claim_idempotency_key(UUID, TEXT, TEXT, TEXT, INTEGER, INTEGER) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.cleanup_expired_idempotency_keys()
+RETURNS INTEGER AS $$
+DECLARE
+    v_deleted_count INTEGER;
+BEGIN
+    DELETE FROM public.idempotency_keys
+    WHERE expires_at < NOW();
+
+    GET DIAGNOSTICS v_deleted_count = ROW_COUNT;
+
+    RETURN v_deleted_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.cleanup_expired_idempotency_keys() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.cleanup_expired_idempotency_keys() TO service_role;
+
+COMMENT ON TABLE public.idempotency_keys IS 'Idempotency-Key values sent with letter generation and checkout requests, with the request fingerprint and the response to replay';
+COMMENT ON FUNCTION public.claim_idempotency_key IS 'Atomically claims an idempotency key for a request, or returns the stored outcome of the request that already used it.';
+COMMENT ON FUNCTION public.cleanup_expired_idempotency_keys IS 'Removes expired idempotency keys. Call periodically via cron to manage table size.';
+
+COMMIT;
@@ -0,0 +1,42 @@
+-- Recurring Stripe subscriptions
+-- Migration: 20260221000000_recurring_subscriptions.sql
+-- Purpose: Monthly and yearly plans are now Stripe subscriptions. Their rows
+--          are matched to Stripe by stripe_subscription_id. Each paid monthly
+--          renewal resets the allowance, so the monthly reset cron skips
+--          monthly-billed rows; yearly plans still get their letters every
+--          month from the cron.
+
+BEGIN;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_subscriptions_stripe_subscription_id
+    ON public.subscriptions(stripe_subscription_id)
+    WHERE stripe_subscription_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.reset_monthly_allowances()
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+    -- Monthly Stripe-billed subscriptions (standard_4_month) are reset by
+    -- their renewal invoices
+    UPDATE subscriptions
+    SET remaining_letters = CASE
+            WHEN plan_type = 'standard_4_month' THEN 4
+            WHEN plan_type = 'premium_8_month' THEN 8
+            ELSE remaining_letters -- one_time doesn't reset
+        END,
+        last_reset_at = NOW(),
+        updated_at = NOW()
+    WHERE status = 'active'
+      AND (stripe_subscription_id IS NULL OR plan_type <> 'standard_4_month')
+      AND plan_type IN ('standard_4_month', 'premium_8_month')
+      AND DATE_TRUNC('month', last_reset_at) < DATE_TRUNC('month', NOW());
+END;
+$function$;
+
+COMMENT ON COLUMN public.subscriptions.stripe_subscription_id IS 'Stripe subscription billing a monthly or yearly plan; NULL for one-time and free purchases';
+COMMENT ON FUNCTION public.reset_monthly_allowances IS 'Monthly allowance reset for yearly plans and plans bought before recurring billing. Monthly Stripe-billed plans reset on each paid renewal.';
+
+COMMIT;